@@ -1,6 +1,7 @@
 import esbuild from "esbuild";
 import { copyFileSync, mkdirSync, existsSync, readFileSync, writeFileSync } from "fs";
-import { join } from "path";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
 
 const banner = "/* Obsidian Bases Bridge - build via esbuild */";
 const entryFile = "src/main.ts";
@@ -8,6 +9,20 @@ const outdir = "build";
 const outfile = join(outdir, "main.js");
 const isWatch = process.argv.includes("--watch");
 
+// Modules shared with the MCP server, copied from its sources rather than imported
+// across package roots. The copies are git-ignored; edit the originals.
+const sharedSourceDir = join(
+  dirname(fileURLToPath(import.meta.url)),
+  "../../src/services/bases",
+);
+const sharedOutDir = "src/shared";
+const sharedModules = [
+  "expression.ts",
+  "summary.ts",
+  "insert.ts",
+  "propertyTypes.ts",
+];
+
 const buildOptions = {
   entryPoints: [entryFile],
   bundle: true,
@@ -22,6 +37,13 @@ const buildOptions = {
   logLevel: "info",
 };
 
+function copySharedModules() {
+  mkdirSync(sharedOutDir, { recursive: true });
+  for (const file of sharedModules) {
+    copyFileSync(join(sharedSourceDir, file), join(sharedOutDir, file));
+  }
+}
+
 function postBuild() {
   mkdirSync(outdir, { recursive: true });
 
@@ -39,6 +61,7 @@ function postBuild() {
 }
 
 async function build() {
+  copySharedModules();
   if (isWatch) {
     const ctx = await esbuild.context({
       ...buildOptions,
@@ -6,6 +6,37 @@ import {
   parseYaml,
   stringifyYaml,
 } from "obsidian";
+import {
+  BasesExpressionError,
+  evaluateBasesExpression,
+  isTruthy,
+  normalizeLinkish,
+  toJSONValue,
+  type BasesEvalContext,
+  type BasesFileInfo,
+} from "./shared/expression";
+import {
+  groupItems,
+  normalizeAggregates,
+  parseGroupBy,
+  summarize,
+  viewAggregates,
+  type BasesAggregateSpec,
+} from "./shared/summary";
+import {
+  insertDefaults,
+  insertFrontmatter,
+  insertPath,
+  renderTemplate,
+  type BasesInsertDefaults,
+} from "./shared/insert";
+import {
+  parseTypesJson,
+  resolvePropertyTypes,
+  typeSchemaProperties,
+  validateProperties,
+  type BasesPropertyTypeInfo,
+} from "./shared/propertyTypes";
 
 /** -------- Engine V2 (flag + cache) -------- */
 type EngineRow = Record<string, any>;
@@ -20,6 +51,8 @@ const DEFAULT_SETTINGS: BridgeSettings = { engineEnabled: false };
 const VIEW_TYPE = "bases-bridge-headless";
 const EXTENSION_ID = "obsidian-bases-bridge";
 const REST_PREFIX = `/extensions/${EXTENSION_ID}`;
+/** Notes d'une base lues pour inférer le type des propriétés. */
+const MAX_TYPE_SAMPLES = 200;
 
 function normBaseId(id: string): string {
   if (!id) return "";
@@ -67,6 +100,7 @@ type BaseSchemaProperty = {
   kind: "note" | "file" | "formula" | "unknown";
   displayName?: string;
   valueType?: string;
+  typeSource?: "types.json" | "base" | "sampled";
 };
 type BaseSchemaView = {
   name: string;
@@ -75,6 +109,8 @@ type BaseSchemaView = {
   order?: string[];
   filters?: any;
   description?: string;
+  groupBy?: { prop: string; dir: "asc" | "desc" };
+  summaries?: Record<string, string>;
 };
 type BaseSchemaResponse = {
   id: string;
@@ -92,12 +128,21 @@ type BaseQueryRequest = {
   limit?: number;
   page?: number;
   evaluate?: boolean;
+  group_by?: string;
+  aggregates?: BasesAggregateSpec[];
 };
 type BaseQueryRow = {
   file: { path: string; name: string };
   props: Record<string, any>;
   computed?: Record<string, any>;
 };
+type BaseQueryGroup = {
+  key: unknown;
+  label: string;
+  count: number;
+  aggregates?: Record<string, unknown>;
+  rows: BaseQueryRow[];
+};
 type BaseQueryResponse = {
   total: number;
   page: number;
@@ -105,23 +150,42 @@ type BaseQueryResponse = {
   evaluate?: boolean;
   source?: "engine" | "fallback";
   warnings?: string[];
+  group_by?: string;
+  groups?: BaseQueryGroup[];
+  aggregates?: Record<string, unknown>;
 };
 type BaseUpsertOperation = {
   file: string;
   set?: Record<string, any>;
   unset?: string[];
   expected_mtime?: number;
+  mode?: "update" | "insert" | "upsert";
+  template?: string;
+};
+type BaseUpsertRequest = {
+  operations: BaseUpsertOperation[];
+  continueOnError?: boolean;
+  view?: string;
+  validation?: "coerce" | "strict" | "off";
 };
-type BaseUpsertRequest = { operations: BaseUpsertOperation[]; continueOnError?: boolean };
 type BaseUpsertResult = {
   file: string;
   mtime: number;
   changed?: { keys: string[]; unset?: string[] };
+  created?: boolean;
   warnings?: string[];
   error?: { code: string; message: string };
+  field_errors?: Array<{ key: string; expected: string; message: string }>;
 };
 type BaseUpsertResponse = { ok: boolean; results: BaseUpsertResult[] };
 
+type InsertTarget = {
+  schema: BaseSchemaResponse;
+  filters: any[];
+  defaults: BasesInsertDefaults;
+  warnings: string[];
+};
+
 function ensureBaseExt(path: string): string {
   const normalized = normBaseId(path);
   return normalized.endsWith(".base") ? normalized : `${normalized}.base`;
@@ -139,100 +203,6 @@ function clampInt(value: unknown, fallback: number, min: number, max: number): n
   return Math.max(min, Math.min(max, Math.trunc(num)));
 }
 
-function stripQuotes(value: string): string {
-  const trimmed = value.trim();
-  if (
-    (trimmed.startsWith("\"") && trimmed.endsWith("\"")) ||
-    (trimmed.startsWith("'") && trimmed.endsWith("'"))
-  ) {
-    return trimmed.slice(1, -1);
-  }
-  return trimmed;
-}
-
-function splitOutsideQuotes(input: string, needle: string): string[] {
-  const parts: string[] = [];
-  let current = "";
-  let inSingle = false;
-  let inDouble = false;
-
-  for (let i = 0; i < input.length; i++) {
-    const ch = input[i];
-    const prev = i > 0 ? input[i - 1] : "";
-    if (ch === "'" && !inDouble && prev !== "\\") inSingle = !inSingle;
-    if (ch === "\"" && !inSingle && prev !== "\\") inDouble = !inDouble;
-
-    if (!inSingle && !inDouble && input.startsWith(needle, i)) {
-      parts.push(current);
-      current = "";
-      i += needle.length - 1;
-      continue;
-    }
-    current += ch;
-  }
-
-  parts.push(current);
-  return parts.map((p) => p.trim()).filter((p) => p.length > 0);
-}
-
-function parseStringListLiteral(inner: string): string[] {
-  const parts = splitOutsideQuotes(inner, ",");
-  const values: string[] = [];
-  for (const part of parts) {
-    const v = stripQuotes(part.trim());
-    if (v) values.push(v);
-  }
-  return values;
-}
-
-function normalizeLinkish(value: string): string {
-  let v = String(value ?? "").trim();
-  const wiki = v.match(/^\\[\\[(.*)\\]\\]$/);
-  if (wiki) v = wiki[1];
-  v = v.split("|")[0] ?? v;
-  v = v.split("#")[0] ?? v;
-  v = v.replace(/\\.md$/i, "");
-  return v.trim();
-}
-
-function splitTopLevelCommas(input: string): string[] {
-  const parts: string[] = [];
-  let current = "";
-  let depth = 0;
-  let inSingle = false;
-  let inDouble = false;
-
-  for (let i = 0; i < input.length; i++) {
-    const ch = input[i]!;
-    const prev = i > 0 ? input[i - 1]! : "";
-
-    if (ch === "'" && !inDouble && prev !== "\\") {
-      inSingle = !inSingle;
-      current += ch;
-      continue;
-    }
-    if (ch === "\"" && !inSingle && prev !== "\\") {
-      inDouble = !inDouble;
-      current += ch;
-      continue;
-    }
-
-    if (!inSingle && !inDouble) {
-      if (ch === "(") depth++;
-      else if (ch === ")") depth = Math.max(0, depth - 1);
-      else if (ch === "," && depth === 0) {
-        parts.push(current);
-        current = "";
-        continue;
-      }
-    }
-
-    current += ch;
-  }
-  parts.push(current);
-  return parts;
-}
-
 export default class BasesBridgePlugin extends Plugin {
   settings: BridgeSettings = { ...DEFAULT_SETTINGS };
   private headlessMounted = false;
@@ -459,6 +429,11 @@ export default class BasesBridgePlugin extends Plugin {
               : undefined,
           filters: (view as any).filters,
           description: typeof (view as any).description === "string" ? (view as any).description : undefined,
+          groupBy: parseGroupBy((view as any).groupBy),
+          summaries:
+            (view as any).summaries && typeof (view as any).summaries === "object" && !Array.isArray((view as any).summaries)
+              ? Object.fromEntries(Object.entries((view as any).summaries).map(([k, v]) => [k, String(v)]))
+              : undefined,
         });
       }
     }
@@ -502,19 +477,44 @@ export default class BasesBridgePlugin extends Plugin {
     return tags;
   }
 
-  private fileHasLink(file: TFile, target: string): boolean {
-    const want = target.trim();
-    if (!want) return false;
-    const cache = this.app.metadataCache.getFileCache(file);
-    const links = cache?.links ?? [];
-    const normalizedWant = want.replace(/\.md$/i, "");
-    for (const link of links) {
-      const raw = typeof (link as any).link === "string" ? (link as any).link : "";
-      if (!raw) continue;
-      const normalizedLink = raw.replace(/\.md$/i, "");
-      if (normalizedLink === normalizedWant || raw === want) return true;
-    }
-    return false;
+  /** Vue du fichier pour l’évaluateur d’expressions (tags et liens calculés à la demande). */
+  private fileInfo(file: TFile): BasesFileInfo {
+    return {
+      path: file.path,
+      size: file.stat.size,
+      ctime: file.stat.ctime,
+      mtime: file.stat.mtime,
+      tags: () => Array.from(this.getTagSet(file)),
+      links: () => {
+        const cache: any = this.app.metadataCache.getFileCache(file);
+        return [...(cache?.links ?? []), ...(cache?.frontmatterLinks ?? [])]
+          .map((l: any) => (typeof l?.link === "string" ? l.link : ""))
+          .filter(Boolean);
+      },
+      properties: () => this.getFrontmatter(file),
+    };
+  }
+
+  /** `pending` : formules en cours d’évaluation, pour détecter les références circulaires. */
+  private expressionContext(file: TFile, schema: BaseSchemaResponse | undefined, pending: Set<string>): BasesEvalContext {
+    return {
+      file: this.fileInfo(file),
+      formula: (name) => {
+        const expr = schema?.formulas?.[name];
+        if (typeof expr !== "string") return null;
+        if (pending.has(name)) throw new BasesExpressionError(`Formule circulaire: formula.${name}`);
+        pending.add(name);
+        try {
+          return evaluateBasesExpression(expr, this.expressionContext(file, schema, pending));
+        } finally {
+          pending.delete(name);
+        }
+      },
+      resolveFile: (target) => {
+        const dest = this.app.metadataCache.getFirstLinkpathDest(normalizeLinkish(target), file.path);
+        return dest ? this.fileInfo(dest) : undefined;
+      },
+    };
   }
 
   private getValueForRef(file: TFile, ref: string, schema?: BaseSchemaResponse): any {
@@ -561,70 +561,17 @@ export default class BasesBridgePlugin extends Plugin {
   }
 
   /**
-   * Évalue un sous-ensemble “safe” de formules Bases.
+   * Évalue une formule Bases (voir `basesExpression.ts`).
    * Objectif : améliorer le mode fallback quand l’engine est désactivé.
    */
   private evalFormulaExpression(file: TFile, expr: string, schema?: BaseSchemaResponse): any {
     const raw = String(expr ?? "").trim();
     if (!raw) return undefined;
-
-    // Literals
-    if (raw === "null") return null;
-    if (/^-?\d+(?:\.\d+)?$/.test(raw)) return Number(raw);
-    if ((raw.startsWith("\"") && raw.endsWith("\"")) || (raw.startsWith("'") && raw.endsWith("'"))) {
-      return stripQuotes(raw);
-    }
-
-    // Direct refs
-    if (raw.startsWith("file.") || raw.startsWith("note.") || raw.startsWith("formula.")) {
-      return this.getValueForRef(file, raw, schema);
+    try {
+      return toJSONValue(evaluateBasesExpression(raw, this.expressionContext(file, schema, new Set())));
+    } catch {
+      return undefined;
     }
-    if (/^[\p{L}\p{N}_-]+$/u.test(raw)) {
-      return this.getValueForRef(file, raw, schema);
-    }
-
-    // join(list(x))
-    const joinListMatch = raw.match(/^join\s*\(\s*list\s*\(\s*([^\)]+)\s*\)\s*\)\s*$/s);
-    if (joinListMatch) {
-      const ref = String(joinListMatch[1] ?? "").trim();
-      const v = this.getValueForRef(file, ref, schema);
-      const arr = Array.isArray(v) ? v : v === undefined || v === null ? [] : [v];
-      return arr.map((x) => String(x)).join(", ");
-    }
-
-    // list(x)
-    const listMatch = raw.match(/^list\s*\(\s*([^\)]+)\s*\)\s*$/s);
-    if (listMatch) {
-      const ref = String(listMatch[1] ?? "").trim();
-      const v = this.getValueForRef(file, ref, schema);
-      if (v === undefined || v === null) return [];
-      return Array.isArray(v) ? v : [v];
-    }
-
-    // if(a, b, c)
-    const ifMatch = raw.match(/^if\((.*)\)$/s);
-    if (ifMatch) {
-      const args = splitTopLevelCommas(String(ifMatch[1] ?? "")).map((x) => x.trim());
-      if (args.length >= 3) {
-        const condRef = args[0]!;
-        const thenRef = args[1]!;
-        const elseExpr = args.slice(2).join(",").trim();
-
-        const condVal = this.getValueForRef(file, condRef, schema);
-        const condOk =
-          condVal === true ||
-          (typeof condVal === "string" && condVal.trim().length > 0) ||
-          (typeof condVal === "number" && Number.isFinite(condVal)) ||
-          (Array.isArray(condVal) && condVal.length > 0) ||
-          (condVal && typeof condVal === "object" && Object.keys(condVal).length > 0);
-
-        return condOk
-          ? this.getValueForRef(file, thenRef, schema)
-          : this.evalFormulaExpression(file, elseExpr, schema);
-      }
-    }
-
-    return undefined;
   }
 
   private buildComputed(file: TFile, schema: BaseSchemaResponse): Record<string, any> {
@@ -643,205 +590,17 @@ export default class BasesBridgePlugin extends Plugin {
     statement: string,
     schema?: BaseSchemaResponse,
   ): { ok: boolean; warnings: string[] } {
-    const warnings: string[] = [];
     const raw = String(statement ?? "").trim();
-    if (!raw) return { ok: true, warnings };
-
-    // OR / AND at top-level (simple heuristic, split outside quotes).
-    const orParts = splitOutsideQuotes(raw, " or ");
-    if (orParts.length > 1) {
-      let any = false;
-      for (const part of orParts) {
-        const res = this.evaluateStatement(file, part, schema);
-        warnings.push(...res.warnings);
-        if (res.ok) any = true;
-      }
-      return { ok: any, warnings };
-    }
-    const orParts2 = splitOutsideQuotes(raw, "||");
-    if (orParts2.length > 1) {
-      let any = false;
-      for (const part of orParts2) {
-        const res = this.evaluateStatement(file, part, schema);
-        warnings.push(...res.warnings);
-        if (res.ok) any = true;
-      }
-      return { ok: any, warnings };
+    if (!raw) return { ok: true, warnings: [] };
+
+    try {
+      const value = evaluateBasesExpression(raw, this.expressionContext(file, schema, new Set()));
+      return { ok: isTruthy(value), warnings: [] };
+    } catch (error) {
+      // Un filtre qu’on ne sait pas évaluer exclut la note : mieux vaut trop peu de lignes que toute la base.
+      const reason = error instanceof BasesExpressionError ? error.message : String(error);
+      return { ok: false, warnings: [`Filtre invalide: ${raw} (${reason})`] };
     }
-
-    const andParts = splitOutsideQuotes(raw, " and ");
-    if (andParts.length > 1) {
-      for (const part of andParts) {
-        const res = this.evaluateStatement(file, part, schema);
-        warnings.push(...res.warnings);
-        if (!res.ok) return { ok: false, warnings };
-      }
-      return { ok: true, warnings };
-    }
-    const andParts2 = splitOutsideQuotes(raw, "&&");
-    if (andParts2.length > 1) {
-      for (const part of andParts2) {
-        const res = this.evaluateStatement(file, part, schema);
-        warnings.push(...res.warnings);
-        if (!res.ok) return { ok: false, warnings };
-      }
-      return { ok: true, warnings };
-    }
-
-    // Unary not
-    if (raw.startsWith("not ")) {
-      const res = this.evaluateStatement(file, raw.slice(4), schema);
-      warnings.push(...res.warnings);
-      return { ok: !res.ok, warnings };
-    }
-    if (raw.startsWith("!")) {
-      const res = this.evaluateStatement(file, raw.slice(1), schema);
-      warnings.push(...res.warnings);
-      return { ok: !res.ok, warnings };
-    }
-
-    // Built-in functions
-    const hasTagMatch = raw.match(/^file\.hasTag\((.+)\)$/);
-    if (hasTagMatch) {
-      const tag = stripQuotes(hasTagMatch[1]);
-      return { ok: this.getTagSet(file).has(tag.replace(/^#/, "")), warnings };
-    }
-    const inFolderMatch = raw.match(/^file\.inFolder\((.+)\)$/);
-    if (inFolderMatch) {
-      const folder = stripQuotes(inFolderMatch[1]).replace(/\\/g, "/").replace(/\/+$/g, "");
-      const prefix = folder ? `${folder}/` : "";
-      return { ok: prefix ? file.path.startsWith(prefix) : true, warnings };
-    }
-    const hasLinkMatch = raw.match(/^file\.hasLink\((.+)\)$/);
-    if (hasLinkMatch) {
-      const target = stripQuotes(hasLinkMatch[1]);
-      return { ok: this.fileHasLink(file, target), warnings };
-    }
-
-    // List literal contains: ["a","b"].contains(file.ext)
-    const listContainsMatch = raw.match(/^\[(.*)\]\.contains\((.*)\)$/s);
-    if (listContainsMatch) {
-      const items = parseStringListLiteral(listContainsMatch[1]);
-      const needleRef = listContainsMatch[2].trim();
-      let needle = this.getValueForRef(file, needleRef, schema);
-      if (needle === undefined) needle = stripQuotes(needleRef);
-      return { ok: items.includes(String(needle ?? "")), warnings };
-    }
-
-    // String helpers on file.*
-    const pathStartsWithMatch = raw.match(/^file\.path\.startsWith\((.+)\)$/);
-    if (pathStartsWithMatch) {
-      const prefix = stripQuotes(pathStartsWithMatch[1]).replace(/\\/g, "/");
-      return { ok: file.path.startsWith(prefix), warnings };
-    }
-    const pathContainsMatch = raw.match(/^file\.path\.contains\((.+)\)$/);
-    if (pathContainsMatch) {
-      const needle = stripQuotes(pathContainsMatch[1]).replace(/\\/g, "/");
-      return { ok: file.path.includes(needle), warnings };
-    }
-    const folderStartsWithMatch = raw.match(/^file\.folder\.startsWith\((.+)\)$/);
-    if (folderStartsWithMatch) {
-      const prefix = stripQuotes(folderStartsWithMatch[1]).replace(/\\/g, "/").replace(/\/+$/g, "");
-      const folder = dirname(file.path);
-      return { ok: folder.startsWith(prefix), warnings };
-    }
-    const folderContainsMatch = raw.match(/^file\.folder\.contains\((.+)\)$/);
-    if (folderContainsMatch) {
-      const needle = stripQuotes(folderContainsMatch[1]).replace(/\\/g, "/");
-      const folder = dirname(file.path);
-      return { ok: folder.includes(needle), warnings };
-    }
-
-    // file.tags.contains("tag/subtag")
-    const fileTagsContainsMatch = raw.match(/^file\.tags\.contains\((.+)\)$/);
-    if (fileTagsContainsMatch) {
-      const tag = stripQuotes(fileTagsContainsMatch[1]);
-      return { ok: this.getTagSet(file).has(tag.replace(/^#/, "")), warnings };
-    }
-
-    // collection.contains(link("Domaines")) / list(dans).contains(link("Atlas/Maps/Réunions"))
-    const listPropContainsLinkMatch = raw.match(
-      /^list\(([\p{L}\p{N}_-]+)\)\.contains\(link\((.+)\)\)$/u
-    );
-    if (listPropContainsLinkMatch) {
-      const key = listPropContainsLinkMatch[1];
-      const targetRaw = stripQuotes(listPropContainsLinkMatch[2]);
-      const want = normalizeLinkish(targetRaw);
-      const v = this.getValueForRef(file, key, schema);
-      const arr = Array.isArray(v) ? v : v === undefined || v === null ? [] : [v];
-      const ok = arr.some((x) => normalizeLinkish(String(x)) === want);
-      return { ok, warnings };
-    }
-    const propContainsLinkMatch = raw.match(/^([\p{L}\p{N}_-]+)\.contains\(link\((.+)\)\)$/u);
-    if (propContainsLinkMatch) {
-      const key = propContainsLinkMatch[1];
-      const targetRaw = stripQuotes(propContainsLinkMatch[2]);
-      const want = normalizeLinkish(targetRaw);
-      const v = this.getValueForRef(file, key, schema);
-      const arr = Array.isArray(v) ? v : v === undefined || v === null ? [] : [v];
-      const ok = arr.some((x) => normalizeLinkish(String(x)) === want);
-      return { ok, warnings };
-    }
-
-    // Generic contains/startsWith on simple file.* fields
-    const fileFieldOpMatch = raw.match(/^file\.(path|name|folder|ext)\.(contains|startsWith)\((.+)\)$/);
-    if (fileFieldOpMatch) {
-      const field = `file.${fileFieldOpMatch[1]}`;
-      const op = fileFieldOpMatch[2];
-      const needle = stripQuotes(fileFieldOpMatch[3]);
-      const hay = String(this.getValueForRef(file, field, schema) ?? "");
-      if (op === "contains") return { ok: hay.includes(needle), warnings };
-      return { ok: hay.startsWith(needle), warnings };
-    }
-
-    // Comparisons: support ==, =, !=, >=, <=, >, <
-    const opMatch = raw.match(/^(.*?)\s*(==|=|!=|>=|<=|>|<)\s*(.*?)\s*$/);
-    if (opMatch) {
-      const leftRef = opMatch[1].trim();
-      const op = opMatch[2];
-      const rightRaw = opMatch[3].trim();
-
-      const left = this.getValueForRef(file, leftRef, schema);
-      let right: any = stripQuotes(rightRaw);
-      if (/^(true|false)$/i.test(rightRaw)) right = /^true$/i.test(rightRaw);
-      else if (/^-?\d+(\.\d+)?$/.test(rightRaw)) right = Number(rightRaw);
-
-      const leftNum = typeof left === "number" ? left : Number(left);
-      const rightNum = typeof right === "number" ? right : Number(right);
-      const bothNumeric = Number.isFinite(leftNum) && Number.isFinite(rightNum);
-
-      switch (op) {
-        case "==":
-        case "=":
-          return { ok: bothNumeric ? leftNum === rightNum : String(left) === String(right), warnings };
-        case "!=":
-          return { ok: bothNumeric ? leftNum !== rightNum : String(left) !== String(right), warnings };
-        case ">":
-          return { ok: bothNumeric ? leftNum > rightNum : String(left) > String(right), warnings };
-        case "<":
-          return { ok: bothNumeric ? leftNum < rightNum : String(left) < String(right), warnings };
-        case ">=":
-          return { ok: bothNumeric ? leftNum >= rightNum : String(left) >= String(right), warnings };
-        case "<=":
-          return { ok: bothNumeric ? leftNum <= rightNum : String(left) <= String(right), warnings };
-      }
-    }
-
-    // Bare identifier: treat as "truthy" frontmatter key (used a lot in Bases configs)
-    // Ex: `- groupe_réunion` or `- sas_statut`
-    if (/^[\p{L}\p{N}_-]+$/u.test(raw)) {
-      const v = this.getValueForRef(file, raw, schema);
-      const ok =
-        v === true ||
-        (typeof v === "string" && v.trim().length > 0) ||
-        (typeof v === "number" && Number.isFinite(v)) ||
-        (Array.isArray(v) && v.length > 0) ||
-        (v && typeof v === "object" && Object.keys(v).length > 0);
-      return { ok, warnings };
-    }
-
-    warnings.push(`Filter non reconnu: ${raw}`);
-    return { ok: true, warnings };
   }
 
   private evaluateFilter(file: TFile, filter: any, schema?: BaseSchemaResponse): { ok: boolean; warnings: string[] } {
@@ -869,7 +628,9 @@ export default class BasesBridgePlugin extends Plugin {
         return { ok: any, warnings };
       }
       if ((filter as any).not) {
-        const res = this.evaluateFilter(file, (filter as any).not, schema);
+        // `not: [a, b]` : aucune des conditions.
+        const not = (filter as any).not;
+        const res = this.evaluateFilter(file, Array.isArray(not) ? { or: not } : not, schema);
         return { ok: !res.ok, warnings: res.warnings };
       }
     }
@@ -891,6 +652,99 @@ export default class BasesBridgePlugin extends Plugin {
     return props;
   }
 
+  /** Types des propriétés : `types.json`, puis déclarations de la base, puis notes de la base. */
+  private async propertyTypes(schema?: BaseSchemaResponse): Promise<Record<string, BasesPropertyTypeInfo>> {
+    let typesJson = {};
+    try {
+      typesJson = parseTypesJson(await this.app.vault.adapter.read(`${this.app.vault.configDir}/types.json`));
+    } catch {}
+    const declared: Record<string, unknown> = {};
+    for (const p of schema?.properties ?? []) {
+      if (p.kind === "note" && p.valueType) declared[p.key.replace(/^note\./, "")] = p.valueType;
+    }
+    const samples: Record<string, unknown>[] = [];
+    if (schema) {
+      for (const file of this.app.vault.getMarkdownFiles()) {
+        if (samples.length >= MAX_TYPE_SAMPLES) break;
+        if (this.evaluateFilter(file, schema.filters, schema).ok) samples.push(this.getFrontmatter(file));
+      }
+    }
+    return resolvePropertyTypes(typesJson, declared, samples);
+  }
+
+  private async insertTarget(baseId: string, viewName?: string): Promise<InsertTarget> {
+    const config = await this.readBaseConfig(baseId);
+    const schema = this.extractSchema(config.id, config.json);
+    const view = viewName ? schema.views.find((v) => v.name === viewName) : undefined;
+    const filters = [schema.filters, view?.filters].filter(Boolean);
+    return {
+      schema,
+      filters,
+      defaults: insertDefaults(...filters),
+      warnings: viewName && !view ? [`Vue introuvable: ${viewName}`] : [],
+    };
+  }
+
+  /** Crée une note appartenant à la base, puis vérifie qu'elle en satisfait les filtres. */
+  private async insertRow(filePath: string, op: BaseUpsertOperation, target: InsertTarget): Promise<BaseUpsertResult> {
+    let templateFm: Record<string, any> = {};
+    let body = "";
+    if (op?.template) {
+      let templatePath: string;
+      try {
+        templatePath = insertPath(normBaseId(String(op.template)));
+      } catch (e: any) {
+        return { file: filePath, mtime: 0, error: { code: "validation_error", message: String(e?.message ?? e) } };
+      }
+      const templateFile = this.app.vault.getAbstractFileByPath(templatePath);
+      if (!(templateFile instanceof TFile)) {
+        return { file: filePath, mtime: 0, error: { code: "not_found", message: `Modèle introuvable: ${templatePath}` } };
+      }
+      const content = await this.app.vault.read(templateFile);
+      const end = this.app.metadataCache.getFileCache(templateFile)?.frontmatterPosition?.end?.offset;
+      templateFm = { ...this.getFrontmatter(templateFile) };
+      delete templateFm.position;
+      const basename = filePath.slice(filePath.lastIndexOf("/") + 1).replace(/\.md$/i, "");
+      body = renderTemplate(end ? content.slice(end).replace(/^\r?\n/, "") : content, basename);
+    }
+
+    const setObj = op?.set && typeof op.set === "object" && !Array.isArray(op.set) ? (op.set as Record<string, any>) : {};
+    const frontmatter = insertFrontmatter(target.defaults, templateFm, setObj);
+    for (const k of Array.isArray(op?.unset) ? op.unset : []) delete frontmatter[k];
+
+    let file: TFile;
+    try {
+      await this.ensureFoldersFor(filePath);
+      file = await this.app.vault.create(filePath, body);
+      await (this.app as any).fileManager.processFrontMatter(file, (fm: any) => Object.assign(fm, frontmatter));
+    } catch (e: any) {
+      return { file: filePath, mtime: 0, error: { code: "write_error", message: String(e?.message ?? e) } };
+    }
+
+    // Le metadataCache est mis à jour de façon asynchrone après l'écriture.
+    const keys = Object.keys(frontmatter);
+    for (let i = 0; i < 20 && !keys.every((k) => k in this.getFrontmatter(file)); i++) {
+      await new Promise((resolve) => window.setTimeout(resolve, 100));
+    }
+    const check = this.evaluateFilter(file, { and: target.filters }, target.schema);
+    // Les conditions non appliquées n'importent que si la note est exclue.
+    const warnings = [
+      ...target.warnings,
+      ...check.warnings,
+      ...(check.ok ? [] : target.defaults.skipped.map((c) => `Condition non appliquée: ${c}`)),
+    ];
+    return {
+      file: filePath,
+      mtime: file.stat.mtime,
+      created: true,
+      changed: { keys },
+      warnings: warnings.length ? warnings : undefined,
+      error: check.ok
+        ? undefined
+        : { code: "filter_mismatch", message: "Note créée mais hors de la base : elle ne satisfait pas ses filtres." },
+    };
+  }
+
   private async registerRestExtension(): Promise<void> {
     await new Promise<void>((resolve) => this.app.workspace.onLayoutReady(() => resolve()));
     let mounted = false;
@@ -1068,7 +922,8 @@ export default class BasesBridgePlugin extends Plugin {
           const id = normBaseId(req.params?.id);
           const config = await this.readBaseConfig(id);
           const schema = this.extractSchema(config.id, config.json);
-          res.json(schema);
+          const types = await this.propertyTypes(schema);
+          res.json({ ...schema, properties: typeSchemaProperties(schema.properties, types) });
         };
 
         api.addRoute(`${REST_PREFIX}/bases/:id(*)/schema`).get(getBaseSchema);
@@ -1148,18 +1003,43 @@ export default class BasesBridgePlugin extends Plugin {
             });
           }
 
+          // groupBy / summaries de la vue, sauf si la requête fournit les siens.
+          const groupBy = body?.group_by !== undefined ? parseGroupBy(body.group_by) : view?.groupBy;
+          const summaries =
+            body?.aggregates !== undefined ? normalizeAggregates(body.aggregates) : viewAggregates(view?.summaries);
+          addWarnings(summaries.warnings);
+          const aggregates = summaries.aggregates.length ? summaries.aggregates : undefined;
+          const valueOf = (file: TFile, prop: string) => this.getValueForRef(file, prop, schema);
+          const groups = groupBy ? groupItems(matches, (file) => valueOf(file, groupBy.prop), groupBy.dir) : undefined;
+          const ordered = groups ? groups.flatMap((g) => g.items) : matches;
+
           const total = matches.length;
           const start = (page - 1) * limit;
-          const slice = matches.slice(start, start + limit);
+          const slice = ordered.slice(start, start + limit);
 
           const rows: BaseQueryRow[] = slice.map((file) => ({
             file: { path: file.path, name: file.basename },
             props: this.buildRowProps(file, schema),
             computed: body?.evaluate ? this.buildComputed(file, schema) : undefined,
           }));
+          const pageRows = new Map(slice.map((file, i) => [file, rows[i]] as const));
+          const grouping = groups
+            ? {
+                group_by: groupBy!.prop,
+                groups: groups.map((g) => ({
+                  key: g.key,
+                  label: g.label,
+                  count: g.items.length,
+                  aggregates: aggregates ? summarize(g.items, aggregates, valueOf) : undefined,
+                  rows: g.items.flatMap((file) => pageRows.get(file) ?? []),
+                })),
+              }
+            : {};
+          const overall = aggregates ? summarize(matches, aggregates, valueOf) : undefined;
 
           const evaluate = !!body?.evaluate;
-          const shouldEngine = evaluate && this.settings.engineEnabled;
+          // Le cache engine suit l'ordre de la vue, pas celui des groupes.
+          const shouldEngine = evaluate && this.settings.engineEnabled && !groups;
           let snap = shouldEngine ? ENGINE_CACHE.get(ensureBaseExt(id)) : undefined;
           if (shouldEngine && !snap) {
             const engineRows: BaseQueryRow[] = matches.map((file) => ({
@@ -1182,6 +1062,7 @@ export default class BasesBridgePlugin extends Plugin {
               evaluate,
               source: "engine",
               warnings,
+              aggregates: overall,
             };
             res.json(response);
             return;
@@ -1190,10 +1071,12 @@ export default class BasesBridgePlugin extends Plugin {
           const response: BaseQueryResponse = {
             total,
             page,
-            rows,
+            rows: groups ? [] : rows,
             evaluate,
             source: "fallback",
             warnings,
+            ...grouping,
+            aggregates: overall,
           };
           res.json(response);
         };
@@ -1202,12 +1085,62 @@ export default class BasesBridgePlugin extends Plugin {
         api.addRoute(`/bases/:id(*)/query`).post(queryBase);
 
         const upsertBase = async (req: any, res: any) => {
+          const id = normBaseId(req.params?.id);
           const body: BaseUpsertRequest = (req.body ?? {}) as any;
           const continueOnError = !!body?.continueOnError;
           const results: BaseUpsertResult[] = [];
+          // La base n'est lue qu'à la première création.
+          let target: InsertTarget | undefined;
+          const validation = body?.validation ?? "coerce";
+          let types: Record<string, BasesPropertyTypeInfo> | undefined;
+          // Conversions de valeurs, par opération (une opération = un résultat).
+          const conversions: string[][] = [];
+
+          for (const rawOp of body?.operations ?? []) {
+            const rawSet =
+              rawOp?.set && typeof rawOp.set === "object" && !Array.isArray(rawOp.set) ? rawOp.set : {};
+            let op = rawOp;
+            if (validation !== "off" && Object.keys(rawSet).length) {
+              if (!types) {
+                const schema = await this.readBaseConfig(id)
+                  .then((config) => this.extractSchema(config.id, config.json))
+                  .catch(() => undefined);
+                types = await this.propertyTypes(schema);
+              }
+              const checked = validateProperties(rawSet, types, validation);
+              if (checked.errors.length) {
+                results.push({
+                  file: normBaseId(String(rawOp?.file ?? "")),
+                  mtime: 0,
+                  error: {
+                    code: "validation_error",
+                    message: `Valeurs invalides: ${checked.errors.map((e) => e.key).join(", ")}`,
+                  },
+                  field_errors: checked.errors,
+                });
+                if (!continueOnError) break;
+                continue;
+              }
+              conversions[results.length] = checked.warnings;
+              op = { ...rawOp, set: checked.values };
+            }
 
-          for (const op of body?.operations ?? []) {
-            const filePath = normBaseId(String(op?.file ?? ""));
+            const mode = op?.mode ?? "update";
+            let filePath = normBaseId(String(op?.file ?? ""));
+            if (filePath && mode !== "update") {
+              target ??= await this.insertTarget(id, body?.view);
+              try {
+                filePath = insertPath(filePath, target.defaults.folder);
+              } catch (e: any) {
+                results.push({
+                  file: filePath,
+                  mtime: 0,
+                  error: { code: "validation_error", message: String(e?.message ?? e) },
+                });
+                if (!continueOnError) break;
+                continue;
+              }
+            }
             if (!filePath) {
               results.push({
                 file: "",
@@ -1219,6 +1152,21 @@ export default class BasesBridgePlugin extends Plugin {
             }
 
             const abstract = this.app.vault.getAbstractFileByPath(filePath);
+            if (abstract instanceof TFile && mode === "insert") {
+              results.push({
+                file: filePath,
+                mtime: abstract.stat.mtime,
+                error: { code: "already_exists", message: `La note existe déjà: ${filePath}` },
+              });
+              if (!continueOnError) break;
+              continue;
+            }
+            if (!abstract && target) {
+              const result = await this.insertRow(filePath, op, target);
+              results.push(result);
+              if (result.error && !continueOnError) break;
+              continue;
+            }
             if (!(abstract instanceof TFile)) {
               results.push({
                 file: filePath,
@@ -1271,6 +1219,9 @@ export default class BasesBridgePlugin extends Plugin {
             }
           }
 
+          results.forEach((r, i) => {
+            if (conversions[i]?.length) r.warnings = [...conversions[i], ...(r.warnings ?? [])];
+          });
           const ok = results.every((r) => !r.error);
           const response: BaseUpsertResponse = { ok, results };
           res.json(response);
@@ -0,0 +1,236 @@
+/**
+ * @fileoverview Tests of the local Bases engine (`src/services/bases/engine.ts`) and of the
+ * bridge-or-local routing of `BasesService`, run against a copy of `scripts/fixtures/bases-vault`.
+ * The Local REST API is replaced by a stub, so neither Obsidian nor the plugin is needed.
+ * @module scripts/bases-engine.test
+ *
+ * @example
+ * // npm run test:bases
+ */
+
+import assert from "node:assert/strict";
+import { cpSync, mkdtempSync, rmSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, describe, it } from "node:test";
+import { fileURLToPath } from "node:url";
+
+const fixture = fileURLToPath(
+  new URL("./fixtures/bases-vault", import.meta.url),
+);
+const vault = mkdtempSync(path.join(os.tmpdir(), "bases-engine-"));
+cpSync(fixture, vault, { recursive: true });
+after(() => rmSync(vault, { recursive: true, force: true }));
+
+// The config is read on import: the vault path must be set first.
+process.env.OBSIDIAN_API_KEY ??= "offline-test";
+process.env.OBSIDIAN_VAULT = vault;
+const { BasesService, LocalBasesEngine } = await import(
+  "../dist/services/bases/index.js"
+);
+const { BaseErrorCode, McpError } = await import(
+  "../dist/types-global/errors.js"
+);
+
+const context = {
+  requestId: "bases-engine-test",
+  timestamp: new Date().toISOString(),
+};
+const engine = new LocalBasesEngine({ vaultRoot: vault });
+const paths = (rows) => rows.map((row) => row.file.path);
+
+/** REST client whose Bases routes all fail with `code`, counting the calls. */
+const failingBridge = (code) => {
+  const calls = [];
+  const fail = (name) => async () => {
+    calls.push(name);
+    throw new McpError(code, `${name} failed`);
+  };
+  return {
+    calls,
+    service: {
+      listBases: fail("listBases"),
+      getBaseSchema: fail("getBaseSchema"),
+      queryBase: fail("queryBase"),
+      upsertBaseRows: fail("upsertBaseRows"),
+    },
+  };
+};
+
+describe("LocalBasesEngine", () => {
+  it("lists the .base files of the vault", async () => {
+    const { bases } = await engine.listBases(context);
+    assert.deepEqual(bases, [
+      { id: "Projects.base", path: "Projects.base", name: "Projects" },
+    ]);
+  });
+
+  it("applies the base and view filters, then the view order", async () => {
+    const response = await engine.queryBase("Projects", {}, context);
+    assert.equal(response.source, "local");
+    assert.equal(response.total, 2);
+    assert.deepEqual(paths(response.rows), [
+      "Projects/Alpha.md",
+      "Projects/Gamma.md",
+    ]);
+    assert.deepEqual(response.warnings, []);
+  });
+
+  it("adds the request filter and sort to the view", async () => {
+    const response = await engine.queryBase(
+      "Projects.base",
+      {
+        view: "By status",
+        filter: { and: ["priority >= 2"] },
+        sort: [{ prop: "priority", dir: "asc" }],
+        group_by: "",
+      },
+      context,
+    );
+    assert.deepEqual(paths(response.rows), [
+      "Projects/Gamma.md",
+      "Projects/Alpha.md",
+    ]);
+  });
+
+  it("sorts dates by value and puts missing values last", async () => {
+    const response = await engine.queryBase(
+      "Projects",
+      { view: "By status", sort: [{ prop: "due", dir: "desc" }], group_by: "" },
+      context,
+    );
+    assert.deepEqual(paths(response.rows), [
+      "Projects/Beta.md",
+      "Projects/Alpha.md",
+      "Projects/Gamma.md",
+    ]);
+  });
+
+  it("groups and summarizes with the view's settings", async () => {
+    const response = await engine.queryBase(
+      "Projects",
+      { view: "By status", sort: [{ prop: "file.name" }] },
+      context,
+    );
+    assert.equal(response.group_by, "status");
+    assert.deepEqual(response.rows, []);
+    assert.deepEqual(
+      response.groups.map((group) => ({
+        key: group.key,
+        count: group.count,
+        aggregates: group.aggregates,
+        rows: paths(group.rows),
+      })),
+      [
+        {
+          key: "active",
+          count: 2,
+          aggregates: { estimate: 5 },
+          rows: ["Projects/Alpha.md", "Projects/Gamma.md"],
+        },
+        {
+          key: "done",
+          count: 1,
+          aggregates: { estimate: 2 },
+          rows: ["Projects/Beta.md"],
+        },
+      ],
+    );
+    assert.deepEqual(response.aggregates, { estimate: 7 });
+  });
+
+  it("evaluates formulas in props and, on request, in computed", async () => {
+    const response = await engine.queryBase(
+      "Projects",
+      { evaluate: true },
+      context,
+    );
+    const alpha = response.rows[0];
+    assert.equal(alpha.props.effort, 10);
+    assert.equal(alpha.props.status, "active");
+    assert.deepEqual(alpha.computed, { effort: 10 });
+  });
+
+  it("reports invalid filters as warnings", async () => {
+    const response = await engine.queryBase(
+      "Projects",
+      { filter: { and: ["priority >"] } },
+      context,
+    );
+    assert.equal(response.total, 0);
+    assert.equal(response.warnings.length, 1);
+    assert.match(response.warnings[0], /^Filtre invalide: priority >/);
+  });
+
+  it("types the schema from types.json and the notes", async () => {
+    const schema = await engine.getBaseSchema("Projects", context);
+    const types = Object.fromEntries(
+      schema.properties.map((property) => [
+        property.key,
+        [property.valueType, property.typeSource],
+      ]),
+    );
+    assert.deepEqual(types.priority, ["number", "types.json"]);
+    assert.deepEqual(types.due, ["date", "types.json"]);
+    assert.deepEqual(types.estimate, ["number", "sampled"]);
+    assert.deepEqual(types.effort, ["formula", undefined]);
+  });
+
+  it("rejects unknown bases and paths outside the vault", async () => {
+    await assert.rejects(
+      engine.queryBase("Missing", {}, context),
+      (error) => error.code === BaseErrorCode.NOT_FOUND,
+    );
+    await assert.rejects(
+      engine.queryBase("../Projects", {}, context),
+      (error) => error.code === BaseErrorCode.VALIDATION_ERROR,
+    );
+  });
+});
+
+describe("BasesService fallback", () => {
+  it("serves requests locally when the plugin routes are missing", async () => {
+    const bridge = failingBridge(BaseErrorCode.NOT_FOUND);
+    const service = new BasesService(bridge.service, undefined, "auto");
+
+    const response = await service.queryBase("Projects", {}, context);
+    assert.equal(response.source, "local");
+    assert.equal(response.total, 2);
+    assert.deepEqual(bridge.calls, ["queryBase", "listBases"]);
+
+    // The plugin is not looked for again right away.
+    await service.listBases(context);
+    assert.deepEqual(bridge.calls, ["queryBase", "listBases"]);
+  });
+
+  it("surfaces a missing base when the plugin answers", async () => {
+    const bridge = failingBridge(BaseErrorCode.NOT_FOUND);
+    bridge.service.listBases = async () => ({ bases: [] });
+    const service = new BasesService(bridge.service, undefined, "auto");
+
+    await assert.rejects(
+      service.queryBase("Missing", {}, context),
+      /queryBase failed/,
+    );
+  });
+
+  it("reads the vault from disk when Obsidian is unreachable", async () => {
+    const bridge = failingBridge(BaseErrorCode.SERVICE_UNAVAILABLE);
+    const service = new BasesService(bridge.service, undefined, "auto");
+
+    const response = await service.queryBase("Projects", {}, context);
+    assert.equal(response.source, "local");
+    assert.deepEqual(bridge.calls, ["queryBase"]);
+  });
+
+  it("never falls back when pinned to the bridge", async () => {
+    const bridge = failingBridge(BaseErrorCode.NOT_FOUND);
+    const service = new BasesService(bridge.service, undefined, "bridge");
+
+    await assert.rejects(
+      service.queryBase("Projects", {}, context),
+      /queryBase failed/,
+    );
+    assert.deepEqual(bridge.calls, ["queryBase"]);
+  });
+});
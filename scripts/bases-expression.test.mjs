@@ -0,0 +1,92 @@
+/**
+ * @fileoverview Tests of the Bases expression evaluator (`src/services/bases/expression.ts`),
+ * run against the compiled output without Obsidian or a vault.
+ * @module scripts/bases-expression.test
+ *
+ * @example
+ * // npm run test:bases
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  BasesExpressionError,
+  evaluateBasesExpression,
+  formatDate,
+} from "../dist/services/bases/expression.js";
+
+const file = {
+  path: "Projects/alpha.md",
+  size: 120,
+  ctime: new Date(2026, 0, 1).getTime(),
+  mtime: new Date(2026, 0, 2).getTime(),
+  tags: () => ["project"],
+  links: () => [],
+  properties: () => ({ status: "active", priority: 2, due: "2026-01-31" }),
+};
+
+const evaluate = (source) =>
+  evaluateBasesExpression(source, {
+    file,
+    now: new Date(2026, 9, 19, 12).getTime(),
+  });
+const day = (source) => formatDate(evaluate(source), "YYYY-MM-DD");
+
+describe("precedence", () => {
+  it("multiplies before adding", () => {
+    assert.equal(evaluate("1 + 2 * 3"), 7);
+    assert.equal(evaluate("(1 + 2) * 3"), 9);
+    assert.equal(evaluate("10 - 4 - 3"), 3);
+  });
+
+  it("binds && tighter than ||", () => {
+    assert.equal(evaluate("true || false && false"), true);
+    assert.equal(evaluate("(true || false) && false"), false);
+  });
+
+  it("compares after arithmetic", () => {
+    assert.equal(evaluate("priority + 1 > 2 && status == 'active'"), true);
+    assert.equal(evaluate("!(priority >= 3)"), true);
+  });
+});
+
+describe("dates and durations", () => {
+  it("parses dates", () => {
+    assert.equal(day("date('2026-03-15')"), "2026-03-15");
+    assert.equal(day("date(due)"), "2026-01-31");
+  });
+
+  it("adds days and weeks", () => {
+    assert.equal(day("date('2026-01-31') + '1d'"), "2026-02-01");
+    assert.equal(day("date('2026-01-01') + '2w'"), "2026-01-15");
+    assert.equal(day("date('2026-03-01') - '1 day'"), "2026-02-28");
+  });
+
+  it("clamps the day when adding months", () => {
+    assert.equal(day("date('2026-01-31') + '1M'"), "2026-02-28");
+    assert.equal(day("date('2024-01-31') + '1M'"), "2024-02-29");
+    assert.equal(day("date('2026-03-31') - '1M'"), "2026-02-28");
+    assert.equal(day("date('2026-01-31') + '1y'"), "2027-01-31");
+  });
+
+  it("compares dates", () => {
+    assert.equal(evaluate("date(due) < date('2026-02-01')"), true);
+    assert.equal(evaluate("date(due) > now()"), false);
+  });
+});
+
+describe("errors", () => {
+  it("rejects unknown functions", () => {
+    assert.throws(() => evaluate("nope(1)"), BasesExpressionError);
+    assert.throws(() => evaluate("nope(1)"), /Fonction inconnue: nope\(\)/);
+  });
+
+  it("rejects unknown methods", () => {
+    assert.throws(() => evaluate("status.nope()"), BasesExpressionError);
+  });
+
+  it("rejects invalid syntax", () => {
+    assert.throws(() => evaluate("1 +"), BasesExpressionError);
+    assert.throws(() => evaluate("(1 + 2"), BasesExpressionError);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * @fileoverview Tests of the Bases property types (`src/services/bases/propertyTypes.ts`):
+ * type resolution and the checks applied to the values written by `bases_upsert_rows`.
+ * @module scripts/bases-property-types.test
+ *
+ * @example
+ * // npm run test:bases
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  inferValueType,
+  parseTypesJson,
+  resolvePropertyTypes,
+  validateProperties,
+} from "../dist/services/bases/propertyTypes.js";
+
+const types = resolvePropertyTypes(
+  {
+    done: "checkbox",
+    estimate: "number",
+    due: "date",
+    start: "datetime",
+    tags: "list",
+    parent: "link",
+    title: "text",
+  },
+  {},
+  [],
+);
+const coerce = (set) => validateProperties(set, types, "coerce");
+
+describe("type resolution", () => {
+  it("reads types.json and maps Obsidian's type names", () => {
+    assert.deepEqual(
+      parseTypesJson(
+        '{"types":{"tags":"tags","done":"boolean","notes":"multitext","x":"unknown"}}',
+      ),
+      { tags: "list", done: "checkbox", notes: "list" },
+    );
+    assert.deepEqual(parseTypesJson("{not json"), {});
+    assert.deepEqual(parseTypesJson(undefined), {});
+  });
+
+  it("infers the type of frontmatter values", () => {
+    assert.equal(inferValueType("2026-10-19"), "date");
+    assert.equal(inferValueType("2026-10-19T08:30"), "datetime");
+    assert.equal(inferValueType("2026-02-30"), "text");
+    assert.equal(inferValueType("2026-02-30T08:30"), "text");
+    assert.equal(inferValueType("[[Projects/Alpha]]"), "link");
+    assert.equal(inferValueType(["a"]), "list");
+    assert.equal(inferValueType(false), "checkbox");
+    assert.equal(inferValueType(""), undefined);
+  });
+
+  it("prefers types.json, then the base, then the sampled values", () => {
+    const resolved = resolvePropertyTypes(
+      { due: "date" },
+      { due: "text", estimate: "number" },
+      [
+        { due: "2026-01-31", estimate: "5", owner: "ana", score: 1 },
+        { due: "2026-03-01", estimate: "2", owner: 2, score: 2 },
+        { owner: 3 },
+      ],
+    );
+    assert.deepEqual(resolved, {
+      due: { type: "date", source: "types.json", sampled: 2 },
+      estimate: { type: "number", source: "base", sampled: 2 },
+      owner: { type: "number", source: "sampled", sampled: 3 },
+      score: { type: "number", source: "sampled", sampled: 2 },
+    });
+  });
+
+  it("falls back to text when sampled types are tied", () => {
+    const resolved = resolvePropertyTypes({}, {}, [{ ref: 1 }, { ref: "a" }]);
+    assert.equal(resolved.ref.type, "text");
+  });
+});
+
+describe("coercion", () => {
+  it("converts unambiguous values and reports each conversion", () => {
+    const { values, errors, warnings } = coerce({
+      done: "oui",
+      estimate: " 3.5 ",
+      due: "19/10/2026",
+      start: "2026-10-19 08:30",
+      tags: "seo",
+      parent: "Projects/Alpha.md",
+      title: 42,
+    });
+    assert.deepEqual(errors, []);
+    assert.deepEqual(values, {
+      done: true,
+      estimate: 3.5,
+      due: "2026-10-19",
+      start: "2026-10-19 08:30",
+      tags: ["seo"],
+      parent: "[[Projects/Alpha]]",
+      title: "42",
+    });
+    assert.equal(warnings.length, 6);
+    assert.match(warnings[0], /^Valeur convertie: done "oui" → true/);
+  });
+
+  it("keeps values that already have the right type", () => {
+    const set = {
+      done: false,
+      estimate: 2,
+      due: "2026-10-19",
+      tags: ["a", "b"],
+      parent: "[[Alpha]]",
+      other: { any: "thing" },
+      title: null,
+    };
+    const { values, errors, warnings } = coerce(set);
+    assert.deepEqual(values, set);
+    assert.deepEqual(errors, []);
+    assert.deepEqual(warnings, []);
+  });
+
+  it("reads dates written with a month name or an obvious day order", () => {
+    assert.equal(coerce({ due: "19 Oct 2026" }).values.due, "2026-10-19");
+    assert.equal(coerce({ due: "2026/10/19" }).values.due, "2026-10-19");
+    assert.equal(coerce({ due: "10/19/2026" }).values.due, "2026-10-19");
+  });
+
+  it("rejects ambiguous dates and numbers", () => {
+    const { values, errors } = coerce({
+      due: "03/04/2026",
+      estimate: "1,234",
+    });
+    assert.deepEqual(
+      errors.map((error) => [error.key, error.expected]),
+      [
+        ["due", "date"],
+        ["estimate", "number"],
+      ],
+    );
+    assert.match(errors[0].message, /format de date ambigu/);
+    assert.equal(coerce({ estimate: "1 234" }).errors.length, 1);
+    // Rejected values are left as they were.
+    assert.equal(values.due, "03/04/2026");
+  });
+
+  it("rejects values that do not convert", () => {
+    const { errors } = coerce({
+      done: "maybe",
+      due: "2026-02-30",
+      start: "soon",
+      parent: "",
+      title: ["a"],
+      tags: { a: 1 },
+    });
+    assert.deepEqual(
+      errors.map((error) => error.key),
+      ["done", "due", "start", "parent", "title", "tags"],
+    );
+  });
+
+  it("refuses any conversion in strict mode and skips checks when off", () => {
+    const set = { done: "true", estimate: 2 };
+    const strict = validateProperties(set, types, "strict");
+    assert.deepEqual(
+      strict.errors.map((error) => error.key),
+      ["done"],
+    );
+    assert.match(strict.errors[0].message, /\(ex\. true\)/);
+
+    const off = validateProperties({ done: "maybe" }, types, "off");
+    assert.deepEqual(off, {
+      values: { done: "maybe" },
+      errors: [],
+      warnings: [],
+    });
+  });
+});
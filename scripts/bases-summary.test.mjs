@@ -0,0 +1,174 @@
+/**
+ * @fileoverview Tests of the Bases grouping and summaries (`src/services/bases/summary.ts`),
+ * run against the compiled output on plain rows.
+ * @module scripts/bases-summary.test
+ *
+ * @example
+ * // npm run test:bases
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  groupItems,
+  normalizeAggregates,
+  parseGroupBy,
+  summarize,
+  viewAggregates,
+} from "../dist/services/bases/summary.js";
+
+const rows = [
+  { status: "active", estimate: 5, due: "2026-01-31", owner: "ana" },
+  { status: "done", estimate: "2", due: "2026-03-01", owner: "ana" },
+  { status: "active", estimate: null, due: "", owner: "bob" },
+  { estimate: 1, due: "2025-12-24" },
+];
+const valueOf = (row, prop) => row[prop];
+const run = (aggregates, items = rows) =>
+  summarize(items, normalizeAggregates(aggregates).aggregates, valueOf);
+
+describe("aggregates", () => {
+  it("counts rows and reads numbers from strings", () => {
+    assert.deepEqual(
+      run([
+        "count",
+        { fn: "sum", prop: "estimate" },
+        { fn: "avg", prop: "estimate" },
+        { fn: "min", prop: "estimate" },
+        { fn: "max", prop: "estimate", as: "largest" },
+      ]),
+      {
+        count: 4,
+        "sum(estimate)": 8,
+        "avg(estimate)": 8 / 3,
+        "min(estimate)": 1,
+        largest: 5,
+      },
+    );
+  });
+
+  it("returns null for numeric summaries without numbers", () => {
+    assert.deepEqual(
+      run([
+        { fn: "sum", prop: "owner" },
+        { fn: "avg", prop: "owner" },
+      ]),
+      { "sum(owner)": 0, "avg(owner)": null },
+    );
+  });
+
+  it("returns the original date values for earliest and latest", () => {
+    assert.deepEqual(
+      run([
+        { fn: "earliest", prop: "due" },
+        { fn: "latest", prop: "due" },
+      ]),
+      { "earliest(due)": "2025-12-24", "latest(due)": "2026-03-01" },
+    );
+  });
+
+  it("counts empty, filled and unique values", () => {
+    assert.deepEqual(
+      run([
+        { fn: "empty", prop: "due" },
+        { fn: "filled", prop: "status" },
+        { fn: "unique", prop: "owner" },
+      ]),
+      { "empty(due)": 1, "filled(status)": 3, "unique(owner)": 2 },
+    );
+  });
+
+  it("turns invalid entries into warnings", () => {
+    const { aggregates, warnings } = normalizeAggregates([
+      "median",
+      { fn: "sum" },
+      { fn: "count", as: "rows" },
+    ]);
+    assert.deepEqual(aggregates, [
+      { fn: "count", prop: undefined, as: "rows" },
+    ]);
+    assert.deepEqual(warnings, [
+      "Résumé inconnu: median",
+      "Résumé sum sans propriété ('prop').",
+    ]);
+  });
+
+  it("maps a view's summaries, keyed by property", () => {
+    const { aggregates, warnings } = viewAggregates({
+      estimate: "Average",
+      due: "Earliest",
+      owner: "Checked",
+    });
+    assert.deepEqual(aggregates, [
+      { fn: "avg", prop: "estimate", as: "estimate" },
+      { fn: "earliest", prop: "due", as: "due" },
+    ]);
+    assert.deepEqual(warnings, [
+      "Résumé de vue non pris en charge: owner (Checked)",
+    ]);
+  });
+});
+
+describe("grouping", () => {
+  it("parses group_by strings and view settings", () => {
+    assert.deepEqual(parseGroupBy("status"), { prop: "status", dir: "asc" });
+    assert.deepEqual(parseGroupBy("-status"), { prop: "status", dir: "desc" });
+    assert.deepEqual(
+      parseGroupBy({ property: "note.status", direction: "DESC" }),
+      { prop: "note.status", dir: "desc" },
+    );
+    assert.equal(parseGroupBy(" "), undefined);
+    assert.equal(parseGroupBy({ direction: "asc" }), undefined);
+  });
+
+  it("keeps row order inside groups and puts rows without a value last", () => {
+    const groups = groupItems(rows, (row) => row.status, "desc");
+    assert.deepEqual(
+      groups.map((group) => [group.key, group.label, group.items.length]),
+      [
+        ["done", "done", 1],
+        ["active", "active", 2],
+        [null, "", 1],
+      ],
+    );
+    assert.deepEqual(groups[1].items, [rows[0], rows[2]]);
+  });
+
+  it("orders numeric and date keys by value", () => {
+    const numbers = groupItems(
+      [{ n: 10 }, { n: 9 }, { n: 100 }],
+      (row) => row.n,
+    );
+    assert.deepEqual(
+      numbers.map((group) => group.key),
+      [9, 10, 100],
+    );
+    const dates = groupItems(
+      [new Date(2026, 1, 1), new Date(2025, 11, 31)],
+      (date) => date,
+    );
+    assert.deepEqual(
+      dates.map((group) => group.items[0].getFullYear()),
+      [2025, 2026],
+    );
+  });
+
+  it("summarizes each group on its own rows", () => {
+    const groups = groupItems(rows, (row) => row.owner);
+    const aggregates = normalizeAggregates([
+      "count",
+      { fn: "sum", prop: "estimate" },
+    ]).aggregates;
+    assert.deepEqual(
+      groups.map((group) => [
+        group.key,
+        summarize(group.items, aggregates, valueOf),
+      ]),
+      [
+        ["ana", { count: 2, "sum(estimate)": 7 }],
+        ["bob", { count: 1, "sum(estimate)": 0 }],
+        [null, { count: 1, "sum(estimate)": 1 }],
+      ],
+    );
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * @fileoverview Tests of `bases_upsert_rows` (`processBasesUpsertRows` with the local Bases
+ * engine) and of the values the base's filters impose on new rows (`src/services/bases/insert.ts`).
+ * Each test writes to a fresh copy of `scripts/fixtures/bases-vault`.
+ * @module scripts/bases-upsert.test
+ *
+ * @example
+ * // npm run test:bases
+ */
+
+import assert from "node:assert/strict";
+import { cpSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, beforeEach, describe, it } from "node:test";
+import { fileURLToPath } from "node:url";
+import { CORE_SCHEMA, load } from "js-yaml";
+
+const fixture = fileURLToPath(
+  new URL("./fixtures/bases-vault", import.meta.url),
+);
+const vault = mkdtempSync(path.join(os.tmpdir(), "bases-upsert-"));
+beforeEach(() => {
+  rmSync(vault, { recursive: true, force: true });
+  cpSync(fixture, vault, { recursive: true });
+});
+after(() => rmSync(vault, { recursive: true, force: true }));
+
+// The config is read on import: the vault path must be set first.
+process.env.OBSIDIAN_API_KEY ??= "offline-test";
+process.env.OBSIDIAN_VAULT = vault;
+const { BasesService } = await import("../dist/services/bases/index.js");
+const { insertDefaults, insertFrontmatter, insertPath } = await import(
+  "../dist/services/bases/insert.js"
+);
+const { BasesUpsertRowsInputSchema, processBasesUpsertRows } = await import(
+  "../dist/mcp-server/tools/basesUpsertRowsTool/logic.js"
+);
+
+const context = {
+  requestId: "bases-upsert-test",
+  timestamp: new Date().toISOString(),
+};
+const service = new BasesService({}, undefined, "local");
+
+const upsert = (input) =>
+  processBasesUpsertRows(
+    BasesUpsertRowsInputSchema.parse({ base_id: "Projects", ...input }),
+    context,
+    service,
+  );
+const read = (file) => readFileSync(path.join(vault, file), "utf-8");
+const frontmatter = (file) =>
+  load(read(file).match(/^---\n([\s\S]*?)\n---/)[1], { schema: CORE_SCHEMA });
+const activePaths = async () =>
+  (await service.queryBase("Projects", { view: "Active" }, context)).rows.map(
+    (row) => row.file.path,
+  );
+
+describe("updating rows", () => {
+  it("rewrites the frontmatter and keeps the body", async () => {
+    const response = await upsert({
+      operations: [
+        {
+          file: "Projects/Beta.md",
+          set: { status: "active", priority: "4" },
+          unset: ["estimate"],
+        },
+      ],
+    });
+    assert.equal(response.ok, true);
+    const [result] = response.results;
+    assert.deepEqual(result.changed, {
+      keys: ["status", "priority"],
+      unset: ["estimate"],
+    });
+    assert.deepEqual(result.warnings, [
+      'Valeur convertie: priority "4" → 4 (number)',
+    ]);
+    assert.deepEqual(frontmatter("Projects/Beta.md"), {
+      type: "project",
+      status: "active",
+      priority: 4,
+      due: "2026-03-01",
+    });
+    assert.match(read("Projects/Beta.md"), /\n# Beta\n$/);
+    assert.deepEqual(await activePaths(), [
+      "Projects/Beta.md",
+      "Projects/Alpha.md",
+      "Projects/Gamma.md",
+    ]);
+  });
+
+  it("refuses invalid values and stale mtimes", async () => {
+    const response = await upsert({
+      continueOnError: true,
+      validation: "strict",
+      operations: [
+        { file: "Projects/Alpha.md", set: { priority: "high" } },
+        {
+          file: "Projects/Alpha.md",
+          set: { status: "done" },
+          expected_mtime: 1,
+        },
+      ],
+    });
+    assert.equal(response.ok, false);
+    assert.deepEqual(
+      response.results.map((result) => result.error.code),
+      ["validation_error", "mtime_conflict"],
+    );
+    assert.deepEqual(
+      response.results[0].field_errors.map((error) => error.key),
+      ["priority"],
+    );
+    assert.equal(frontmatter("Projects/Alpha.md").status, "active");
+  });
+
+  it("stops at the first error unless asked to continue", async () => {
+    const response = await upsert({
+      operations: [
+        { file: "Projects/Missing.md", set: { status: "done" } },
+        { file: "Projects/Alpha.md", set: { status: "done" } },
+      ],
+    });
+    assert.deepEqual(
+      response.results.map((result) => result.error?.code),
+      ["not_found"],
+    );
+    assert.equal(frontmatter("Projects/Alpha.md").status, "active");
+  });
+});
+
+describe("creating rows", () => {
+  it("places a bare name in the base's folder with the filter values", async () => {
+    const response = await upsert({
+      view: "Active",
+      operations: [{ file: "Epsilon", mode: "insert", set: { priority: 4 } }],
+    });
+    assert.equal(response.ok, true);
+    const [result] = response.results;
+    assert.equal(result.file, "Projects/Epsilon.md");
+    assert.equal(result.created, true);
+    assert.equal(result.warnings, undefined);
+    assert.deepEqual(frontmatter("Projects/Epsilon.md"), {
+      type: "project",
+      status: "active",
+      priority: 4,
+    });
+    assert.deepEqual(await activePaths(), [
+      "Projects/Epsilon.md",
+      "Projects/Alpha.md",
+      "Projects/Gamma.md",
+    ]);
+  });
+
+  it("applies a template under the filter values", async () => {
+    const response = await upsert({
+      view: "Active",
+      operations: [
+        { file: "Zeta", mode: "upsert", template: "Templates/Project" },
+      ],
+    });
+    assert.equal(response.ok, true);
+    assert.deepEqual(frontmatter("Projects/Zeta.md"), {
+      status: "active",
+      owner: "ana",
+      type: "project",
+    });
+    assert.match(
+      read("Projects/Zeta.md"),
+      /\n# Zeta\n\nStarted on \d\d\/\d\d\/\d{4}\.\n$/,
+    );
+  });
+
+  it("updates existing notes in upsert mode and refuses them in insert mode", async () => {
+    const response = await upsert({
+      continueOnError: true,
+      operations: [
+        { file: "Gamma", mode: "upsert", set: { estimate: 8 } },
+        { file: "Gamma", mode: "insert", set: { estimate: 9 } },
+      ],
+    });
+    assert.equal(response.results[0].file, "Projects/Gamma.md");
+    assert.equal(response.results[0].created, undefined);
+    assert.equal(response.results[1].error.code, "already_exists");
+    assert.equal(frontmatter("Projects/Gamma.md").estimate, 8);
+  });
+
+  it("reports notes created outside the base", async () => {
+    const response = await upsert({
+      operations: [{ file: "Eta", mode: "insert", set: { type: "idea" } }],
+    });
+    const [result] = response.results;
+    assert.equal(result.created, true);
+    assert.equal(result.error.code, "filter_mismatch");
+    assert.equal(frontmatter("Projects/Eta.md").type, "idea");
+  });
+
+  it("rejects paths outside the vault", async () => {
+    const response = await upsert({
+      operations: [{ file: "../Outside", mode: "insert" }],
+    });
+    assert.equal(response.results[0].error.code, "validation_error");
+    assert.match(response.results[0].error.message, /Chemin hors du coffre/);
+  });
+});
+
+describe("insert defaults", () => {
+  it("follows and-branches and lists the conditions it cannot apply", () => {
+    const defaults = insertDefaults(
+      { and: ['file.inFolder("Projects/")', 'type == "project"'] },
+      {
+        and: [
+          'file.hasTag("#seo") && tags.contains("client")',
+          "priority > 2",
+          'parent == link("Projects/Alpha.md")',
+          { or: ['status == "active"', 'status == "paused"'] },
+        ],
+      },
+    );
+    assert.deepEqual(defaults, {
+      folder: "Projects",
+      frontmatter: { type: "project", parent: "[[Projects/Alpha]]" },
+      lists: { tags: ["seo", "client"] },
+      skipped: [
+        "priority > 2",
+        '{"or":["status == \\"active\\"","status == \\"paused\\""]}',
+      ],
+    });
+  });
+
+  it("merges the template, the defaults and set, completing lists", () => {
+    const defaults = insertDefaults('file.hasTag("seo")', 'status == "active"');
+    assert.deepEqual(
+      insertFrontmatter(
+        defaults,
+        { status: "draft", tags: "client" },
+        { owner: "bob" },
+      ),
+      { status: "active", tags: ["client", "seo"], owner: "bob" },
+    );
+  });
+
+  it("resolves note paths inside the vault", () => {
+    assert.equal(insertPath("Epsilon", "Projects"), "Projects/Epsilon.md");
+    assert.equal(insertPath("Archive/Old.md", "Projects"), "Archive/Old.md");
+    assert.equal(insertPath("a/../b/./c"), "b/c.md");
+    assert.throws(() => insertPath("a/../../x"), /Chemin hors du coffre/);
+  });
+});
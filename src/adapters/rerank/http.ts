@@ -0,0 +1,77 @@
+import axios from "axios";
+
+type RerankFunction = (query: string, documents: string[]) => Promise<number[]>;
+
+type HttpRerankerOptions = {
+  /** Full URL of the rerank endpoint (e.g. http://127.0.0.1:8080/v1/rerank). */
+  url: string;
+  model: string;
+  apiKey?: string;
+};
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+/**
+ * Reads `{ results: [{ index, relevance_score | score }] }` (Jina/Cohere style, also used
+ * by llama.cpp, vLLM, TEI and Ollama-compatible rerank servers) back into input order.
+ */
+const extractScores = (payload: unknown, count: number): number[] | null => {
+  if (!payload || typeof payload !== "object") return null;
+  const record = payload as Record<string, unknown>;
+  const results = record.results ?? record.data;
+  if (!Array.isArray(results)) return null;
+
+  const scores = new Array<number>(count).fill(Number.NEGATIVE_INFINITY);
+  for (const entry of results) {
+    if (!entry || typeof entry !== "object") continue;
+    const { index, relevance_score, score } = entry as Record<string, unknown>;
+    const value = isNumber(relevance_score) ? relevance_score : score;
+    if (!Number.isInteger(index) || !isNumber(value)) continue;
+    if ((index as number) < 0 || (index as number) >= count) continue;
+    scores[index as number] = value;
+  }
+  return scores.some(Number.isFinite) ? scores : null;
+};
+
+const rerankerCache = new Map<string, RerankFunction>();
+
+export const getReranker = async (
+  options: HttpRerankerOptions,
+): Promise<RerankFunction> => {
+  const model = options.model?.trim();
+  if (!model) {
+    throw new Error(
+      "The rerank endpoint requires a model name (RERANKER_MODEL)",
+    );
+  }
+
+  const apiKey = options.apiKey?.trim();
+  const cacheKey = `${options.url}::${model}::${apiKey ?? ""}`;
+  const cached = rerankerCache.get(cacheKey);
+  if (cached) return cached;
+
+  const rerank: RerankFunction = async (query, documents) => {
+    if (!documents.length) return [];
+
+    const { data } = await axios.post(
+      options.url,
+      { model, query, documents, top_n: documents.length },
+      {
+        timeout: 120000,
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+      },
+    );
+
+    const scores = extractScores(data, documents.length);
+    if (!scores) {
+      throw new Error(
+        `Rerank endpoint ${options.url} returned an unexpected payload`,
+      );
+    }
+    return scores;
+  };
+
+  rerankerCache.set(cacheKey, rerank);
+  return rerank;
+};
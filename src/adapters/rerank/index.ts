@@ -0,0 +1,75 @@
+import {
+  getReranker as getXenovaReranker,
+  DEFAULT_XENOVA_RERANKER,
+} from "./xenova.js";
+import { getReranker as getHttpReranker } from "./http.js";
+
+/** Relevance of each document to the query, in input order (higher is better). */
+type RerankFunction = (query: string, documents: string[]) => Promise<number[]>;
+
+export type RerankerProvider = "xenova" | "ollama" | "openai";
+
+export type RerankerSelection = {
+  provider: RerankerProvider;
+  model: string;
+  rerank: RerankFunction;
+};
+
+export type RerankerOptions = {
+  provider?: string;
+  model?: string;
+  // Rerank endpoint (base URL or full `/rerank` URL) for the ollama/openai providers.
+  baseUrl?: string;
+  ollamaBaseUrl?: string;
+  openaiApiKey?: string;
+  openaiBaseUrl?: string;
+};
+
+const DEFAULT_OLLAMA_BASE_URL = "http://127.0.0.1:11434";
+
+const normaliseProvider = (provider?: string): RerankerProvider => {
+  const raw = (provider ?? "xenova").trim().toLowerCase();
+  if (raw === "ollama") return "ollama";
+  if (raw === "openai") return "openai";
+  return "xenova";
+};
+
+const toRerankUrl = (base: string, defaultPath: string): string => {
+  const trimmed = base.trim().replace(/\/+$/u, "");
+  return /\/rerank$/u.test(trimmed) ? trimmed : `${trimmed}${defaultPath}`;
+};
+
+export const getReranker = async (
+  opts: RerankerOptions,
+): Promise<RerankerSelection> => {
+  const provider = normaliseProvider(opts.provider);
+
+  if (provider === "xenova") {
+    const model = opts.model?.trim() || DEFAULT_XENOVA_RERANKER;
+    return { provider, model, rerank: await getXenovaReranker(model) };
+  }
+
+  const model = opts.model?.trim() ?? "";
+
+  if (provider === "ollama") {
+    const url = toRerankUrl(
+      opts.baseUrl || opts.ollamaBaseUrl || DEFAULT_OLLAMA_BASE_URL,
+      "/api/rerank",
+    );
+    return { provider, model, rerank: await getHttpReranker({ url, model }) };
+  }
+
+  // openai-compatible (llama.cpp, vLLM, TEI, Jina, ...): OpenAI itself has no rerank API.
+  const base = opts.baseUrl || opts.openaiBaseUrl;
+  if (!base) {
+    throw new Error(
+      "RERANKER=openai requires RERANKER_BASE_URL (or OPENAI_BASE_URL) pointing at a rerank-capable server",
+    );
+  }
+  const url = toRerankUrl(base, "/rerank");
+  return {
+    provider,
+    model,
+    rerank: await getHttpReranker({ url, model, apiKey: opts.openaiApiKey }),
+  };
+};
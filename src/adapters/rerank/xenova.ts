@@ -0,0 +1,40 @@
+import {
+  AutoModelForSequenceClassification,
+  AutoTokenizer,
+} from "@xenova/transformers";
+
+type RerankFunction = (query: string, documents: string[]) => Promise<number[]>;
+
+export const DEFAULT_XENOVA_RERANKER = "Xenova/bge-reranker-base";
+
+const rerankerCache = new Map<string, RerankFunction>();
+
+const sigmoid = (logit: number): number => 1 / (1 + Math.exp(-logit));
+
+export const getReranker = async (model?: string): Promise<RerankFunction> => {
+  const resolvedModel = model?.trim() || DEFAULT_XENOVA_RERANKER;
+
+  const cached = rerankerCache.get(resolvedModel);
+  if (cached) return cached;
+
+  const tokenizer = await AutoTokenizer.from_pretrained(resolvedModel);
+  const classifier =
+    await AutoModelForSequenceClassification.from_pretrained(resolvedModel);
+
+  const rerank: RerankFunction = async (query, documents) => {
+    if (!documents.length) return [];
+
+    // Cross-encoders score (query, document) pairs jointly, one logit per pair.
+    const inputs = tokenizer(new Array(documents.length).fill(query), {
+      text_pair: documents,
+      padding: true,
+      truncation: true,
+    });
+    const { logits } = await classifier(inputs);
+
+    return Array.from(logits.data as Float32Array, sigmoid);
+  };
+
+  rerankerCache.set(resolvedModel, rerank);
+  return rerank;
+};
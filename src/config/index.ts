@@ -99,16 +99,41 @@ const EnvSchema = z.object({
     .string()
     .transform((val) => val.toLowerCase() === "true")
     .default("true"),
+  // On-disk snapshot of the vault cache, validated and refreshed incrementally at startup.
+  OBSIDIAN_CACHE_PERSIST: z
+    .string()
+    .transform((val) => val.toLowerCase() === "true")
+    .default("true"),
+  OBSIDIAN_CACHE_DIR: z.string().default(path.join(projectRoot, ".cache")),
+  OBSIDIAN_CACHE_CONCURRENCY: z.coerce
+    .number()
+    .int()
+    .positive()
+    .max(64)
+    .default(8),
   OBSIDIAN_API_SEARCH_TIMEOUT_MS: z.coerce
     .number()
     .int()
     .positive()
     .default(30000),
+  // Comma-separated command ids or `*` patterns for obsidian_execute_command.
+  OBSIDIAN_COMMAND_ALLOWLIST: z.string().optional(),
+  OBSIDIAN_COMMAND_DENYLIST: z.string().optional(),
+  // Vault folder holding user-defined MCP prompts (markdown files with frontmatter).
+  OBSIDIAN_PROMPTS_FOLDER: z.string().optional(),
+  // Bases tools: "auto" uses the Bases Bridge plugin and falls back to the server's own engine.
+  OBSIDIAN_BASES_ENGINE: z.enum(["auto", "bridge", "local"]).default("auto"),
   // --- Smart Connections Semantic Search ---
   SMART_SEARCH_MODE: z
     .enum(["plugin", "smartenv", "files"])
     .default("plugin"),
   SMART_ENV_DIR: z.string().optional(),
+  // Vector search strategy: "auto" builds an HNSW graph for large corpora, "exact" always scans.
+  SMART_SEARCH_INDEX: z.enum(["auto", "hnsw", "exact"]).default("auto"),
+  // Where SMART_SEARCH_MODE=files keeps its embedding index.
+  EMBEDDING_INDEX_DIR: z
+    .string()
+    .default(path.join(projectRoot, ".cache", "embeddings")),
   ENABLE_QUERY_EMBEDDING: z
     .string()
     .transform((val) => val.toLowerCase() === "true")
@@ -124,6 +149,11 @@ const EnvSchema = z.object({
   OPENAI_API_KEY: z.string().optional(),
   OPENAI_BASE_URL: z.string().optional(),
   OPENAI_EMBEDDING_DIMENSIONS: z.string().optional(),
+  // Cross-encoder used when a semantic search asks for `rerank`.
+  RERANKER: z.enum(["xenova", "ollama", "openai"]).default("xenova"),
+  RERANKER_MODEL: z.string().optional(),
+  // Rerank endpoint for RERANKER=ollama/openai (defaults to OLLAMA_BASE_URL / OPENAI_BASE_URL).
+  RERANKER_BASE_URL: z.string().optional(),
   SMART_ENV_CACHE_TTL_MS: z.coerce
     .number()
     .int()
@@ -240,9 +270,22 @@ export const config = {
   obsidianVerifySsl: env.OBSIDIAN_VERIFY_SSL,
   obsidianCacheRefreshIntervalMin: env.OBSIDIAN_CACHE_REFRESH_INTERVAL_MIN,
   obsidianEnableCache: env.OBSIDIAN_ENABLE_CACHE,
+  obsidianCachePersist: env.OBSIDIAN_CACHE_PERSIST,
+  obsidianCacheDir: path.resolve(projectRoot, env.OBSIDIAN_CACHE_DIR),
+  obsidianCacheConcurrency: env.OBSIDIAN_CACHE_CONCURRENCY,
   obsidianApiSearchTimeoutMs: env.OBSIDIAN_API_SEARCH_TIMEOUT_MS,
+  obsidianCommandAllowlist: env.OBSIDIAN_COMMAND_ALLOWLIST?.split(",")
+    .map((pattern) => pattern.trim())
+    .filter(Boolean),
+  obsidianCommandDenylist: env.OBSIDIAN_COMMAND_DENYLIST?.split(",")
+    .map((pattern) => pattern.trim())
+    .filter(Boolean),
+  obsidianPromptsFolder: env.OBSIDIAN_PROMPTS_FOLDER,
+  obsidianBasesEngine: env.OBSIDIAN_BASES_ENGINE,
   smartSearchMode: env.SMART_SEARCH_MODE,
   smartEnvDir: env.SMART_ENV_DIR,
+  smartSearchIndex: env.SMART_SEARCH_INDEX,
+  embeddingIndexDir: path.resolve(projectRoot, env.EMBEDDING_INDEX_DIR),
   enableQueryEmbedding: env.ENABLE_QUERY_EMBEDDING,
   queryEmbedder: env.QUERY_EMBEDDER,
   queryEmbedderModel: env.QUERY_EMBEDDER_MODEL,
@@ -251,6 +294,9 @@ export const config = {
   openaiApiKey: env.OPENAI_API_KEY,
   openaiBaseUrl: env.OPENAI_BASE_URL,
   openaiEmbeddingDimensions: env.OPENAI_EMBEDDING_DIMENSIONS,
+  reranker: env.RERANKER,
+  rerankerModel: env.RERANKER_MODEL,
+  rerankerBaseUrl: env.RERANKER_BASE_URL,
   smartEnvCacheTtlMs: env.SMART_ENV_CACHE_TTL_MS,
   obsidianVaultPath: env.OBSIDIAN_VAULT,
   transformersCache: env.TRANSFORMERS_CACHE,
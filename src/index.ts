@@ -54,6 +54,7 @@ const shutdown = async (signal: string) => {
     // Stop cache refresh timer first
     if (config.obsidianEnableCache && vaultCacheService) {
       vaultCacheService.stopPeriodicRefresh();
+      await vaultCacheService.flushSnapshot();
     }
 
     // Close the main MCP server (only relevant for stdio)
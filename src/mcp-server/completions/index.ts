@@ -0,0 +1,6 @@
+export {
+  completerKindForArgument,
+  createVaultCompleters,
+  MAX_COMPLETIONS,
+} from "./vaultCompleters.js";
+export type { VaultCompleterKind, VaultCompleters } from "./vaultCompleters.js";
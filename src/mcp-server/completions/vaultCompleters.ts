@@ -0,0 +1,222 @@
+import path from "node:path";
+import { BasesService } from "../../services/bases/index.js";
+import {
+  BaseSummary,
+  ObsidianRestApiService,
+  VaultCacheService,
+} from "../../services/obsidianRestAPI/index.js";
+import {
+  countNoteTags,
+  fuzzyFilter,
+  logger,
+  RequestContext,
+  requestContextService,
+} from "../../utils/index.js";
+
+/** The MCP spec caps `completion/complete` results at 100 values. */
+export const MAX_COMPLETIONS = 100;
+
+/** How long derived indexes (tags, Bases) are reused between keystrokes. */
+const INDEX_TTL_MS = 30_000;
+
+/** Recency bonus decays with this half-life, so notes touched this week rank first among similar matches. */
+const RECENCY_HALF_LIFE_DAYS = 7;
+const MAX_RECENCY_BONUS = 15;
+
+const PERIODS = ["daily", "weekly", "monthly", "quarterly", "yearly"];
+
+/**
+ * Completion callbacks over live vault data. Each takes the partial value typed by
+ * the user and resolves to at most {@link MAX_COMPLETIONS} suggestions, best first.
+ */
+export interface VaultCompleters {
+  /** Markdown note paths from the vault cache, recently modified notes first among similar matches. */
+  notePaths(value?: string): Promise<string[]>;
+  /** Folder paths, listed one level at a time through `listFiles`. */
+  folderPaths(value?: string): Promise<string[]>;
+  /** Tags found in cached notes, most used first among similar matches. */
+  tags(value?: string): Promise<string[]>;
+  /** Base ids, from the Bases bridge or the local Bases engine. */
+  baseIds(value?: string): Promise<string[]>;
+  /** Periodic note periods ('daily', 'weekly', ...). */
+  periods(value?: string): Promise<string[]>;
+}
+
+export type VaultCompleterKind = keyof VaultCompleters;
+
+/**
+ * Maps argument names used across tools and prompts to the completer that serves them,
+ * so prompts can get completion by naming arguments consistently.
+ */
+const ARGUMENT_COMPLETERS: Record<string, VaultCompleterKind> = {
+  filepath: "notePaths",
+  file_path: "notePaths",
+  path: "notePaths",
+  note: "notePaths",
+  targetidentifier: "notePaths",
+  folder: "folderPaths",
+  targetfolder: "folderPaths",
+  dirpath: "folderPaths",
+  tag: "tags",
+  tags: "tags",
+  base_id: "baseIds",
+  baseid: "baseIds",
+  period: "periods",
+};
+
+/**
+ * Returns the completer kind conventionally used for an argument name, if any
+ * (e.g. `filePath` → note paths, `base_id` → Base ids, `tags` → tags).
+ */
+export const completerKindForArgument = (
+  argumentName: string,
+): VaultCompleterKind | undefined =>
+  ARGUMENT_COMPLETERS[argumentName.toLowerCase()];
+
+/**
+ * Creates completion callbacks bound to the shared services. Failures never
+ * propagate: a completion that cannot be computed simply returns no suggestions.
+ *
+ * @param obsidianService - Used for folder listings.
+ * @param vaultCacheService - Source of note paths and tags; those completers return nothing when undefined.
+ * @param basesService - Lists Base ids, routed like the `bases_*` tools.
+ * @returns The completers.
+ */
+export const createVaultCompleters = (
+  obsidianService: ObsidianRestApiService,
+  vaultCacheService: VaultCacheService | undefined,
+  basesService: BasesService,
+): VaultCompleters => {
+  let tagIndex: { builtAt: number; counts: Map<string, number> } | null = null;
+  let baseIndex: { builtAt: number; bases: BaseSummary[] } | null = null;
+
+  const createContext = (operation: string, value: string): RequestContext =>
+    requestContextService.createRequestContext({
+      operation,
+      module: "VaultCompleters",
+      value,
+    });
+
+  const safely = async (
+    operation: string,
+    value: string | undefined,
+    compute: (
+      query: string,
+      context: RequestContext,
+    ) => Promise<string[]> | string[],
+  ): Promise<string[]> => {
+    const context = createContext(operation, value ?? "");
+    try {
+      return (await compute(value ?? "", context)).slice(0, MAX_COMPLETIONS);
+    } catch (error) {
+      logger.debug(
+        `Completion '${operation}' failed: ${error instanceof Error ? error.message : String(error)}`,
+        context,
+      );
+      return [];
+    }
+  };
+
+  /**
+   * Fuzzy-filters `items` and re-ranks them by fuzzy score plus `boost`. With an
+   * empty query every item matches with score 0, so the boost alone orders them.
+   */
+  const rank = <T>(
+    query: string,
+    items: readonly T[],
+    keys: (item: T) => string[],
+    boost: (item: T) => number,
+  ): T[] =>
+    fuzzyFilter(query, items, keys)
+      .map(({ item, score }) => ({ item, score: score + boost(item) }))
+      .sort((a, b) => b.score - a.score)
+      .map(({ item }) => item);
+
+  const recencyBonus = (mtime: number, now: number): number => {
+    const ageDays = Math.max(0, now - mtime) / (24 * 3600 * 1000);
+    return MAX_RECENCY_BONUS * Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+  };
+
+  const getTagCounts = (): Map<string, number> => {
+    if (tagIndex && Date.now() - tagIndex.builtAt < INDEX_TTL_MS) {
+      return tagIndex.counts;
+    }
+    const counts = countNoteTags(
+      [...(vaultCacheService?.getCache().values() ?? [])].map(
+        (entry) => entry.content,
+      ),
+    );
+    tagIndex = { builtAt: Date.now(), counts };
+    return counts;
+  };
+
+  const getBases = async (context: RequestContext): Promise<BaseSummary[]> => {
+    if (baseIndex && Date.now() - baseIndex.builtAt < INDEX_TTL_MS) {
+      return baseIndex.bases;
+    }
+    const { bases } = await basesService.listBases(context);
+    baseIndex = { builtAt: Date.now(), bases };
+    return bases;
+  };
+
+  return {
+    notePaths: (value) =>
+      safely("completeNotePaths", value, (query) => {
+        if (!vaultCacheService) return [];
+        const now = Date.now();
+        const notes = [...vaultCacheService.getCache().entries()].map(
+          ([key, entry]) => ({
+            path: key.replace(/^\/+/, ""),
+            mtime: entry.mtime,
+          }),
+        );
+        return rank(
+          query,
+          notes,
+          (note) => [note.path, path.posix.basename(note.path)],
+          (note) => recencyBonus(note.mtime, now),
+        ).map((note) => note.path);
+      }),
+
+    folderPaths: (value) =>
+      safely("completeFolderPaths", value, async (query, context) => {
+        const slash = query.lastIndexOf("/");
+        const parent = slash === -1 ? "" : query.slice(0, slash + 1);
+        const partial = query.slice(slash + 1);
+        const entries = await obsidianService.listFiles(parent || "/", context);
+        const folders = entries
+          .filter((entry) => entry.endsWith("/"))
+          .map((entry) => parent + entry.replace(/\/$/, ""));
+        return fuzzyFilter(partial, folders, (folder) => [
+          path.posix.basename(folder),
+        ]).map(({ item }) => item);
+      }),
+
+    tags: (value) =>
+      safely("completeTags", value, (query) => {
+        const counts = getTagCounts();
+        return rank(
+          query.replace(/^#/, ""),
+          [...counts.keys()],
+          (tag) => [tag],
+          (tag) => Math.log2((counts.get(tag) ?? 0) + 1),
+        );
+      }),
+
+    baseIds: (value) =>
+      safely("completeBaseIds", value, async (query, context) =>
+        fuzzyFilter(query, await getBases(context), (base) => [
+          base.id,
+          base.name,
+          base.path,
+        ]).map(({ item }) => item.id),
+      ),
+
+    periods: (value) =>
+      safely("completePeriods", value, (query) =>
+        fuzzyFilter(query, PERIODS, (period) => [period]).map(
+          ({ item }) => item,
+        ),
+      ),
+  };
+};
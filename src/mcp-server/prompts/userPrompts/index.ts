@@ -0,0 +1,3 @@
+export { loadUserPromptDefinitions, renderUserPrompt } from "./logic.js";
+export type { UserPromptDefinition } from "./logic.js";
+export { registerUserPrompts } from "./registration.js";
@@ -0,0 +1,301 @@
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { load } from "js-yaml";
+import path from "node:path";
+import { z } from "zod";
+import {
+  NoteJson,
+  ObsidianRestApiService,
+} from "../../../services/obsidianRestAPI/index.js";
+import { VaultCacheService } from "../../../services/obsidianRestAPI/vaultCache/index.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import { logger, RequestContext } from "../../../utils/index.js";
+
+// ====================================================================================
+// Schema Definitions
+// ====================================================================================
+
+const UserPromptArgumentSchema = z.object({
+  name: z
+    .string()
+    .regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Argument names must be identifiers."),
+  description: z.string().optional(),
+  required: z.boolean().optional().default(false),
+  complete: z.enum(["note", "folder", "tag", "base", "period"]).optional(),
+});
+
+/**
+ * Frontmatter of a user prompt file. Only `description` is usually needed; the
+ * prompt name defaults to the file name.
+ */
+const UserPromptFrontmatterSchema = z.object({
+  name: z
+    .string()
+    .regex(
+      /^[a-z0-9][a-z0-9_-]*$/,
+      "Prompt names must be lowercase letters, digits, '_' or '-'.",
+    )
+    .optional(),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  arguments: z.array(UserPromptArgumentSchema).optional().default([]),
+});
+
+export type UserPromptArgument = z.infer<typeof UserPromptArgumentSchema>;
+
+export interface UserPromptDefinition {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments: UserPromptArgument[];
+  template: string;
+  sourcePath: string;
+}
+
+// ====================================================================================
+// Loading
+// ====================================================================================
+
+/** Nested folders are followed this deep below the prompts folder. */
+const MAX_FOLDER_DEPTH = 3;
+
+const FRONTMATTER_BLOCK_REGEX = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/;
+
+/** How long a REST load is reused by new server instances before the files are read again. */
+const REST_LOAD_TTL_MS = 60_000;
+
+/** REST loads, by folder, shared by every server instance of the process. */
+const restLoads = new Map<
+  string,
+  { startedAt: number; definitions: Promise<UserPromptDefinition[]> }
+>();
+
+/** Derives a prompt name from a file name: "Daily Standup.md" -> "daily_standup". */
+const nameFromFile = (filePath: string) =>
+  path.posix
+    .basename(filePath, path.posix.extname(filePath))
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+
+async function listMarkdownFiles(
+  folder: string,
+  depth: number,
+  context: RequestContext,
+  obsidianService: ObsidianRestApiService,
+): Promise<string[]> {
+  const entries = await obsidianService.listFiles(folder, context);
+  const files: string[] = [];
+  for (const entry of entries) {
+    const fullPath = path.posix.join(folder, entry);
+    if (entry.endsWith("/")) {
+      if (depth < MAX_FOLDER_DEPTH) {
+        files.push(
+          ...(await listMarkdownFiles(
+            fullPath,
+            depth + 1,
+            context,
+            obsidianService,
+          )),
+        );
+      }
+    } else if (entry.toLowerCase().endsWith(".md")) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Builds a prompt definition from a file's frontmatter and content, or returns
+ * `undefined` (with a warning) when the file does not declare a valid prompt.
+ */
+function toDefinition(
+  filePath: string,
+  frontmatter: unknown,
+  content: string,
+  context: RequestContext,
+): UserPromptDefinition | undefined {
+  const parsed = UserPromptFrontmatterSchema.safeParse(frontmatter ?? {});
+  if (!parsed.success) {
+    logger.warning(
+      `Skipping user prompt '${filePath}': invalid frontmatter (${parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")}).`,
+      context,
+    );
+    return undefined;
+  }
+  const name = parsed.data.name ?? nameFromFile(filePath);
+  if (!name) {
+    logger.warning(
+      `Skipping user prompt '${filePath}': could not derive a prompt name.`,
+      context,
+    );
+    return undefined;
+  }
+  return {
+    name,
+    title: parsed.data.title,
+    description: parsed.data.description,
+    arguments: parsed.data.arguments,
+    template: content.replace(FRONTMATTER_BLOCK_REGEX, "").trim(),
+    sourcePath: filePath,
+  };
+}
+
+/** Reads the prompt files from the vault cache, without any REST call. */
+function loadFromCache(
+  root: string,
+  context: RequestContext,
+  vaultCacheService: VaultCacheService,
+): UserPromptDefinition[] {
+  const prefix = root ? `${root}/` : "";
+  const definitions: UserPromptDefinition[] = [];
+  for (const [cacheKey, entry] of vaultCacheService.getCache()) {
+    const filePath = cacheKey.replace(/^\/+/, "");
+    if (
+      !filePath.startsWith(prefix) ||
+      !filePath.toLowerCase().endsWith(".md") ||
+      filePath.slice(prefix.length).split("/").length - 1 > MAX_FOLDER_DEPTH
+    ) {
+      continue;
+    }
+    let frontmatter: unknown;
+    try {
+      const match = entry.content.match(FRONTMATTER_BLOCK_REGEX);
+      frontmatter = match ? load(match[1]) : {};
+    } catch (error) {
+      logger.warning(
+        `Skipping user prompt '${filePath}': ${error instanceof Error ? error.message : String(error)}`,
+        context,
+      );
+      continue;
+    }
+    const definition = toDefinition(
+      filePath,
+      frontmatter,
+      entry.content,
+      context,
+    );
+    if (definition) definitions.push(definition);
+  }
+  return definitions;
+}
+
+/** Lists and reads the prompt files through the REST API, one call per file. */
+async function loadFromRest(
+  root: string,
+  context: RequestContext,
+  obsidianService: ObsidianRestApiService,
+): Promise<UserPromptDefinition[]> {
+  let files: string[];
+  try {
+    files = await listMarkdownFiles(root, 0, context, obsidianService);
+  } catch (error) {
+    if (error instanceof McpError && error.code === BaseErrorCode.NOT_FOUND) {
+      logger.warning(
+        `User prompts folder '${root}' does not exist in the vault; no user prompts loaded.`,
+        context,
+      );
+      return [];
+    }
+    throw error;
+  }
+
+  const definitions: UserPromptDefinition[] = [];
+  for (const filePath of files) {
+    try {
+      const note = (await obsidianService.getFileContent(
+        filePath,
+        "json",
+        context,
+      )) as NoteJson;
+      const definition = toDefinition(
+        filePath,
+        note.frontmatter,
+        note.content,
+        context,
+      );
+      if (definition) definitions.push(definition);
+    } catch (error) {
+      logger.warning(
+        `Skipping user prompt '${filePath}': ${error instanceof Error ? error.message : String(error)}`,
+        context,
+      );
+    }
+  }
+  return definitions;
+}
+
+/**
+ * Loads prompt definitions from markdown files in a vault folder. Files with
+ * invalid frontmatter are skipped with a warning rather than failing the load.
+ *
+ * When the vault cache is ready the files are read from it, so new HTTP sessions
+ * cost no REST call and pick up edited prompts. Otherwise they are read through
+ * the REST API, and calls made within {@link REST_LOAD_TTL_MS} of a load reuse
+ * its result, so sessions opened together share one load and edits show up later.
+ *
+ * @param folder - Vault-relative folder containing the prompt files.
+ * @param context - Request context.
+ * @param obsidianService - Service used to list and read the files without the cache.
+ * @param vaultCacheService - Optional vault cache, preferred once ready.
+ * @returns The valid prompt definitions, sorted by name. Empty if the folder does not exist.
+ */
+export const loadUserPromptDefinitions = async (
+  folder: string,
+  context: RequestContext,
+  obsidianService: ObsidianRestApiService,
+  vaultCacheService?: VaultCacheService,
+): Promise<UserPromptDefinition[]> => {
+  const root = folder.trim().replace(/^\/+|\/+$/g, "");
+
+  let definitions: UserPromptDefinition[];
+  if (vaultCacheService?.isReady()) {
+    definitions = loadFromCache(root, context, vaultCacheService);
+  } else {
+    let load = restLoads.get(root);
+    if (!load || Date.now() - load.startedAt >= REST_LOAD_TTL_MS) {
+      const started = {
+        startedAt: Date.now(),
+        definitions: loadFromRest(root, context, obsidianService),
+      };
+      restLoads.set(root, started);
+      // A failed load is retried by the next session rather than cached.
+      started.definitions.catch(() => {
+        if (restLoads.get(root) === started) restLoads.delete(root);
+      });
+      load = started;
+    }
+    definitions = [...(await load.definitions)];
+  }
+
+  definitions.sort((a, b) => a.name.localeCompare(b.name));
+  logger.debug(
+    `Loaded ${definitions.length} user prompt(s) from '${root}'.`,
+    context,
+  );
+  return definitions;
+};
+
+// ====================================================================================
+// Rendering
+// ====================================================================================
+
+/**
+ * Renders a user prompt by substituting `{{argument}}` placeholders. Placeholders
+ * for omitted optional arguments become empty strings; unknown placeholders are kept.
+ */
+export const renderUserPrompt = (
+  definition: UserPromptDefinition,
+  args: Record<string, string | undefined>,
+): GetPromptResult => {
+  const known = new Set(definition.arguments.map((arg) => arg.name));
+  const text = definition.template.replace(
+    /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g,
+    (placeholder, name: string) =>
+      known.has(name) ? (args[name] ?? "") : placeholder,
+  );
+  return {
+    description: definition.description,
+    messages: [{ role: "user", content: { type: "text", text } }],
+  };
+};
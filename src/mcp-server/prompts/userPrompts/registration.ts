@@ -0,0 +1,164 @@
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { config } from "../../../config/index.js";
+import { ObsidianRestApiService } from "../../../services/obsidianRestAPI/index.js";
+import { VaultCacheService } from "../../../services/obsidianRestAPI/vaultCache/index.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import {
+  ErrorHandler,
+  logger,
+  RequestContext,
+  requestContextService,
+} from "../../../utils/index.js";
+import {
+  completerKindForArgument,
+  VaultCompleterKind,
+  VaultCompleters,
+} from "../../completions/index.js";
+import {
+  loadUserPromptDefinitions,
+  renderUserPrompt,
+  UserPromptArgument,
+} from "./logic.js";
+
+/**
+ * Registers prompts defined as markdown files in the vault folder configured by
+ * `OBSIDIAN_PROMPTS_FOLDER`. Each file's body is the prompt template, with
+ * `{{argument}}` placeholders; its frontmatter declares the prompt:
+ *
+ * ```yaml
+ * ---
+ * description: Draft a project status update
+ * arguments:
+ *   - name: project
+ *     description: Project note
+ *     required: true
+ *     complete: note # note | folder | tag | base | period
+ * ---
+ * ```
+ *
+ * Without `complete`, arguments named like tool parameters (`filePath`, `folder`,
+ * `tags`, `base_id`, `period`, ...) get the matching completion automatically.
+ *
+ * Prompts are loaded when the server instance is created (once for stdio, per
+ * session for HTTP), from the vault cache when it is ready and otherwise through
+ * a REST load that sessions opened within a minute of each other share. Loading
+ * problems are logged and never block startup.
+ *
+ * @param {McpServer} server - The MCP server instance to register the prompts with.
+ * @param {ObsidianRestApiService} obsidianService - Service used to read the prompt files.
+ * @param {VaultCacheService | undefined} vaultCacheService - Vault cache to read the prompt files from, if enabled.
+ * @param {VaultCompleters} completers - Completion callbacks for `complete:` arguments.
+ * @param {readonly string[]} reservedNames - Built-in prompt names that user prompts may not override.
+ * @returns {Promise<void>} Resolves when registration is complete.
+ */
+export const registerUserPrompts = async (
+  server: McpServer,
+  obsidianService: ObsidianRestApiService,
+  vaultCacheService: VaultCacheService | undefined,
+  completers: VaultCompleters,
+  reservedNames: readonly string[],
+): Promise<void> => {
+  const folder = config.obsidianPromptsFolder;
+  if (!folder) return;
+
+  const registrationContext: RequestContext =
+    requestContextService.createRequestContext({
+      operation: "RegisterUserPrompts",
+      module: "UserPromptsRegistration",
+      promptsFolder: folder,
+    });
+
+  let definitions;
+  try {
+    definitions = await loadUserPromptDefinitions(
+      folder,
+      registrationContext,
+      obsidianService,
+      vaultCacheService,
+    );
+  } catch (error) {
+    logger.error(
+      `Could not load user prompts from '${folder}': ${error instanceof Error ? error.message : String(error)}`,
+      registrationContext,
+    );
+    return;
+  }
+
+  const completerKinds: Record<
+    NonNullable<UserPromptArgument["complete"]>,
+    VaultCompleterKind
+  > = {
+    note: "notePaths",
+    folder: "folderPaths",
+    tag: "tags",
+    base: "baseIds",
+    period: "periods",
+  };
+  const toArgSchema = (arg: UserPromptArgument) => {
+    const base = z.string().describe(arg.description ?? arg.name);
+    const schema = arg.required ? base : base.optional();
+    const kind = arg.complete
+      ? completerKinds[arg.complete]
+      : completerKindForArgument(arg.name);
+    return kind ? completable(schema, completers[kind]) : schema;
+  };
+
+  const registered = new Set(reservedNames);
+  for (const definition of definitions) {
+    if (registered.has(definition.name)) {
+      logger.warning(
+        `Skipping user prompt '${definition.name}' from '${definition.sourcePath}': the name is already taken.`,
+        registrationContext,
+      );
+      continue;
+    }
+    registered.add(definition.name);
+
+    const argsSchema = Object.fromEntries(
+      definition.arguments.map((arg) => [arg.name, toArgSchema(arg)]),
+    );
+
+    server.registerPrompt(
+      definition.name,
+      {
+        title: definition.title,
+        description:
+          definition.description ??
+          `User prompt defined in ${definition.sourcePath}.`,
+        argsSchema,
+      },
+      async (args: Record<string, string | undefined>) => {
+        const handlerContext: RequestContext =
+          requestContextService.createRequestContext({
+            parentContext: registrationContext,
+            operation: "HandleUserPrompt",
+            promptName: definition.name,
+          });
+        logger.debug(`Handling prompt '${definition.name}'`, handlerContext);
+        return await ErrorHandler.tryCatch(
+          async () => renderUserPrompt(definition, args),
+          {
+            operation: `rendering prompt ${definition.name}`,
+            context: handlerContext,
+            input: args,
+            errorMapper: (error: unknown) =>
+              new McpError(
+                error instanceof McpError
+                  ? error.code
+                  : BaseErrorCode.INTERNAL_ERROR,
+                `Error rendering prompt ${definition.name}: ${error instanceof Error ? error.message : "Unknown error"}`,
+                { ...handlerContext },
+              ),
+          },
+        );
+      },
+    );
+  }
+
+  logger.info(
+    `Registered ${registered.size - reservedNames.length} user prompt(s) from '${folder}'.`,
+    registrationContext,
+  );
+};
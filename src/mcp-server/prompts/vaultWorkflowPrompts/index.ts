@@ -0,0 +1,11 @@
+export {
+  buildBaseReviewPrompt,
+  buildRefactorAtomicNotesPrompt,
+  buildSummarizeFolderPrompt,
+  buildTriageInboxTagsPrompt,
+  buildWeeklyReviewPrompt,
+} from "./logic.js";
+export {
+  registerVaultWorkflowPrompts,
+  VAULT_WORKFLOW_PROMPT_NAMES,
+} from "./registration.js";
@@ -0,0 +1,368 @@
+import type {
+  GetPromptResult,
+  PromptMessage,
+} from "@modelcontextprotocol/sdk/types.js";
+import path from "node:path";
+import {
+  NoteJson,
+  ObsidianRestApiService,
+  VaultCacheService,
+} from "../../../services/obsidianRestAPI/index.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import {
+  extractNoteTags,
+  logger,
+  periodBounds,
+  RequestContext,
+  resolvePeriodicDate,
+  toIsoDay,
+} from "../../../utils/index.js";
+import { toVaultResourceUri } from "../../resources/obsidianVaultResource/index.js";
+
+// ====================================================================================
+// Shared Helpers
+// ====================================================================================
+
+/** Per-note cap on embedded content, to keep prompts within typical context budgets. */
+const MAX_EMBEDDED_NOTE_CHARS = 20_000;
+const DEFAULT_MAX_NOTES = 20;
+const MAX_NOTES_LIMIT = 100;
+
+interface EmbeddedNote {
+  path: string;
+  content: string;
+}
+
+const textMessage = (text: string): PromptMessage => ({
+  role: "user",
+  content: { type: "text", text },
+});
+
+const noteMessage = (note: EmbeddedNote): PromptMessage => ({
+  role: "user",
+  content: {
+    type: "resource",
+    resource: {
+      uri: toVaultResourceUri(note.path),
+      mimeType: "text/markdown",
+      text:
+        note.content.length > MAX_EMBEDDED_NOTE_CHARS
+          ? `${note.content.slice(0, MAX_EMBEDDED_NOTE_CHARS)}\n\n[... truncated ...]`
+          : note.content,
+    },
+  },
+});
+
+/** Parses the optional `maxNotes` string argument (prompt arguments are always strings). */
+function parseMaxNotes(
+  value: string | undefined,
+  context: RequestContext,
+): number {
+  if (!value?.trim()) return DEFAULT_MAX_NOTES;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new McpError(
+      BaseErrorCode.VALIDATION_ERROR,
+      `maxNotes must be a positive integer, got '${value}'.`,
+      context,
+    );
+  }
+  return Math.min(parsed, MAX_NOTES_LIMIT);
+}
+
+const normalizeFolder = (folder: string) =>
+  folder.trim().replace(/^\/+|\/+$/g, "");
+
+/**
+ * Collects the markdown notes of a folder (recursively), most recently modified first.
+ * Uses the vault cache when available; otherwise lists the folder itself through the API.
+ */
+async function collectFolderNotes(
+  folder: string,
+  limit: number,
+  context: RequestContext,
+  obsidianService: ObsidianRestApiService,
+  vaultCacheService: VaultCacheService | undefined,
+): Promise<{ notes: EmbeddedNote[]; total: number }> {
+  const prefix = folder ? `${folder}/` : "";
+
+  if (vaultCacheService?.isReady()) {
+    const matches = [...vaultCacheService.getCache().entries()]
+      .map(([key, entry]) => ({ path: key.replace(/^\/+/, ""), entry }))
+      .filter((note) => note.path.startsWith(prefix))
+      .sort((a, b) => b.entry.mtime - a.entry.mtime);
+    return {
+      notes: matches
+        .slice(0, limit)
+        .map((note) => ({ path: note.path, content: note.entry.content })),
+      total: matches.length,
+    };
+  }
+
+  const entries = await obsidianService.listFiles(folder || "/", context);
+  const notePaths = entries
+    .filter((entry) => entry.toLowerCase().endsWith(".md"))
+    .map((entry) => prefix + entry);
+  const notes: EmbeddedNote[] = [];
+  for (const notePath of notePaths.slice(0, limit)) {
+    const content = (await obsidianService.getFileContent(
+      notePath,
+      "markdown",
+      context,
+    )) as string;
+    notes.push({ path: notePath, content });
+  }
+  return { notes, total: notePaths.length };
+}
+
+// ====================================================================================
+// Prompt Builders
+// ====================================================================================
+
+export interface WeeklyReviewArgs {
+  week?: string;
+}
+
+/**
+ * Builds the weekly review prompt from the daily notes (and weekly note, if any)
+ * of the week containing `week` (defaults to the current week).
+ */
+export const buildWeeklyReviewPrompt = async (
+  args: WeeklyReviewArgs,
+  context: RequestContext,
+  obsidianService: ObsidianRestApiService,
+): Promise<GetPromptResult> => {
+  const reference = await resolvePeriodicDate(args.week, context);
+  const { start, end } = periodBounds("weekly", reference);
+
+  const readPeriodic = async (
+    period: "daily" | "weekly",
+    day: Date,
+  ): Promise<EmbeddedNote | null> => {
+    try {
+      const note = (await obsidianService.getPeriodicNoteForDate(
+        period,
+        {
+          year: day.getFullYear(),
+          month: day.getMonth() + 1,
+          day: day.getDate(),
+        },
+        "json",
+        context,
+      )) as NoteJson;
+      return { path: note.path, content: note.content };
+    } catch (error) {
+      if (error instanceof McpError && error.code === BaseErrorCode.NOT_FOUND) {
+        return null;
+      }
+      throw error;
+    }
+  };
+
+  const dailyNotes: EmbeddedNote[] = [];
+  for (let offset = 0; offset < 7; offset++) {
+    const day = new Date(start);
+    day.setDate(start.getDate() + offset);
+    const note = await readPeriodic("daily", day);
+    if (note) dailyNotes.push(note);
+  }
+  const weeklyNote = await readPeriodic("weekly", start);
+
+  logger.debug(
+    `Weekly review prompt: ${dailyNotes.length} daily note(s), weekly note ${weeklyNote ? "found" : "missing"}.`,
+    context,
+  );
+
+  const range = `${toIsoDay(start)} to ${toIsoDay(end)}`;
+  const messages: PromptMessage[] = [
+    textMessage(
+      [
+        `Run a weekly review for the week of ${range}.`,
+        dailyNotes.length > 0
+          ? `The ${dailyNotes.length} daily note(s) of that week are attached below${weeklyNote ? ", followed by the existing weekly note" : ""}.`
+          : "No daily notes exist for that week; say so and base the review on what you can find with the search tools.",
+        "",
+        "Produce:",
+        "1. Highlights and accomplishments.",
+        "2. Open loops: unfinished tasks (`- [ ]`) and follow-ups, with the note they come from.",
+        "3. Recurring themes, blockers or energy patterns.",
+        "4. Three priorities for next week.",
+        "",
+        weeklyNote
+          ? `Then offer to append the review to the weekly note '${weeklyNote.path}' with obsidian_update_note.`
+          : "Then offer to create the weekly note with obsidian_periodic_note (action 'create') and write the review into it.",
+      ].join("\n"),
+    ),
+    ...dailyNotes.map(noteMessage),
+  ];
+  if (weeklyNote) messages.push(noteMessage(weeklyNote));
+
+  return { description: `Weekly review for ${range}`, messages };
+};
+
+export interface SummarizeFolderArgs {
+  folder: string;
+  maxNotes?: string;
+}
+
+/** Builds a prompt summarizing the most recently modified notes of a folder. */
+export const buildSummarizeFolderPrompt = async (
+  args: SummarizeFolderArgs,
+  context: RequestContext,
+  obsidianService: ObsidianRestApiService,
+  vaultCacheService: VaultCacheService | undefined,
+): Promise<GetPromptResult> => {
+  const folder = normalizeFolder(args.folder);
+  const limit = parseMaxNotes(args.maxNotes, context);
+  const { notes, total } = await collectFolderNotes(
+    folder,
+    limit,
+    context,
+    obsidianService,
+    vaultCacheService,
+  );
+  const label = folder || "the vault root";
+
+  return {
+    description: `Summary of ${label}`,
+    messages: [
+      textMessage(
+        [
+          `Summarize the notes in '${label}'.`,
+          total > notes.length
+            ? `The folder holds ${total} notes; the ${notes.length} most recently modified are attached.`
+            : `All ${notes.length} note(s) are attached.`,
+          "",
+          "Give an overview of what the folder is about, the main topics with the notes that cover them (as [[wikilinks]]), notable decisions or open questions, and notes that look outdated or duplicated.",
+        ].join("\n"),
+      ),
+      ...notes.map(noteMessage),
+    ],
+  };
+};
+
+export interface TriageInboxArgs {
+  folder?: string;
+  maxNotes?: string;
+}
+
+/** Builds a prompt proposing tags for inbox notes, drawing on the vault's existing tag vocabulary. */
+export const buildTriageInboxTagsPrompt = async (
+  args: TriageInboxArgs,
+  context: RequestContext,
+  obsidianService: ObsidianRestApiService,
+  vaultCacheService: VaultCacheService | undefined,
+): Promise<GetPromptResult> => {
+  const folder = normalizeFolder(args.folder ?? "Inbox");
+  const limit = parseMaxNotes(args.maxNotes, context);
+  const { notes, total } = await collectFolderNotes(
+    folder,
+    limit,
+    context,
+    obsidianService,
+    vaultCacheService,
+  );
+
+  const tagCounts = new Map<string, number>();
+  for (const entry of vaultCacheService?.getCache().values() ?? []) {
+    for (const tag of extractNoteTags(entry.content)) {
+      tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1);
+    }
+  }
+  const vocabulary = [...tagCounts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 150)
+    .map(([tag, count]) => `#${tag} (${count})`);
+
+  return {
+    description: `Tag triage for '${folder}'`,
+    messages: [
+      textMessage(
+        [
+          `Triage the notes in '${folder}' by proposing tags for each one.`,
+          total > notes.length
+            ? `${notes.length} of ${total} notes are attached (most recent first).`
+            : `${notes.length} note(s) are attached.`,
+          "",
+          vocabulary.length > 0
+            ? `Existing tags in the vault (usage count): ${vocabulary.join(", ")}.`
+            : "The existing tag vocabulary is unavailable; propose concise, lowercase, kebab-case tags.",
+          "",
+          "Prefer existing tags over new ones and propose at most five per note; flag any new tag explicitly.",
+          "Present a table: note, proposed tags, one-line reason.",
+          "After I confirm, apply the tags with obsidian_manage_tags (operation 'add') and suggest a destination folder for each note.",
+        ].join("\n"),
+      ),
+      ...notes.map(noteMessage),
+    ],
+  };
+};
+
+export interface RefactorAtomicNotesArgs {
+  filePath: string;
+  targetFolder?: string;
+}
+
+/** Builds a prompt splitting one note into atomic notes linked from the original. */
+export const buildRefactorAtomicNotesPrompt = async (
+  args: RefactorAtomicNotesArgs,
+  context: RequestContext,
+  obsidianService: ObsidianRestApiService,
+): Promise<GetPromptResult> => {
+  const filePath = args.filePath.trim().replace(/^\/+/, "");
+  const content = (await obsidianService.getFileContent(
+    filePath,
+    "markdown",
+    context,
+  )) as string;
+  const targetFolder =
+    normalizeFolder(args.targetFolder ?? "") || path.posix.dirname(filePath);
+
+  return {
+    description: `Refactor '${filePath}' into atomic notes`,
+    messages: [
+      textMessage(
+        [
+          `Refactor the attached note '${filePath}' into atomic notes: one idea per note, each understandable on its own.`,
+          "",
+          "1. Propose the list of new notes (title + one-sentence summary) before writing anything.",
+          `2. After I confirm, create each note in '${targetFolder === "." ? "the vault root" : targetFolder}' with obsidian_update_note, keeping relevant tags and adding a link back to the source.`,
+          "3. Replace the moved sections in the original with [[wikilinks]] so it becomes a map of content, using obsidian_search_replace or obsidian_patch_note.",
+          "Do not lose any information; quote rather than paraphrase when in doubt.",
+        ].join("\n"),
+      ),
+      noteMessage({ path: filePath, content }),
+    ],
+  };
+};
+
+export interface BaseReviewArgs {
+  baseId: string;
+}
+
+/** Builds a prompt reviewing the rows of a Base for gaps and inconsistencies. */
+export const buildBaseReviewPrompt = async (
+  args: BaseReviewArgs,
+  context: RequestContext,
+  obsidianService: ObsidianRestApiService,
+): Promise<GetPromptResult> => {
+  const schema = await obsidianService.getBaseSchema(args.baseId, context);
+
+  return {
+    description: `Review of Base '${schema.name ?? schema.id}'`,
+    messages: [
+      textMessage(
+        [
+          `Review the Obsidian Base '${schema.name ?? schema.id}' (${schema.path}). Its schema is below.`,
+          "",
+          "```json",
+          JSON.stringify(schema, null, 2),
+          "```",
+          "",
+          `Fetch its rows with bases_query (base_id '${schema.id}'), then report missing or empty properties, inconsistent values (spelling variants, mixed types, out-of-range dates) and likely duplicates.`,
+          "Propose concrete fixes; after I confirm, apply them with bases_upsert_rows.",
+        ].join("\n"),
+      ),
+    ],
+  };
+};
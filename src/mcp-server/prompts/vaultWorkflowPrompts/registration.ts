@@ -0,0 +1,238 @@
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import {
+  ObsidianRestApiService,
+  VaultCacheService,
+} from "../../../services/obsidianRestAPI/index.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import {
+  ErrorHandler,
+  logger,
+  RequestContext,
+  requestContextService,
+} from "../../../utils/index.js";
+import { VaultCompleters } from "../../completions/index.js";
+import {
+  buildBaseReviewPrompt,
+  buildRefactorAtomicNotesPrompt,
+  buildSummarizeFolderPrompt,
+  buildTriageInboxTagsPrompt,
+  buildWeeklyReviewPrompt,
+} from "./logic.js";
+
+/** Names of the built-in prompts, so user-defined prompts cannot shadow them. */
+export const VAULT_WORKFLOW_PROMPT_NAMES = [
+  "weekly_review",
+  "summarize_folder",
+  "triage_inbox_tags",
+  "refactor_atomic_notes",
+  "base_review",
+] as const;
+
+/**
+ * Registers the built-in vault workflow prompts (weekly review, folder summary,
+ * inbox tag triage, atomic-note refactoring and Base review). Arguments that name
+ * vault objects are completed from live vault data.
+ *
+ * @param {McpServer} server - The MCP server instance to register the prompts with.
+ * @param {ObsidianRestApiService} obsidianService - Service used to gather note content.
+ * @param {VaultCacheService | undefined} vaultCacheService - Optional cache used for folder listings and tags.
+ * @param {VaultCompleters} completers - Completion callbacks for prompt arguments.
+ * @returns {Promise<void>} Resolves when registration is complete.
+ */
+export const registerVaultWorkflowPrompts = async (
+  server: McpServer,
+  obsidianService: ObsidianRestApiService,
+  vaultCacheService: VaultCacheService | undefined,
+  completers: VaultCompleters,
+): Promise<void> => {
+  const registrationContext: RequestContext =
+    requestContextService.createRequestContext({
+      operation: "RegisterVaultWorkflowPrompts",
+      module: "VaultWorkflowPromptsRegistration",
+    });
+
+  logger.info(
+    `Attempting to register prompts: ${VAULT_WORKFLOW_PROMPT_NAMES.join(", ")}`,
+    registrationContext,
+  );
+
+  /** Runs a prompt builder with a per-request context and consistent error mapping. */
+  const handle =
+    <Args>(
+      promptName: string,
+      build: (args: Args, context: RequestContext) => Promise<GetPromptResult>,
+    ) =>
+    async (args: Args): Promise<GetPromptResult> => {
+      const handlerContext: RequestContext =
+        requestContextService.createRequestContext({
+          parentContext: registrationContext,
+          operation: "HandleVaultWorkflowPrompt",
+          promptName,
+          args,
+        });
+      logger.debug(`Handling prompt '${promptName}'`, handlerContext);
+
+      return await ErrorHandler.tryCatch(() => build(args, handlerContext), {
+        operation: `building prompt ${promptName}`,
+        context: handlerContext,
+        input: args,
+        errorMapper: (error: unknown) =>
+          new McpError(
+            error instanceof McpError
+              ? error.code
+              : BaseErrorCode.INTERNAL_ERROR,
+            `Error building prompt ${promptName}: ${error instanceof Error ? error.message : "Unknown error"}`,
+            { ...handlerContext },
+          ),
+      });
+    };
+
+  const maxNotesArg = z
+    .string()
+    .optional()
+    .describe("Maximum number of notes to attach (default 20, max 100).");
+
+  await ErrorHandler.tryCatch(
+    async () => {
+      server.registerPrompt(
+        "weekly_review",
+        {
+          title: "Weekly review",
+          description:
+            "Review a week from its daily notes: highlights, open loops, themes and next week's priorities.",
+          argsSchema: {
+            week: z
+              .string()
+              .optional()
+              .describe(
+                "Any date inside the week to review, e.g. 'last week', '2025-W27' or '2025-07-04'. Defaults to the current week.",
+              ),
+          },
+        },
+        handle("weekly_review", (args, context) =>
+          buildWeeklyReviewPrompt(args, context, obsidianService),
+        ),
+      );
+
+      server.registerPrompt(
+        "summarize_folder",
+        {
+          title: "Summarize folder",
+          description:
+            "Summarize the most recently modified notes of a folder: topics, decisions, open questions and stale notes.",
+          argsSchema: {
+            folder: completable(
+              z
+                .string()
+                .describe("Vault-relative folder path, e.g. 'Projects/Q3'."),
+              completers.folderPaths,
+            ),
+            maxNotes: maxNotesArg,
+          },
+        },
+        handle("summarize_folder", (args, context) =>
+          buildSummarizeFolderPrompt(
+            args,
+            context,
+            obsidianService,
+            vaultCacheService,
+          ),
+        ),
+      );
+
+      server.registerPrompt(
+        "triage_inbox_tags",
+        {
+          title: "Triage inbox tags",
+          description:
+            "Propose tags for the notes in an inbox folder, reusing the vault's existing tag vocabulary.",
+          argsSchema: {
+            folder: completable(
+              z
+                .string()
+                .optional()
+                .describe("Inbox folder to triage. Defaults to 'Inbox'."),
+              completers.folderPaths,
+            ),
+            maxNotes: maxNotesArg,
+          },
+        },
+        handle("triage_inbox_tags", (args, context) =>
+          buildTriageInboxTagsPrompt(
+            args,
+            context,
+            obsidianService,
+            vaultCacheService,
+          ),
+        ),
+      );
+
+      server.registerPrompt(
+        "refactor_atomic_notes",
+        {
+          title: "Refactor into atomic notes",
+          description:
+            "Split a long note into atomic notes and turn the original into a linked map of content.",
+          argsSchema: {
+            filePath: completable(
+              z
+                .string()
+                .describe("Vault-relative path of the note to refactor."),
+              completers.notePaths,
+            ),
+            targetFolder: completable(
+              z
+                .string()
+                .optional()
+                .describe(
+                  "Folder for the new notes. Defaults to the source note's folder.",
+                ),
+              completers.folderPaths,
+            ),
+          },
+        },
+        handle("refactor_atomic_notes", (args, context) =>
+          buildRefactorAtomicNotesPrompt(args, context, obsidianService),
+        ),
+      );
+
+      server.registerPrompt(
+        "base_review",
+        {
+          title: "Review a Base",
+          description:
+            "Audit the rows of an Obsidian Base for missing properties, inconsistent values and duplicates.",
+          argsSchema: {
+            baseId: completable(
+              z.string().describe("Id of the Base to review (see bases_list)."),
+              completers.baseIds,
+            ),
+          },
+        },
+        handle("base_review", (args, context) =>
+          buildBaseReviewPrompt(args, context, obsidianService),
+        ),
+      );
+
+      logger.info(
+        "Vault workflow prompts registered successfully.",
+        registrationContext,
+      );
+    },
+    {
+      operation: "registering vault workflow prompts",
+      context: registrationContext,
+      errorCode: BaseErrorCode.INTERNAL_ERROR,
+      errorMapper: (error: unknown) =>
+        new McpError(
+          error instanceof McpError ? error.code : BaseErrorCode.INTERNAL_ERROR,
+          `Failed to register vault workflow prompts: ${error instanceof Error ? error.message : "Unknown error"}`,
+          { ...registrationContext },
+        ),
+      critical: true,
+    },
+  );
+};
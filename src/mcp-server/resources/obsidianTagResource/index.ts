@@ -0,0 +1,7 @@
+export {
+  collectTagCounts,
+  TAG_RESOURCE_URI_PREFIX,
+  TAG_RESOURCE_URI_TEMPLATE,
+  toTagResourceUri,
+} from "./logic.js";
+export { registerObsidianTagResource } from "./registration.js";
@@ -0,0 +1,77 @@
+import { VaultCacheService } from "../../../services/obsidianRestAPI/index.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import {
+  countNoteTags,
+  extractNoteTags,
+  logger,
+  RequestContext,
+} from "../../../utils/index.js";
+import { toVaultResourceUri } from "../obsidianVaultResource/index.js";
+
+export const TAG_RESOURCE_URI_PREFIX = "obsidian://tags/";
+export const TAG_RESOURCE_URI_TEMPLATE = `${TAG_RESOURCE_URI_PREFIX}{+tag}`;
+
+export const toTagResourceUri = (tag: string) =>
+  TAG_RESOURCE_URI_PREFIX +
+  tag.replace(/^#/, "").split("/").map(encodeURIComponent).join("/");
+
+export interface TagResourceContent {
+  tag: string;
+  noteCount: number;
+  notes: Array<{ path: string; uri: string }>;
+}
+
+/**
+ * Counts tag usage across cached notes.
+ */
+export const collectTagCounts = (
+  vaultCacheService: VaultCacheService,
+): Map<string, number> =>
+  countNoteTags(
+    [...vaultCacheService.getCache().values()].map((entry) => entry.content),
+  );
+
+/**
+ * Lists the notes carrying `tag` or one of its nested tags (`project` also
+ * matches `project/alpha`), most recently modified first.
+ */
+export const readTagResource = (
+  rawTag: string,
+  context: RequestContext,
+  vaultCacheService: VaultCacheService,
+): TagResourceContent => {
+  let tag: string;
+  try {
+    tag = decodeURIComponent(rawTag).replace(/^#/, "");
+  } catch {
+    throw new McpError(
+      BaseErrorCode.VALIDATION_ERROR,
+      `Invalid percent-encoding in tag: ${rawTag}`,
+      context,
+    );
+  }
+  if (!vaultCacheService.isReady()) {
+    throw new McpError(
+      BaseErrorCode.SERVICE_UNAVAILABLE,
+      "The vault cache is still being built; try again shortly.",
+      context,
+    );
+  }
+
+  const wanted = tag.toLowerCase();
+  const notes = [...vaultCacheService.getCache().entries()]
+    .filter(([, entry]) =>
+      extractNoteTags(entry.content).some((noteTag) => {
+        const candidate = noteTag.toLowerCase();
+        return candidate === wanted || candidate.startsWith(`${wanted}/`);
+      }),
+    )
+    .sort(([, a], [, b]) => b.mtime - a.mtime)
+    .map(([key]) => {
+      const notePath = key.replace(/^\/+/, "");
+      return { path: notePath, uri: toVaultResourceUri(notePath) };
+    });
+
+  logger.debug(`Tag '${tag}' matched ${notes.length} note(s).`, context);
+  return { tag, noteCount: notes.length, notes };
+};
@@ -0,0 +1,137 @@
+import {
+  McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { VaultCacheService } from "../../../services/obsidianRestAPI/index.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import {
+  ErrorHandler,
+  logger,
+  RequestContext,
+  requestContextService,
+} from "../../../utils/index.js";
+import { VaultCompleters } from "../../completions/index.js";
+import {
+  collectTagCounts,
+  readTagResource,
+  TAG_RESOURCE_URI_TEMPLATE,
+  toTagResourceUri,
+} from "./logic.js";
+
+/**
+ * Registers the `obsidian://tags/{+tag}` resource template: one resource per tag,
+ * whose content lists the notes carrying it. Requires the vault cache.
+ *
+ * @param {McpServer} server - The MCP server instance to register the resource with.
+ * @param {VaultCacheService} vaultCacheService - Source of tags and notes.
+ * @param {VaultCompleters} completers - Completes the `tag` variable.
+ * @returns {Promise<void>} Resolves when registration is complete.
+ */
+export const registerObsidianTagResource = async (
+  server: McpServer,
+  vaultCacheService: VaultCacheService,
+  completers: VaultCompleters,
+): Promise<void> => {
+  const resourceName = "obsidian_tags";
+
+  const registrationContext: RequestContext =
+    requestContextService.createRequestContext({
+      operation: "RegisterObsidianTagResource",
+      resourceName: resourceName,
+      module: "ObsidianTagResourceRegistration",
+    });
+
+  logger.info(
+    `Attempting to register resource: ${resourceName}`,
+    registrationContext,
+  );
+
+  await ErrorHandler.tryCatch(
+    async () => {
+      const template = new ResourceTemplate(TAG_RESOURCE_URI_TEMPLATE, {
+        list: async () => ({
+          resources: [...collectTagCounts(vaultCacheService).entries()]
+            .sort((a, b) => b[1] - a[1])
+            .map(([tag, count]) => ({
+              uri: toTagResourceUri(tag),
+              name: `#${tag}`,
+              description: `${count} note(s)`,
+              mimeType: "application/json",
+            })),
+        }),
+        complete: { tag: completers.tags },
+      });
+
+      server.registerResource(
+        resourceName,
+        template,
+        {
+          title: "Obsidian tags",
+          description:
+            "Notes carrying a tag (including nested tags), addressed as obsidian://tags/<tag>.",
+          mimeType: "application/json",
+        },
+        async (uri, variables) => {
+          const handlerContext: RequestContext =
+            requestContextService.createRequestContext({
+              parentContext: registrationContext,
+              operation: "HandleObsidianTagResourceRead",
+              resourceUri: uri.href,
+            });
+
+          return await ErrorHandler.tryCatch(
+            async () => {
+              const rawTag = Array.isArray(variables.tag)
+                ? variables.tag.join("/")
+                : variables.tag;
+              const content = readTagResource(
+                rawTag,
+                handlerContext,
+                vaultCacheService,
+              );
+              return {
+                contents: [
+                  {
+                    uri: uri.href,
+                    mimeType: "application/json",
+                    text: JSON.stringify(content, null, 2),
+                  },
+                ],
+              };
+            },
+            {
+              operation: `reading resource ${resourceName}`,
+              context: handlerContext,
+              input: { uri: uri.href },
+              errorMapper: (error: unknown) =>
+                new McpError(
+                  error instanceof McpError
+                    ? error.code
+                    : BaseErrorCode.INTERNAL_ERROR,
+                  `Error reading resource ${uri.href}: ${error instanceof Error ? error.message : "Unknown error"}`,
+                  { ...handlerContext },
+                ),
+            },
+          );
+        },
+      );
+
+      logger.info(
+        `Resource registered successfully: ${resourceName}`,
+        registrationContext,
+      );
+    },
+    {
+      operation: `registering resource ${resourceName}`,
+      context: registrationContext,
+      errorCode: BaseErrorCode.INTERNAL_ERROR,
+      errorMapper: (error: unknown) =>
+        new McpError(
+          error instanceof McpError ? error.code : BaseErrorCode.INTERNAL_ERROR,
+          `Failed to register resource '${resourceName}': ${error instanceof Error ? error.message : "Unknown error"}`,
+          { ...registrationContext },
+        ),
+      critical: true,
+    },
+  );
+};
@@ -0,0 +1,9 @@
+export {
+  fromVaultResourceUri,
+  getVaultFileMimeType,
+  toVaultResourceUri,
+  VAULT_RESOURCE_URI_PREFIX,
+  VAULT_RESOURCE_URI_TEMPLATE,
+} from "./logic.js";
+export { registerObsidianVaultResource } from "./registration.js";
+export { registerObsidianVaultSubscriptions } from "./subscriptions.js";
@@ -0,0 +1,212 @@
+import path from "node:path";
+import {
+  ObsidianRestApiService,
+  VaultCacheService,
+} from "../../../services/obsidianRestAPI/index.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import { logger, RequestContext } from "../../../utils/index.js";
+
+// ====================================================================================
+// URI Helpers
+// ====================================================================================
+
+/** Scheme and authority shared by every vault resource URI. */
+export const VAULT_RESOURCE_URI_PREFIX = "obsidian://vault/";
+
+/** RFC 6570 template; `{+path}` keeps the `/` separators of nested folders. */
+export const VAULT_RESOURCE_URI_TEMPLATE = `${VAULT_RESOURCE_URI_PREFIX}{+path}`;
+
+/**
+ * Builds the resource URI of a vault file. Each path segment is percent-encoded so
+ * spaces and special characters survive the round trip through `URL`.
+ * @param filePath - Vault-relative path, with or without a leading slash.
+ * @returns The `obsidian://vault/...` URI.
+ */
+export function toVaultResourceUri(filePath: string): string {
+  const normalized = filePath.replace(/^\/+/, "");
+  return (
+    VAULT_RESOURCE_URI_PREFIX +
+    normalized.split("/").map(encodeURIComponent).join("/")
+  );
+}
+
+/**
+ * Extracts the vault-relative path from a resource URI or a matched `{+path}` variable.
+ * @param uriOrPath - A full `obsidian://vault/...` URI or the encoded path part.
+ * @param context - Request context for error reporting.
+ * @returns The decoded vault-relative path (no leading slash).
+ * @throws {McpError} If the path is empty or escapes the vault root.
+ */
+export function fromVaultResourceUri(
+  uriOrPath: string,
+  context: RequestContext,
+): string {
+  const encoded = uriOrPath.startsWith(VAULT_RESOURCE_URI_PREFIX)
+    ? uriOrPath.slice(VAULT_RESOURCE_URI_PREFIX.length)
+    : uriOrPath;
+
+  let decoded: string;
+  try {
+    decoded = encoded.split("/").map(decodeURIComponent).join("/");
+  } catch {
+    throw new McpError(
+      BaseErrorCode.VALIDATION_ERROR,
+      `Invalid percent-encoding in resource URI: ${uriOrPath}`,
+      context,
+    );
+  }
+
+  const normalized = path.posix.normalize(decoded).replace(/^\/+/, "");
+  // Only a `..` segment escapes the vault; names like `..notes/x.md` are valid.
+  if (
+    !normalized ||
+    normalized === "." ||
+    normalized.split("/").includes("..")
+  ) {
+    throw new McpError(
+      BaseErrorCode.VALIDATION_ERROR,
+      `Resource URI does not point to a file inside the vault: ${uriOrPath}`,
+      context,
+    );
+  }
+  return normalized;
+}
+
+// ====================================================================================
+// MIME Types
+// ====================================================================================
+
+/**
+ * MIME types by extension. `.base` files are YAML and `.canvas` files are JSON Canvas
+ * documents; attachments cover the formats Obsidian can embed.
+ */
+const MIME_TYPES: Record<string, string> = {
+  ".md": "text/markdown",
+  ".base": "application/yaml",
+  ".canvas": "application/json",
+  ".json": "application/json",
+  ".txt": "text/plain",
+  ".csv": "text/csv",
+  ".css": "text/css",
+  ".html": "text/html",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".bmp": "image/bmp",
+  ".avif": "image/avif",
+  ".pdf": "application/pdf",
+  ".mp3": "audio/mpeg",
+  ".wav": "audio/wav",
+  ".m4a": "audio/mp4",
+  ".ogg": "audio/ogg",
+  ".flac": "audio/flac",
+  ".webm": "video/webm",
+  ".mp4": "video/mp4",
+  ".mov": "video/quicktime",
+  ".mkv": "video/x-matroska",
+};
+
+const TEXT_MIME_TYPES = new Set([
+  "application/json",
+  "application/yaml",
+  "image/svg+xml",
+]);
+
+/**
+ * Returns the MIME type for a vault file, falling back to `application/octet-stream`.
+ */
+export function getVaultFileMimeType(filePath: string): string {
+  return (
+    MIME_TYPES[path.posix.extname(filePath).toLowerCase()] ??
+    "application/octet-stream"
+  );
+}
+
+function isTextMimeType(mimeType: string): boolean {
+  return mimeType.startsWith("text/") || TEXT_MIME_TYPES.has(mimeType);
+}
+
+// ====================================================================================
+// Core Logic Functions
+// ====================================================================================
+
+export interface VaultResourceListing {
+  uri: string;
+  name: string;
+  title: string;
+  mimeType: string;
+  annotations?: { lastModified: string };
+}
+
+export type VaultResourceContent =
+  | { uri: string; mimeType: string; text: string }
+  | { uri: string; mimeType: string; blob: string };
+
+/**
+ * Lists the markdown notes known to the vault cache as resources, sorted by path.
+ * Returns an empty list while the cache is still being built.
+ */
+export const listVaultResources = (
+  vaultCacheService: VaultCacheService,
+  context: RequestContext,
+): VaultResourceListing[] => {
+  if (!vaultCacheService.isReady()) {
+    logger.debug(
+      "Vault cache not ready; returning an empty resource list.",
+      context,
+    );
+    return [];
+  }
+
+  const resources: VaultResourceListing[] = [];
+  for (const [cachePath, entry] of vaultCacheService.getCache()) {
+    const filePath = cachePath.replace(/^\/+/, "");
+    resources.push({
+      uri: toVaultResourceUri(filePath),
+      name: filePath,
+      title: path.posix.basename(filePath, path.posix.extname(filePath)),
+      mimeType: getVaultFileMimeType(filePath),
+      ...(entry.mtime
+        ? { annotations: { lastModified: new Date(entry.mtime).toISOString() } }
+        : {}),
+    });
+  }
+  resources.sort((a, b) => a.name.localeCompare(b.name));
+
+  logger.debug(`Listed ${resources.length} vault resources.`, context);
+  return resources;
+};
+
+/**
+ * Reads a vault file for `resources/read`. Text formats are returned as `text`,
+ * everything else as base64 `blob`.
+ */
+export const readVaultResource = async (
+  uri: string,
+  filePath: string,
+  context: RequestContext,
+  obsidianService: ObsidianRestApiService,
+): Promise<VaultResourceContent> => {
+  const mimeType = getVaultFileMimeType(filePath);
+  logger.debug(`Reading vault resource '${filePath}'`, {
+    ...context,
+    mimeType,
+  });
+
+  if (mimeType === "text/markdown") {
+    const text = (await obsidianService.getFileContent(
+      filePath,
+      "markdown",
+      context,
+    )) as string;
+    return { uri, mimeType, text };
+  }
+
+  const data = await obsidianService.getFileBinary(filePath, context);
+  return isTextMimeType(mimeType)
+    ? { uri, mimeType, text: data.toString("utf-8") }
+    : { uri, mimeType, blob: data.toString("base64") };
+};
@@ -0,0 +1,138 @@
+import {
+  McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ObsidianRestApiService,
+  VaultCacheService,
+} from "../../../services/obsidianRestAPI/index.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import {
+  ErrorHandler,
+  logger,
+  RequestContext,
+  requestContextService,
+} from "../../../utils/index.js";
+import { VaultCompleters } from "../../completions/index.js";
+import {
+  fromVaultResourceUri,
+  listVaultResources,
+  readVaultResource,
+  VAULT_RESOURCE_URI_TEMPLATE,
+} from "./logic.js";
+
+/**
+ * Registers the `obsidian://vault/{+path}` resource template with the MCP server.
+ *
+ * Notes are listed from the vault cache (when enabled), and any vault file —
+ * markdown notes, `.base`, `.canvas` and attachments — can be read by URI.
+ *
+ * @param {McpServer} server - The MCP server instance to register the resource with.
+ * @param {ObsidianRestApiService} obsidianService - Service used to read file contents.
+ * @param {VaultCacheService | undefined} vaultCacheService - Source of the resource list; listing is disabled when undefined.
+ * @param {VaultCompleters} completers - Completes the `path` variable from note paths.
+ * @returns {Promise<void>} Resolves when registration is complete.
+ */
+export const registerObsidianVaultResource = async (
+  server: McpServer,
+  obsidianService: ObsidianRestApiService,
+  vaultCacheService: VaultCacheService | undefined,
+  completers: VaultCompleters,
+): Promise<void> => {
+  const resourceName = "obsidian_vault";
+
+  const registrationContext: RequestContext =
+    requestContextService.createRequestContext({
+      operation: "RegisterObsidianVaultResource",
+      resourceName: resourceName,
+      module: "ObsidianVaultResourceRegistration",
+    });
+
+  logger.info(
+    `Attempting to register resource: ${resourceName}`,
+    registrationContext,
+  );
+
+  await ErrorHandler.tryCatch(
+    async () => {
+      const template = new ResourceTemplate(VAULT_RESOURCE_URI_TEMPLATE, {
+        list: vaultCacheService
+          ? async () => {
+              const listContext = requestContextService.createRequestContext({
+                parentContext: registrationContext,
+                operation: "ListObsidianVaultResources",
+              });
+              return {
+                resources: listVaultResources(vaultCacheService, listContext),
+              };
+            }
+          : undefined,
+        complete: { path: completers.notePaths },
+      });
+
+      server.registerResource(
+        resourceName,
+        template,
+        {
+          title: "Obsidian vault files",
+          description:
+            "Notes and files of the Obsidian vault, addressed as obsidian://vault/<vault-relative path>. Markdown notes are listed; .base, .canvas and attachments can be read by URI.",
+        },
+        async (uri, variables) => {
+          const handlerContext: RequestContext =
+            requestContextService.createRequestContext({
+              parentContext: registrationContext,
+              operation: "HandleObsidianVaultResourceRead",
+              resourceUri: uri.href,
+            });
+
+          return await ErrorHandler.tryCatch(
+            async () => {
+              const rawPath = Array.isArray(variables.path)
+                ? variables.path.join("/")
+                : variables.path;
+              const filePath = fromVaultResourceUri(rawPath, handlerContext);
+              const content = await readVaultResource(
+                uri.href,
+                filePath,
+                handlerContext,
+                obsidianService,
+              );
+              return { contents: [content] };
+            },
+            {
+              operation: `reading resource ${resourceName}`,
+              context: handlerContext,
+              input: { uri: uri.href },
+              errorMapper: (error: unknown) =>
+                new McpError(
+                  error instanceof McpError
+                    ? error.code
+                    : BaseErrorCode.INTERNAL_ERROR,
+                  `Error reading resource ${uri.href}: ${error instanceof Error ? error.message : "Unknown error"}`,
+                  { ...handlerContext },
+                ),
+            },
+          );
+        },
+      );
+
+      logger.info(
+        `Resource registered successfully: ${resourceName}`,
+        registrationContext,
+      );
+    },
+    {
+      operation: `registering resource ${resourceName}`,
+      context: registrationContext,
+      errorCode: BaseErrorCode.INTERNAL_ERROR,
+      errorMapper: (error: unknown) =>
+        new McpError(
+          error instanceof McpError ? error.code : BaseErrorCode.INTERNAL_ERROR,
+          `Failed to register resource '${resourceName}': ${error instanceof Error ? error.message : "Unknown error"}`,
+          { ...registrationContext },
+        ),
+      critical: true,
+    },
+  );
+};
@@ -0,0 +1,134 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  VaultCacheDiff,
+  VaultCacheService,
+} from "../../../services/obsidianRestAPI/index.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import {
+  logger,
+  RequestContext,
+  requestContextService,
+} from "../../../utils/index.js";
+import {
+  fromVaultResourceUri,
+  toVaultResourceUri,
+  VAULT_RESOURCE_URI_PREFIX,
+} from "./logic.js";
+
+/**
+ * Wires `resources/subscribe` and `resources/unsubscribe` for vault resources and turns
+ * vault cache diffs into `notifications/resources/updated` (for subscribed URIs) and
+ * `notifications/resources/list_changed` (when files are added or removed).
+ *
+ * Subscriptions are held per `McpServer` instance, i.e. once for stdio and per session
+ * for HTTP. The cache listener is removed when the session's transport closes.
+ *
+ * The high-level McpServer API has no subscription support, so the two request
+ * handlers are registered on the underlying `Server`; no other resource requests
+ * are handled at that level.
+ *
+ * @param {McpServer} server - The MCP server instance (one per session).
+ * @param {VaultCacheService} vaultCacheService - The shared cache whose refreshes drive notifications.
+ */
+export const registerObsidianVaultSubscriptions = (
+  server: McpServer,
+  vaultCacheService: VaultCacheService,
+): void => {
+  const registrationContext: RequestContext =
+    requestContextService.createRequestContext({
+      operation: "RegisterObsidianVaultSubscriptions",
+      module: "ObsidianVaultResourceSubscriptions",
+    });
+  const subscribedPaths = new Set<string>();
+
+  const toSubscribedPath = (uri: string, context: RequestContext): string => {
+    if (!uri.startsWith(VAULT_RESOURCE_URI_PREFIX)) {
+      throw new McpError(
+        BaseErrorCode.VALIDATION_ERROR,
+        `Only ${VAULT_RESOURCE_URI_PREFIX}... resources support subscriptions: ${uri}`,
+        context,
+      );
+    }
+    return fromVaultResourceUri(uri, context);
+  };
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const context = requestContextService.createRequestContext({
+      parentContext: registrationContext,
+      operation: "HandleResourceSubscribe",
+      resourceUri: request.params.uri,
+    });
+    subscribedPaths.add(toSubscribedPath(request.params.uri, context));
+    logger.debug(`Subscribed to ${request.params.uri}`, {
+      ...context,
+      subscriptionCount: subscribedPaths.size,
+    });
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    const context = requestContextService.createRequestContext({
+      parentContext: registrationContext,
+      operation: "HandleResourceUnsubscribe",
+      resourceUri: request.params.uri,
+    });
+    subscribedPaths.delete(toSubscribedPath(request.params.uri, context));
+    logger.debug(`Unsubscribed from ${request.params.uri}`, {
+      ...context,
+      subscriptionCount: subscribedPaths.size,
+    });
+    return {};
+  });
+
+  const notify = (kind: string, send: () => Promise<void> | void) => {
+    // Notifications are best-effort: a closed or not-yet-connected transport must not break cache refreshes.
+    Promise.resolve()
+      .then(send)
+      .catch((error) =>
+        logger.debug(
+          `Could not send ${kind} notification: ${error instanceof Error ? error.message : String(error)}`,
+          registrationContext,
+        ),
+      );
+  };
+
+  const handleDiff = (diff: VaultCacheDiff) => {
+    if (!server.isConnected()) return;
+
+    if (diff.added.length > 0 || diff.removed.length > 0) {
+      notify("resources/list_changed", () => server.sendResourceListChanged());
+    }
+
+    if (subscribedPaths.size === 0) return;
+    // A subscribed path may be added back after a delete, so all three lists are relevant.
+    for (const filePath of [...diff.added, ...diff.updated, ...diff.removed]) {
+      if (!subscribedPaths.has(filePath)) continue;
+      const uri = toVaultResourceUri(filePath);
+      notify("resources/updated", () =>
+        server.server.sendResourceUpdated({ uri }),
+      );
+    }
+  };
+
+  const removeListener = vaultCacheService.onChange(handleDiff);
+
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    removeListener();
+    subscribedPaths.clear();
+    logger.debug(
+      "Removed vault cache listener for closed session.",
+      registrationContext,
+    );
+    previousOnClose?.();
+  };
+
+  logger.info(
+    "Resource subscriptions enabled for obsidian://vault resources.",
+    registrationContext,
+  );
+};
@@ -24,16 +24,38 @@ import { ErrorHandler, logger, requestContextService } from "../utils/index.js";
 import { ObsidianRestApiService } from "../services/obsidianRestAPI/index.js";
 // Import the Vault Cache service
 import { VaultCacheService } from "../services/obsidianRestAPI/vaultCache/index.js";
+// Import the Bases service (bridge plugin, or local engine when the plugin is missing)
+import { BasesService } from "../services/bases/index.js";
 // Import registration functions for specific resources and tools.
+import { createVaultCompleters } from "./completions/index.js";
+import { registerUserPrompts } from "./prompts/userPrompts/index.js";
+import {
+  registerVaultWorkflowPrompts,
+  VAULT_WORKFLOW_PROMPT_NAMES,
+} from "./prompts/vaultWorkflowPrompts/index.js";
+import { registerObsidianTagResource } from "./resources/obsidianTagResource/index.js";
+import {
+  registerObsidianVaultResource,
+  registerObsidianVaultSubscriptions,
+} from "./resources/obsidianVaultResource/index.js";
 import { registerObsidianDeleteNoteTool } from "./tools/obsidianDeleteNoteTool/index.js";
 import { registerObsidianGlobalSearchTool } from "./tools/obsidianGlobalSearchTool/index.js";
 import { registerObsidianListNotesTool } from "./tools/obsidianListNotesTool/index.js";
 import { registerObsidianReadNoteTool } from "./tools/obsidianReadNoteTool/index.js";
 import { registerObsidianSearchReplaceTool } from "./tools/obsidianSearchReplaceTool/index.js";
 import { registerObsidianUpdateNoteTool } from "./tools/obsidianUpdateNoteTool/index.js";
+import { registerObsidianPatchNoteTool } from "./tools/obsidianPatchNoteTool/index.js";
+import { registerObsidianStructuredQueryTool } from "./tools/obsidianStructuredQueryTool/index.js";
 import { registerObsidianManageFrontmatterTool } from "./tools/obsidianManageFrontmatterTool/index.js";
 import { registerObsidianManageTagsTool } from "./tools/obsidianManageTagsTool/index.js";
+import { registerObsidianListCommandsTool } from "./tools/obsidianListCommandsTool/index.js";
+import { registerObsidianExecuteCommandTool } from "./tools/obsidianExecuteCommandTool/index.js";
+import { registerObsidianWorkspaceTool } from "./tools/obsidianWorkspaceTool/index.js";
+import { registerObsidianPeriodicNoteTool } from "./tools/obsidianPeriodicNoteTool/index.js";
 import { registerSemanticSearchTool } from "./tools/semanticSearchTool/index.js";
+import { registerHybridSearchTool } from "./tools/hybridSearchTool/index.js";
+import { registerSmartRelatedNotesTool } from "./tools/smartRelatedNotesTool/index.js";
+import { registerSmartFindDuplicatesTool } from "./tools/smartFindDuplicatesTool/index.js";
 import { registerBasesListTool } from "./tools/basesListTool/index.js";
 import { registerBasesGetSchemaTool } from "./tools/basesGetSchemaTool/index.js";
 import { registerBasesQueryTool } from "./tools/basesQueryTool/index.js";
@@ -88,7 +110,8 @@ async function createMcpServerInstance(
     },
     capabilities: {
       logging: {},
-      resources: { listChanged: true },
+      prompts: { listChanged: true },
+      resources: { listChanged: true, subscribe: !!vaultCacheService },
       tools: { listChanged: true },
     },
   });
@@ -97,7 +120,9 @@ async function createMcpServerInstance(
     {
       capabilities: {
         logging: {}, // Server can receive logging/setLevel and send notifications/message
-        resources: { listChanged: true }, // Server supports dynamic resource lists
+        prompts: { listChanged: true }, // Server exposes workflow and user-defined prompts
+        // Subscriptions are driven by vault cache diffs, so they need the cache.
+        resources: { listChanged: true, subscribe: !!vaultCacheService },
         tools: { listChanged: true }, // Server supports dynamic tool lists
       },
     },
@@ -105,9 +130,38 @@ async function createMcpServerInstance(
 
   try {
     logger.debug(
-      "Registering resources and tools using shared services...",
+      "Registering resources, prompts and tools using shared services...",
       context,
     );
+    const basesService = new BasesService(obsidianService, vaultCacheService);
+    const completers = createVaultCompleters(
+      obsidianService,
+      vaultCacheService,
+      basesService,
+    );
+    await registerObsidianVaultResource(
+      server,
+      obsidianService,
+      vaultCacheService,
+      completers,
+    );
+    if (vaultCacheService) {
+      await registerObsidianTagResource(server, vaultCacheService, completers);
+      registerObsidianVaultSubscriptions(server, vaultCacheService);
+    }
+    await registerVaultWorkflowPrompts(
+      server,
+      obsidianService,
+      vaultCacheService,
+      completers,
+    );
+    await registerUserPrompts(
+      server,
+      obsidianService,
+      vaultCacheService,
+      completers,
+      VAULT_WORKFLOW_PROMPT_NAMES,
+    );
     // Register all tools, passing the vaultCacheService which may be undefined
     await registerObsidianListNotesTool(server, obsidianService);
     await registerObsidianReadNoteTool(server, obsidianService);
@@ -128,6 +182,7 @@ async function createMcpServerInstance(
         context,
       );
     }
+    await registerObsidianStructuredQueryTool(server, obsidianService);
     await registerObsidianSearchReplaceTool(
       server,
       obsidianService,
@@ -138,6 +193,11 @@ async function createMcpServerInstance(
       obsidianService,
       vaultCacheService,
     );
+    await registerObsidianPatchNoteTool(
+      server,
+      obsidianService,
+      vaultCacheService,
+    );
     await registerObsidianManageFrontmatterTool(
       server,
       obsidianService,
@@ -148,17 +208,35 @@ async function createMcpServerInstance(
       obsidianService,
       vaultCacheService,
     );
+    await registerObsidianListCommandsTool(server, obsidianService);
+    await registerObsidianExecuteCommandTool(server, obsidianService);
+    await registerObsidianWorkspaceTool(server, obsidianService);
+    await registerObsidianPeriodicNoteTool(
+      server,
+      obsidianService,
+      vaultCacheService,
+    );
     await registerSemanticSearchTool(
       server,
       obsidianService,
       vaultCacheService,
     );
-    await registerBasesListTool(server, obsidianService);
-    await registerBasesGetSchemaTool(server, obsidianService);
-    await registerBasesQueryTool(server, obsidianService);
-    await registerBasesUpsertRowsTool(server, obsidianService);
-    await registerBasesCreateTool(server, obsidianService);
-    await registerBasesUpsertConfigTool(server, obsidianService);
+    await registerSmartRelatedNotesTool(server);
+    await registerSmartFindDuplicatesTool(server);
+    if (vaultCacheService) {
+      await registerHybridSearchTool(server, vaultCacheService);
+    } else {
+      logger.warning(
+        "Skipping registration of 'hybrid_search' because the Vault Cache Service is disabled.",
+        context,
+      );
+    }
+    await registerBasesListTool(server, basesService);
+    await registerBasesGetSchemaTool(server, basesService);
+    await registerBasesQueryTool(server, basesService);
+    await registerBasesUpsertRowsTool(server, basesService);
+    await registerBasesCreateTool(server, basesService);
+    await registerBasesUpsertConfigTool(server, basesService);
 
     logger.info("Resources and tools registered successfully", context);
 
@@ -3,7 +3,7 @@
  */
 
 import { z } from "zod";
-import { ObsidianRestApiService } from "../../../services/obsidianRestAPI/index.js";
+import { BasesService } from "../../../services/bases/index.js";
 import {
   BaseCreateRequest,
   BaseCreateResponse,
@@ -43,7 +43,7 @@ export type BasesCreateInput = z.infer<typeof BasesCreateInputSchema>;
 export async function processBasesCreate(
   params: BasesCreateInput,
   parentContext: RequestContext,
-  obsidianService: ObsidianRestApiService,
+  basesService: BasesService,
 ): Promise<BaseCreateResponse> {
   const payload: BaseCreateRequest = {
     path: params.path,
@@ -62,6 +62,6 @@ export async function processBasesCreate(
     },
   });
 
-  logger.debug("Creating base via REST bridge", context);
-  return obsidianService.createBase(payload, context);
+  logger.debug("Creating base", context);
+  return basesService.createBase(payload, context);
 }
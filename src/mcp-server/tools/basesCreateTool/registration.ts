@@ -1,5 +1,5 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { ObsidianRestApiService } from "../../../services/obsidianRestAPI/index.js";
+import { BasesService } from "../../../services/bases/index.js";
 import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
 import {
   ErrorHandler,
@@ -19,7 +19,7 @@ const TOOL_DESCRIPTION =
 
 export async function registerBasesCreateTool(
   server: McpServer,
-  obsidianService: ObsidianRestApiService,
+  basesService: BasesService,
 ): Promise<void> {
   const registrationContext: RequestContext =
     requestContextService.createRequestContext({
@@ -48,7 +48,7 @@ export async function registerBasesCreateTool(
           const result = await processBasesCreate(
             params,
             handlerContext,
-            obsidianService,
+            basesService,
           );
 
           return {
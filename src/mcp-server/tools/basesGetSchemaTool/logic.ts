@@ -3,7 +3,7 @@
  */
 
 import { z } from "zod";
-import { ObsidianRestApiService } from "../../../services/obsidianRestAPI/index.js";
+import { BasesService } from "../../../services/bases/index.js";
 import { BaseSchemaResponse } from "../../../services/obsidianRestAPI/types.js";
 import {
   logger,
@@ -19,7 +19,7 @@ export const BasesGetSchemaInputSchema = z
       .describe("Identifiant (chemin) de la base, par ex. 'Content/plan.base'."),
   })
   .describe(
-    "Récupère le schéma (propriétés, vues, formules) d'une base déclarée dans un fichier .base.",
+    "Récupère le schéma (propriétés typées, vues, formules) d'une base déclarée dans un fichier .base.",
   );
 
 export type BasesGetSchemaInput = z.infer<typeof BasesGetSchemaInputSchema>;
@@ -27,13 +27,13 @@ export type BasesGetSchemaInput = z.infer<typeof BasesGetSchemaInputSchema>;
 export async function processBasesGetSchema(
   params: BasesGetSchemaInput,
   parentContext: RequestContext,
-  obsidianService: ObsidianRestApiService,
+  basesService: BasesService,
 ): Promise<BaseSchemaResponse> {
   const context = requestContextService.createRequestContext({
     parentContext,
     operation: "BasesGetSchema",
     params,
   });
-  logger.debug("Fetching Base schema via REST bridge", context);
-  return obsidianService.getBaseSchema(params.base_id, context);
+  logger.debug("Fetching Base schema", context);
+  return basesService.getBaseSchema(params.base_id, context);
 }
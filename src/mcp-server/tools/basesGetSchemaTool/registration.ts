@@ -1,5 +1,5 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { ObsidianRestApiService } from "../../../services/obsidianRestAPI/index.js";
+import { BasesService } from "../../../services/bases/index.js";
 import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
 import {
   ErrorHandler,
@@ -15,11 +15,12 @@ import {
 
 const TOOL_NAME = "bases_get_schema";
 const TOOL_DESCRIPTION =
-  "Retourne le schéma (propriétés, vues, formules) d'une base .base via le bridge REST.";
+  "Retourne le schéma (propriétés, vues, formules) d'une base .base via le bridge REST."
+  + " Chaque propriété de note porte son type (valueType : text, number, date, datetime, checkbox, list, link) et sa source (typeSource).";
 
 export async function registerBasesGetSchemaTool(
   server: McpServer,
-  obsidianService: ObsidianRestApiService,
+  basesService: BasesService,
 ): Promise<void> {
   const registrationContext: RequestContext =
     requestContextService.createRequestContext({
@@ -44,7 +45,7 @@ export async function registerBasesGetSchemaTool(
           const result = await processBasesGetSchema(
             params,
             handlerContext,
-            obsidianService,
+            basesService,
           );
 
           return {
@@ -2,12 +2,12 @@
  * @fileoverview Logic for the `bases_list` MCP tool.
  *
  * This tool surfaces the list of Bases (`*.base` YAML files) discovered by the
- * obsidian-bases-bridge plugin. It simply proxies the response from the bridge
- * to the MCP client.
+ * obsidian-bases-bridge plugin, or by the server's local Bases engine when the
+ * plugin is not installed.
  */
 
 import { z } from "zod";
-import { ObsidianRestApiService } from "../../../services/obsidianRestAPI/index.js";
+import { BasesService } from "../../../services/bases/index.js";
 import {
   BasesListResponse as BasesListResult,
 } from "../../../services/obsidianRestAPI/types.js";
@@ -30,17 +30,17 @@ export const BasesListInputSchema = z
 export type BasesListInput = z.infer<typeof BasesListInputSchema>;
 
 /**
- * Core logic that calls the Obsidian REST API bridge.
+ * Core logic that calls the Bases service (bridge plugin or local engine).
  */
 export async function processBasesList(
   _params: BasesListInput,
   parentContext: RequestContext,
-  obsidianService: ObsidianRestApiService,
+  basesService: BasesService,
 ): Promise<BasesListResult> {
   const context = requestContextService.createRequestContext({
     parentContext,
     operation: "BasesList",
   });
-  logger.debug("Fetching Bases list via REST bridge", context);
-  return obsidianService.listBases(context);
+  logger.debug("Fetching Bases list", context);
+  return basesService.listBases(context);
 }
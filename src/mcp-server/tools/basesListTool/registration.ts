@@ -3,7 +3,7 @@
  */
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { ObsidianRestApiService } from "../../../services/obsidianRestAPI/index.js";
+import { BasesService } from "../../../services/bases/index.js";
 import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
 import {
   ErrorHandler,
@@ -20,11 +20,12 @@ import {
 const TOOL_NAME = "bases_list";
 const TOOL_DESCRIPTION =
   "Liste les Bases (.base) disponibles via le bridge REST."
-  + " Utilise l'extension obsidian-bases-bridge du plugin Local REST API.";
+  + " Utilise l'extension obsidian-bases-bridge du plugin Local REST API,"
+  + " ou le moteur Bases du serveur quand le plugin est absent.";
 
 export async function registerBasesListTool(
   server: McpServer,
-  obsidianService: ObsidianRestApiService,
+  basesService: BasesService,
 ): Promise<void> {
   const registrationContext: RequestContext =
     requestContextService.createRequestContext({
@@ -49,7 +50,7 @@ export async function registerBasesListTool(
           const result = await processBasesList(
             {},
             handlerContext,
-            obsidianService,
+            basesService,
           );
 
           return {
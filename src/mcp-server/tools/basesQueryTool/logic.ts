@@ -3,7 +3,7 @@
  */
 
 import { z } from "zod";
-import { ObsidianRestApiService } from "../../../services/obsidianRestAPI/index.js";
+import { BasesService } from "../../../services/bases/index.js";
 import {
   BaseQueryRequest,
   BaseQueryResponse,
@@ -24,6 +24,39 @@ const SortSchema = z
   })
   .describe("Critère de tri supplémentaire.");
 
+const AggregateSchema = z
+  .object({
+    fn: z
+      .enum([
+        "count",
+        "sum",
+        "avg",
+        "min",
+        "max",
+        "earliest",
+        "latest",
+        "unique",
+        "empty",
+        "filled",
+      ])
+      .describe(
+        "Fonction : count (lignes), sum/avg/min/max (nombres), earliest/latest (dates), unique (valeurs distinctes), empty/filled (valeurs vides ou renseignées).",
+      ),
+    prop: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        "Propriété résumée (ex. 'budget', 'file.mtime'). Requise sauf pour count.",
+      ),
+    as: z
+      .string()
+      .min(1)
+      .optional()
+      .describe("Clé du résultat. Par défaut 'fn(prop)' ou 'count'."),
+  })
+  .describe("Résumé calculé sur les lignes (et sur chaque groupe).");
+
 export const BasesQueryInputSchema = z
   .object({
     base_id: z
@@ -43,6 +76,18 @@ export const BasesQueryInputSchema = z
       .array(SortSchema)
       .optional()
       .describe("Critères de tri supplémentaires (en plus de la vue)."),
+    group_by: z
+      .string()
+      .optional()
+      .describe(
+        "Propriété de regroupement (ex. 'status'), préfixée de '-' pour des groupes en ordre décroissant. Par défaut le groupBy de la vue ; '' le désactive.",
+      ),
+    aggregates: z
+      .array(AggregateSchema)
+      .optional()
+      .describe(
+        "Résumés globaux et par groupe (ex. [{fn:'count'}, {fn:'sum', prop:'budget'}]). Par défaut les summaries de la vue.",
+      ),
     limit: z
       .number()
       .min(1)
@@ -60,7 +105,7 @@ export const BasesQueryInputSchema = z
       .describe("Quand true, force l'utilisation des valeurs évaluées si disponibles."),
   })
   .describe(
-    "Exécute une requête sur une base. Supporte filtres additionnels, tri, pagination et mode evaluate (engine).",
+    "Exécute une requête sur une base. Supporte filtres additionnels, tri, pagination, regroupement avec résumés (group_by, aggregates) et mode evaluate (engine).",
   );
 
 export type BasesQueryInput = z.infer<typeof BasesQueryInputSchema>;
@@ -68,7 +113,7 @@ export type BasesQueryInput = z.infer<typeof BasesQueryInputSchema>;
 export async function processBasesQuery(
   params: BasesQueryInput,
   parentContext: RequestContext,
-  obsidianService: ObsidianRestApiService,
+  basesService: BasesService,
 ): Promise<BaseQueryResponse> {
   const payload: BaseQueryRequest = {
     view: params.view,
@@ -77,6 +122,8 @@ export async function processBasesQuery(
     limit: params.limit,
     page: params.page,
     evaluate: params.evaluate,
+    group_by: params.group_by,
+    aggregates: params.aggregates,
   };
 
   const context = requestContextService.createRequestContext({
@@ -86,9 +133,10 @@ export async function processBasesQuery(
       ...params,
       filter: params.filter ? "<payload>" : undefined,
       sort: params.sort ? params.sort.length : undefined,
+      aggregates: params.aggregates ? params.aggregates.length : undefined,
     },
   });
 
-  logger.debug("Querying base via REST bridge", context);
-  return obsidianService.queryBase(params.base_id, payload, context);
+  logger.debug("Querying base", context);
+  return basesService.queryBase(params.base_id, payload, context);
 }
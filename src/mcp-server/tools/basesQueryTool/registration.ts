@@ -1,5 +1,5 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { ObsidianRestApiService } from "../../../services/obsidianRestAPI/index.js";
+import { BasesService } from "../../../services/bases/index.js";
 import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
 import {
   ErrorHandler,
@@ -15,11 +15,12 @@ import {
 
 const TOOL_NAME = "bases_query";
 const TOOL_DESCRIPTION =
-  "Exécute une requête sur une base (.base) avec filtres additionnels, tri et pagination.";
+  "Exécute une requête sur une base (.base) avec filtres additionnels, tri et pagination."
+  + " group_by et aggregates renvoient des groupes avec leurs résumés (ex. nombre de notes par statut).";
 
 export async function registerBasesQueryTool(
   server: McpServer,
-  obsidianService: ObsidianRestApiService,
+  basesService: BasesService,
 ): Promise<void> {
   const registrationContext: RequestContext =
     requestContextService.createRequestContext({
@@ -44,7 +45,7 @@ export async function registerBasesQueryTool(
           const result = await processBasesQuery(
             params,
             handlerContext,
-            obsidianService,
+            basesService,
           );
 
           return {
@@ -3,7 +3,7 @@
  */
 
 import { z } from "zod";
-import { ObsidianRestApiService } from "../../../services/obsidianRestAPI/index.js";
+import { BasesService } from "../../../services/bases/index.js";
 import {
   BaseConfigUpsertRequest,
   BaseConfigUpsertResponse,
@@ -47,7 +47,7 @@ export type BasesUpsertConfigInput = z.infer<
 export async function processBasesUpsertConfig(
   params: BasesUpsertConfigInput,
   parentContext: RequestContext,
-  obsidianService: ObsidianRestApiService,
+  basesService: BasesService,
 ): Promise<BaseConfigUpsertResponse> {
   if (!params.yaml && !params.json) {
     throw new McpError(
@@ -73,6 +73,6 @@ export async function processBasesUpsertConfig(
     },
   });
 
-  logger.debug("Updating base config via REST bridge", context);
-  return obsidianService.upsertBaseConfig(params.base_id, payload, context);
+  logger.debug("Updating base config", context);
+  return basesService.upsertBaseConfig(params.base_id, payload, context);
 }
@@ -1,5 +1,5 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { ObsidianRestApiService } from "../../../services/obsidianRestAPI/index.js";
+import { BasesService } from "../../../services/bases/index.js";
 import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
 import {
   ErrorHandler,
@@ -19,7 +19,7 @@ const TOOL_DESCRIPTION =
 
 export async function registerBasesUpsertConfigTool(
   server: McpServer,
-  obsidianService: ObsidianRestApiService,
+  basesService: BasesService,
 ): Promise<void> {
   const registrationContext: RequestContext =
     requestContextService.createRequestContext({
@@ -49,7 +49,7 @@ export async function registerBasesUpsertConfigTool(
           const result = await processBasesUpsertConfig(
             params,
             handlerContext,
-            obsidianService,
+            basesService,
           );
 
           return {
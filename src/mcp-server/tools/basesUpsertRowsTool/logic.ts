@@ -3,7 +3,7 @@
  */
 
 import { z } from "zod";
-import { ObsidianRestApiService } from "../../../services/obsidianRestAPI/index.js";
+import { BasesService } from "../../../services/bases/index.js";
 import {
   BaseUpsertRequest,
   BaseUpsertResponse,
@@ -20,7 +20,7 @@ const OperationSchema = z
       .string()
       .min(1)
       .describe(
-        "Chemin de la note ciblée (relatif au coffre), ex. 'SEO/Pages/13-Aix.md'.",
+        "Chemin de la note ciblée (relatif au coffre), ex. 'SEO/Pages/13-Aix.md'. En mode insert/upsert, un simple nom est créé dans le dossier imposé par la base.",
       ),
     set: z
       .record(z.any())
@@ -36,6 +36,19 @@ const OperationSchema = z
       .describe(
         "Timestamp mtime attendu (verrou optimiste). Conflit => 409 renvoyé par le bridge.",
       ),
+    mode: z
+      .enum(["update", "insert", "upsert"])
+      .default("update")
+      .describe(
+        "update : modifie une note existante. insert : crée la note avec le dossier, les tags et les propriétés imposés par les filtres de la base, puis vérifie qu'elle apparaît dans la base. upsert : modifie la note ou la crée si elle n'existe pas.",
+      ),
+    template: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        "Note modèle appliquée aux notes créées ({{title}}, {{date}}, {{time}} remplacés), ex. 'Templates/Projet.md'.",
+      ),
   })
   .describe("Opération d'upsert frontmatter pour une note.");
 
@@ -53,9 +66,22 @@ export const BasesUpsertRowsInputSchema = z
       .boolean()
       .default(false)
       .describe("Quand true, poursuit les opérations malgré les erreurs individuelles."),
+    view: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        "Vue dont les filtres s'ajoutent à ceux de la base pour les notes créées.",
+      ),
+    validation: z
+      .enum(["coerce", "strict", "off"])
+      .default("coerce")
+      .describe(
+        "Contrôle des valeurs 'set' selon le type des propriétés (types.json, base, notes) : coerce convertit les valeurs sans ambiguïté ('true' -> true, '19 Oct 2026' -> '2026-10-19'), strict refuse tout écart, off écrit tel quel. Les refus sont détaillés dans field_errors.",
+      ),
   })
   .describe(
-    "Met à jour en lot les propriétés de notes référencées par une base (.base). Respecte le verrou mtime et interdit les clés formula.* / file.* côté bridge.",
+    "Met à jour en lot les propriétés de notes référencées par une base (.base), ou crée de nouvelles lignes (mode insert/upsert). Respecte le verrou mtime et interdit les clés formula.* / file.* côté bridge.",
   );
 
 export type BasesUpsertRowsInput = z.infer<typeof BasesUpsertRowsInputSchema>;
@@ -63,7 +89,7 @@ export type BasesUpsertRowsInput = z.infer<typeof BasesUpsertRowsInputSchema>;
 export async function processBasesUpsertRows(
   params: BasesUpsertRowsInput,
   parentContext: RequestContext,
-  obsidianService: ObsidianRestApiService,
+  basesService: BasesService,
 ): Promise<BaseUpsertResponse> {
   const payload: BaseUpsertRequest = {
     operations: params.operations.map((operation) => ({
@@ -71,8 +97,12 @@ export async function processBasesUpsertRows(
       set: operation.set,
       unset: operation.unset,
       expected_mtime: operation.expected_mtime,
+      mode: operation.mode,
+      template: operation.template,
     })),
     continueOnError: params.continueOnError,
+    view: params.view,
+    validation: params.validation,
   };
 
   const context = requestContextService.createRequestContext({
@@ -85,6 +115,6 @@ export async function processBasesUpsertRows(
     },
   });
 
-  logger.debug("Upserting rows via REST bridge", context);
-  return obsidianService.upsertBaseRows(params.base_id, payload, context);
+  logger.debug("Upserting rows", context);
+  return basesService.upsertBaseRows(params.base_id, payload, context);
 }
@@ -1,5 +1,5 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { ObsidianRestApiService } from "../../../services/obsidianRestAPI/index.js";
+import { BasesService } from "../../../services/bases/index.js";
 import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
 import {
   ErrorHandler,
@@ -15,11 +15,12 @@ import {
 
 const TOOL_NAME = "bases_upsert_rows";
 const TOOL_DESCRIPTION =
-  "Met à jour les propriétés de notes issues d'une base via le bridge REST (set/unset + mtime).";
+  "Met à jour les propriétés de notes issues d'une base via le bridge REST (set/unset + mtime)."
+  + " En mode insert, crée une nouvelle ligne (dossier et propriétés déduits des filtres de la base, modèle optionnel).";
 
 export async function registerBasesUpsertRowsTool(
   server: McpServer,
-  obsidianService: ObsidianRestApiService,
+  basesService: BasesService,
 ): Promise<void> {
   const registrationContext: RequestContext =
     requestContextService.createRequestContext({
@@ -48,7 +49,7 @@ export async function registerBasesUpsertRowsTool(
           const result = await processBasesUpsertRows(
             params,
             handlerContext,
-            obsidianService,
+            basesService,
           );
 
           return {
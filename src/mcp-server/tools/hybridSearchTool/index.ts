@@ -0,0 +1,6 @@
+/**
+ * @fileoverview Barrel file for the 'hybrid_search' MCP tool.
+ * Exposes the registration function so the main server can wire the tool.
+ */
+
+export { registerHybridSearchTool } from "./registration.js";
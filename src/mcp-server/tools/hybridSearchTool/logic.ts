@@ -0,0 +1,327 @@
+import path from "node:path/posix";
+import { z } from "zod";
+import { VaultCacheService } from "../../../services/obsidianRestAPI/vaultCache/index.js";
+import { Bm25Index } from "../../../services/lexicalIndex/index.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import {
+  extractNoteTags,
+  logger,
+  RequestContext,
+} from "../../../utils/index.js";
+import {
+  runSemanticSearch,
+  type SemanticSearchOutput,
+} from "../semanticSearchTool/index.js";
+
+// ====================================================================================
+// Schema Definitions
+// ====================================================================================
+const HybridSearchInputSchema = z
+  .object({
+    query: z.string().min(2).describe("The search query."),
+    top_k: z
+      .number()
+      .int()
+      .min(1)
+      .max(100)
+      .default(10)
+      .describe("Number of fused results to return. Defaults to 10."),
+    lexical_weight: z
+      .number()
+      .min(0)
+      .max(10)
+      .default(1)
+      .describe(
+        "Weight of the BM25 (keyword) ranking in the fusion; 0 disables it. Defaults to 1.",
+      ),
+    semantic_weight: z
+      .number()
+      .min(0)
+      .max(10)
+      .default(1)
+      .describe(
+        "Weight of the embedding ranking in the fusion; 0 disables it. Defaults to 1.",
+      ),
+    rrf_k: z
+      .number()
+      .min(1)
+      .max(1000)
+      .default(60)
+      .describe(
+        "Reciprocal rank fusion constant: higher values flatten the advantage of top ranks. Defaults to 60.",
+      ),
+    candidates: z
+      .number()
+      .int()
+      .min(1)
+      .max(100)
+      .default(50)
+      .describe(
+        "How many notes each search path ranks before fusion. Defaults to 50.",
+      ),
+    folders: z
+      .array(z.string())
+      .optional()
+      .describe("Only search notes under these vault-relative folders."),
+    tags: z
+      .array(z.string())
+      .optional()
+      .describe("Only search notes carrying at least one of these tags."),
+    with_snippets: z
+      .boolean()
+      .default(true)
+      .describe("Include a snippet per result. Defaults to true."),
+  })
+  .describe(
+    "Searches the vault with BM25 keyword ranking and embeddings, fused by reciprocal rank fusion.",
+  );
+
+export const HybridSearchInputSchemaShape = HybridSearchInputSchema.shape;
+export type HybridSearchInput = z.infer<typeof HybridSearchInputSchema>;
+
+// ====================================================================================
+// Response Structure Definition
+// ====================================================================================
+
+/** How one search path ranked a result and what it added to the fused score. */
+export interface PathContribution {
+  rank: number;
+  /** The path's own score (BM25 score or cosine similarity). */
+  score: number;
+  /** `weight / (rrf_k + rank)`, the share of the fused score. */
+  contribution: number;
+}
+
+export interface HybridSearchResult {
+  path: string;
+  score: number;
+  title?: string;
+  snippet?: string;
+  contributions: {
+    lexical?: PathContribution & { matched_terms: string[] };
+    semantic?: PathContribution & { heading_path?: string[] };
+  };
+}
+
+export interface HybridSearchResponse {
+  query: string;
+  rrf_k: number;
+  lexical: {
+    weight: number;
+    candidates: number;
+    indexed_notes: number;
+  };
+  semantic: {
+    weight: number;
+    candidates: number;
+    model?: string;
+    search_method?: string;
+    /** Why the semantic path contributed nothing, when it failed. */
+    error?: string;
+  };
+  results: HybridSearchResult[];
+}
+
+// ====================================================================================
+// Lexical index
+// ====================================================================================
+
+const SNIPPET_CHARS = 300;
+
+/** One BM25 index per vault cache, shared by every session of the process. */
+const lexicalIndexes = new WeakMap<
+  VaultCacheService,
+  {
+    index: Bm25Index;
+    tags: Map<string, { hash: string; tags: string[] }>;
+  }
+>();
+
+const toNotePath = (cacheKey: string) => cacheKey.replace(/^\/+/, "");
+
+function getLexicalIndex(vaultCacheService: VaultCacheService) {
+  let state = lexicalIndexes.get(vaultCacheService);
+  if (!state) {
+    state = { index: new Bm25Index(), tags: new Map() };
+    lexicalIndexes.set(vaultCacheService, state);
+  }
+  state.index.sync(
+    [...vaultCacheService.getCache()].map(([key, entry]) => [
+      toNotePath(key),
+      entry,
+    ]),
+  );
+  return state;
+}
+
+/** Cuts a snippet around the first occurrence of the most significant matched term. */
+function lexicalSnippet(content: string, terms: string[]): string {
+  const lowered = content.toLowerCase();
+  for (const term of terms) {
+    const position = lowered.indexOf(term);
+    if (position < 0) continue;
+    const start = Math.max(0, position - SNIPPET_CHARS / 3);
+    return content.slice(start, start + SNIPPET_CHARS).trim();
+  }
+  return content.slice(0, SNIPPET_CHARS).trim();
+}
+
+// ====================================================================================
+// Core Logic Function
+// ====================================================================================
+
+/**
+ * Runs BM25 over the vault cache and the semantic search side by side, then fuses both
+ * rankings with weighted reciprocal rank fusion. Keyword ranking catches exact
+ * identifiers (ticket numbers, function names) that embeddings blur; embeddings catch
+ * paraphrases. If the semantic path fails, results are lexical only and the error is
+ * reported in the response.
+ *
+ * @param {HybridSearchInput} params - The validated input parameters.
+ * @param {RequestContext} context - The request context for logging.
+ * @param {VaultCacheService} vaultCacheService - The vault cache the BM25 index is built from.
+ * @returns {Promise<HybridSearchResponse>} The fused results with per-path contributions.
+ * @throws {McpError} If the vault cache is not ready yet.
+ */
+export const processHybridSearch = async (
+  params: HybridSearchInput,
+  context: RequestContext,
+  vaultCacheService: VaultCacheService,
+): Promise<HybridSearchResponse> => {
+  if (!vaultCacheService.isReady()) {
+    throw new McpError(
+      BaseErrorCode.SERVICE_UNAVAILABLE,
+      "The vault cache is still being built; try again shortly.",
+      context,
+    );
+  }
+
+  const folders = params.folders?.map((folder) =>
+    folder.trim().replace(/^\/+|\/+$/g, ""),
+  );
+  // "Projects" must not match "ProjectsArchive/…".
+  const folderPrefixes = folders?.map((folder) => (folder ? `${folder}/` : ""));
+  const wantedTags = params.tags?.map((tag) => tag.replace(/^#/, ""));
+  const lexical = getLexicalIndex(vaultCacheService);
+
+  const noteTags = (notePath: string): string[] => {
+    const entry = vaultCacheService.getEntry(notePath);
+    if (!entry) return [];
+    const cached = lexical.tags.get(notePath);
+    if (cached?.hash === entry.hash) return cached.tags;
+    const tags = extractNoteTags(entry.content);
+    lexical.tags.set(notePath, { hash: entry.hash, tags });
+    return tags;
+  };
+  const accept =
+    folders || wantedTags
+      ? (notePath: string) =>
+          (!folderPrefixes ||
+            folderPrefixes.some((prefix) => notePath.startsWith(prefix))) &&
+          (!wantedTags ||
+            noteTags(notePath).some((tag) => wantedTags.includes(tag)))
+      : undefined;
+
+  const lexicalHits =
+    params.lexical_weight > 0
+      ? lexical.index.search(params.query, params.candidates, accept)
+      : [];
+
+  let semantic: SemanticSearchOutput | undefined;
+  let semanticError: string | undefined;
+  if (params.semantic_weight > 0) {
+    try {
+      semantic = await runSemanticSearch({
+        query: params.query,
+        top_k: params.candidates,
+        folders,
+        tags: wantedTags,
+        with_snippets: params.with_snippets,
+        group_by: "note",
+      });
+    } catch (error) {
+      semanticError = error instanceof Error ? error.message : String(error);
+      logger.warning(
+        `hybrid_search: semantic path failed, using keyword ranking only: ${semanticError}`,
+        context,
+      );
+    }
+  }
+
+  const fused = new Map<string, HybridSearchResult>();
+  const entryFor = (notePath: string) => {
+    let result = fused.get(notePath);
+    if (!result) {
+      result = { path: notePath, score: 0, contributions: {} };
+      fused.set(notePath, result);
+    }
+    return result;
+  };
+
+  lexicalHits.forEach((hit, index) => {
+    const contribution = params.lexical_weight / (params.rrf_k + index + 1);
+    const result = entryFor(hit.path);
+    result.score += contribution;
+    result.contributions.lexical = {
+      rank: index + 1,
+      score: hit.score,
+      contribution,
+      matched_terms: hit.matchedTerms,
+    };
+  });
+
+  semantic?.results.forEach((hit, index) => {
+    const contribution = params.semantic_weight / (params.rrf_k + index + 1);
+    const result = entryFor(toNotePath(hit.path));
+    result.score += contribution;
+    result.title = hit.title;
+    result.snippet = hit.snippet;
+    result.contributions.semantic = {
+      rank: index + 1,
+      score: hit.score,
+      contribution,
+      heading_path: hit.heading_path,
+    };
+  });
+
+  const results = [...fused.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, params.top_k);
+
+  for (const result of results) {
+    result.title ??= path.basename(result.path, ".md");
+    const lexicalMatch = result.contributions.lexical;
+    if (params.with_snippets && !result.snippet && lexicalMatch) {
+      const entry = vaultCacheService.getEntry(result.path);
+      if (entry) {
+        result.snippet = lexicalSnippet(
+          entry.content,
+          lexicalMatch.matched_terms,
+        );
+      }
+    }
+  }
+
+  logger.debug(
+    `hybrid_search fused ${lexicalHits.length} keyword and ${semantic?.results.length ?? 0} semantic candidates`,
+    context,
+  );
+
+  return {
+    query: params.query,
+    rrf_k: params.rrf_k,
+    lexical: {
+      weight: params.lexical_weight,
+      candidates: lexicalHits.length,
+      indexed_notes: lexical.index.size,
+    },
+    semantic: {
+      weight: params.semantic_weight,
+      candidates: semantic?.results.length ?? 0,
+      model: semantic?.model,
+      search_method: semantic?.search_method,
+      error: semanticError,
+    },
+    results,
+  };
+};
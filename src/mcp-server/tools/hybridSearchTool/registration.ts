@@ -0,0 +1,126 @@
+/**
+ * @module HybridSearchToolRegistration
+ * @description Registers the 'hybrid_search' tool with the MCP server.
+ * This tool fuses BM25 keyword ranking over the vault cache with semantic search.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { VaultCacheService } from "../../../services/obsidianRestAPI/vaultCache/index.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import {
+  ErrorHandler,
+  logger,
+  RequestContext,
+  requestContextService,
+} from "../../../utils/index.js";
+import type { HybridSearchInput, HybridSearchResponse } from "./logic.js";
+import { HybridSearchInputSchemaShape, processHybridSearch } from "./logic.js";
+
+/**
+ * Registers the 'hybrid_search' tool with the MCP server instance.
+ *
+ * @param {McpServer} server - The MCP server instance.
+ * @param {VaultCacheService} vaultCacheService - The vault cache the keyword index is built from.
+ * @returns {Promise<void>} A promise that resolves when the tool is registered.
+ * @throws {McpError} If registration fails critically.
+ */
+export async function registerHybridSearchTool(
+  server: McpServer,
+  vaultCacheService: VaultCacheService,
+): Promise<void> {
+  const toolName = "hybrid_search";
+  const toolDescription = `Searches the Obsidian vault with two rankings at once: BM25 keyword search over the vault cache (exact identifiers such as ticket numbers or function names) and semantic search over embeddings (same index as smart_semantic_search). The rankings are fused with weighted reciprocal rank fusion: each note scores sum(weight / (rrf_k + rank)) over the paths that found it. Tune 'lexical_weight' and 'semantic_weight' (0 disables a path), 'rrf_k' and 'candidates' (notes ranked per path). Supports folder and tag filters. Returns each result's fused score and the rank, own score and contribution of each path (plus matched terms for keywords and the heading path for embeddings). If the semantic path is unavailable, results are keyword-only and 'semantic.error' explains why.`;
+
+  const registrationContext: RequestContext =
+    requestContextService.createRequestContext({
+      operation: "RegisterHybridSearchTool",
+      toolName: toolName,
+      module: "HybridSearchRegistration",
+    });
+
+  logger.info(`Attempting to register tool: ${toolName}`, registrationContext);
+
+  await ErrorHandler.tryCatch(
+    async () => {
+      server.tool(
+        toolName,
+        toolDescription,
+        HybridSearchInputSchemaShape,
+        async (
+          params: HybridSearchInput,
+          handlerInvocationContext: RequestHandlerExtra<
+            ServerRequest,
+            ServerNotification
+          >,
+        ): Promise<CallToolResult> => {
+          const handlerContext: RequestContext =
+            requestContextService.createRequestContext({
+              operation: "HandleHybridSearchRequest",
+              toolName: toolName,
+              paramsSummary: {
+                topK: params.top_k,
+                lexicalWeight: params.lexical_weight,
+                semanticWeight: params.semantic_weight,
+                rrfK: params.rrf_k,
+                candidates: params.candidates,
+                hasFilters: !!(params.folders || params.tags),
+              },
+            });
+          logger.debug(`Handling '${toolName}' request`, handlerContext);
+
+          return await ErrorHandler.tryCatch(
+            async () => {
+              const response: HybridSearchResponse = await processHybridSearch(
+                params,
+                handlerContext,
+                vaultCacheService,
+              );
+              logger.debug(
+                `'${toolName}' processed successfully`,
+                handlerContext,
+              );
+
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: JSON.stringify(response, null, 2),
+                  },
+                ],
+                isError: false,
+              };
+            },
+            {
+              operation: `executing tool ${toolName}`,
+              context: handlerContext,
+              errorCode: BaseErrorCode.INTERNAL_ERROR,
+            },
+          );
+        },
+      );
+
+      logger.info(
+        `Tool registered successfully: ${toolName}`,
+        registrationContext,
+      );
+    },
+    {
+      operation: `registering tool ${toolName}`,
+      context: registrationContext,
+      errorCode: BaseErrorCode.INTERNAL_ERROR,
+      errorMapper: (error: unknown) =>
+        new McpError(
+          error instanceof McpError ? error.code : BaseErrorCode.INTERNAL_ERROR,
+          `Failed to register tool '${toolName}': ${error instanceof Error ? error.message : "Unknown error"}`,
+          { ...registrationContext },
+        ),
+      critical: true,
+    },
+  );
+}
@@ -0,0 +1,9 @@
+export {
+  ObsidianExecuteCommandInputSchemaShape,
+  processObsidianExecuteCommand,
+} from "./logic.js";
+export type {
+  ObsidianExecuteCommandInput,
+  ObsidianExecuteCommandResponse,
+} from "./logic.js";
+export { registerObsidianExecuteCommandTool } from "./registration.js";
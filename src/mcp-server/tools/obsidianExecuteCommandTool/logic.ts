@@ -0,0 +1,96 @@
+import { z } from "zod";
+import { config } from "../../../config/index.js";
+import { ObsidianRestApiService } from "../../../services/obsidianRestAPI/index.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import {
+  evaluateCommandPolicy,
+  logger,
+  RequestContext,
+} from "../../../utils/index.js";
+
+// ====================================================================================
+// Schema Definitions
+// ====================================================================================
+
+const ExecuteCommandInputSchemaBase = z.object({
+  commandId: z
+    .string()
+    .min(1)
+    .describe(
+      "The exact Obsidian command id to run (e.g., 'editor:toggle-bold'). Use obsidian_list_commands to discover ids.",
+    ),
+});
+
+export const ObsidianExecuteCommandInputSchemaShape =
+  ExecuteCommandInputSchemaBase.shape;
+export const ExecuteCommandInputSchema = ExecuteCommandInputSchemaBase;
+
+export type ObsidianExecuteCommandInput = z.infer<
+  typeof ExecuteCommandInputSchema
+>;
+
+export interface ObsidianExecuteCommandResponse {
+  success: boolean;
+  message: string;
+  commandId: string;
+  commandName: string;
+}
+
+// ====================================================================================
+// Core Logic Function
+// ====================================================================================
+
+export const processObsidianExecuteCommand = async (
+  params: ObsidianExecuteCommandInput,
+  context: RequestContext,
+  obsidianService: ObsidianRestApiService,
+): Promise<ObsidianExecuteCommandResponse> => {
+  const commandId = params.commandId.trim();
+  logger.debug(`Processing obsidian_execute_command request`, {
+    ...context,
+    commandId,
+  });
+
+  // Check the policy before touching Obsidian so blocked ids are never probed.
+  const decision = evaluateCommandPolicy(
+    commandId,
+    config.obsidianCommandAllowlist,
+    config.obsidianCommandDenylist,
+  );
+  if (!decision.allowed) {
+    logger.warning(`Command execution refused: ${decision.reason}`, {
+      ...context,
+      commandId,
+    });
+    throw new McpError(BaseErrorCode.FORBIDDEN, decision.reason, {
+      ...context,
+      commandId,
+    });
+  }
+
+  const commands = await obsidianService.listCommands(context);
+  const command = commands.find((c) => c.id === commandId);
+  if (!command) {
+    throw new McpError(
+      BaseErrorCode.NOT_FOUND,
+      `Command '${commandId}' does not exist in this vault. Use obsidian_list_commands to find valid ids.`,
+      context,
+    );
+  }
+
+  await obsidianService.executeCommand(command.id, context);
+
+  // Audit trail: every executed command is logged at info level with its request context.
+  logger.info(`Executed Obsidian command '${command.id}' (${command.name})`, {
+    ...context,
+    commandId: command.id,
+    commandName: command.name,
+  });
+
+  return {
+    success: true,
+    message: `Executed command '${command.name}'.`,
+    commandId: command.id,
+    commandName: command.name,
+  };
+};
@@ -0,0 +1,113 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ObsidianRestApiService } from "../../../services/obsidianRestAPI/index.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import {
+  ErrorHandler,
+  logger,
+  RequestContext,
+  requestContextService,
+} from "../../../utils/index.js";
+import type {
+  ObsidianExecuteCommandInput,
+  ObsidianExecuteCommandResponse,
+} from "./logic.js";
+import {
+  ExecuteCommandInputSchema,
+  ObsidianExecuteCommandInputSchemaShape,
+  processObsidianExecuteCommand,
+} from "./logic.js";
+
+export const registerObsidianExecuteCommandTool = async (
+  server: McpServer,
+  obsidianService: ObsidianRestApiService,
+): Promise<void> => {
+  const toolName = "obsidian_execute_command";
+  const toolDescription =
+    "Executes an Obsidian command palette command by id (see obsidian_list_commands). Execution is restricted by OBSIDIAN_COMMAND_ALLOWLIST/OBSIDIAN_COMMAND_DENYLIST (comma-separated ids or '*' patterns; denied by default when no allowlist is set). The command must exist in the vault. Every execution is logged. Returns the executed command id and name.";
+
+  const registrationContext: RequestContext =
+    requestContextService.createRequestContext({
+      operation: "RegisterObsidianExecuteCommandTool",
+      toolName: toolName,
+      module: "ObsidianExecuteCommandRegistration",
+    });
+
+  logger.info(`Attempting to register tool: ${toolName}`, registrationContext);
+
+  await ErrorHandler.tryCatch(
+    async () => {
+      server.tool(
+        toolName,
+        toolDescription,
+        ObsidianExecuteCommandInputSchemaShape,
+        async (params: ObsidianExecuteCommandInput) => {
+          const handlerContext: RequestContext =
+            requestContextService.createRequestContext({
+              parentContext: registrationContext,
+              operation: "HandleObsidianExecuteCommandRequest",
+              toolName: toolName,
+              params: params,
+            });
+          logger.debug(`Handling '${toolName}' request`, handlerContext);
+
+          return await ErrorHandler.tryCatch(
+            async () => {
+              const validatedParams = ExecuteCommandInputSchema.parse(params);
+
+              const response: ObsidianExecuteCommandResponse =
+                await processObsidianExecuteCommand(
+                  validatedParams,
+                  handlerContext,
+                  obsidianService,
+                );
+              logger.debug(
+                `'${toolName}' processed successfully`,
+                handlerContext,
+              );
+
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: JSON.stringify(response, null, 2),
+                  },
+                ],
+                isError: false,
+              };
+            },
+            {
+              operation: `processing ${toolName} handler`,
+              context: handlerContext,
+              input: params,
+              errorMapper: (error: unknown) =>
+                new McpError(
+                  error instanceof McpError
+                    ? error.code
+                    : BaseErrorCode.INTERNAL_ERROR,
+                  `Error processing ${toolName} tool: ${error instanceof Error ? error.message : "Unknown error"}`,
+                  { ...handlerContext },
+                ),
+            },
+          );
+        },
+      );
+
+      logger.info(
+        `Tool registered successfully: ${toolName}`,
+        registrationContext,
+      );
+    },
+    {
+      operation: `registering tool ${toolName}`,
+      context: registrationContext,
+      errorCode: BaseErrorCode.INTERNAL_ERROR,
+      errorMapper: (error: unknown) =>
+        new McpError(
+          error instanceof McpError ? error.code : BaseErrorCode.INTERNAL_ERROR,
+          `Failed to register tool '${toolName}': ${error instanceof Error ? error.message : "Unknown error"}`,
+          { ...registrationContext },
+        ),
+      critical: true,
+    },
+  );
+};
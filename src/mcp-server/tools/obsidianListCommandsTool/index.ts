@@ -0,0 +1,9 @@
+export {
+  ObsidianListCommandsInputSchemaShape,
+  processObsidianListCommands,
+} from "./logic.js";
+export type {
+  ObsidianListCommandsInput,
+  ObsidianListCommandsResponse,
+} from "./logic.js";
+export { registerObsidianListCommandsTool } from "./registration.js";
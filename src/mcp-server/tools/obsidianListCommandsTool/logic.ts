@@ -0,0 +1,103 @@
+import { z } from "zod";
+import { config } from "../../../config/index.js";
+import { ObsidianRestApiService } from "../../../services/obsidianRestAPI/index.js";
+import {
+  evaluateCommandPolicy,
+  fuzzyFilter,
+  logger,
+  RequestContext,
+} from "../../../utils/index.js";
+
+// ====================================================================================
+// Schema Definitions
+// ====================================================================================
+
+const ListCommandsInputSchemaBase = z.object({
+  query: z
+    .string()
+    .optional()
+    .describe(
+      "Optional fuzzy search over command ids and names (e.g., 'toggle bold', 'templater insert'). Omit to list all commands.",
+    ),
+  limit: z
+    .number()
+    .int()
+    .positive()
+    .max(500)
+    .optional()
+    .default(50)
+    .describe("Maximum number of commands to return (<= 500). Defaults to 50."),
+});
+
+export const ObsidianListCommandsInputSchemaShape =
+  ListCommandsInputSchemaBase.shape;
+export const ListCommandsInputSchema = ListCommandsInputSchemaBase;
+
+export type ObsidianListCommandsInput = z.infer<typeof ListCommandsInputSchema>;
+
+export interface ListedCommand {
+  id: string;
+  name: string;
+  /** Whether obsidian_execute_command would accept this command under the current allowlist/denylist. */
+  allowed: boolean;
+  score?: number;
+}
+
+export interface ObsidianListCommandsResponse {
+  success: boolean;
+  message: string;
+  commands: ListedCommand[];
+  totalMatches: number;
+  totalCommands: number;
+}
+
+// ====================================================================================
+// Core Logic Function
+// ====================================================================================
+
+export const processObsidianListCommands = async (
+  params: ObsidianListCommandsInput,
+  context: RequestContext,
+  obsidianService: ObsidianRestApiService,
+): Promise<ObsidianListCommandsResponse> => {
+  logger.debug(`Processing obsidian_list_commands request`, {
+    ...context,
+    query: params.query,
+    limit: params.limit,
+  });
+
+  const allCommands = await obsidianService.listCommands(context);
+  const query = params.query?.trim() ?? "";
+
+  const matches = query
+    ? fuzzyFilter(query, allCommands, (command) => [command.id, command.name])
+    : [...allCommands]
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map((command) => ({ item: command, score: undefined }));
+
+  const commands: ListedCommand[] = matches
+    .slice(0, params.limit)
+    .map(({ item, score }) => ({
+      id: item.id,
+      name: item.name,
+      allowed: evaluateCommandPolicy(
+        item.id,
+        config.obsidianCommandAllowlist,
+        config.obsidianCommandDenylist,
+      ).allowed,
+      ...(score !== undefined ? { score: Math.round(score * 100) / 100 } : {}),
+    }));
+
+  const message = query
+    ? `Found ${matches.length} command(s) matching '${query}'. Showing ${commands.length}.`
+    : `Listing ${commands.length} of ${allCommands.length} command(s).`;
+
+  logger.debug(message, context);
+  return {
+    success: true,
+    message,
+    commands,
+    totalMatches: matches.length,
+    totalCommands: allCommands.length,
+  };
+};
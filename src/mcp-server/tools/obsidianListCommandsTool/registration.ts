@@ -0,0 +1,113 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ObsidianRestApiService } from "../../../services/obsidianRestAPI/index.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import {
+  ErrorHandler,
+  logger,
+  RequestContext,
+  requestContextService,
+} from "../../../utils/index.js";
+import type {
+  ObsidianListCommandsInput,
+  ObsidianListCommandsResponse,
+} from "./logic.js";
+import {
+  ListCommandsInputSchema,
+  ObsidianListCommandsInputSchemaShape,
+  processObsidianListCommands,
+} from "./logic.js";
+
+export const registerObsidianListCommandsTool = async (
+  server: McpServer,
+  obsidianService: ObsidianRestApiService,
+): Promise<void> => {
+  const toolName = "obsidian_list_commands";
+  const toolDescription =
+    "Lists the commands available in Obsidian's command palette (core and plugin commands). Supports an optional fuzzy 'query' over command ids and names, ranked best match first. Each result reports whether obsidian_execute_command is allowed to run it under the configured allowlist/denylist.";
+
+  const registrationContext: RequestContext =
+    requestContextService.createRequestContext({
+      operation: "RegisterObsidianListCommandsTool",
+      toolName: toolName,
+      module: "ObsidianListCommandsRegistration",
+    });
+
+  logger.info(`Attempting to register tool: ${toolName}`, registrationContext);
+
+  await ErrorHandler.tryCatch(
+    async () => {
+      server.tool(
+        toolName,
+        toolDescription,
+        ObsidianListCommandsInputSchemaShape,
+        async (params: ObsidianListCommandsInput) => {
+          const handlerContext: RequestContext =
+            requestContextService.createRequestContext({
+              parentContext: registrationContext,
+              operation: "HandleObsidianListCommandsRequest",
+              toolName: toolName,
+              params: params,
+            });
+          logger.debug(`Handling '${toolName}' request`, handlerContext);
+
+          return await ErrorHandler.tryCatch(
+            async () => {
+              const validatedParams = ListCommandsInputSchema.parse(params);
+
+              const response: ObsidianListCommandsResponse =
+                await processObsidianListCommands(
+                  validatedParams,
+                  handlerContext,
+                  obsidianService,
+                );
+              logger.debug(
+                `'${toolName}' processed successfully`,
+                handlerContext,
+              );
+
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: JSON.stringify(response, null, 2),
+                  },
+                ],
+                isError: false,
+              };
+            },
+            {
+              operation: `processing ${toolName} handler`,
+              context: handlerContext,
+              input: params,
+              errorMapper: (error: unknown) =>
+                new McpError(
+                  error instanceof McpError
+                    ? error.code
+                    : BaseErrorCode.INTERNAL_ERROR,
+                  `Error processing ${toolName} tool: ${error instanceof Error ? error.message : "Unknown error"}`,
+                  { ...handlerContext },
+                ),
+            },
+          );
+        },
+      );
+
+      logger.info(
+        `Tool registered successfully: ${toolName}`,
+        registrationContext,
+      );
+    },
+    {
+      operation: `registering tool ${toolName}`,
+      context: registrationContext,
+      errorCode: BaseErrorCode.INTERNAL_ERROR,
+      errorMapper: (error: unknown) =>
+        new McpError(
+          error instanceof McpError ? error.code : BaseErrorCode.INTERNAL_ERROR,
+          `Failed to register tool '${toolName}': ${error instanceof Error ? error.message : "Unknown error"}`,
+          { ...registrationContext },
+        ),
+      critical: true,
+    },
+  );
+};
@@ -0,0 +1,9 @@
+export {
+  ObsidianPatchNoteInputSchemaShape,
+  processObsidianPatchNote,
+} from "./logic.js";
+export type {
+  ObsidianPatchNoteInput,
+  ObsidianPatchNoteResponse,
+} from "./logic.js";
+export { registerObsidianPatchNoteTool } from "./registration.js";
@@ -0,0 +1,341 @@
+import { z } from "zod";
+import {
+  NoteJson,
+  ObsidianRestApiService,
+  PatchOptions,
+  Period,
+  VaultCacheService,
+} from "../../../services/obsidianRestAPI/index.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import {
+  createFormattedStatWithTokenCount,
+  logger,
+  RequestContext,
+  retryWithDelay,
+} from "../../../utils/index.js";
+
+// ====================================================================================
+// Schema Definitions
+// ====================================================================================
+
+const TargetTypeSchema = z
+  .enum(["filePath", "activeFile", "periodicNote"])
+  .describe(
+    "Specifies the target note: 'filePath', 'activeFile', or 'periodicNote'.",
+  );
+
+const PeriodicNotePeriodSchema = z
+  .enum(["daily", "weekly", "monthly", "quarterly", "yearly"])
+  .describe("Valid periods for 'periodicNote' target type.");
+
+const PatchNoteInputSchemaBase = z.object({
+  targetType: TargetTypeSchema,
+  targetIdentifier: z
+    .string()
+    .optional()
+    .describe(
+      "Identifier for 'filePath' (vault-relative path, e.g., 'Projects/Q3.md') or 'periodicNote' (period string: 'daily', 'weekly', etc.). Not used for 'activeFile'.",
+    ),
+  patchOperation: z
+    .enum(["append", "prepend", "replace"])
+    .describe(
+      "How to apply the content relative to the target: 'append', 'prepend', or 'replace'.",
+    ),
+  patchTargetType: z
+    .enum(["heading", "block", "frontmatter"])
+    .describe(
+      "The kind of structure to target inside the note: a 'heading', a 'block' reference, or a 'frontmatter' key.",
+    ),
+  patchTarget: z
+    .string()
+    .min(1)
+    .describe(
+      "The heading path (e.g., 'Projects::Q3::Risks'), block id (e.g., '^block-id' or 'block-id'), or frontmatter key to target.",
+    ),
+  content: z
+    .string()
+    .describe(
+      "The content to insert or use as replacement. When contentFormat is 'json', must be a valid JSON string (e.g., '[\"a\",\"b\"]' for a frontmatter list).",
+    ),
+  contentFormat: z
+    .enum(["markdown", "json"])
+    .optional()
+    .default("markdown")
+    .describe(
+      "Format of 'content': 'markdown' (default) or 'json' (useful for frontmatter values and table rows).",
+    ),
+  targetDelimiter: z
+    .string()
+    .min(1)
+    .optional()
+    .default("::")
+    .describe("Delimiter separating nested heading levels. Defaults to '::'."),
+  trimTargetWhitespace: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("If true, trims whitespace around the target before patching."),
+  createTargetIfMissing: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe(
+      "If true, creates the heading/block/frontmatter key when it does not exist yet.",
+    ),
+  returnContent: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("If true, returns the final note content in the response."),
+});
+
+export const ObsidianPatchNoteInputSchemaShape = PatchNoteInputSchemaBase.shape;
+
+export const PatchNoteInputSchema = PatchNoteInputSchemaBase.refine(
+  (data) => {
+    if (
+      (data.targetType === "filePath" || data.targetType === "periodicNote") &&
+      !data.targetIdentifier
+    ) {
+      return false;
+    }
+    if (
+      data.targetType === "periodicNote" &&
+      data.targetIdentifier &&
+      !PeriodicNotePeriodSchema.safeParse(data.targetIdentifier).success
+    ) {
+      return false;
+    }
+    return true;
+  },
+  {
+    message:
+      "targetIdentifier is required and must be a valid path for targetType 'filePath', or a valid period ('daily', 'weekly', etc.) for targetType 'periodicNote'.",
+    path: ["targetIdentifier"],
+  },
+).refine(
+  (data) => {
+    if (data.contentFormat !== "json") return true;
+    try {
+      JSON.parse(data.content);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  {
+    message: "content must be valid JSON when contentFormat is 'json'.",
+    path: ["content"],
+  },
+);
+
+export type ObsidianPatchNoteRegistrationInput = z.infer<
+  typeof PatchNoteInputSchemaBase
+>;
+export type ObsidianPatchNoteInput = z.infer<typeof PatchNoteInputSchema>;
+
+type FormattedStat = {
+  createdTime: string;
+  modifiedTime: string;
+  tokenCountEstimate: number;
+};
+
+export interface ObsidianPatchNoteResponse {
+  success: boolean;
+  message: string;
+  path?: string;
+  stats?: FormattedStat;
+  finalContent?: string;
+}
+
+// ====================================================================================
+// Helper Functions
+// ====================================================================================
+
+/**
+ * Block references are written as `^block-id` in notes, but the REST API expects
+ * the bare identifier in the `Target` header.
+ */
+function normalizePatchTarget(
+  patchTargetType: ObsidianPatchNoteInput["patchTargetType"],
+  patchTarget: string,
+): string {
+  const trimmed = patchTarget.trim();
+  if (patchTargetType === "block") {
+    return trimmed.replace(/^\^/, "");
+  }
+  return trimmed;
+}
+
+// ====================================================================================
+// Core Logic Function
+// ====================================================================================
+
+export const processObsidianPatchNote = async (
+  params: ObsidianPatchNoteInput,
+  context: RequestContext,
+  obsidianService: ObsidianRestApiService,
+  vaultCacheService: VaultCacheService | undefined,
+): Promise<ObsidianPatchNoteResponse> => {
+  logger.debug(`Processing obsidian_patch_note request`, {
+    ...context,
+    targetType: params.targetType,
+    targetIdentifier: params.targetIdentifier,
+    patchOperation: params.patchOperation,
+    patchTargetType: params.patchTargetType,
+    patchTarget: params.patchTarget,
+  });
+
+  const targetId = params.targetIdentifier;
+  const period =
+    params.targetType === "periodicNote"
+      ? (PeriodicNotePeriodSchema.parse(targetId) as Period)
+      : undefined;
+  const target = normalizePatchTarget(
+    params.patchTargetType,
+    params.patchTarget,
+  );
+
+  const patchOptions: PatchOptions = {
+    operation: params.patchOperation,
+    targetType: params.patchTargetType,
+    target,
+    targetDelimiter: params.targetDelimiter,
+    trimTargetWhitespace: params.trimTargetWhitespace,
+    createTargetIfMissing: params.createTargetIfMissing,
+    contentType:
+      params.contentFormat === "json" ? "application/json" : "text/markdown",
+  };
+
+  // A timed-out append or prepend may still have been applied, so only `replace`,
+  // which gives the same result when sent twice, is retried.
+  const shouldRetryTransient = (err: unknown) =>
+    params.patchOperation === "replace" &&
+    err instanceof McpError &&
+    (err.code === BaseErrorCode.SERVICE_UNAVAILABLE ||
+      err.code === BaseErrorCode.TIMEOUT);
+
+  const patchContext = {
+    ...context,
+    operation: `performPatch:${params.patchOperation}`,
+  };
+
+  try {
+    await retryWithDelay(
+      async () => {
+        switch (params.targetType) {
+          case "filePath":
+            await obsidianService.patchFile(
+              targetId!,
+              params.content,
+              patchOptions,
+              patchContext,
+            );
+            break;
+          case "activeFile":
+            await obsidianService.patchActiveFile(
+              params.content,
+              patchOptions,
+              patchContext,
+            );
+            break;
+          case "periodicNote":
+            await obsidianService.patchPeriodicNote(
+              period!,
+              params.content,
+              patchOptions,
+              patchContext,
+            );
+            break;
+        }
+      },
+      {
+        operationName: "patchObsidianNote",
+        context: patchContext,
+        maxRetries: 3,
+        delayMs: 300,
+        shouldRetry: shouldRetryTransient,
+      },
+    );
+  } catch (error) {
+    // The REST API answers 400 when the target does not exist and creation was not requested.
+    if (
+      error instanceof McpError &&
+      error.code === BaseErrorCode.VALIDATION_ERROR &&
+      !params.createTargetIfMissing
+    ) {
+      throw new McpError(
+        BaseErrorCode.VALIDATION_ERROR,
+        `Patch target ${params.patchTargetType} '${params.patchTarget}' could not be applied. Check that it exists, or set 'createTargetIfMissing' to true. (${error.message})`,
+        patchContext,
+      );
+    }
+    throw error;
+  }
+
+  // Read back the patched note; this also tells us the real path for activeFile/periodicNote targets.
+  let finalState: NoteJson | null = null;
+  try {
+    if (params.targetType === "filePath") {
+      finalState = (await obsidianService.getFileContent(
+        targetId!,
+        "json",
+        context,
+      )) as NoteJson;
+    } else if (params.targetType === "activeFile") {
+      finalState = (await obsidianService.getActiveFile(
+        "json",
+        context,
+      )) as NoteJson;
+    } else {
+      finalState = (await obsidianService.getPeriodicNote(
+        period!,
+        "json",
+        context,
+      )) as NoteJson;
+    }
+  } catch (error) {
+    logger.warning(
+      `Could not retrieve final state after patch. Error: ${error instanceof Error ? error.message : String(error)}`,
+      context,
+    );
+  }
+
+  const notePath =
+    finalState?.path ??
+    (params.targetType === "filePath" ? targetId : undefined);
+  if (vaultCacheService && notePath) {
+    await vaultCacheService.updateCacheForFile(notePath, context);
+  }
+
+  const targetName =
+    params.targetType === "filePath"
+      ? `'${targetId}'`
+      : params.targetType === "periodicNote"
+        ? `the ${targetId} note`
+        : "the active file";
+  let message = `Successfully ${params.patchOperation === "replace" ? "replaced" : `${params.patchOperation}ed`} content at ${params.patchTargetType} '${params.patchTarget}' in ${targetName}.`;
+  if (!finalState) {
+    message +=
+      " (Warning: Could not retrieve final file stats/content after patch.)";
+  }
+
+  const formattedStat = finalState?.stat
+    ? await createFormattedStatWithTokenCount(
+        finalState.stat,
+        finalState.content ?? "",
+        context,
+      )
+    : undefined;
+
+  const response: ObsidianPatchNoteResponse = {
+    success: true,
+    message,
+    path: notePath,
+    stats: formattedStat ?? undefined,
+  };
+  if (params.returnContent) {
+    response.finalContent = finalState?.content;
+  }
+  return response;
+};
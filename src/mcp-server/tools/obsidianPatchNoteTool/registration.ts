@@ -0,0 +1,125 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ObsidianRestApiService,
+  VaultCacheService,
+} from "../../../services/obsidianRestAPI/index.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import {
+  ErrorHandler,
+  logger,
+  RequestContext,
+  requestContextService,
+} from "../../../utils/index.js";
+import type {
+  ObsidianPatchNoteRegistrationInput,
+  ObsidianPatchNoteResponse,
+} from "./logic.js";
+import {
+  PatchNoteInputSchema,
+  ObsidianPatchNoteInputSchemaShape,
+  processObsidianPatchNote,
+} from "./logic.js";
+
+export const registerObsidianPatchNoteTool = async (
+  server: McpServer,
+  obsidianService: ObsidianRestApiService,
+  vaultCacheService: VaultCacheService | undefined,
+): Promise<void> => {
+  const toolName = "obsidian_patch_note";
+  const toolDescription =
+    "Applies a targeted edit inside an Obsidian note (specified by file path, the active file, or a periodic note) without rewriting the whole file. Appends, prepends, or replaces content relative to a heading (nested with '::', e.g. 'Projects::Q3::Risks'), a block reference ('^block-id'), or a frontmatter key, optionally creating the target if it is missing. Returns success status, message, the note path, file stats, and optionally the final content.";
+
+  const registrationContext: RequestContext =
+    requestContextService.createRequestContext({
+      operation: "RegisterObsidianPatchNoteTool",
+      toolName: toolName,
+      module: "ObsidianPatchNoteRegistration",
+    });
+
+  logger.info(`Attempting to register tool: ${toolName}`, registrationContext);
+
+  await ErrorHandler.tryCatch(
+    async () => {
+      server.tool(
+        toolName,
+        toolDescription,
+        ObsidianPatchNoteInputSchemaShape,
+        async (params: ObsidianPatchNoteRegistrationInput) => {
+          const handlerContext: RequestContext =
+            requestContextService.createRequestContext({
+              parentContext: registrationContext,
+              operation: "HandleObsidianPatchNoteRequest",
+              toolName: toolName,
+              params: {
+                targetType: params.targetType,
+                targetIdentifier: params.targetIdentifier,
+                patchOperation: params.patchOperation,
+                patchTargetType: params.patchTargetType,
+                patchTarget: params.patchTarget,
+                createTargetIfMissing: params.createTargetIfMissing,
+              },
+            });
+          logger.debug(`Handling '${toolName}' request`, handlerContext);
+
+          return await ErrorHandler.tryCatch(
+            async () => {
+              const validatedParams = PatchNoteInputSchema.parse(params);
+
+              const response: ObsidianPatchNoteResponse =
+                await processObsidianPatchNote(
+                  validatedParams,
+                  handlerContext,
+                  obsidianService,
+                  vaultCacheService,
+                );
+              logger.debug(
+                `'${toolName}' processed successfully`,
+                handlerContext,
+              );
+
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: JSON.stringify(response, null, 2),
+                  },
+                ],
+                isError: false,
+              };
+            },
+            {
+              operation: `processing ${toolName} handler`,
+              context: handlerContext,
+              input: params,
+              errorMapper: (error: unknown) =>
+                new McpError(
+                  error instanceof McpError
+                    ? error.code
+                    : BaseErrorCode.INTERNAL_ERROR,
+                  `Error processing ${toolName} tool: ${error instanceof Error ? error.message : "Unknown error"}`,
+                  { ...handlerContext },
+                ),
+            },
+          );
+        },
+      );
+
+      logger.info(
+        `Tool registered successfully: ${toolName}`,
+        registrationContext,
+      );
+    },
+    {
+      operation: `registering tool ${toolName}`,
+      context: registrationContext,
+      errorCode: BaseErrorCode.INTERNAL_ERROR,
+      errorMapper: (error: unknown) =>
+        new McpError(
+          error instanceof McpError ? error.code : BaseErrorCode.INTERNAL_ERROR,
+          `Failed to register tool '${toolName}': ${error instanceof Error ? error.message : "Unknown error"}`,
+          { ...registrationContext },
+        ),
+      critical: true,
+    },
+  );
+};
@@ -0,0 +1,9 @@
+export {
+  ObsidianPeriodicNoteInputSchemaShape,
+  processObsidianPeriodicNote,
+} from "./logic.js";
+export type {
+  ObsidianPeriodicNoteInput,
+  ObsidianPeriodicNoteResponse,
+} from "./logic.js";
+export { registerObsidianPeriodicNoteTool } from "./registration.js";
@@ -0,0 +1,256 @@
+import { z } from "zod";
+import {
+  NoteJson,
+  ObsidianRestApiService,
+  Period,
+  PeriodicNoteDate,
+  VaultCacheService,
+} from "../../../services/obsidianRestAPI/index.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import {
+  createFormattedStatWithTokenCount,
+  formatMomentDate,
+  logger,
+  periodBounds,
+  RequestContext,
+  resolvePeriodicDate,
+  toIsoDay,
+} from "../../../utils/index.js";
+
+// ====================================================================================
+// Schema Definitions
+// ====================================================================================
+
+const PeriodicNoteInputSchemaBase = z.object({
+  period: z
+    .enum(["daily", "weekly", "monthly", "quarterly", "yearly"])
+    .describe("The kind of periodic note to address."),
+  date: z
+    .string()
+    .optional()
+    .describe(
+      "Natural-language or explicit date identifying the period (e.g., 'yesterday', 'last Friday', 'last week', '2025-07-04', 'Q3 2025', '2025-W27', '2024'). Defaults to today.",
+    ),
+  action: z
+    .enum(["read", "create"])
+    .optional()
+    .default("read")
+    .describe(
+      "'read' returns the note and fails if it does not exist. 'create' returns the note, creating it first if needed.",
+    ),
+  templatePath: z
+    .string()
+    .optional()
+    .describe(
+      "Vault-relative path of a template note used to seed the note when 'create' has to create it (e.g., 'Templates/Daily.md'). Supports {{date}}, {{date:FORMAT}}, {{time}}, {{title}} and {{period}}. Without it, the Periodic Notes plugin's own template applies.",
+    ),
+  includeContent: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe("If true (default), includes the note content in the response."),
+});
+
+export const ObsidianPeriodicNoteInputSchemaShape =
+  PeriodicNoteInputSchemaBase.shape;
+
+export const PeriodicNoteInputSchema = PeriodicNoteInputSchemaBase.refine(
+  (data) => !data.templatePath || data.action === "create",
+  {
+    message: "templatePath can only be used with action 'create'.",
+    path: ["templatePath"],
+  },
+);
+
+export type ObsidianPeriodicNoteRegistrationInput = z.infer<
+  typeof PeriodicNoteInputSchemaBase
+>;
+export type ObsidianPeriodicNoteInput = z.infer<typeof PeriodicNoteInputSchema>;
+
+type FormattedStat = {
+  createdTime: string;
+  modifiedTime: string;
+  tokenCountEstimate: number;
+};
+
+export interface ObsidianPeriodicNoteResponse {
+  success: boolean;
+  message: string;
+  period: Period;
+  /** The resolved reference date (YYYY-MM-DD). */
+  date: string;
+  /** First and last day (YYYY-MM-DD) covered by the note. */
+  periodStart: string;
+  periodEnd: string;
+  path: string;
+  created: boolean;
+  templateApplied?: string;
+  frontmatter: Record<string, unknown>;
+  tags: string[];
+  stats?: FormattedStat;
+  content?: string;
+}
+
+// ====================================================================================
+// Template Rendering
+// ====================================================================================
+
+function renderTemplate(
+  template: string,
+  variables: { date: Date; title: string; period: Period },
+): string {
+  const now = new Date();
+  return template.replace(
+    /\{\{\s*(date|time|title|period)(?::([^}]*))?\s*\}\}/gi,
+    (_match, name: string, format: string | undefined) => {
+      switch (name.toLowerCase()) {
+        case "date":
+          return formatMomentDate(
+            variables.date,
+            format?.trim() || "YYYY-MM-DD",
+          );
+        case "time":
+          return formatMomentDate(now, format?.trim() || "HH:mm");
+        case "title":
+          return variables.title;
+        default:
+          return variables.period;
+      }
+    },
+  );
+}
+
+// ====================================================================================
+// Core Logic Function
+// ====================================================================================
+
+export const processObsidianPeriodicNote = async (
+  params: ObsidianPeriodicNoteInput,
+  context: RequestContext,
+  obsidianService: ObsidianRestApiService,
+  vaultCacheService: VaultCacheService | undefined,
+): Promise<ObsidianPeriodicNoteResponse> => {
+  logger.debug(`Processing obsidian_periodic_note request`, {
+    ...context,
+    period: params.period,
+    date: params.date,
+    action: params.action,
+  });
+
+  const period = params.period as Period;
+  const resolved = await resolvePeriodicDate(params.date, context);
+  const bounds = periodBounds(period, resolved);
+  const noteDate: PeriodicNoteDate = {
+    year: resolved.getFullYear(),
+    month: resolved.getMonth() + 1,
+    day: resolved.getDate(),
+  };
+
+  const readNote = async (): Promise<NoteJson | null> => {
+    try {
+      return (await obsidianService.getPeriodicNoteForDate(
+        period,
+        noteDate,
+        "json",
+        context,
+      )) as NoteJson;
+    } catch (error) {
+      if (error instanceof McpError && error.code === BaseErrorCode.NOT_FOUND) {
+        return null;
+      }
+      throw error;
+    }
+  };
+
+  let note = await readNote();
+  let created = false;
+  let templateApplied: string | undefined;
+
+  if (!note) {
+    if (params.action !== "create") {
+      throw new McpError(
+        BaseErrorCode.NOT_FOUND,
+        `No ${period} note exists for ${toIsoDay(bounds.start)}${period !== "daily" ? ` – ${toIsoDay(bounds.end)}` : ""}. Use action 'create' to create it.`,
+        context,
+      );
+    }
+
+    // Read the template first so a bad templatePath fails before anything is created.
+    const template = params.templatePath
+      ? ((await obsidianService.getFileContent(
+          params.templatePath,
+          "markdown",
+          context,
+        )) as string)
+      : undefined;
+
+    // Creating through the plugin resolves the configured folder and file name format.
+    await obsidianService.appendPeriodicNoteForDate(
+      period,
+      noteDate,
+      "",
+      context,
+    );
+    created = true;
+    note = await readNote();
+    if (!note) {
+      throw new McpError(
+        BaseErrorCode.SERVICE_UNAVAILABLE,
+        `The ${period} note was created but could not be read back. Is the Periodic Notes plugin enabled for '${period}' notes?`,
+        context,
+      );
+    }
+
+    if (template !== undefined) {
+      const title = note.path.split("/").pop()!.replace(/\.md$/i, "");
+      const rendered = renderTemplate(template, {
+        date: resolved,
+        title,
+        period,
+      });
+      await obsidianService.updatePeriodicNoteForDate(
+        period,
+        noteDate,
+        rendered,
+        context,
+      );
+      templateApplied = params.templatePath;
+      note = (await readNote()) ?? { ...note, content: rendered };
+    }
+
+    if (vaultCacheService) {
+      await vaultCacheService.updateCacheForFile(note.path, context);
+    }
+    logger.info(`Created ${period} note '${note.path}'`, {
+      ...context,
+      templateApplied,
+    });
+  }
+
+  const stats = note.stat
+    ? await createFormattedStatWithTokenCount(
+        note.stat,
+        note.content ?? "",
+        context,
+      )
+    : undefined;
+
+  const response: ObsidianPeriodicNoteResponse = {
+    success: true,
+    message: created
+      ? `Created ${period} note '${note.path}'${templateApplied ? ` from template '${templateApplied}'` : ""}.`
+      : `Found ${period} note '${note.path}'.`,
+    period,
+    date: toIsoDay(resolved),
+    periodStart: toIsoDay(bounds.start),
+    periodEnd: toIsoDay(bounds.end),
+    path: note.path,
+    created,
+    frontmatter: note.frontmatter ?? {},
+    tags: note.tags ?? [],
+    stats: stats ?? undefined,
+  };
+  if (templateApplied) response.templateApplied = templateApplied;
+  if (params.includeContent) response.content = note.content;
+  return response;
+};
@@ -0,0 +1,118 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ObsidianRestApiService,
+  VaultCacheService,
+} from "../../../services/obsidianRestAPI/index.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import {
+  ErrorHandler,
+  logger,
+  RequestContext,
+  requestContextService,
+} from "../../../utils/index.js";
+import type {
+  ObsidianPeriodicNoteRegistrationInput,
+  ObsidianPeriodicNoteResponse,
+} from "./logic.js";
+import {
+  PeriodicNoteInputSchema,
+  ObsidianPeriodicNoteInputSchemaShape,
+  processObsidianPeriodicNote,
+} from "./logic.js";
+
+export const registerObsidianPeriodicNoteTool = async (
+  server: McpServer,
+  obsidianService: ObsidianRestApiService,
+  vaultCacheService: VaultCacheService | undefined,
+): Promise<void> => {
+  const toolName = "obsidian_periodic_note";
+  const toolDescription =
+    "Reads or creates the daily, weekly, monthly, quarterly or yearly note for any date, not just the current one. Dates may be natural language ('yesterday', 'last Friday', 'last week') or explicit ('2025-07-04', 'Q3 2025', '2025-W27', '2024'). With action 'create', a missing note is created through the Periodic Notes plugin and can be seeded from a template note. Returns the note path, period bounds, frontmatter, tags, stats and content. Requires the Periodic Notes plugin.";
+
+  const registrationContext: RequestContext =
+    requestContextService.createRequestContext({
+      operation: "RegisterObsidianPeriodicNoteTool",
+      toolName: toolName,
+      module: "ObsidianPeriodicNoteRegistration",
+    });
+
+  logger.info(`Attempting to register tool: ${toolName}`, registrationContext);
+
+  await ErrorHandler.tryCatch(
+    async () => {
+      server.tool(
+        toolName,
+        toolDescription,
+        ObsidianPeriodicNoteInputSchemaShape,
+        async (params: ObsidianPeriodicNoteRegistrationInput) => {
+          const handlerContext: RequestContext =
+            requestContextService.createRequestContext({
+              parentContext: registrationContext,
+              operation: "HandleObsidianPeriodicNoteRequest",
+              toolName: toolName,
+              params: params,
+            });
+          logger.debug(`Handling '${toolName}' request`, handlerContext);
+
+          return await ErrorHandler.tryCatch(
+            async () => {
+              const validatedParams = PeriodicNoteInputSchema.parse(params);
+
+              const response: ObsidianPeriodicNoteResponse =
+                await processObsidianPeriodicNote(
+                  validatedParams,
+                  handlerContext,
+                  obsidianService,
+                  vaultCacheService,
+                );
+              logger.debug(
+                `'${toolName}' processed successfully`,
+                handlerContext,
+              );
+
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: JSON.stringify(response, null, 2),
+                  },
+                ],
+                isError: false,
+              };
+            },
+            {
+              operation: `processing ${toolName} handler`,
+              context: handlerContext,
+              input: params,
+              errorMapper: (error: unknown) =>
+                new McpError(
+                  error instanceof McpError
+                    ? error.code
+                    : BaseErrorCode.INTERNAL_ERROR,
+                  `Error processing ${toolName} tool: ${error instanceof Error ? error.message : "Unknown error"}`,
+                  { ...handlerContext },
+                ),
+            },
+          );
+        },
+      );
+
+      logger.info(
+        `Tool registered successfully: ${toolName}`,
+        registrationContext,
+      );
+    },
+    {
+      operation: `registering tool ${toolName}`,
+      context: registrationContext,
+      errorCode: BaseErrorCode.INTERNAL_ERROR,
+      errorMapper: (error: unknown) =>
+        new McpError(
+          error instanceof McpError ? error.code : BaseErrorCode.INTERNAL_ERROR,
+          `Failed to register tool '${toolName}': ${error instanceof Error ? error.message : "Unknown error"}`,
+          { ...registrationContext },
+        ),
+      critical: true,
+    },
+  );
+};
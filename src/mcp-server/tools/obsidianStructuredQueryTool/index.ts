@@ -0,0 +1,9 @@
+export {
+  ObsidianStructuredQueryInputSchemaShape,
+  processObsidianStructuredQuery,
+} from "./logic.js";
+export type {
+  ObsidianStructuredQueryInput,
+  ObsidianStructuredQueryResponse,
+} from "./logic.js";
+export { registerObsidianStructuredQueryTool } from "./registration.js";
@@ -0,0 +1,325 @@
+import { z } from "zod";
+import {
+  ComplexSearchResult,
+  ObsidianRestApiService,
+} from "../../../services/obsidianRestAPI/index.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import { logger, RequestContext } from "../../../utils/index.js";
+
+// ====================================================================================
+// Schema Definitions
+// ====================================================================================
+
+const StructuredQueryInputSchemaBase = z.object({
+  queryType: z
+    .enum(["dataview", "jsonlogic"])
+    .describe(
+      "The query language: 'dataview' for a Dataview DQL TABLE/LIST query, or 'jsonlogic' for a JsonLogic expression evaluated against each note.",
+    ),
+  query: z
+    .string()
+    .min(1)
+    .describe(
+      "The query text. For 'dataview', a TABLE or LIST query (e.g., 'TABLE status, due FROM #project SORT due ASC'). For 'jsonlogic', a JSON string evaluated against each note's NoteJson (fields: path, content, frontmatter.*, tags, stat.*), e.g., '{\"in\": [\"project\", {\"var\": \"tags\"}]}'. The extra operators 'glob' and 'regexp' are available.",
+    ),
+  pageSize: z
+    .number()
+    .int()
+    .positive()
+    .max(500)
+    .optional()
+    .default(50)
+    .describe("Maximum number of rows per page (<= 500). Defaults to 50."),
+  page: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .default(1)
+    .describe("Page number of results to return. Defaults to 1."),
+});
+
+export const ObsidianStructuredQueryInputSchemaShape =
+  StructuredQueryInputSchemaBase.shape;
+export const StructuredQueryInputSchema = StructuredQueryInputSchemaBase;
+
+export type ObsidianStructuredQueryInput = z.infer<
+  typeof StructuredQueryInputSchema
+>;
+
+/**
+ * A single result row. `fields` is populated for Dataview TABLE queries (one entry per column),
+ * `value` for Dataview LIST queries and JsonLogic expressions.
+ */
+export interface StructuredQueryRow {
+  filePath: string;
+  fields?: Record<string, unknown>;
+  value?: unknown;
+}
+
+export interface ObsidianStructuredQueryResponse {
+  success: boolean;
+  message: string;
+  queryType: ObsidianStructuredQueryInput["queryType"];
+  resultKind: "table" | "list" | "jsonlogic";
+  columns?: string[];
+  rows: StructuredQueryRow[];
+  totalResults: number;
+  currentPage: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+// ====================================================================================
+// Query Validation
+// ====================================================================================
+
+/** Base JsonLogic operators plus the `glob`/`regexp` extensions of the Local REST API. */
+const JSONLOGIC_OPERATORS = new Set([
+  "var",
+  "missing",
+  "missing_some",
+  "if",
+  "?:",
+  "==",
+  "===",
+  "!=",
+  "!==",
+  "!",
+  "!!",
+  "or",
+  "and",
+  ">",
+  ">=",
+  "<",
+  "<=",
+  "max",
+  "min",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "map",
+  "reduce",
+  "filter",
+  "all",
+  "none",
+  "some",
+  "merge",
+  "in",
+  "cat",
+  "substr",
+  "log",
+  "glob",
+  "regexp",
+]);
+
+type PreparedDataviewQuery = {
+  kind: "table" | "list";
+  dql: string;
+};
+
+/**
+ * Validates a Dataview query and rewrites LIST queries as TABLE queries, since the
+ * Local REST API only evaluates TABLE-type DQL. `LIST expr FROM ...` and
+ * `TABLE expr FROM ...` select the same rows, so the rewrite is lossless.
+ */
+function prepareDataviewQuery(
+  query: string,
+  context: RequestContext,
+): PreparedDataviewQuery {
+  const trimmed = query.trim();
+  const keywordMatch = trimmed.match(/^([A-Za-z]+)\b/);
+  const keyword = keywordMatch?.[1].toUpperCase();
+
+  if (keyword === "TABLE") {
+    return { kind: "table", dql: trimmed };
+  }
+  if (keyword === "LIST") {
+    return { kind: "list", dql: trimmed.replace(/^LIST\b/i, "TABLE") };
+  }
+  if (keyword === "TASK" || keyword === "CALENDAR") {
+    throw new McpError(
+      BaseErrorCode.VALIDATION_ERROR,
+      `Dataview ${keyword} queries are not supported by the Obsidian REST API. Use a TABLE or LIST query instead.`,
+      context,
+    );
+  }
+  throw new McpError(
+    BaseErrorCode.VALIDATION_ERROR,
+    "Dataview query must start with TABLE or LIST (e.g., 'TABLE status FROM #project').",
+    context,
+  );
+}
+
+/**
+ * Parses a JsonLogic expression and checks that every operation node uses a known operator.
+ */
+function prepareJsonLogicQuery(
+  query: string,
+  context: RequestContext,
+): Record<string, unknown> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(query);
+  } catch (error) {
+    throw new McpError(
+      BaseErrorCode.VALIDATION_ERROR,
+      `JsonLogic query is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+      context,
+    );
+  }
+
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new McpError(
+      BaseErrorCode.VALIDATION_ERROR,
+      'JsonLogic query must be a JSON object with a single operator key (e.g., {"==": [...]}).',
+      context,
+    );
+  }
+
+  const visit = (node: unknown, path: string): void => {
+    if (Array.isArray(node)) {
+      node.forEach((child, index) => visit(child, `${path}[${index}]`));
+      return;
+    }
+    if (!node || typeof node !== "object") return;
+
+    const keys = Object.keys(node);
+    if (keys.length !== 1) {
+      throw new McpError(
+        BaseErrorCode.VALIDATION_ERROR,
+        `JsonLogic rule at ${path} must have exactly one operator key, found ${keys.length}.`,
+        context,
+      );
+    }
+    const operator = keys[0];
+    if (!JSONLOGIC_OPERATORS.has(operator)) {
+      throw new McpError(
+        BaseErrorCode.VALIDATION_ERROR,
+        `Unknown JsonLogic operator '${operator}' at ${path}.`,
+        context,
+      );
+    }
+    visit((node as Record<string, unknown>)[operator], `${path}.${operator}`);
+  };
+
+  visit(parsed, "$");
+  return parsed as Record<string, unknown>;
+}
+
+// ====================================================================================
+// Result Shaping
+// ====================================================================================
+
+function toRow(
+  result: ComplexSearchResult,
+  kind: ObsidianStructuredQueryResponse["resultKind"],
+): StructuredQueryRow {
+  if (kind === "jsonlogic") {
+    return { filePath: result.filename, value: result.result };
+  }
+
+  const fields =
+    result.result && typeof result.result === "object"
+      ? (result.result as Record<string, unknown>)
+      : {};
+
+  if (kind === "list") {
+    // A LIST rewritten as TABLE yields at most one column; an empty LIST yields none.
+    const values = Object.values(fields);
+    return values.length > 0
+      ? { filePath: result.filename, value: values[0] }
+      : { filePath: result.filename };
+  }
+
+  return { filePath: result.filename, fields };
+}
+
+function collectColumns(results: ComplexSearchResult[]): string[] {
+  const columns: string[] = [];
+  const seen = new Set<string>();
+  for (const result of results) {
+    if (!result.result || typeof result.result !== "object") continue;
+    for (const key of Object.keys(result.result)) {
+      if (!seen.has(key)) {
+        seen.add(key);
+        columns.push(key);
+      }
+    }
+  }
+  return columns;
+}
+
+// ====================================================================================
+// Core Logic Function
+// ====================================================================================
+
+export const processObsidianStructuredQuery = async (
+  params: ObsidianStructuredQueryInput,
+  context: RequestContext,
+  obsidianService: ObsidianRestApiService,
+): Promise<ObsidianStructuredQueryResponse> => {
+  logger.debug(`Processing obsidian_structured_query request`, {
+    ...context,
+    queryType: params.queryType,
+    page: params.page,
+    pageSize: params.pageSize,
+  });
+
+  let results: ComplexSearchResult[];
+  let resultKind: ObsidianStructuredQueryResponse["resultKind"];
+
+  if (params.queryType === "dataview") {
+    const prepared = prepareDataviewQuery(params.query, context);
+    resultKind = prepared.kind;
+    results = await obsidianService.searchComplex(
+      prepared.dql,
+      "application/vnd.olrapi.dataview.dql+txt",
+      context,
+    );
+  } else {
+    const logic = prepareJsonLogicQuery(params.query, context);
+    resultKind = "jsonlogic";
+    results = await obsidianService.searchComplex(
+      logic,
+      "application/vnd.olrapi.jsonlogic+json",
+      context,
+    );
+  }
+
+  if (!Array.isArray(results)) {
+    throw new McpError(
+      BaseErrorCode.INTERNAL_ERROR,
+      "Obsidian REST API returned an unexpected payload for the structured query.",
+      context,
+    );
+  }
+
+  const totalResults = results.length;
+  const totalPages = Math.ceil(totalResults / params.pageSize);
+  const startIndex = (params.page - 1) * params.pageSize;
+  const pageResults = results.slice(startIndex, startIndex + params.pageSize);
+
+  const response: ObsidianStructuredQueryResponse = {
+    success: true,
+    message:
+      totalResults === 0
+        ? "Query executed successfully but matched no notes."
+        : `Query matched ${totalResults} note(s). Showing page ${params.page} of ${totalPages}.`,
+    queryType: params.queryType,
+    resultKind,
+    rows: pageResults.map((result) => toRow(result, resultKind)),
+    totalResults,
+    currentPage: params.page,
+    pageSize: params.pageSize,
+    totalPages,
+  };
+  if (resultKind === "table") {
+    response.columns = collectColumns(results);
+  }
+
+  logger.debug(response.message, context);
+  return response;
+};
@@ -0,0 +1,113 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ObsidianRestApiService } from "../../../services/obsidianRestAPI/index.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import {
+  ErrorHandler,
+  logger,
+  RequestContext,
+  requestContextService,
+} from "../../../utils/index.js";
+import type {
+  ObsidianStructuredQueryInput,
+  ObsidianStructuredQueryResponse,
+} from "./logic.js";
+import {
+  StructuredQueryInputSchema,
+  ObsidianStructuredQueryInputSchemaShape,
+  processObsidianStructuredQuery,
+} from "./logic.js";
+
+export const registerObsidianStructuredQueryTool = async (
+  server: McpServer,
+  obsidianService: ObsidianRestApiService,
+): Promise<void> => {
+  const toolName = "obsidian_structured_query";
+  const toolDescription =
+    "Runs a structured query across the vault through the Obsidian REST API: either a Dataview DQL TABLE/LIST query (requires the Dataview plugin) or a JsonLogic expression over each note's path, frontmatter, tags, content and stats. The query is validated before execution. Returns typed, paginated rows (column values for TABLE, a single value for LIST/JsonLogic).";
+
+  const registrationContext: RequestContext =
+    requestContextService.createRequestContext({
+      operation: "RegisterObsidianStructuredQueryTool",
+      toolName: toolName,
+      module: "ObsidianStructuredQueryRegistration",
+    });
+
+  logger.info(`Attempting to register tool: ${toolName}`, registrationContext);
+
+  await ErrorHandler.tryCatch(
+    async () => {
+      server.tool(
+        toolName,
+        toolDescription,
+        ObsidianStructuredQueryInputSchemaShape,
+        async (params: ObsidianStructuredQueryInput) => {
+          const handlerContext: RequestContext =
+            requestContextService.createRequestContext({
+              parentContext: registrationContext,
+              operation: "HandleObsidianStructuredQueryRequest",
+              toolName: toolName,
+              params: params,
+            });
+          logger.debug(`Handling '${toolName}' request`, handlerContext);
+
+          return await ErrorHandler.tryCatch(
+            async () => {
+              const validatedParams = StructuredQueryInputSchema.parse(params);
+
+              const response: ObsidianStructuredQueryResponse =
+                await processObsidianStructuredQuery(
+                  validatedParams,
+                  handlerContext,
+                  obsidianService,
+                );
+              logger.debug(
+                `'${toolName}' processed successfully`,
+                handlerContext,
+              );
+
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: JSON.stringify(response, null, 2),
+                  },
+                ],
+                isError: false,
+              };
+            },
+            {
+              operation: `processing ${toolName} handler`,
+              context: handlerContext,
+              input: params,
+              errorMapper: (error: unknown) =>
+                new McpError(
+                  error instanceof McpError
+                    ? error.code
+                    : BaseErrorCode.INTERNAL_ERROR,
+                  `Error processing ${toolName} tool: ${error instanceof Error ? error.message : "Unknown error"}`,
+                  { ...handlerContext },
+                ),
+            },
+          );
+        },
+      );
+
+      logger.info(
+        `Tool registered successfully: ${toolName}`,
+        registrationContext,
+      );
+    },
+    {
+      operation: `registering tool ${toolName}`,
+      context: registrationContext,
+      errorCode: BaseErrorCode.INTERNAL_ERROR,
+      errorMapper: (error: unknown) =>
+        new McpError(
+          error instanceof McpError ? error.code : BaseErrorCode.INTERNAL_ERROR,
+          `Failed to register tool '${toolName}': ${error instanceof Error ? error.message : "Unknown error"}`,
+          { ...registrationContext },
+        ),
+      critical: true,
+    },
+  );
+};
@@ -0,0 +1,9 @@
+export {
+  ObsidianWorkspaceInputSchemaShape,
+  processObsidianWorkspace,
+} from "./logic.js";
+export type {
+  ObsidianWorkspaceInput,
+  ObsidianWorkspaceResponse,
+} from "./logic.js";
+export { registerObsidianWorkspaceTool } from "./registration.js";
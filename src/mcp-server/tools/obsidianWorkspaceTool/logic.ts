@@ -0,0 +1,294 @@
+import { z } from "zod";
+import {
+  NoteJson,
+  ObsidianRestApiService,
+} from "../../../services/obsidianRestAPI/index.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import {
+  createFormattedStatWithTokenCount,
+  logger,
+  RequestContext,
+} from "../../../utils/index.js";
+
+// ====================================================================================
+// Schema Definitions
+// ====================================================================================
+
+const WorkspaceInputSchemaBase = z.object({
+  action: z
+    .enum(["open", "getActive", "focusHeading"])
+    .describe(
+      "'open' opens a note in the Obsidian UI, 'getActive' reports the note currently focused in Obsidian, 'focusHeading' scrolls a note (the active one by default) to a heading.",
+    ),
+  filePath: z
+    .string()
+    .optional()
+    .describe(
+      "Vault-relative path of the note (e.g., 'Projects/Q3.md'). Required for 'open'; optional for 'focusHeading' (defaults to the active note). Ignored for 'getActive'.",
+    ),
+  heading: z
+    .string()
+    .optional()
+    .describe(
+      "Heading text to focus, without the leading '#' (e.g., 'Risks'). Required for 'focusHeading'; optional for 'open'. Matching is case-insensitive.",
+    ),
+  newLeaf: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe(
+      "If true, opens the note in a new tab (leaf) instead of reusing the current one.",
+    ),
+  createIfMissing: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe(
+      "If true, 'open' creates an empty note when the path does not exist. Defaults to false, which returns an error instead.",
+    ),
+  includeContent: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("If true, includes the active note's content in the response."),
+});
+
+export const ObsidianWorkspaceInputSchemaShape = WorkspaceInputSchemaBase.shape;
+
+export const WorkspaceInputSchema = WorkspaceInputSchemaBase.refine(
+  (data) => data.action !== "open" || !!data.filePath?.trim(),
+  {
+    message: "filePath is required when action is 'open'.",
+    path: ["filePath"],
+  },
+).refine((data) => data.action !== "focusHeading" || !!data.heading?.trim(), {
+  message: "heading is required when action is 'focusHeading'.",
+  path: ["heading"],
+});
+
+export type ObsidianWorkspaceRegistrationInput = z.infer<
+  typeof WorkspaceInputSchemaBase
+>;
+export type ObsidianWorkspaceInput = z.infer<typeof WorkspaceInputSchema>;
+
+type FormattedStat = {
+  createdTime: string;
+  modifiedTime: string;
+  tokenCountEstimate: number;
+};
+
+export interface ActiveNoteInfo {
+  path: string;
+  frontmatter: Record<string, unknown>;
+  tags: string[];
+  headings: string[];
+  stats?: FormattedStat;
+  content?: string;
+}
+
+export interface ObsidianWorkspaceResponse {
+  success: boolean;
+  message: string;
+  action: ObsidianWorkspaceInput["action"];
+  openedPath?: string;
+  focusedHeading?: string;
+  /** The note focused in Obsidian after the action, or null if none is open. */
+  activeNote: ActiveNoteInfo | null;
+}
+
+// ====================================================================================
+// Helper Functions
+// ====================================================================================
+
+/**
+ * Extracts ATX heading texts (`# Title` … `###### Title`) from markdown, skipping fenced code blocks.
+ */
+function extractHeadings(content: string): string[] {
+  const headings: string[] = [];
+  let inFence = false;
+  for (const line of content.split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+    const match = line.match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+    if (match) headings.push(match[1]);
+  }
+  return headings;
+}
+
+/**
+ * Reads the active note as NoteJson. Returns null when no markdown note is focused
+ * (the REST API answers 404 in that case).
+ */
+async function readActiveNote(
+  obsidianService: ObsidianRestApiService,
+  context: RequestContext,
+): Promise<NoteJson | null> {
+  try {
+    return (await obsidianService.getActiveFile("json", context)) as NoteJson;
+  } catch (error) {
+    if (error instanceof McpError && error.code === BaseErrorCode.NOT_FOUND) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function toActiveNoteInfo(
+  note: NoteJson,
+  includeContent: boolean,
+  context: RequestContext,
+): Promise<ActiveNoteInfo> {
+  const info: ActiveNoteInfo = {
+    path: note.path,
+    frontmatter: note.frontmatter ?? {},
+    tags: note.tags ?? [],
+    headings: extractHeadings(note.content ?? ""),
+  };
+  if (note.stat) {
+    const stats = await createFormattedStatWithTokenCount(
+      note.stat,
+      note.content ?? "",
+      context,
+    );
+    if (stats) info.stats = stats;
+  }
+  if (includeContent) info.content = note.content;
+  return info;
+}
+
+/**
+ * Resolves a requested heading against the note's actual headings (case-insensitive),
+ * so the link sent to Obsidian uses the exact text it expects.
+ */
+function resolveHeading(
+  note: NoteJson,
+  heading: string,
+  context: RequestContext,
+): string {
+  const wanted = heading
+    .trim()
+    .replace(/^#+\s*/, "")
+    .toLowerCase();
+  const headings = extractHeadings(note.content ?? "");
+  const found = headings.find((h) => h.toLowerCase() === wanted);
+  if (!found) {
+    throw new McpError(
+      BaseErrorCode.NOT_FOUND,
+      `Heading '${heading}' not found in '${note.path}'. Available headings: ${headings.length > 0 ? headings.map((h) => `'${h}'`).join(", ") : "(none)"}.`,
+      context,
+    );
+  }
+  return found;
+}
+
+// ====================================================================================
+// Core Logic Function
+// ====================================================================================
+
+export const processObsidianWorkspace = async (
+  params: ObsidianWorkspaceInput,
+  context: RequestContext,
+  obsidianService: ObsidianRestApiService,
+): Promise<ObsidianWorkspaceResponse> => {
+  logger.debug(`Processing obsidian_workspace request`, {
+    ...context,
+    action: params.action,
+    filePath: params.filePath,
+    heading: params.heading,
+  });
+
+  if (params.action === "getActive") {
+    const active = await readActiveNote(obsidianService, context);
+    return {
+      success: true,
+      message: active
+        ? `The active note is '${active.path}'.`
+        : "No note is currently active in Obsidian.",
+      action: params.action,
+      activeNote: active
+        ? await toActiveNoteInfo(active, params.includeContent, context)
+        : null,
+    };
+  }
+
+  // Resolve the target note: explicit path, or the active note for 'focusHeading'.
+  let target: NoteJson | null = null;
+  const requestedPath = params.filePath?.trim();
+  if (requestedPath) {
+    try {
+      target = (await obsidianService.getFileContent(
+        requestedPath,
+        "json",
+        context,
+      )) as NoteJson;
+    } catch (error) {
+      const missing =
+        error instanceof McpError && error.code === BaseErrorCode.NOT_FOUND;
+      if (!missing) throw error;
+      if (
+        params.action !== "open" ||
+        !params.createIfMissing ||
+        params.heading
+      ) {
+        throw new McpError(
+          BaseErrorCode.NOT_FOUND,
+          `Note '${requestedPath}' does not exist.${params.action === "open" && !params.heading ? " Set 'createIfMissing' to true to create it." : ""}`,
+          context,
+        );
+      }
+    }
+  } else {
+    target = await readActiveNote(obsidianService, context);
+    if (!target) {
+      throw new McpError(
+        BaseErrorCode.NOT_FOUND,
+        "No note is currently active in Obsidian. Provide 'filePath' to choose a note.",
+        context,
+      );
+    }
+  }
+
+  const notePath = target?.path ?? requestedPath!;
+  const heading =
+    params.heading && target
+      ? resolveHeading(target, params.heading, context)
+      : undefined;
+
+  // Obsidian resolves `path#Heading` link text to the heading inside the note.
+  const linkText = heading ? `${notePath}#${heading}` : notePath;
+  await obsidianService.openFile(linkText, params.newLeaf, context);
+  logger.info(`Opened '${linkText}' in Obsidian`, {
+    ...context,
+    newLeaf: params.newLeaf,
+  });
+
+  // Report what Obsidian now shows; failures here should not mask a successful open.
+  let activeNote: ActiveNoteInfo | null = null;
+  try {
+    const active = await readActiveNote(obsidianService, context);
+    activeNote = active
+      ? await toActiveNoteInfo(active, params.includeContent, context)
+      : null;
+  } catch (error) {
+    logger.warning(
+      `Opened note but could not read the active file afterwards: ${error instanceof Error ? error.message : String(error)}`,
+      context,
+    );
+  }
+
+  const message = heading
+    ? `Opened '${notePath}' at heading '${heading}'${params.newLeaf ? " in a new tab" : ""}.`
+    : `Opened '${notePath}'${params.newLeaf ? " in a new tab" : ""}${target ? "" : " (created)"}.`;
+
+  return {
+    success: true,
+    message,
+    action: params.action,
+    openedPath: notePath,
+    ...(heading ? { focusedHeading: heading } : {}),
+    activeNote,
+  };
+};
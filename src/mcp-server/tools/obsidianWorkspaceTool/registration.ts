@@ -0,0 +1,113 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ObsidianRestApiService } from "../../../services/obsidianRestAPI/index.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import {
+  ErrorHandler,
+  logger,
+  RequestContext,
+  requestContextService,
+} from "../../../utils/index.js";
+import type {
+  ObsidianWorkspaceRegistrationInput,
+  ObsidianWorkspaceResponse,
+} from "./logic.js";
+import {
+  WorkspaceInputSchema,
+  ObsidianWorkspaceInputSchemaShape,
+  processObsidianWorkspace,
+} from "./logic.js";
+
+export const registerObsidianWorkspaceTool = async (
+  server: McpServer,
+  obsidianService: ObsidianRestApiService,
+): Promise<void> => {
+  const toolName = "obsidian_workspace";
+  const toolDescription =
+    "Navigates the Obsidian workspace: 'open' opens a note (optionally in a new tab and at a heading), 'getActive' reports the currently focused note with its frontmatter, tags and headings, and 'focusHeading' scrolls a note (the active one by default) to a heading. Returns the opened path and the resulting active note.";
+
+  const registrationContext: RequestContext =
+    requestContextService.createRequestContext({
+      operation: "RegisterObsidianWorkspaceTool",
+      toolName: toolName,
+      module: "ObsidianWorkspaceRegistration",
+    });
+
+  logger.info(`Attempting to register tool: ${toolName}`, registrationContext);
+
+  await ErrorHandler.tryCatch(
+    async () => {
+      server.tool(
+        toolName,
+        toolDescription,
+        ObsidianWorkspaceInputSchemaShape,
+        async (params: ObsidianWorkspaceRegistrationInput) => {
+          const handlerContext: RequestContext =
+            requestContextService.createRequestContext({
+              parentContext: registrationContext,
+              operation: "HandleObsidianWorkspaceRequest",
+              toolName: toolName,
+              params: params,
+            });
+          logger.debug(`Handling '${toolName}' request`, handlerContext);
+
+          return await ErrorHandler.tryCatch(
+            async () => {
+              const validatedParams = WorkspaceInputSchema.parse(params);
+
+              const response: ObsidianWorkspaceResponse =
+                await processObsidianWorkspace(
+                  validatedParams,
+                  handlerContext,
+                  obsidianService,
+                );
+              logger.debug(
+                `'${toolName}' processed successfully`,
+                handlerContext,
+              );
+
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: JSON.stringify(response, null, 2),
+                  },
+                ],
+                isError: false,
+              };
+            },
+            {
+              operation: `processing ${toolName} handler`,
+              context: handlerContext,
+              input: params,
+              errorMapper: (error: unknown) =>
+                new McpError(
+                  error instanceof McpError
+                    ? error.code
+                    : BaseErrorCode.INTERNAL_ERROR,
+                  `Error processing ${toolName} tool: ${error instanceof Error ? error.message : "Unknown error"}`,
+                  { ...handlerContext },
+                ),
+            },
+          );
+        },
+      );
+
+      logger.info(
+        `Tool registered successfully: ${toolName}`,
+        registrationContext,
+      );
+    },
+    {
+      operation: `registering tool ${toolName}`,
+      context: registrationContext,
+      errorCode: BaseErrorCode.INTERNAL_ERROR,
+      errorMapper: (error: unknown) =>
+        new McpError(
+          error instanceof McpError ? error.code : BaseErrorCode.INTERNAL_ERROR,
+          `Failed to register tool '${toolName}': ${error instanceof Error ? error.message : "Unknown error"}`,
+          { ...registrationContext },
+        ),
+      critical: true,
+    },
+  );
+};
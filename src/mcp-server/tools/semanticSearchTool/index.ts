@@ -1,6 +1,19 @@
 /**
  * @fileoverview Barrel file for the 'smart_search' (semantic search) MCP tool.
- * Exposes the registration function so the main server can wire the tool.
+ * Exposes the registration function so the main server can wire the tool, the search
+ * runner reused by `hybrid_search`, and the stored-vector helpers reused by
+ * `smart_related_notes` and `smart_find_duplicates`.
  */
 
-export { registerSemanticSearchTool } from "./registration.js";
+export {
+  bestPerNote,
+  describeHits,
+  loadStoredVectors,
+  registerSemanticSearchTool,
+  runSemanticSearch,
+  scopeFilter,
+  type SearchItem,
+  type SemanticSearchOutput,
+  type StoredVectors,
+  type VectorPartition,
+} from "./registration.js";
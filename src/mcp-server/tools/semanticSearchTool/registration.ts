@@ -1,8 +1,13 @@
 /**
  * Semantic search (Smart Connections) — Implémentation réelle
- * - Lit les embeddings dans `.smart-env`
+ * - Lit les embeddings dans `.smart-env` (surveillé : seuls les fichiers modifiés sont relus)
  * - Encode la requête via un embedder configurable (auto: s'aligne sur le modèle du vault)
- * - Classement cosinus, filtres dossier/tag, snippets optionnels
+ * - Classement cosinus (index HNSW persisté, ou scan exact), filtres dossier/tag, snippets optionnels
+ * - Snippets guidés par la requête (passage le plus pertinent, offsets et surlignages)
+ * - Rerank optionnel des meilleurs candidats par un cross-encoder (xenova ou endpoint /rerank)
+ * - SMART_SEARCH_MODE=files : index d'embeddings auto-hébergé (sans Smart Connections)
+ * - Vecteurs stockés, filtres et description des résultats partagés avec `smart_related_notes`
+ *   et `smart_find_duplicates`
  * - Expose `smart_semantic_search` + alias `smart_search` et `smart-search`
  * Schéma JSON "Codex-friendly" (pas d'integer ni d'unions).
  */
@@ -11,9 +16,36 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { promises as fs } from "fs";
 import path from "path";
-import { loadSmartEnv, cosine, type SmartVec } from "../../../services/smartEnv.js";
-import { getQueryEmbedder } from "../../../adapters/embed/index.js";
+import type { SmartVec } from "../../../services/smartEnv.js";
+import {
+  SmartEnvWatcher,
+  type SmartEnvChanges,
+} from "../../../services/smartEnvWatcher.js";
+import {
+  getQueryEmbedder,
+  type QueryEmbedderSelection,
+} from "../../../adapters/embed/index.js";
+import {
+  getReranker,
+  type RerankerSelection,
+} from "../../../adapters/rerank/index.js";
+import { config } from "../../../config/index.js";
+import {
+  FileEmbeddingIndex,
+  locateHeadingSection,
+  type FileEmbeddingIndexSnapshot,
+} from "../../../services/embeddingIndex/index.js";
+import {
+  openVectorIndex,
+  type VectorIndex,
+  type VectorIndexItem,
+} from "../../../services/vectorIndex/index.js";
 import { resolveNoteAbsolutePath } from "./resolvePath.js";
+import {
+  lineSpanToOffsets,
+  pickSnippet,
+  type SnippetQuery,
+} from "./snippets.js";
 import type { ObsidianRestApiService } from "../../../services/obsidianRestAPI/index.js";
 import type { VaultCacheService } from "../../../services/obsidianRestAPI/vaultCache/index.js";
 
@@ -23,6 +55,28 @@ const In = z.object({
   folders: z.array(z.string()).optional(),
   tags: z.array(z.string()).optional(),
   with_snippets: z.boolean().default(true),
+  exact: z
+    .boolean()
+    .optional()
+    .describe("Force an exact scan instead of the approximate (HNSW) index."),
+  group_by: z
+    .enum(["note", "block"])
+    .default("note")
+    .describe(
+      "note: one result per note (its best block). block: every matching block, with its heading path and lines.",
+    ),
+  rerank: z
+    .boolean()
+    .default(false)
+    .describe(
+      "Rescore the best candidates with a cross-encoder (RERANKER) for better precision at the top.",
+    ),
+  rerank_top_n: z
+    .number()
+    .min(1)
+    .max(100)
+    .default(20)
+    .describe("How many vector-search candidates the reranker rescores."),
 });
 
 const Out = z.object({
@@ -32,12 +86,42 @@ const Out = z.object({
   query_model: z.string().optional(),
   query_dim: z.number().optional(),
   ollama_base_url: z.string().optional(),
+  search_method: z.string().optional(),
+  score_normalization: z.enum(["none", "zscore"]).optional(),
+  partitions: z
+    .array(
+      z.object({
+        model: z.string().optional(),
+        dim: z.number(),
+        vectors: z.number(),
+        status: z.enum(["searched", "skipped"]),
+        reason: z.string().optional(),
+        query_provider: z.string().optional(),
+        query_model: z.string().optional(),
+      }),
+    )
+    .optional(),
+  reranker: z.string().optional(),
+  rerank_error: z.string().optional(),
   results: z.array(
     z.object({
       path: z.string(),
       score: z.number(),
       title: z.string().optional(),
       snippet: z.string().optional(),
+      snippet_offsets: z
+        .object({ start: z.number(), end: z.number() })
+        .optional(),
+      snippet_highlights: z
+        .array(z.object({ start: z.number(), end: z.number() }))
+        .optional(),
+      snippet_method: z.enum(["lexical", "semantic", "lead"]).optional(),
+      kind: z.enum(["note", "block"]).optional(),
+      heading_path: z.array(z.string()).optional(),
+      lines: z.object({ start: z.number(), end: z.number() }).optional(),
+      block_text: z.string().optional(),
+      raw_score: z.number().optional(),
+      rerank_score: z.number().optional(),
     }),
   ),
 });
@@ -45,14 +129,31 @@ const Out = z.object({
 type InType = z.infer<typeof In>;
 type OutType = z.infer<typeof Out>;
 
+/** What the vector index keeps per item: everything but the vector itself. */
+export type SearchItem = Omit<SmartVec, "vec">;
+
+const BLOCK_TEXT_CHARS = 4000;
+/** Cross-encoders truncate around 512 tokens anyway. */
+const RERANK_TEXT_CHARS = 2000;
+
+/** Vectors of one `(model, dim)` pair; similarity scores only compare within a partition. */
+export type VectorPartition = {
+  model?: string;
+  dimension: number;
+  index: VectorIndex<SearchItem>;
+};
+
 type SmartEnvCacheEntry = {
   dir: string;
-  ts: number;
-  items: SmartVec[];
-  smartEnvMtimeMs?: number;
+  watcher: SmartEnvWatcher;
+  /** Every partition opened so far, including ones whose vectors were all removed. */
+  partitions: VectorPartition[];
+  /** Index keys each `.smart-env` file contributed, with the partition holding them. */
+  keysByFile: Map<string, { partition: VectorPartition; key: string }[]>;
 };
 
 let smartEnvCache: SmartEnvCacheEntry | null = null;
+let smartEnvRefresh: Promise<SmartEnvCacheEntry> | null = null;
 
 function getEnv() {
   const env = process.env;
@@ -89,27 +190,49 @@ function getEnv() {
   };
 }
 
-function pickDominantDimension(items: SmartVec[]): number {
-  const counts = new Map<number, number>();
+/**
+ * Groups vectors by `(model, dim)`, largest group first. Vectors without a model join
+ * the only model of their dimension when there is exactly one.
+ */
+function partitionByModel(
+  items: SmartVec[],
+): { model?: string; dimension: number; items: SmartVec[] }[] {
+  const groups = new Map<
+    string,
+    { model?: string; dimension: number; items: SmartVec[] }
+  >();
+  const unlabelled: SmartVec[] = [];
   for (const item of items) {
-    const dim = item.vec?.length ?? 0;
-    if (!dim) continue;
-    counts.set(dim, (counts.get(dim) ?? 0) + 1);
+    const dimension = item.vec?.length ?? 0;
+    if (!dimension) continue;
+    if (!item.model) {
+      unlabelled.push(item);
+      continue;
+    }
+    const key = `${item.model}\u0000${dimension}`;
+    const group = groups.get(key) ?? {
+      model: item.model,
+      dimension,
+      items: [],
+    };
+    group.items.push(item);
+    groups.set(key, group);
   }
 
-  const ranked = [...counts.entries()].sort((a, b) => b[1] - a[1]);
-  return ranked[0]?.[0] ?? 0;
-}
-
-function pickDominantModel(items: SmartVec[]): string | undefined {
-  const counts = new Map<string, number>();
-  for (const item of items) {
-    if (!item.model) continue;
-    counts.set(item.model, (counts.get(item.model) ?? 0) + 1);
+  for (const item of unlabelled) {
+    const dimension = item.vec.length;
+    const sameDimension = [...groups.values()].filter(
+      (group) => group.model !== undefined && group.dimension === dimension,
+    );
+    const group =
+      sameDimension.length === 1
+        ? sameDimension[0]
+        : (groups.get(`\u0000${dimension}`) ?? { dimension, items: [] });
+    group.items.push(item);
+    groups.set(`${group.model ?? ""}\u0000${dimension}`, group);
   }
 
-  const ranked = [...counts.entries()].sort((a, b) => b[1] - a[1]);
-  return ranked[0]?.[0];
+  return [...groups.values()].sort((a, b) => b.items.length - a.items.length);
 }
 
 function wrapLooseObjectToJson(raw: string): string {
@@ -179,34 +302,186 @@ async function detectOllamaBaseUrlFromSmartEnv(
   return undefined;
 }
 
-async function loadItemsWithCache(
+const vectorKey = (meta: SearchItem) => `${meta.notePath}\u0000${meta.id}`;
+
+/** The partition an item belongs to, following the same rules as `partitionByModel`. */
+function findPartition(
+  partitions: VectorPartition[],
+  item: SmartVec,
+): VectorPartition | undefined {
+  const dimension = item.vec.length;
+  if (item.model) {
+    return partitions.find(
+      (partition) =>
+        partition.model === item.model && partition.dimension === dimension,
+    );
+  }
+  const sameDimension = partitions.filter(
+    (partition) =>
+      partition.model !== undefined && partition.dimension === dimension,
+  );
+  return sameDimension.length === 1
+    ? sameDimension[0]
+    : partitions.find(
+        (partition) =>
+          partition.model === undefined && partition.dimension === dimension,
+      );
+}
+
+/**
+ * First load of `.smart-env`: one persisted vector index per `(model, dim)` partition,
+ * synced with every file's vectors. The raw `number[]` vectors are dropped once packed;
+ * vectors already in a persisted index are not re-linked.
+ */
+async function buildSmartEnvCache(
   dir: string,
-  ttlMs: number,
-): Promise<SmartVec[]> {
-  const ttl = Number.isFinite(ttlMs) ? Math.max(ttlMs, 0) : 60000;
-  const now = Date.now();
-  const smartEnvJsonPath = path.join(dir, "smart_env.json");
-  let smartEnvMtimeMs: number | undefined;
+  watcher: SmartEnvWatcher,
+): Promise<SmartEnvCacheEntry> {
+  const { changed } = await watcher.takeChanges();
+  const items = [...changed.values()].flat();
+  if (!items.length) {
+    throw new Error(`No embeddings found in ${dir}`);
+  }
 
-  try {
-    const stat = await fs.stat(smartEnvJsonPath);
-    smartEnvMtimeMs = stat.mtimeMs;
-  } catch {
-    smartEnvMtimeMs = undefined;
+  const groups = partitionByModel(items);
+  if (!groups.length) {
+    throw new Error("Embeddings are missing vector data");
+  }
+
+  const partitions: VectorPartition[] = [];
+  const partitionOf = new Map<SmartVec, VectorPartition>();
+  for (const { model, dimension, items: groupItems } of groups) {
+    const index = await openVectorIndex<SearchItem>(
+      `smartenv:${dir}:${model ?? ""}`,
+      dimension,
+    );
+    index.sync(
+      groupItems.map(({ vec, ...meta }) => ({
+        key: vectorKey(meta),
+        meta,
+        vec,
+      })),
+    );
+    const partition = { model, dimension, index };
+    partitions.push(partition);
+    for (const item of groupItems) partitionOf.set(item, partition);
+  }
+
+  const keysByFile: SmartEnvCacheEntry["keysByFile"] = new Map();
+  for (const [file, fileItems] of changed) {
+    keysByFile.set(
+      file,
+      fileItems.flatMap((item) => {
+        const partition = partitionOf.get(item);
+        return partition ? [{ partition, key: vectorKey(item) }] : [];
+      }),
+    );
+  }
+
+  return { dir, watcher, partitions, keysByFile };
+}
+
+/**
+ * Patches the partitions with the files that changed since the last query: vectors of
+ * removed or rewritten files are dropped, their current vectors upserted. A model seen
+ * for the first time gets a new partition.
+ */
+async function applySmartEnvChanges(
+  cache: SmartEnvCacheEntry,
+  { changed, removed }: SmartEnvChanges,
+): Promise<void> {
+  const removals = new Map<VectorPartition, Set<string>>();
+  for (const file of [...removed, ...changed.keys()]) {
+    for (const { partition, key } of cache.keysByFile.get(file) ?? []) {
+      const keys = removals.get(partition) ?? new Set<string>();
+      keys.add(key);
+      removals.set(partition, keys);
+    }
+    cache.keysByFile.delete(file);
+  }
+
+  const upserts = new Map<VectorPartition, VectorIndexItem<SearchItem>[]>();
+  const created = new Set<VectorPartition>();
+  for (const [file, fileItems] of changed) {
+    const fileKeys: { partition: VectorPartition; key: string }[] = [];
+    for (const item of fileItems) {
+      if (!item.vec?.length) continue;
+      let partition = findPartition(cache.partitions, item);
+      if (!partition) {
+        partition = {
+          model: item.model,
+          dimension: item.vec.length,
+          index: await openVectorIndex<SearchItem>(
+            `smartenv:${cache.dir}:${item.model ?? ""}`,
+            item.vec.length,
+          ),
+        };
+        cache.partitions.push(partition);
+        created.add(partition);
+      }
+      const { vec, ...meta } = item;
+      const key = vectorKey(meta);
+      const items = upserts.get(partition) ?? [];
+      items.push({ key, meta, vec });
+      upserts.set(partition, items);
+      // Still present: updated in place rather than removed and re-linked.
+      removals.get(partition)?.delete(key);
+      fileKeys.push({ partition, key });
+    }
+    cache.keysByFile.set(file, fileKeys);
   }
 
-  if (
-    !smartEnvCache ||
-    smartEnvCache.dir !== dir ||
-    now - smartEnvCache.ts > ttl ||
-    (smartEnvMtimeMs !== undefined &&
-      smartEnvCache.smartEnvMtimeMs !== smartEnvMtimeMs)
-  ) {
-    const items = await loadSmartEnv(dir);
-    smartEnvCache = { dir, ts: now, items, smartEnvMtimeMs };
+  for (const partition of new Set([...removals.keys(), ...upserts.keys()])) {
+    const items = upserts.get(partition) ?? [];
+    if (created.has(partition)) {
+      // A persisted index may hold stale vectors from an earlier run: replace them.
+      partition.index.sync(items);
+    } else {
+      partition.index.patch(items, removals.get(partition) ?? []);
+    }
   }
+}
+
+/**
+ * Loads `.smart-env` once, then keeps it current from a file watcher: each query only
+ * re-parses the files that changed since the previous one. `ttlMs` is the fallback
+ * polling interval where the file system cannot be watched.
+ */
+async function loadIndexWithCache(
+  dir: string,
+  ttlMs: number,
+): Promise<{ partitions: VectorPartition[] }> {
+  smartEnvRefresh ??= (async () => {
+    if (smartEnvCache?.dir === dir) {
+      const changes = await smartEnvCache.watcher.takeChanges();
+      if (changes.changed.size || changes.removed.length) {
+        await applySmartEnvChanges(smartEnvCache, changes);
+      }
+      return smartEnvCache;
+    }
+    smartEnvCache?.watcher.close();
+    smartEnvCache = null;
+    const watcher = new SmartEnvWatcher(
+      dir,
+      Number.isFinite(ttlMs) ? Math.max(ttlMs, 0) : 60000,
+    );
+    try {
+      smartEnvCache = await buildSmartEnvCache(dir, watcher);
+    } catch (error) {
+      watcher.close();
+      throw error;
+    }
+    return smartEnvCache;
+  })().finally(() => {
+    smartEnvRefresh = null;
+  });
 
-  return smartEnvCache.items;
+  const { partitions } = await smartEnvRefresh;
+  return {
+    partitions: partitions
+      .filter((partition) => partition.index.size > 0)
+      .sort((a, b) => b.index.size - a.index.size),
+  };
 }
 
 function makeSuccessResult(payload: OutType) {
@@ -236,113 +511,250 @@ function makeErrorResult(error: unknown) {
   };
 }
 
-async function performSearch(input: InType): Promise<OutType> {
-  const {
-    SMART_ENV_DIR,
-    ENABLE_QUERY_EMBEDDING,
-    QUERY_EMBEDDER,
-    QUERY_EMBEDDER_MODEL,
-    QUERY_EMBEDDER_MODEL_HINT,
-    OLLAMA_BASE_URL,
-    OPENAI_API_KEY,
-    OPENAI_BASE_URL,
-    OPENAI_EMBEDDING_DIMENSIONS,
-    OBSIDIAN_VAULT,
-    CACHE_TTL,
-  } = getEnv();
+/** The stored vectors of a corpus; enough for searches that need no query embedding. */
+export type StoredVectors = {
+  /** Largest first. */
+  partitions: VectorPartition[];
+  /** Returns the full content of a note, for snippets and block text. */
+  readNote: (notePath: string) => Promise<string | undefined>;
+};
+
+type PartitionEmbedder = {
+  selection: Pick<QueryEmbedderSelection, "provider" | "model" | "embed">;
+  ollamaBaseUrl?: string;
+};
+
+type SearchCorpus = StoredVectors & {
+  /** Resolves the query embedder matching a partition's model. */
+  embedderFor: (partition: VectorPartition) => Promise<PartitionEmbedder>;
+};
+
+async function loadSmartEnvVectors(
+  env: ReturnType<typeof getEnv>,
+): Promise<StoredVectors> {
+  const { SMART_ENV_DIR, OBSIDIAN_VAULT, CACHE_TTL } = env;
 
   if (!SMART_ENV_DIR) {
     throw new Error("SMART_ENV_DIR is not set");
   }
 
-  if (!ENABLE_QUERY_EMBEDDING) {
-    throw new Error("ENABLE_QUERY_EMBEDDING=false");
-  }
+  const { partitions } = await loadIndexWithCache(SMART_ENV_DIR, CACHE_TTL);
 
-  const query = input.query.trim();
-  if (!query) {
-    return {
-      model: undefined,
-      dim: undefined,
-      query_provider: undefined,
-      query_model: undefined,
-      query_dim: undefined,
-      ollama_base_url: undefined,
-      results: [],
-    };
-  }
+  return {
+    partitions,
+    readNote: async (notePath) => {
+      const cached = vaultCache?.getEntry(notePath);
+      if (cached) return cached.content;
+      const absolutePath = resolveNoteAbsolutePath(notePath, OBSIDIAN_VAULT);
+      try {
+        return await fs.readFile(absolutePath, "utf-8");
+      } catch {
+        return undefined;
+      }
+    },
+  };
+}
 
-  const items = await loadItemsWithCache(SMART_ENV_DIR, CACHE_TTL);
-  if (!items.length) {
-    throw new Error(`No embeddings found in ${SMART_ENV_DIR}`);
-  }
+async function loadSmartEnvCorpus(
+  env: ReturnType<typeof getEnv>,
+): Promise<SearchCorpus> {
+  const vectors = await loadSmartEnvVectors(env);
 
-  const dimension = pickDominantDimension(items);
-  if (!dimension) {
-    throw new Error("Embeddings are missing vector data");
-  }
+  const openaiDimensions = Number.isFinite(
+    Number(env.OPENAI_EMBEDDING_DIMENSIONS),
+  )
+    ? Number(env.OPENAI_EMBEDDING_DIMENSIONS)
+    : undefined;
 
-  const itemsWithDim = items.filter((item) => item.vec?.length === dimension);
-  const model = pickDominantModel(itemsWithDim);
+  return {
+    ...vectors,
+    embedderFor: async ({ model, dimension }) => {
+      const inferredOllamaBaseUrl =
+        env.OLLAMA_BASE_URL?.trim() ||
+        (await detectOllamaBaseUrlFromSmartEnv(
+          env.SMART_ENV_DIR as string,
+          model,
+        ));
 
-  const openaiDimensions = Number.isFinite(Number(OPENAI_EMBEDDING_DIMENSIONS))
-    ? Number(OPENAI_EMBEDDING_DIMENSIONS)
-    : undefined;
+      const selection = await getQueryEmbedder({
+        provider: env.QUERY_EMBEDDER,
+        modelHint: env.QUERY_EMBEDDER_MODEL_HINT,
+        model: env.QUERY_EMBEDDER_MODEL,
+        vaultModel: model,
+        dimension,
+        ollamaBaseUrl: inferredOllamaBaseUrl,
+        openaiApiKey: env.OPENAI_API_KEY,
+        openaiBaseUrl: env.OPENAI_BASE_URL,
+        openaiDimensions,
+      });
 
-  const inferredOllamaBaseUrl =
-    OLLAMA_BASE_URL?.trim() ||
-    (await detectOllamaBaseUrlFromSmartEnv(SMART_ENV_DIR, model));
-
-  const selection = await getQueryEmbedder({
-    provider: QUERY_EMBEDDER,
-    modelHint: QUERY_EMBEDDER_MODEL_HINT,
-    model: QUERY_EMBEDDER_MODEL,
-    vaultModel: model,
-    dimension,
-    ollamaBaseUrl: inferredOllamaBaseUrl,
-    openaiApiKey: OPENAI_API_KEY,
-    openaiBaseUrl: OPENAI_BASE_URL,
-    openaiDimensions,
-  });
+      return { selection, ollamaBaseUrl: inferredOllamaBaseUrl };
+    },
+  };
+}
 
-  const queryVector = await selection.embed(query);
+/** Snapshot revision each files-mode vector index was last synced with. */
+const filesIndexRevision = new WeakMap<VectorIndex<SearchItem>, number>();
 
-  if (queryVector.length !== dimension) {
-    throw new Error(
-      `Query embedder produced ${queryVector.length} dimensions, expected ${dimension}`,
+async function loadFilesVectors(
+  fileIndex: FileEmbeddingIndex,
+  snapshot: FileEmbeddingIndexSnapshot,
+): Promise<StoredVectors> {
+  if (!snapshot.items.length) {
+    throw new Error("The embedding index is empty (no markdown notes with text found)");
+  }
+
+  const index = await openVectorIndex<SearchItem>(
+    `files:${snapshot.provider}:${snapshot.model}`,
+    snapshot.dim,
+  );
+  if (filesIndexRevision.get(index) !== snapshot.revision) {
+    index.sync(
+      snapshot.items.map(({ vec, ...meta }) => ({
+        key: meta.id,
+        meta,
+        vec,
+      })),
     );
+    filesIndexRevision.set(index, snapshot.revision);
   }
 
-  const filtered = itemsWithDim.filter((item) => {
-    const folderOk =
-      !input.folders ||
-      input.folders.some((folder) => item.notePath.startsWith(folder));
-    const tagsOk =
-      !input.tags ||
-      (item.tags ?? []).some((tag) => input.tags?.includes(tag));
-    return folderOk && tagsOk;
+  return {
+    partitions: [{ model: snapshot.model, dimension: snapshot.dim, index }],
+    readNote: (notePath) => fileIndex.readNote(notePath),
+  };
+}
+
+async function loadFilesCorpus(
+  fileIndex: FileEmbeddingIndex,
+): Promise<SearchCorpus> {
+  const snapshot = await fileIndex.getSnapshot();
+  return {
+    ...(await loadFilesVectors(fileIndex, snapshot)),
+    embedderFor: async () => ({
+      selection: {
+        provider: snapshot.provider as QueryEmbedderSelection["provider"],
+        model: snapshot.model,
+        embed: snapshot.embed,
+      },
+      ollamaBaseUrl:
+        snapshot.provider === "ollama" ? config.ollamaBaseUrl : undefined,
+    }),
+  };
+}
+
+/**
+ * Folder/tag restriction shared by the search tools; `undefined` when unrestricted.
+ * Tags match with or without their leading `#`, on either side.
+ */
+export function scopeFilter(input: {
+  folders?: string[];
+  tags?: string[];
+}): ((item: SearchItem) => boolean) | undefined {
+  const { folders, tags } = input;
+  if (!folders && !tags) return undefined;
+  // "Projects" must not match "ProjectsArchive/…".
+  const prefixes = folders?.map((folder) => {
+    const trimmed = folder.trim().replace(/^\/+|\/+$/g, "");
+    return trimmed ? `${trimmed}/` : "";
+  });
+  const bareTag = (tag: string) => tag.replace(/^#/, "");
+  const wanted = tags?.map(bareTag);
+  return (item) =>
+    (!prefixes ||
+      prefixes.some((prefix) => item.notePath.startsWith(prefix))) &&
+    (!wanted ||
+      (item.tags ?? []).some((tag) => wanted.includes(bareTag(tag))));
+}
+
+/** Keeps the first (best) hit of each note; `scored` must be sorted best first. */
+export function bestPerNote<T extends { item: SearchItem }>(scored: T[]): T[] {
+  const seen = new Set<string>();
+  return scored.filter(({ item }) => {
+    if (seen.has(item.notePath)) return false;
+    seen.add(item.notePath);
+    return true;
   });
+}
 
-  const ranked = filtered
-    .map((item) => ({
-      item,
-      score: cosine(queryVector, item.vec),
-    }))
-    .sort((a, b) => b.score - a.score)
-    .slice(0, input.top_k);
+/** Line span and text of a block hit within its note's content. */
+function resolveBlock(
+  item: SearchItem,
+  content: string,
+): { span?: { lineStart: number; lineEnd: number }; blockText?: string } {
+  const span =
+    item.lineStart !== undefined && item.lineEnd !== undefined
+      ? { lineStart: item.lineStart, lineEnd: item.lineEnd }
+      : locateHeadingSection(content, item.headingPath ?? []);
+  if (!span) return {};
+  const blockText = content
+    .split(/\r?\n/)
+    .slice(span.lineStart - 1, span.lineEnd)
+    .join("\n")
+    .trim();
+  return { span, blockText };
+}
+
+/**
+ * Reorders candidates by cross-encoder relevance to the query. Each candidate is scored
+ * on its block text (or the note's text for note-level hits).
+ */
+async function rerankHits<T extends { item: SearchItem }>(
+  query: string,
+  candidates: T[],
+  readNote: StoredVectors["readNote"],
+  rerank: RerankerSelection["rerank"],
+): Promise<(T & { rerankScore: number })[]> {
+  const texts = await Promise.all(
+    candidates.map(async ({ item }) => {
+      const content = await readNote(item.notePath);
+      const text =
+        content === undefined
+          ? undefined
+          : item.kind === "block"
+            ? (resolveBlock(item, content).blockText ?? content)
+            : content;
+      return (text || item.title || item.notePath).slice(0, RERANK_TEXT_CHARS);
+    }),
+  );
+  const scores = await rerank(query, texts);
+  return candidates
+    .map((candidate, index) => ({ ...candidate, rerankScore: scores[index] }))
+    .sort((a, b) => b.rerankScore - a.rerankScore);
+}
 
+/**
+ * Turns ranked hits into tool results. Block hits get their heading path and line span
+ * (located in the note when the embedding does not carry one) and, with snippets, their
+ * text and the passage that best matches the query (the lead passage without a query).
+ */
+export async function describeHits(
+  ranked: { item: SearchItem; score: number; snippetQuery?: SnippetQuery }[],
+  readNote: StoredVectors["readNote"],
+  withSnippets: boolean,
+): Promise<OutType["results"]> {
   const results: OutType["results"] = [];
 
-  for (const { item, score } of ranked) {
-    let snippet: string | undefined;
+  for (const { item, score, snippetQuery } of ranked) {
+    const isBlock = item.kind === "block";
+    let span =
+      item.lineStart !== undefined && item.lineEnd !== undefined
+        ? { lineStart: item.lineStart, lineEnd: item.lineEnd }
+        : undefined;
+    let snippet: Awaited<ReturnType<typeof pickSnippet>>;
+    let blockText: string | undefined;
 
-    if (input.with_snippets) {
-      const absolutePath = resolveNoteAbsolutePath(item.notePath, OBSIDIAN_VAULT);
-      try {
-        const content = await fs.readFile(absolutePath, "utf-8");
-        snippet = content.slice(0, 300);
-      } catch {
-        snippet = undefined;
+    if (withSnippets || (isBlock && !span && item.headingPath?.length)) {
+      const content = await readNote(item.notePath);
+      if (content !== undefined && isBlock) {
+        ({ span, blockText } = resolveBlock(item, content));
+      }
+      if (withSnippets && content !== undefined) {
+        snippet = await pickSnippet(
+          content,
+          snippetQuery,
+          isBlock && span ? lineSpanToOffsets(content, span) : undefined,
+        );
       }
     }
 
@@ -350,32 +762,259 @@ async function performSearch(input: InType): Promise<OutType> {
       path: item.notePath,
       score,
       title: item.title,
-      snippet,
+      snippet: snippet?.text,
+      snippet_offsets: snippet
+        ? { start: snippet.start, end: snippet.end }
+        : undefined,
+      snippet_highlights: snippet?.highlights,
+      snippet_method: snippet?.method,
+      kind: item.kind,
+      heading_path: isBlock ? item.headingPath : undefined,
+      lines: span ? { start: span.lineStart, end: span.lineEnd } : undefined,
+      block_text: withSnippets
+        ? blockText?.slice(0, BLOCK_TEXT_CHARS)
+        : undefined,
     });
   }
 
+  return results;
+}
+
+async function performSearch(
+  input: InType,
+  fileIndex?: FileEmbeddingIndex,
+): Promise<OutType> {
+  const env = getEnv();
+
+  if (!env.ENABLE_QUERY_EMBEDDING) {
+    throw new Error("ENABLE_QUERY_EMBEDDING=false");
+  }
+
+  const query = input.query.trim();
+  if (!query) {
+    return {
+      model: undefined,
+      dim: undefined,
+      query_provider: undefined,
+      query_model: undefined,
+      query_dim: undefined,
+      ollama_base_url: undefined,
+      results: [],
+    };
+  }
+
+  const corpus = fileIndex
+    ? await loadFilesCorpus(fileIndex)
+    : await loadSmartEnvCorpus(env);
+
+  // A note can have many block vectors: over-fetch, then keep each note's best hit.
+  const byNote = input.group_by === "note";
+  const poolSize = input.rerank
+    ? Math.max(input.top_k, input.rerank_top_n)
+    : input.top_k;
+
+  // Each partition is searched with a query embedded by its own model.
+  const searched: {
+    partition: VectorPartition;
+    embedder: PartitionEmbedder;
+    queryVector: number[];
+    hits: { meta: SearchItem; score: number }[];
+    method: string;
+  }[] = [];
+  const partitions: NonNullable<OutType["partitions"]> = [];
+  for (const partition of corpus.partitions) {
+    const report = {
+      model: partition.model,
+      dim: partition.dimension,
+      vectors: partition.index.size,
+    };
+    try {
+      const embedder = await corpus.embedderFor(partition);
+      const { selection } = embedder;
+      const queryVector = await selection.embed(query);
+      if (queryVector.length !== partition.dimension) {
+        throw new Error(
+          `query embedder ${selection.provider}:${selection.model} produced ${queryVector.length} dimensions, expected ${partition.dimension}`,
+        );
+      }
+      const { hits, method } = partition.index.search(
+        queryVector,
+        byNote ? poolSize * 4 : poolSize,
+        { filter: scopeFilter(input), exact: input.exact },
+      );
+      searched.push({ partition, embedder, queryVector, hits, method });
+      partitions.push({
+        ...report,
+        status: "searched",
+        query_provider: selection.provider,
+        query_model: selection.model,
+      });
+    } catch (error) {
+      partitions.push({
+        ...report,
+        status: "skipped",
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  if (!searched.length) {
+    throw new Error(
+      `No embedding partition could be searched: ${partitions
+        .map(
+          ({ model, dim, reason }) => `${model ?? "unknown"}/${dim}: ${reason}`,
+        )
+        .join("; ")}`,
+    );
+  }
+
+  // Cosine scales differ between models, so with several partitions each score becomes
+  // a z-score against the query's average similarity within its own partition.
+  const normalize = searched.length > 1;
+  const scored = searched
+    .flatMap(({ partition, embedder, queryVector, hits }) => {
+      const { mean, std } = normalize
+        ? partition.index.similarityStats(queryVector)
+        : { mean: 0, std: 1 };
+      const snippetQuery: SnippetQuery = {
+        text: query,
+        embed: embedder.selection.embed,
+        vector: queryVector,
+      };
+      return hits.map(({ meta, score }) => ({
+        item: meta,
+        score: (score - mean) / std,
+        rawScore: score,
+        snippetQuery,
+      }));
+    })
+    .sort((a, b) => b.score - a.score);
+  let ranked: {
+    item: SearchItem;
+    score: number;
+    rawScore: number;
+    rerankScore?: number;
+    snippetQuery: SnippetQuery;
+  }[] = (byNote ? bestPerNote(scored) : scored).slice(0, poolSize);
+
+  let reranker: string | undefined;
+  let rerankError: string | undefined;
+  if (input.rerank && ranked.length) {
+    try {
+      const selection = await getReranker({
+        provider: config.reranker,
+        model: config.rerankerModel,
+        baseUrl: config.rerankerBaseUrl,
+        ollamaBaseUrl: env.OLLAMA_BASE_URL,
+        openaiApiKey: env.OPENAI_API_KEY,
+        openaiBaseUrl: env.OPENAI_BASE_URL,
+      });
+      reranker = `${selection.provider}:${selection.model}`;
+      ranked = await rerankHits(
+        query,
+        ranked,
+        corpus.readNote,
+        selection.rerank,
+      );
+    } catch (error) {
+      // Vector order is still a usable answer; report why it was not refined.
+      rerankError = error instanceof Error ? error.message : String(error);
+    }
+  }
+  ranked = ranked.slice(0, input.top_k);
+
+  const results = await describeHits(
+    ranked,
+    corpus.readNote,
+    input.with_snippets,
+  );
+  ranked.forEach(({ rawScore, rerankScore }, index) => {
+    results[index].raw_score = normalize ? rawScore : undefined;
+    results[index].rerank_score = rerankScore;
+  });
+
+  const [primary] = searched;
+  const { selection, ollamaBaseUrl } = primary.embedder;
+  const methods = new Set(searched.map(({ method }) => method));
+
   return {
-    model,
-    dim: dimension,
+    model: primary.partition.model,
+    dim: primary.partition.dimension,
     query_provider: selection.provider,
     query_model: selection.model,
-    query_dim: queryVector.length,
+    query_dim: primary.queryVector.length,
     ollama_base_url:
-      selection.provider === "ollama" ? inferredOllamaBaseUrl : undefined,
+      selection.provider === "ollama" ? ollamaBaseUrl : undefined,
+    search_method: methods.size === 1 ? primary.method : "mixed",
+    score_normalization: normalize ? "zscore" : "none",
+    partitions,
+    reranker,
+    rerank_error: rerankError,
     results,
   };
 }
 
+let fileEmbeddingIndex: FileEmbeddingIndex | undefined;
+/** Preferred over disk reads for note content (smart-env mode; the files index has its own). */
+let vaultCache: VaultCacheService | undefined;
+
+/**
+ * Stored vectors of the configured corpus: the server's own index with
+ * `SMART_SEARCH_MODE=files`, `.smart-env` otherwise.
+ */
+export async function loadStoredVectors(): Promise<StoredVectors> {
+  return fileEmbeddingIndex
+    ? loadFilesVectors(
+        fileEmbeddingIndex,
+        await fileEmbeddingIndex.getSnapshot(),
+      )
+    : loadSmartEnvVectors(getEnv());
+}
+
 async function handleSearchRequest(params: unknown): Promise<OutType> {
   const parsed = In.parse(params);
-  return performSearch(parsed);
+  return performSearch(parsed, fileEmbeddingIndex);
+}
+
+function createFileEmbeddingIndex(
+  vaultCacheService: VaultCacheService | undefined,
+): FileEmbeddingIndex {
+  const env = getEnv();
+  const openaiDimensions = Number.isFinite(
+    Number(env.OPENAI_EMBEDDING_DIMENSIONS),
+  )
+    ? Number(env.OPENAI_EMBEDDING_DIMENSIONS)
+    : undefined;
+
+  return new FileEmbeddingIndex({
+    indexDir: config.embeddingIndexDir,
+    vaultRoot: env.OBSIDIAN_VAULT || undefined,
+    vaultCacheService,
+    resyncIntervalMs: env.CACHE_TTL,
+    embedder: {
+      provider: env.QUERY_EMBEDDER,
+      modelHint: env.QUERY_EMBEDDER_MODEL_HINT,
+      model: env.QUERY_EMBEDDER_MODEL,
+      ollamaBaseUrl: env.OLLAMA_BASE_URL,
+      openaiApiKey: env.OPENAI_API_KEY,
+      openaiBaseUrl: env.OPENAI_BASE_URL,
+      openaiDimensions,
+    },
+  });
 }
 
 export const registerSemanticSearchTool = async (
   server: McpServer,
   _obsidianService: ObsidianRestApiService,
-  _vaultCacheService: VaultCacheService | undefined,
+  vaultCacheService: VaultCacheService | undefined,
 ): Promise<void> => {
+  vaultCache ??= vaultCacheService;
+  if (config.smartSearchMode === "files" && !fileEmbeddingIndex) {
+    // One index per process, shared by every session (HTTP creates a server per session).
+    fileEmbeddingIndex = createFileEmbeddingIndex(vaultCacheService);
+    fileEmbeddingIndex.syncInBackground();
+  }
+
   const register = (name: string, description: string) => {
     server.tool(
       name,
@@ -395,7 +1034,9 @@ export const registerSemanticSearchTool = async (
 
   register(
     "smart_semantic_search",
-    "Semantic search powered by Smart Connections embeddings (query embedder auto-matches the vault model).",
+    config.smartSearchMode === "files"
+      ? "Semantic search over the server's own embedding index of the vault (SMART_SEARCH_MODE=files)."
+      : "Semantic search powered by Smart Connections embeddings (query embedder auto-matches the vault model).",
   );
   register(
     "smart_search",
@@ -407,5 +1048,10 @@ export const registerSemanticSearchTool = async (
   );
 };
 
+export type SemanticSearchOutput = OutType;
+
+/** Runs a semantic search with raw tool parameters (shared with `hybrid_search`). */
+export const runSemanticSearch = handleSearchRequest;
+
 // Exported for local testing (non-public API).
 export const __testHandleSmartSearch = handleSearchRequest;
@@ -0,0 +1,251 @@
+/**
+ * Snippets guidés par la requête
+ * - Découpe la note (ou le bloc) en paragraphes, puis en phrases pour les paragraphes longs
+ * - Score lexical des passages ; à défaut de terme commun, embedding paresseux de quelques
+ *   passages avec l'embedder de la requête
+ * - Offsets en caractères dans le contenu brut de la note (frontmatter exclu des passages)
+ */
+
+import { tokenize } from "../../../services/lexicalIndex/index.js";
+
+type EmbedFunction = (text: string) => Promise<number[]>;
+
+export type Snippet = {
+  text: string;
+  /** Position de `text` dans le contenu de la note. */
+  start: number;
+  end: number;
+  /** Occurrences des termes de la requête, relatives à `text`. */
+  highlights: { start: number; end: number }[];
+  method: "lexical" | "semantic" | "lead";
+};
+
+export type SnippetQuery = {
+  text: string;
+  /** Présents quand l'embedder de la requête pour ces vecteurs est connu. */
+  embed?: EmbedFunction;
+  vector?: number[];
+};
+
+const FRONTMATTER_REGEX = /^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/;
+const SNIPPET_CHARS = 300;
+/** Passages encodés par note quand le score lexical ne trouve rien. */
+const MAX_EMBEDDED_PASSAGES = 8;
+const MAX_CACHED_PASSAGES = 2000;
+
+type Passage = { start: number; end: number };
+
+/** Paragraphes (séparés par une ligne vide), les longs coupés en fin de phrase. */
+function splitPassages(content: string, from: number, to: number): Passage[] {
+  const passages: Passage[] = [];
+  const paragraph = /\S[\s\S]*?(?=\r?\n[ \t]*\r?\n|$)/g;
+  const region = content.slice(from, to);
+
+  for (const match of region.matchAll(paragraph)) {
+    const start = from + (match.index ?? 0);
+    const text = match[0].trimEnd();
+    if (text.length <= SNIPPET_CHARS) {
+      passages.push({ start, end: start + text.length });
+      continue;
+    }
+    let chunkStart = 0;
+    let chunkEnd = 0;
+    for (const sentence of text.matchAll(/[^.!?…\n]+(?:[.!?…]+|\n|$)/g)) {
+      const sentenceEnd = (sentence.index ?? 0) + sentence[0].length;
+      if (sentenceEnd - chunkStart > SNIPPET_CHARS && chunkEnd > chunkStart) {
+        passages.push({ start: start + chunkStart, end: start + chunkEnd });
+        chunkStart = chunkEnd;
+      }
+      chunkEnd = sentenceEnd;
+    }
+    if (chunkEnd > chunkStart) {
+      passages.push({ start: start + chunkStart, end: start + chunkEnd });
+    }
+  }
+
+  const trimmed = passages
+    .map(({ start, end }) => {
+      const text = content.slice(start, end);
+      const leading = text.length - text.trimStart().length;
+      return { start: start + leading, end: start + text.trimEnd().length };
+    })
+    .filter(({ start, end }) => end > start);
+  // Un titre seul ne fait pas un bon extrait, sauf s'il n'y a rien d'autre.
+  const prose = trimmed.filter(
+    ({ start, end }) => !/^#{1,6}\s[^\n]*$/.test(content.slice(start, end)),
+  );
+  return prose.length ? prose : trimmed;
+}
+
+const isWordChar = (char: string | undefined) =>
+  char !== undefined && /[\p{L}\p{N}]/u.test(char);
+
+/** Occurrences en mot entier de `terms` dans `text`, fusionnées et triées. */
+function findTerms(
+  text: string,
+  terms: string[],
+): { start: number; end: number }[] {
+  const lowered = text.toLowerCase();
+  const ranges: { start: number; end: number }[] = [];
+  for (const term of terms) {
+    for (
+      let index = lowered.indexOf(term);
+      index >= 0;
+      index = lowered.indexOf(term, index + term.length)
+    ) {
+      const end = index + term.length;
+      if (!isWordChar(lowered[index - 1]) && !isWordChar(lowered[end])) {
+        ranges.push({ start: index, end });
+      }
+    }
+  }
+  ranges.sort((a, b) => a.start - b.start || b.end - a.end);
+  const merged: { start: number; end: number }[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+const embeddingCache = new WeakMap<EmbedFunction, Map<string, number[]>>();
+
+async function embedCached(
+  embed: EmbedFunction,
+  text: string,
+): Promise<number[]> {
+  let cache = embeddingCache.get(embed);
+  if (!cache) {
+    cache = new Map();
+    embeddingCache.set(embed, cache);
+  }
+  const cached = cache.get(text);
+  if (cached) return cached;
+  const vector = await embed(text);
+  if (cache.size >= MAX_CACHED_PASSAGES) {
+    cache.delete(cache.keys().next().value as string);
+  }
+  cache.set(text, vector);
+  return vector;
+}
+
+const cosine = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let index = 0; index < Math.min(a.length, b.length); index++) {
+    dot += a[index] * b[index];
+    normA += a[index] * a[index];
+    normB += b[index] * b[index];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+/**
+ * Choisit le passage de `content` (dans `region`, hors frontmatter) le plus proche de la
+ * requête, réduit à 300 caractères autour de sa première occurrence.
+ */
+export async function pickSnippet(
+  content: string,
+  query: SnippetQuery | undefined,
+  region?: { start: number; end: number },
+): Promise<Snippet | undefined> {
+  const bodyStart = content.match(FRONTMATTER_REGEX)?.[0].length ?? 0;
+  const from = Math.max(region?.start ?? 0, bodyStart);
+  const to = Math.min(region?.end ?? content.length, content.length);
+  const passages = splitPassages(content, from, to);
+  if (!passages.length) return undefined;
+
+  const terms = query
+    ? [...new Set(tokenize(query.text))].filter((term) => term.length > 1)
+    : [];
+  const phrase = query?.text.trim().toLowerCase() ?? "";
+
+  let best = passages[0];
+  let method: Snippet["method"] = "lead";
+  let bestScore = 0;
+  for (const passage of passages) {
+    const text = content.slice(passage.start, passage.end);
+    const matches = findTerms(text, terms);
+    if (!matches.length) continue;
+    const distinct = new Set(
+      matches.map(({ start, end }) => text.slice(start, end).toLowerCase()),
+    ).size;
+    const score =
+      distinct +
+      Math.min(matches.length, 5) * 0.1 +
+      (phrase && text.toLowerCase().includes(phrase) ? 2 : 0);
+    if (score > bestScore) {
+      best = passage;
+      bestScore = score;
+      method = "lexical";
+    }
+  }
+
+  if (
+    method === "lead" &&
+    query?.embed &&
+    query.vector &&
+    passages.length > 1
+  ) {
+    let bestSimilarity = Number.NEGATIVE_INFINITY;
+    for (const passage of passages.slice(0, MAX_EMBEDDED_PASSAGES)) {
+      const vector = await embedCached(
+        query.embed,
+        content.slice(passage.start, passage.end),
+      );
+      const similarity = cosine(vector, query.vector);
+      if (similarity > bestSimilarity) {
+        best = passage;
+        bestSimilarity = similarity;
+        method = "semantic";
+      }
+    }
+  }
+
+  let { start, end } = best;
+  if (end - start > SNIPPET_CHARS) {
+    const firstMatch = findTerms(content.slice(start, end), terms)[0];
+    if (firstMatch) {
+      start = Math.min(
+        start + Math.max(firstMatch.start - 60, 0),
+        end - SNIPPET_CHARS,
+      );
+    }
+    end = start + SNIPPET_CHARS;
+  }
+  const text = content.slice(start, end);
+
+  return {
+    text,
+    start,
+    end,
+    highlights: findTerms(text, terms),
+    method,
+  };
+}
+
+/** Offsets en caractères d'une plage de lignes (base 1, bornes incluses). */
+export function lineSpanToOffsets(
+  content: string,
+  span: { lineStart: number; lineEnd: number },
+): { start: number; end: number } {
+  let start = 0;
+  let line = 1;
+  while (line < span.lineStart && start >= 0) {
+    start = content.indexOf("\n", start) + 1 || -1;
+    line++;
+  }
+  if (start < 0) return { start: content.length, end: content.length };
+  let end = start;
+  for (; line <= span.lineEnd; line++) {
+    const next = content.indexOf("\n", end);
+    if (next < 0) return { start, end: content.length };
+    end = next + 1;
+  }
+  return { start, end };
+}
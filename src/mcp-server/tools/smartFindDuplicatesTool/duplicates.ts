@@ -0,0 +1,122 @@
+/**
+ * Détection de doublons
+ * - Regroupe les notes autour d'une note représentative dont chacune est assez proche
+ *   (paires candidates fournies par l'index de plus proches voisins)
+ * - Résume les différences ligne à ligne entre une note et la note représentative du groupe
+ */
+
+export type NoteVector = {
+  path: string;
+  title?: string;
+  /** Unit length. */
+  vec: Float32Array;
+};
+
+export type NoteCluster = {
+  notes: NoteVector[];
+  /** The note every other member is at least `threshold` similar to. */
+  representative: NoteVector;
+  /** Cosine similarity of each note to the representative (1 for itself). */
+  similarities: number[];
+};
+
+const dot = (a: Float32Array, b: Float32Array): number => {
+  let sum = 0;
+  for (let index = 0; index < a.length; index++) sum += a[index] * b[index];
+  return sum;
+};
+
+/**
+ * Groups notes around representatives, largest groups first. A note joins a group only
+ * when its similarity to the group's representative reaches `threshold`, so notes that
+ * each resemble the next (e.g. drifting copies of one template) do not chain into one
+ * group. Only pairs between a note and its `neighbours` (paths, usually from the
+ * nearest-neighbour index) are scored, yielding to the event loop between notes.
+ */
+export async function clusterNotes(
+  notes: NoteVector[],
+  threshold: number,
+  neighbours: (note: NoteVector) => string[],
+): Promise<NoteCluster[]> {
+  const indexByPath = new Map(notes.map((note, index) => [note.path, index]));
+  const similar = notes.map(() => new Map<number, number>());
+  for (let i = 0; i < notes.length; i++) {
+    for (const notePath of neighbours(notes[i])) {
+      const j = indexByPath.get(notePath);
+      if (j === undefined || j === i || similar[i].has(j)) continue;
+      const similarity = dot(notes[i].vec, notes[j].vec);
+      if (similarity < threshold) continue;
+      similar[i].set(j, similarity);
+      similar[j].set(i, similarity);
+    }
+    if (i % 64 === 63) await new Promise((resolve) => setImmediate(resolve));
+  }
+
+  // The note with the most near-duplicates left becomes the next representative.
+  const order = notes
+    .map((_, index) => index)
+    .sort((a, b) => similar[b].size - similar[a].size);
+  const assigned = new Set<number>();
+  const clusters: NoteCluster[] = [];
+  for (const center of order) {
+    if (assigned.has(center)) continue;
+    const members = [...similar[center]]
+      .filter(([index]) => !assigned.has(index))
+      .sort((a, b) => b[1] - a[1]);
+    if (!members.length) continue;
+    assigned.add(center);
+    for (const [index] of members) assigned.add(index);
+    clusters.push({
+      notes: [notes[center], ...members.map(([index]) => notes[index])],
+      representative: notes[center],
+      similarities: [1, ...members.map(([, similarity]) => similarity)],
+    });
+  }
+
+  return clusters.sort(
+    (a, b) =>
+      b.notes.length - a.notes.length ||
+      Math.min(...b.similarities) - Math.min(...a.similarities),
+  );
+}
+
+const FRONTMATTER_REGEX = /^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/;
+/** Lines listed per side in a diff summary. */
+const DIFF_SAMPLE_LINES = 5;
+
+/** Non-empty body lines, whitespace-collapsed, in order. */
+const bodyLines = (content: string): string[] =>
+  content
+    .replace(FRONTMATTER_REGEX, "")
+    .split(/\r?\n/)
+    .map((line) => line.trim().replace(/\s+/g, " "))
+    .filter(Boolean);
+
+export type DiffSummary = {
+  shared_lines: number;
+  only_in_representative: number;
+  only_in_note: number;
+  /** First lines found only in the note: what a merge would need to carry over. */
+  sample_only_in_note: string[];
+  sample_only_in_representative: string[];
+};
+
+/** Line-level comparison of a note with its cluster's representative, order ignored. */
+export function summarizeDiff(
+  representative: string,
+  note: string,
+): DiffSummary {
+  const baseLines = bodyLines(representative);
+  const noteLines = bodyLines(note);
+  const base = new Set(baseLines);
+  const other = new Set(noteLines);
+  const onlyInNote = [...other].filter((line) => !base.has(line));
+  const onlyInBase = [...base].filter((line) => !other.has(line));
+  return {
+    shared_lines: other.size - onlyInNote.length,
+    only_in_representative: onlyInBase.length,
+    only_in_note: onlyInNote.length,
+    sample_only_in_note: onlyInNote.slice(0, DIFF_SAMPLE_LINES),
+    sample_only_in_representative: onlyInBase.slice(0, DIFF_SAMPLE_LINES),
+  };
+}
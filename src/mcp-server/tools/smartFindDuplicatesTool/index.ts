@@ -0,0 +1,6 @@
+/**
+ * @fileoverview Barrel file for the 'smart_find_duplicates' MCP tool.
+ * Exposes the registration function so the main server can wire the tool.
+ */
+
+export { registerSmartFindDuplicatesTool } from "./registration.js";
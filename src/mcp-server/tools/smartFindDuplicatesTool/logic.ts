@@ -0,0 +1,243 @@
+import { z } from "zod";
+import { extractHeadings } from "../../../services/embeddingIndex/index.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import { logger, RequestContext } from "../../../utils/index.js";
+import {
+  loadStoredVectors,
+  scopeFilter,
+  type SearchItem,
+  type VectorPartition,
+} from "../semanticSearchTool/index.js";
+import {
+  clusterNotes,
+  summarizeDiff,
+  type DiffSummary,
+  type NoteCluster,
+  type NoteVector,
+} from "./duplicates.js";
+
+// ====================================================================================
+// Schema Definitions
+// ====================================================================================
+// Same "Codex-friendly" conventions as smart_semantic_search (no integers, no unions).
+const SmartFindDuplicatesInputSchema = z
+  .object({
+    threshold: z
+      .number()
+      .min(0.5)
+      .max(1)
+      .default(0.92)
+      .describe(
+        "Cosine similarity at or above which two notes are grouped. Defaults to 0.92.",
+      ),
+    folders: z.array(z.string()).optional(),
+    tags: z.array(z.string()).optional(),
+    max_clusters: z.number().min(1).max(200).default(20),
+    with_diff: z
+      .boolean()
+      .default(true)
+      .describe(
+        "Compare each note's lines with the cluster's representative note.",
+      ),
+  })
+  .describe(
+    "Finds groups of near-identical notes from their stored embedding vectors.",
+  );
+
+export const SmartFindDuplicatesInputSchemaShape =
+  SmartFindDuplicatesInputSchema.shape;
+export type SmartFindDuplicatesInput = z.infer<
+  typeof SmartFindDuplicatesInputSchema
+>;
+
+// ====================================================================================
+// Response Structure Definition
+// ====================================================================================
+
+export interface DuplicateCluster {
+  model?: string;
+  dim: number;
+  size: number;
+  min_similarity: number;
+  representative: string;
+  notes: {
+    path: string;
+    title?: string;
+    /** Cosine similarity to the representative. */
+    similarity: number;
+  }[];
+  shared_headings: string[];
+  diff?: ({ path: string } & DiffSummary)[];
+}
+
+export interface SmartFindDuplicatesResponse {
+  /** Set when a single partition was compared. */
+  model?: string;
+  dim?: number;
+  threshold: number;
+  notes_compared: number;
+  clusters_found: number;
+  partitions: {
+    model?: string;
+    dim: number;
+    notes_compared: number;
+    clusters_found: number;
+  }[];
+  clusters: DuplicateCluster[];
+}
+
+// ====================================================================================
+// Core Logic Function
+// ====================================================================================
+
+/** Block hits fetched per note to find its candidate duplicates. */
+const DUPLICATE_CANDIDATE_HITS = 50;
+
+/**
+ * Groups of near-identical notes, found separately in each partition since vectors of
+ * different models are not comparable. Each note is represented by its blocks averaged
+ * (or its note-level vector when it has no blocks), and is only compared with the notes
+ * the partition's nearest-neighbour index returns for it. Clusters report the headings
+ * every member shares and, with `with_diff`, how each note's lines differ from the
+ * cluster's representative note.
+ *
+ * @param {SmartFindDuplicatesInput} params - The validated input parameters.
+ * @param {RequestContext} context - The request context for logging.
+ * @returns {Promise<SmartFindDuplicatesResponse>} The clusters found, largest first.
+ * @throws {McpError} If no embeddings are loaded.
+ */
+export const processSmartFindDuplicates = async (
+  params: SmartFindDuplicatesInput,
+  context: RequestContext,
+): Promise<SmartFindDuplicatesResponse> => {
+  const vectors = await loadStoredVectors();
+  if (!vectors.partitions.length) {
+    throw new McpError(
+      BaseErrorCode.NOT_FOUND,
+      "No embeddings are loaded",
+      context,
+    );
+  }
+
+  const inScope = scopeFilter(params);
+  const partitions: SmartFindDuplicatesResponse["partitions"] = [];
+  const clusters: (NoteCluster & { partition: VectorPartition })[] = [];
+  for (const partition of vectors.partitions) {
+    const notes = noteCentroids(partition, inScope);
+    const found = await clusterNotes(notes, params.threshold, (note) => {
+      const { hits } = partition.index.search(
+        note.vec,
+        DUPLICATE_CANDIDATE_HITS,
+        { filter: inScope },
+      );
+      return [...new Set(hits.map(({ meta }) => meta.notePath))];
+    });
+    partitions.push({
+      model: partition.model,
+      dim: partition.dimension,
+      notes_compared: notes.length,
+      clusters_found: found.length,
+    });
+    clusters.push(...found.map((cluster) => ({ ...cluster, partition })));
+  }
+  clusters.sort(
+    (a, b) =>
+      b.notes.length - a.notes.length ||
+      Math.min(...b.similarities) - Math.min(...a.similarities),
+  );
+
+  const described: SmartFindDuplicatesResponse["clusters"] = [];
+  for (const cluster of clusters.slice(0, params.max_clusters)) {
+    const contents = new Map<string, string | undefined>();
+    for (const note of cluster.notes) {
+      contents.set(note.path, await vectors.readNote(note.path));
+    }
+
+    const headingSets = cluster.notes.map(
+      (note) => new Set(extractHeadings(contents.get(note.path) ?? "")),
+    );
+    const sharedHeadings = [...headingSets[0]].filter((heading) =>
+      headingSets.every((headings) => headings.has(heading)),
+    );
+
+    const base = contents.get(cluster.representative.path);
+    described.push({
+      model: cluster.partition.model,
+      dim: cluster.partition.dimension,
+      size: cluster.notes.length,
+      min_similarity: Math.min(...cluster.similarities),
+      representative: cluster.representative.path,
+      notes: cluster.notes.map((note, index) => ({
+        path: note.path,
+        title: note.title,
+        similarity: cluster.similarities[index],
+      })),
+      shared_headings: sharedHeadings,
+      diff:
+        params.with_diff && base !== undefined
+          ? cluster.notes
+              .filter((note) => note !== cluster.representative)
+              .flatMap((note) => {
+                const content = contents.get(note.path);
+                return content === undefined
+                  ? []
+                  : [{ path: note.path, ...summarizeDiff(base, content) }];
+              })
+          : undefined,
+    });
+  }
+
+  logger.debug(
+    `Found ${clusters.length} duplicate clusters in ${partitions.length} partition(s)`,
+    context,
+  );
+  const [single] = partitions.length === 1 ? partitions : [];
+  return {
+    model: single?.model,
+    dim: single?.dim,
+    threshold: params.threshold,
+    notes_compared: partitions.reduce(
+      (total, partition) => total + partition.notes_compared,
+      0,
+    ),
+    clusters_found: clusters.length,
+    partitions,
+    clusters: described,
+  };
+};
+
+/** One unit vector per note of `partition`: its blocks averaged, or its note vectors. */
+function noteCentroids(
+  partition: VectorPartition,
+  filter?: (item: SearchItem) => boolean,
+): NoteVector[] {
+  const byNote = new Map<
+    string,
+    { title?: string; blocks: Float32Array[]; notes: Float32Array[] }
+  >();
+  for (const { meta, vec } of partition.index.collect(filter ?? (() => true))) {
+    const entry = byNote.get(meta.notePath) ?? { blocks: [], notes: [] };
+    entry.title ??= meta.title;
+    (meta.kind === "block" ? entry.blocks : entry.notes).push(vec);
+    byNote.set(meta.notePath, entry);
+  }
+
+  const notes: NoteVector[] = [];
+  for (const [notePath, { title, blocks, notes: noteVecs }] of byNote) {
+    const used = blocks.length ? blocks : noteVecs;
+    const centroid = new Float32Array(partition.dimension);
+    for (const vec of used) {
+      for (let index = 0; index < centroid.length; index++) {
+        centroid[index] += vec[index];
+      }
+    }
+    const norm = Math.hypot(...centroid);
+    if (!norm) continue;
+    notes.push({
+      path: notePath,
+      title,
+      vec: centroid.map((value) => value / norm),
+    });
+  }
+  return notes;
+}
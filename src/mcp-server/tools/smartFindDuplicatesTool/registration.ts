@@ -0,0 +1,126 @@
+/**
+ * @module SmartFindDuplicatesToolRegistration
+ * @description Registers the 'smart_find_duplicates' tool with the MCP server.
+ * This tool groups near-identical notes from their stored embedding vectors.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import {
+  ErrorHandler,
+  logger,
+  RequestContext,
+  requestContextService,
+} from "../../../utils/index.js";
+import type {
+  SmartFindDuplicatesInput,
+  SmartFindDuplicatesResponse,
+} from "./logic.js";
+import {
+  processSmartFindDuplicates,
+  SmartFindDuplicatesInputSchemaShape,
+} from "./logic.js";
+
+/**
+ * Registers the 'smart_find_duplicates' tool with the MCP server instance.
+ * Must run after `registerSemanticSearchTool`, which sets up the embedding corpus.
+ *
+ * @param {McpServer} server - The MCP server instance.
+ * @returns {Promise<void>} A promise that resolves when the tool is registered.
+ * @throws {McpError} If registration fails critically.
+ */
+export async function registerSmartFindDuplicatesTool(
+  server: McpServer,
+): Promise<void> {
+  const toolName = "smart_find_duplicates";
+  const toolDescription =
+    "Finds groups of duplicate or near-duplicate notes (e.g. notes copied from the same template) from their stored vectors. Each group lists its notes with their similarity to a representative note, the headings they all share and, with with_diff, which lines each note adds or lacks compared with the representative. Scope with folders/tags.";
+
+  const registrationContext: RequestContext =
+    requestContextService.createRequestContext({
+      operation: "RegisterSmartFindDuplicatesTool",
+      toolName: toolName,
+      module: "SmartFindDuplicatesRegistration",
+    });
+
+  logger.info(`Attempting to register tool: ${toolName}`, registrationContext);
+
+  await ErrorHandler.tryCatch(
+    async () => {
+      server.tool(
+        toolName,
+        toolDescription,
+        SmartFindDuplicatesInputSchemaShape,
+        async (
+          params: SmartFindDuplicatesInput,
+          handlerInvocationContext: RequestHandlerExtra<
+            ServerRequest,
+            ServerNotification
+          >,
+        ): Promise<CallToolResult> => {
+          const handlerContext: RequestContext =
+            requestContextService.createRequestContext({
+              operation: "HandleSmartFindDuplicatesRequest",
+              toolName: toolName,
+              paramsSummary: {
+                threshold: params.threshold,
+                maxClusters: params.max_clusters,
+                withDiff: params.with_diff,
+                hasFilters: !!(params.folders || params.tags),
+              },
+            });
+          logger.debug(`Handling '${toolName}' request`, handlerContext);
+
+          return await ErrorHandler.tryCatch(
+            async () => {
+              const response: SmartFindDuplicatesResponse =
+                await processSmartFindDuplicates(params, handlerContext);
+              logger.debug(
+                `'${toolName}' processed successfully`,
+                handlerContext,
+              );
+
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: JSON.stringify(response, null, 2),
+                  },
+                ],
+                isError: false,
+              };
+            },
+            {
+              operation: `executing tool ${toolName}`,
+              context: handlerContext,
+              errorCode: BaseErrorCode.INTERNAL_ERROR,
+            },
+          );
+        },
+      );
+
+      logger.info(
+        `Tool registered successfully: ${toolName}`,
+        registrationContext,
+      );
+    },
+    {
+      operation: `registering tool ${toolName}`,
+      context: registrationContext,
+      errorCode: BaseErrorCode.INTERNAL_ERROR,
+      errorMapper: (error: unknown) =>
+        new McpError(
+          error instanceof McpError ? error.code : BaseErrorCode.INTERNAL_ERROR,
+          `Failed to register tool '${toolName}': ${error instanceof Error ? error.message : "Unknown error"}`,
+          { ...registrationContext },
+        ),
+      critical: true,
+    },
+  );
+}
@@ -0,0 +1,6 @@
+/**
+ * @fileoverview Barrel file for the 'smart_related_notes' MCP tool.
+ * Exposes the registration function so the main server can wire the tool.
+ */
+
+export { registerSmartRelatedNotesTool } from "./registration.js";
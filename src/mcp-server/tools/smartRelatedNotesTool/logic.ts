@@ -0,0 +1,155 @@
+import { z } from "zod";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import {
+  extractNoteLinks,
+  linkTargetMatchesPath,
+  logger,
+  RequestContext,
+} from "../../../utils/index.js";
+import {
+  bestPerNote,
+  describeHits,
+  loadStoredVectors,
+  scopeFilter,
+  type SearchItem,
+  type SemanticSearchOutput,
+} from "../semanticSearchTool/index.js";
+
+// ====================================================================================
+// Schema Definitions
+// ====================================================================================
+// Same "Codex-friendly" conventions as smart_semantic_search (no integers, no unions).
+const SmartRelatedNotesInputSchema = z
+  .object({
+    filePath: z
+      .string()
+      .min(1)
+      .describe("Vault-relative path of the note to find related notes for."),
+    top_k: z.number().min(1).max(100).default(10),
+    exclude_linked: z
+      .boolean()
+      .default(false)
+      .describe("Also leave out notes the source note already links to."),
+    folders: z.array(z.string()).optional(),
+    tags: z.array(z.string()).optional(),
+    with_snippets: z.boolean().default(false),
+    exact: z
+      .boolean()
+      .optional()
+      .describe("Force an exact scan instead of the approximate (HNSW) index."),
+  })
+  .describe(
+    "Finds the notes closest to an existing note from its stored embedding vectors.",
+  );
+
+export const SmartRelatedNotesInputSchemaShape =
+  SmartRelatedNotesInputSchema.shape;
+export type SmartRelatedNotesInput = z.infer<
+  typeof SmartRelatedNotesInputSchema
+>;
+
+// ====================================================================================
+// Response Structure Definition
+// ====================================================================================
+
+export interface SmartRelatedNotesResponse {
+  model?: string;
+  dim?: number;
+  search_method?: string;
+  source: {
+    path: string;
+    /** Stored vectors averaged into the lookup vector. */
+    vectors: number;
+    kind: "note" | "block";
+  };
+  excluded_links?: number;
+  results: SemanticSearchOutput["results"];
+}
+
+// ====================================================================================
+// Core Logic Function
+// ====================================================================================
+
+/**
+ * Notes closest to an existing note, using its stored vectors (its blocks averaged, or
+ * its note-level vector when it has no blocks) rather than re-embedding its text. Only
+ * the partition holding most of the note's vectors is searched, since other models'
+ * vectors are not comparable.
+ *
+ * @param {SmartRelatedNotesInput} params - The validated input parameters.
+ * @param {RequestContext} context - The request context for logging.
+ * @returns {Promise<SmartRelatedNotesResponse>} The source note and its nearest notes.
+ * @throws {McpError} If the note has no stored vectors.
+ */
+export const processSmartRelatedNotes = async (
+  params: SmartRelatedNotesInput,
+  context: RequestContext,
+): Promise<SmartRelatedNotesResponse> => {
+  const vectors = await loadStoredVectors();
+
+  const target = params.filePath.trim().replace(/^\/+/, "").toLowerCase();
+  const isSource = (item: SearchItem) =>
+    item.notePath.replace(/^\/+/, "").toLowerCase() === target;
+
+  let partition = vectors.partitions[0];
+  let own: { meta: SearchItem; vec: Float32Array }[] = [];
+  for (const candidate of vectors.partitions) {
+    const found = candidate.index.collect(isSource);
+    if (found.length > own.length) {
+      partition = candidate;
+      own = found;
+    }
+  }
+  if (!own.length) {
+    throw new McpError(
+      BaseErrorCode.NOT_FOUND,
+      `No embeddings found for ${params.filePath} (not indexed yet, or not a markdown note)`,
+      { ...context, filePath: params.filePath },
+    );
+  }
+  const blocks = own.filter(({ meta }) => meta.kind === "block");
+  const used = blocks.length ? blocks : own;
+  const centroid = new Float32Array(partition.dimension);
+  for (const { vec } of used) {
+    for (let index = 0; index < centroid.length; index++) {
+      centroid[index] += vec[index];
+    }
+  }
+
+  let linked: string[] = [];
+  if (params.exclude_linked) {
+    const content = await vectors.readNote(own[0].meta.notePath);
+    linked = content ? extractNoteLinks(content) : [];
+  }
+
+  const inScope = scopeFilter(params);
+  const filter = (item: SearchItem) =>
+    !isSource(item) &&
+    (!inScope || inScope(item)) &&
+    !linked.some((link) => linkTargetMatchesPath(link, item.notePath));
+
+  const { hits, method } = partition.index.search(centroid, params.top_k * 4, {
+    filter,
+    exact: params.exact,
+  });
+  const ranked = bestPerNote(
+    hits.map(({ meta, score }) => ({ item: meta, score })),
+  ).slice(0, params.top_k);
+  logger.debug(
+    `Found ${ranked.length} notes related to ${own[0].meta.notePath} (${method})`,
+    context,
+  );
+
+  return {
+    model: partition.model,
+    dim: partition.dimension,
+    search_method: method,
+    source: {
+      path: own[0].meta.notePath,
+      vectors: used.length,
+      kind: blocks.length ? "block" : "note",
+    },
+    excluded_links: params.exclude_linked ? linked.length : undefined,
+    results: await describeHits(ranked, vectors.readNote, params.with_snippets),
+  };
+};
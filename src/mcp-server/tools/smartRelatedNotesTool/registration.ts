@@ -0,0 +1,126 @@
+/**
+ * @module SmartRelatedNotesToolRegistration
+ * @description Registers the 'smart_related_notes' tool with the MCP server.
+ * This tool finds the nearest notes of an existing note from its stored embedding vectors.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
+import {
+  ErrorHandler,
+  logger,
+  RequestContext,
+  requestContextService,
+} from "../../../utils/index.js";
+import type {
+  SmartRelatedNotesInput,
+  SmartRelatedNotesResponse,
+} from "./logic.js";
+import {
+  processSmartRelatedNotes,
+  SmartRelatedNotesInputSchemaShape,
+} from "./logic.js";
+
+/**
+ * Registers the 'smart_related_notes' tool with the MCP server instance.
+ * Must run after `registerSemanticSearchTool`, which sets up the embedding corpus.
+ *
+ * @param {McpServer} server - The MCP server instance.
+ * @returns {Promise<void>} A promise that resolves when the tool is registered.
+ * @throws {McpError} If registration fails critically.
+ */
+export async function registerSmartRelatedNotesTool(
+  server: McpServer,
+): Promise<void> {
+  const toolName = "smart_related_notes";
+  const toolDescription =
+    "Notes related to an existing note (like the Smart Connections side pane): nearest neighbours of the note's own stored vectors, blocks averaged. Needs no query embedder. Excludes the note itself and, with exclude_linked, the notes it already links to.";
+
+  const registrationContext: RequestContext =
+    requestContextService.createRequestContext({
+      operation: "RegisterSmartRelatedNotesTool",
+      toolName: toolName,
+      module: "SmartRelatedNotesRegistration",
+    });
+
+  logger.info(`Attempting to register tool: ${toolName}`, registrationContext);
+
+  await ErrorHandler.tryCatch(
+    async () => {
+      server.tool(
+        toolName,
+        toolDescription,
+        SmartRelatedNotesInputSchemaShape,
+        async (
+          params: SmartRelatedNotesInput,
+          handlerInvocationContext: RequestHandlerExtra<
+            ServerRequest,
+            ServerNotification
+          >,
+        ): Promise<CallToolResult> => {
+          const handlerContext: RequestContext =
+            requestContextService.createRequestContext({
+              operation: "HandleSmartRelatedNotesRequest",
+              toolName: toolName,
+              paramsSummary: {
+                filePath: params.filePath,
+                topK: params.top_k,
+                excludeLinked: params.exclude_linked,
+                hasFilters: !!(params.folders || params.tags),
+              },
+            });
+          logger.debug(`Handling '${toolName}' request`, handlerContext);
+
+          return await ErrorHandler.tryCatch(
+            async () => {
+              const response: SmartRelatedNotesResponse =
+                await processSmartRelatedNotes(params, handlerContext);
+              logger.debug(
+                `'${toolName}' processed successfully`,
+                handlerContext,
+              );
+
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: JSON.stringify(response, null, 2),
+                  },
+                ],
+                isError: false,
+              };
+            },
+            {
+              operation: `executing tool ${toolName}`,
+              context: handlerContext,
+              errorCode: BaseErrorCode.INTERNAL_ERROR,
+            },
+          );
+        },
+      );
+
+      logger.info(
+        `Tool registered successfully: ${toolName}`,
+        registrationContext,
+      );
+    },
+    {
+      operation: `registering tool ${toolName}`,
+      context: registrationContext,
+      errorCode: BaseErrorCode.INTERNAL_ERROR,
+      errorMapper: (error: unknown) =>
+        new McpError(
+          error instanceof McpError ? error.code : BaseErrorCode.INTERNAL_ERROR,
+          `Failed to register tool '${toolName}': ${error instanceof Error ? error.message : "Unknown error"}`,
+          { ...registrationContext },
+        ),
+      critical: true,
+    },
+  );
+}
@@ -0,0 +1,1329 @@
+/**
+ * @module LocalBasesEngine
+ * @description Evaluates `.base` files inside the MCP server, for vaults where the Bases
+ * Bridge plugin is not installed. It mirrors the plugin's REST routes: the YAML is parsed
+ * here, filters and formulas go through the shared Bases expression evaluator, and row
+ * upserts rewrite the notes' frontmatter.
+ *
+ * Notes come from the vault cache, or from disk when `OBSIDIAN_VAULT` is set and the cache
+ * is not ready. `.base` files and written notes go to disk when `OBSIDIAN_VAULT` is set,
+ * otherwise through the Local REST API.
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { CORE_SCHEMA, dump, load } from "js-yaml";
+import { BaseErrorCode, McpError } from "../../types-global/errors.js";
+import {
+  extractNoteLinks,
+  extractNoteTags,
+  linkTargetMatchesPath,
+  logger,
+  RequestContext,
+} from "../../utils/index.js";
+import type { ObsidianRestApiService } from "../obsidianRestAPI/service.js";
+import {
+  BaseConfigResponse,
+  BaseConfigUpsertRequest,
+  BaseConfigUpsertResponse,
+  BaseCreateRequest,
+  BaseCreateResponse,
+  BaseQueryGroup,
+  BaseQueryRequest,
+  BaseQueryResponse,
+  BaseQueryRow,
+  BaseSchemaProperty,
+  BaseSchemaResponse,
+  BaseSchemaView,
+  BasesListResponse,
+  BaseUpsertRequest,
+  BaseUpsertResponse,
+  BaseUpsertResult,
+} from "../obsidianRestAPI/types.js";
+import type { VaultCacheService } from "../obsidianRestAPI/vaultCache/index.js";
+import {
+  BasesEvalContext,
+  BasesExpressionError,
+  BasesFileInfo,
+  compareValues,
+  evaluateBasesExpression,
+  isTruthy,
+  toJSONValue,
+} from "./expression.js";
+import {
+  BasesInsertDefaults,
+  insertDefaults,
+  insertFrontmatter,
+  insertPath,
+  renderTemplate,
+} from "./insert.js";
+import {
+  BasesPropertyTypeInfo,
+  parseTypesJson,
+  resolvePropertyTypes,
+  typeSchemaProperties,
+  validateProperties,
+} from "./propertyTypes.js";
+import {
+  groupItems,
+  normalizeAggregates,
+  parseGroupBy,
+  summarize,
+  viewAggregates,
+} from "./summary.js";
+
+const FRONTMATTER_REGEX = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/;
+/** Distinct warnings returned by one query, like the plugin. */
+const MAX_QUERY_WARNINGS = 200;
+/** Notes of a base whose frontmatter is read to infer property types. */
+const MAX_TYPE_SAMPLES = 200;
+
+export interface LocalBasesEngineOptions {
+  obsidianService?: ObsidianRestApiService;
+  vaultCacheService?: VaultCacheService;
+  /** Absolute path of the vault on disk (`OBSIDIAN_VAULT`). */
+  vaultRoot?: string;
+}
+
+/** A markdown note as seen by the engine. Paths are vault-relative without a leading slash. */
+interface VaultNote {
+  path: string;
+  mtime: number;
+  ctime: number;
+  size: number;
+  content: string;
+}
+
+interface ParsedNote {
+  mtime: number;
+  size: number;
+  frontmatter: Record<string, unknown>;
+  tags: string[];
+  links: string[];
+}
+
+type FilterResult = { ok: boolean; warnings: string[] };
+
+/** What notes created in a base must satisfy. */
+interface InsertTarget {
+  schema: BaseSchemaResponse;
+  filters: unknown[];
+  defaults: BasesInsertDefaults;
+  warnings: string[];
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const optionalString = (value: unknown) =>
+  typeof value === "string" ? value : undefined;
+
+/** A `filters` entry of a `.base` file as a filter group; a bare expression becomes `{ and: [expr] }`. */
+const filterGroup = (value: unknown): Record<string, unknown> | undefined =>
+  typeof value === "string"
+    ? { and: [value] }
+    : isPlainObject(value)
+      ? value
+      : undefined;
+
+/** Vault-relative, forward slashes, no leading slash. */
+const normalizeVaultPath = (value: string) =>
+  value.replace(/\\/g, "/").replace(/^\/+/, "").trim();
+
+/**
+ * Vault-relative path of a path supplied by a request (`base_id`, `file`, `template`),
+ * with `.` and `..` segments resolved; throws when it points outside the vault.
+ */
+const vaultRelativePath = (value: string) => {
+  const normalized = path.posix.normalize(normalizeVaultPath(value) || ".");
+  if (normalized === ".." || normalized.startsWith("../")) {
+    throw new McpError(
+      BaseErrorCode.VALIDATION_ERROR,
+      `Chemin hors du coffre: ${value}`,
+      { path: value },
+    );
+  }
+  return normalized === "." ? "" : normalized.replace(/\/+$/, "");
+};
+
+const ensureBaseExt = (value: string) => {
+  const normalized = vaultRelativePath(value);
+  return normalized.endsWith(".base") ? normalized : `${normalized}.base`;
+};
+
+const basename = (filePath: string) =>
+  filePath.slice(filePath.lastIndexOf("/") + 1).replace(/\.[^.]+$/, "");
+
+const dirname = (filePath: string) => {
+  const slash = filePath.lastIndexOf("/");
+  return slash === -1 ? "" : filePath.slice(0, slash);
+};
+
+const clampInt = (
+  value: unknown,
+  fallback: number,
+  min: number,
+  max: number,
+): number => {
+  const num = Number(value);
+  if (!Number.isFinite(num)) return fallback;
+  return Math.max(min, Math.min(max, Math.trunc(num)));
+};
+
+/** Frontmatter as plain YAML values: dates stay strings, as Obsidian shows them. */
+function parseFrontmatter(content: string): Record<string, unknown> {
+  const match = content.match(FRONTMATTER_REGEX);
+  if (!match) return {};
+  try {
+    const data = load(match[1], { schema: CORE_SCHEMA });
+    return isPlainObject(data) ? data : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Applies `set` and `unset` to a note's frontmatter, creating or removing the block as
+ * needed. Throws when the existing frontmatter is not valid YAML.
+ */
+function rewriteFrontmatter(
+  content: string,
+  set: Record<string, unknown>,
+  unset: string[],
+): string {
+  const match = content.match(FRONTMATTER_REGEX);
+  const data = match ? load(match[1], { schema: CORE_SCHEMA }) : {};
+  if (match && data !== null && data !== undefined && !isPlainObject(data)) {
+    throw new Error("Le frontmatter existant n'est pas un objet YAML.");
+  }
+  const frontmatter: Record<string, unknown> = { ...(data ?? {}) };
+  Object.assign(frontmatter, set);
+  for (const key of unset) delete frontmatter[key];
+
+  const body = match ? content.slice(match[0].length) : content;
+  if (!Object.keys(frontmatter).length) return body;
+  const yaml = dump(frontmatter, { schema: CORE_SCHEMA, lineWidth: -1 });
+  return `---\n${yaml}---\n${body}`;
+}
+
+/** Same summary as the plugin's `/bases/:id/schema` route. */
+export function extractBaseSchema(
+  basePath: string,
+  spec: Record<string, unknown>,
+): BaseSchemaResponse {
+  const properties: BaseSchemaProperty[] = [];
+  const describe = (value: unknown) =>
+    isPlainObject(value)
+      ? {
+          displayName: optionalString(
+            value.name ?? value.label ?? value.displayName,
+          ),
+          valueType: optionalString(value.type ?? value.valueType),
+        }
+      : {};
+
+  const specProperties = isPlainObject(spec.properties) ? spec.properties : {};
+  for (const [key, value] of Object.entries(specProperties)) {
+    const { displayName, valueType } = describe(value);
+    properties.push({
+      key,
+      kind: key.startsWith("file.") ? "file" : "note",
+      displayName,
+      valueType,
+    });
+  }
+
+  const formulas = isPlainObject(spec.formulas) ? spec.formulas : undefined;
+  for (const key of Object.keys(formulas ?? {})) {
+    properties.push({
+      key,
+      kind: "formula",
+      displayName: describe(specProperties[`formula.${key}`]).displayName,
+      valueType: "formula",
+    });
+  }
+
+  const views: BaseSchemaView[] = [];
+  for (const view of Array.isArray(spec.views) ? spec.views : []) {
+    if (!isPlainObject(view)) continue;
+    const order = Array.isArray(view.order)
+      ? view.order
+      : Array.isArray(view.sort)
+        ? view.sort
+        : undefined;
+    views.push({
+      name: String(view.name ?? ""),
+      type: String(view.type ?? "table"),
+      limit: typeof view.limit === "number" ? view.limit : undefined,
+      order: order?.map((entry: unknown) => String(entry)),
+      filters: filterGroup(view.filters),
+      description:
+        typeof view.description === "string" ? view.description : undefined,
+      groupBy: parseGroupBy(view.groupBy),
+      summaries: isPlainObject(view.summaries)
+        ? Object.fromEntries(
+            Object.entries(view.summaries).map(([key, value]) => [
+              key,
+              String(value),
+            ]),
+          )
+        : undefined,
+    });
+  }
+
+  return {
+    id: basePath,
+    path: basePath,
+    name: spec.name ? String(spec.name) : undefined,
+    properties,
+    formulas,
+    views,
+    filters: filterGroup(spec.filters),
+  };
+}
+
+/**
+ * Server-side implementation of the Bases Bridge routes. Method signatures match the
+ * corresponding `ObsidianRestApiService` methods.
+ */
+export class LocalBasesEngine {
+  private readonly parsedNotes = new Map<string, ParsedNote>();
+
+  constructor(private readonly options: LocalBasesEngineOptions) {}
+
+  // --- Bases ---
+
+  async listBases(context: RequestContext): Promise<BasesListResponse> {
+    const files = await this.listVaultFiles(".base", context);
+    return {
+      bases: files
+        .map((filePath) => ({
+          id: filePath,
+          path: filePath,
+          name: basename(filePath),
+        }))
+        .sort((a, b) => a.path.localeCompare(b.path)),
+    };
+  }
+
+  async getBaseSchema(
+    baseId: string,
+    context: RequestContext,
+  ): Promise<BaseSchemaResponse> {
+    const { id, json } = await this.readBaseConfig(baseId, context);
+    const schema = extractBaseSchema(id, json ?? {});
+    const types = await this.propertyTypes(schema, context);
+    return {
+      ...schema,
+      properties: typeSchemaProperties(schema.properties, types),
+    };
+  }
+
+  async getBaseConfig(
+    baseId: string,
+    context: RequestContext,
+  ): Promise<BaseConfigResponse> {
+    return this.readBaseConfig(baseId, context);
+  }
+
+  async upsertBaseConfig(
+    baseId: string,
+    payload: BaseConfigUpsertRequest,
+    context: RequestContext,
+  ): Promise<BaseConfigUpsertResponse> {
+    const id = ensureBaseExt(baseId);
+    let yaml: string;
+
+    if (typeof payload.yaml === "string" && payload.yaml.trim()) {
+      let parsed: unknown;
+      try {
+        parsed = load(payload.yaml, { schema: CORE_SCHEMA });
+      } catch (error) {
+        return {
+          ok: false,
+          id,
+          warnings: [
+            `YAML invalide: ${error instanceof Error ? error.message : String(error)}`,
+          ],
+        };
+      }
+      if (!isPlainObject(parsed)) {
+        return {
+          ok: false,
+          id,
+          warnings: ["YAML invalide: root doit être un objet."],
+        };
+      }
+      yaml = payload.yaml;
+    } else if (isPlainObject(payload.json)) {
+      yaml = dump(payload.json, { lineWidth: -1 });
+    } else {
+      return { ok: false, id, warnings: ["Payload requis: yaml ou json."] };
+    }
+
+    if (!payload.validateOnly) await this.writeVaultFile(id, yaml, context);
+    return { ok: true, id, warnings: [] };
+  }
+
+  async createBase(
+    payload: BaseCreateRequest,
+    context: RequestContext,
+  ): Promise<BaseCreateResponse> {
+    const rawPath = vaultRelativePath(String(payload.path ?? ""));
+    if (!rawPath) return { ok: false, id: "", warnings: ["path requis."] };
+    const id = ensureBaseExt(rawPath);
+    if (!isPlainObject(payload.spec)) {
+      return { ok: false, id, warnings: ["spec doit être un objet."] };
+    }
+
+    let yaml: string;
+    try {
+      yaml = dump(payload.spec, { lineWidth: -1 });
+    } catch (error) {
+      return {
+        ok: false,
+        id,
+        warnings: [
+          `spec non sérialisable: ${error instanceof Error ? error.message : String(error)}`,
+        ],
+      };
+    }
+
+    const exists = (await this.readVaultFile(id, context)) !== undefined;
+    if (exists && payload.overwrite === false) {
+      return {
+        ok: true,
+        id,
+        warnings: ["Le fichier existe déjà (overwrite=false)."],
+        created: false,
+        overwritten: false,
+      };
+    }
+    if (payload.validateOnly) {
+      return { ok: true, id, created: false, overwritten: false };
+    }
+
+    await this.writeVaultFile(id, yaml, context);
+    return { ok: true, id, created: !exists, overwritten: exists };
+  }
+
+  async queryBase(
+    baseId: string,
+    payload: BaseQueryRequest,
+    context: RequestContext,
+  ): Promise<BaseQueryResponse> {
+    const config = await this.readBaseConfig(baseId, context);
+    const schema = extractBaseSchema(config.id, config.json ?? {});
+    const warnings = new Set<string>();
+    let warningsTruncated = false;
+    const addWarnings = (messages: string[]) => {
+      for (const message of messages) {
+        if (warnings.size >= MAX_QUERY_WARNINGS) {
+          warningsTruncated = true;
+          return;
+        }
+        warnings.add(message);
+      }
+    };
+
+    const view = payload.view
+      ? schema.views.find((candidate) => candidate.name === payload.view)
+      : schema.views[0];
+    if (payload.view && !view)
+      addWarnings([`Vue introuvable: ${payload.view}`]);
+    const limit = clampInt(payload.limit ?? view?.limit ?? 20, 20, 1, 500);
+    const page = clampInt(payload.page ?? 1, 1, 1, 1_000_000);
+
+    const notes = await this.listNotes(context);
+    const combinedFilter = {
+      and: [schema.filters, view?.filters, payload.filter].filter(Boolean),
+    };
+    const matches: VaultNote[] = [];
+    for (const note of notes) {
+      const result = this.evaluateFilter(note, combinedFilter, schema, notes);
+      addWarnings(result.warnings);
+      if (result.ok) matches.push(note);
+    }
+
+    const sortSpecs: Array<{ prop: string; dir: "asc" | "desc" }> = [];
+    if (payload.sort?.length) {
+      for (const spec of payload.sort) {
+        const prop = String(spec?.prop ?? "").trim();
+        if (prop)
+          sortSpecs.push({ prop, dir: spec.dir === "desc" ? "desc" : "asc" });
+      }
+    } else {
+      for (const raw of view?.order ?? []) {
+        const entry = raw.trim();
+        const prop = entry.replace(/^-/, "");
+        if (prop)
+          sortSpecs.push({ prop, dir: entry.startsWith("-") ? "desc" : "asc" });
+      }
+    }
+    if (sortSpecs.length) {
+      const keys = new Map(
+        matches.map((note) => [
+          note,
+          sortSpecs.map(({ prop }) =>
+            this.sortValue(note, prop, schema, notes),
+          ),
+        ]),
+      );
+      matches.sort((a, b) => {
+        for (let index = 0; index < sortSpecs.length; index++) {
+          const av = keys.get(a)![index];
+          const bv = keys.get(b)![index];
+          // Missing values go last in both directions.
+          const aMissing = av === null || av === undefined || av === "";
+          const bMissing = bv === null || bv === undefined || bv === "";
+          if (aMissing || bMissing) {
+            if (aMissing !== bMissing) return aMissing ? 1 : -1;
+            continue;
+          }
+          const cmp =
+            compareValues(av, bv) ?? String(av).localeCompare(String(bv));
+          if (cmp !== 0) {
+            return sortSpecs[index].dir === "asc"
+              ? Math.sign(cmp)
+              : -Math.sign(cmp);
+          }
+        }
+        return 0;
+      });
+    }
+
+    // A view's grouping and summaries apply unless the request sets its own.
+    const groupBy =
+      payload.group_by !== undefined
+        ? parseGroupBy(payload.group_by)
+        : view?.groupBy;
+    const summaries =
+      payload.aggregates !== undefined
+        ? normalizeAggregates(payload.aggregates)
+        : viewAggregates(view?.summaries);
+    addWarnings(summaries.warnings);
+    const valueOf = (note: VaultNote, prop: string) =>
+      this.propertyValue(note, prop, schema, notes);
+    const groups = groupBy
+      ? groupItems(matches, (note) => valueOf(note, groupBy.prop), groupBy.dir)
+      : undefined;
+    const ordered = groups ? groups.flatMap((group) => group.items) : matches;
+
+    const start = (page - 1) * limit;
+    const pageRows = new Map<VaultNote, BaseQueryRow>(
+      ordered.slice(start, start + limit).map((note) => [
+        note,
+        {
+          file: { path: note.path, name: basename(note.path) },
+          props: this.buildRowProps(note, schema, notes),
+          computed: payload.evaluate
+            ? this.buildComputed(note, schema, notes)
+            : undefined,
+        },
+      ]),
+    );
+    const aggregates = summaries.aggregates.length
+      ? summaries.aggregates
+      : undefined;
+    const queryGroups: BaseQueryGroup[] | undefined = groups?.map((group) => ({
+      key: group.key,
+      label: group.label,
+      count: group.items.length,
+      aggregates: aggregates
+        ? summarize(group.items, aggregates, valueOf)
+        : undefined,
+      rows: group.items.flatMap((note) => pageRows.get(note) ?? []),
+    }));
+
+    const sortedWarnings = [...warnings].sort((a, b) => a.localeCompare(b));
+    if (warningsTruncated) {
+      sortedWarnings.push(`Warnings tronqués (max ${MAX_QUERY_WARNINGS}).`);
+    }
+    return {
+      total: matches.length,
+      page,
+      rows: queryGroups ? [] : [...pageRows.values()],
+      evaluate: !!payload.evaluate,
+      source: "local",
+      warnings: sortedWarnings,
+      group_by: groupBy?.prop,
+      groups: queryGroups,
+      aggregates: aggregates
+        ? summarize(matches, aggregates, valueOf)
+        : undefined,
+    };
+  }
+
+  async upsertBaseRows(
+    baseId: string,
+    payload: BaseUpsertRequest,
+    context: RequestContext,
+  ): Promise<BaseUpsertResponse> {
+    const results: BaseUpsertResult[] = [];
+    // Updates do not need the base; it is read on the first insert.
+    let target: Promise<InsertTarget> | undefined;
+    const insertTarget = () =>
+      (target ??= this.insertTarget(baseId, payload.view, context));
+    const validation = payload.validation ?? "coerce";
+    let types: Promise<Record<string, BasesPropertyTypeInfo>> | undefined;
+
+    for (const operation of payload.operations ?? []) {
+      const set = isPlainObject(operation?.set) ? operation.set : {};
+      let checked: ReturnType<typeof validateProperties> | undefined;
+      if (validation !== "off" && Object.keys(set).length) {
+        types ??= this.readBaseConfig(baseId, context)
+          .then(({ id, json }) => extractBaseSchema(id, json ?? {}))
+          .catch(() => undefined)
+          .then((schema) => this.propertyTypes(schema, context));
+        checked = validateProperties(set, await types, validation);
+      }
+
+      const result: BaseUpsertResult = checked?.errors.length
+        ? {
+            file: normalizeVaultPath(String(operation?.file ?? "")),
+            mtime: 0,
+            error: {
+              code: "validation_error",
+              message: `Valeurs invalides: ${checked.errors.map((error) => error.key).join(", ")}`,
+            },
+            field_errors: checked.errors,
+          }
+        : await this.upsertRow(
+            checked ? { ...operation, set: checked.values } : operation,
+            insertTarget,
+            context,
+          );
+      if (checked?.warnings.length) {
+        result.warnings = [...checked.warnings, ...(result.warnings ?? [])];
+      }
+      results.push(result);
+      if (result.error && !payload.continueOnError) break;
+    }
+
+    return { ok: results.every((result) => !result.error), results };
+  }
+
+  private async upsertRow(
+    operation: BaseUpsertRequest["operations"][number],
+    insertTarget: () => Promise<InsertTarget>,
+    context: RequestContext,
+  ): Promise<BaseUpsertResult> {
+    const mode = operation?.mode ?? "update";
+    const rejected = (error: unknown): BaseUpsertResult => ({
+      file: normalizeVaultPath(String(operation?.file ?? "")),
+      mtime: 0,
+      error: {
+        code: "validation_error",
+        message: error instanceof Error ? error.message : String(error),
+      },
+    });
+    let filePath: string;
+    try {
+      filePath = vaultRelativePath(String(operation?.file ?? ""));
+    } catch (error) {
+      return rejected(error);
+    }
+    const target =
+      filePath && mode !== "update" ? await insertTarget() : undefined;
+    if (target) {
+      try {
+        filePath = insertPath(filePath, target.defaults.folder);
+      } catch (error) {
+        return rejected(error);
+      }
+    }
+    if (!filePath) {
+      return {
+        file: "",
+        mtime: 0,
+        error: {
+          code: "validation_error",
+          message: "Opération sans champ 'file'.",
+        },
+      };
+    }
+
+    const note = await this.readNote(filePath, context);
+    if (note && mode === "insert") {
+      return {
+        file: filePath,
+        mtime: note.mtime,
+        error: {
+          code: "already_exists",
+          message: `La note existe déjà: ${filePath}`,
+        },
+      };
+    }
+    if (!note && target) {
+      return this.insertRow(filePath, operation, target, context);
+    }
+    if (!note) {
+      return {
+        file: filePath,
+        mtime: 0,
+        error: { code: "not_found", message: `Note introuvable: ${filePath}` },
+      };
+    }
+    if (operation.expected_mtime && note.mtime !== operation.expected_mtime) {
+      return {
+        file: filePath,
+        mtime: note.mtime,
+        error: {
+          code: "mtime_conflict",
+          message: `Conflit mtime (expected=${operation.expected_mtime}, actual=${note.mtime}).`,
+        },
+      };
+    }
+
+    const set = isPlainObject(operation.set) ? operation.set : {};
+    const unset = (operation.unset ?? []).filter(
+      (key): key is string => typeof key === "string",
+    );
+    try {
+      const content = rewriteFrontmatter(note.content, set, unset);
+      const mtime = await this.writeVaultFile(filePath, content, context);
+      await this.options.vaultCacheService?.updateCacheForFile(
+        filePath,
+        context,
+      );
+      return {
+        file: filePath,
+        mtime,
+        changed: {
+          keys: Object.keys(set),
+          unset: unset.length ? unset : undefined,
+        },
+      };
+    } catch (error) {
+      return {
+        file: filePath,
+        mtime: note.mtime,
+        error: {
+          code: "write_error",
+          message: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
+  }
+
+  /**
+   * Note property types: Obsidian's `types.json`, then the base's declarations, then the
+   * values found in the base's notes.
+   */
+  private async propertyTypes(
+    schema: BaseSchemaResponse | undefined,
+    context: RequestContext,
+  ): Promise<Record<string, BasesPropertyTypeInfo>> {
+    const typesJson = parseTypesJson(
+      await this.readVaultFile(".obsidian/types.json", context).catch(
+        () => undefined,
+      ),
+    );
+    const declared: Record<string, unknown> = {};
+    for (const property of schema?.properties ?? []) {
+      if (property.kind === "note" && property.valueType) {
+        declared[property.key.replace(/^note\./, "")] = property.valueType;
+      }
+    }
+
+    const samples: Record<string, unknown>[] = [];
+    if (schema) {
+      try {
+        const notes = await this.listNotes(context);
+        for (const note of notes) {
+          if (samples.length >= MAX_TYPE_SAMPLES) break;
+          if (this.evaluateFilter(note, schema.filters, schema, notes).ok) {
+            samples.push(this.parse(note).frontmatter);
+          }
+        }
+      } catch (error) {
+        logger.debug(
+          `No notes to sample for property types: ${error instanceof Error ? error.message : String(error)}`,
+          context,
+        );
+      }
+    }
+    return resolvePropertyTypes(typesJson, declared, samples);
+  }
+
+  private async insertTarget(
+    baseId: string,
+    viewName: string | undefined,
+    context: RequestContext,
+  ): Promise<InsertTarget> {
+    const config = await this.readBaseConfig(baseId, context);
+    const schema = extractBaseSchema(config.id, config.json ?? {});
+    const view = viewName
+      ? schema.views.find((candidate) => candidate.name === viewName)
+      : undefined;
+    const filters = [schema.filters, view?.filters].filter(Boolean);
+    return {
+      schema,
+      filters,
+      defaults: insertDefaults(...filters),
+      warnings: viewName && !view ? [`Vue introuvable: ${viewName}`] : [],
+    };
+  }
+
+  /** Creates a note that belongs to the base, then checks it against the base's filters. */
+  private async insertRow(
+    filePath: string,
+    operation: BaseUpsertRequest["operations"][number],
+    target: InsertTarget,
+    context: RequestContext,
+  ): Promise<BaseUpsertResult> {
+    let templateFrontmatter: Record<string, unknown> = {};
+    let body = "";
+    if (operation.template) {
+      let templatePath: string;
+      try {
+        templatePath = insertPath(vaultRelativePath(operation.template));
+      } catch (error) {
+        return {
+          file: filePath,
+          mtime: 0,
+          error: {
+            code: "validation_error",
+            message: error instanceof Error ? error.message : String(error),
+          },
+        };
+      }
+      const template = await this.readVaultFile(templatePath, context);
+      if (template === undefined) {
+        return {
+          file: filePath,
+          mtime: 0,
+          error: {
+            code: "not_found",
+            message: `Modèle introuvable: ${templatePath}`,
+          },
+        };
+      }
+      templateFrontmatter = parseFrontmatter(template);
+      body = renderTemplate(
+        template.replace(FRONTMATTER_REGEX, ""),
+        basename(filePath),
+      );
+    }
+
+    const frontmatter = insertFrontmatter(
+      target.defaults,
+      templateFrontmatter,
+      isPlainObject(operation.set) ? operation.set : {},
+    );
+    for (const key of operation.unset ?? []) delete frontmatter[key];
+
+    let mtime: number;
+    try {
+      mtime = await this.writeVaultFile(
+        filePath,
+        rewriteFrontmatter(body, frontmatter, []),
+        context,
+      );
+      await this.options.vaultCacheService?.updateCacheForFile(
+        filePath,
+        context,
+      );
+    } catch (error) {
+      return {
+        file: filePath,
+        mtime: 0,
+        error: {
+          code: "write_error",
+          message: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
+
+    const note = await this.readNote(filePath, context);
+    const notes = await this.listNotes(context).catch(() => []);
+    const check = note
+      ? this.evaluateFilter(note, { and: target.filters }, target.schema, [
+          ...notes.filter((other) => other.path !== filePath),
+          note,
+        ])
+      : { ok: false, warnings: [] };
+    // Conditions that could not be applied only matter when the note is left out.
+    const warnings = [
+      ...target.warnings,
+      ...check.warnings,
+      ...(check.ok
+        ? []
+        : target.defaults.skipped.map(
+            (condition) => `Condition non appliquée: ${condition}`,
+          )),
+    ];
+
+    return {
+      file: filePath,
+      mtime: note?.mtime ?? mtime,
+      created: true,
+      changed: { keys: Object.keys(frontmatter) },
+      warnings: warnings.length ? warnings : undefined,
+      error: check.ok
+        ? undefined
+        : {
+            code: "filter_mismatch",
+            message:
+              "Note créée mais hors de la base : elle ne satisfait pas ses filtres.",
+          },
+    };
+  }
+
+  // --- Evaluation ---
+
+  private parse(note: VaultNote): ParsedNote {
+    const cached = this.parsedNotes.get(note.path);
+    if (cached?.mtime === note.mtime && cached.size === note.size) {
+      return cached;
+    }
+    const parsed: ParsedNote = {
+      mtime: note.mtime,
+      size: note.size,
+      frontmatter: parseFrontmatter(note.content),
+      tags: extractNoteTags(note.content),
+      links: extractNoteLinks(note.content),
+    };
+    this.parsedNotes.set(note.path, parsed);
+    return parsed;
+  }
+
+  private fileInfo(note: VaultNote): BasesFileInfo {
+    return {
+      path: note.path,
+      size: note.size,
+      ctime: note.ctime,
+      mtime: note.mtime,
+      tags: () => this.parse(note).tags,
+      links: () => this.parse(note).links,
+      properties: () => this.parse(note).frontmatter,
+    };
+  }
+
+  /** `pending`: formulas being evaluated, to report circular references. */
+  private expressionContext(
+    note: VaultNote,
+    schema: BaseSchemaResponse,
+    notes: VaultNote[],
+    pending: Set<string> = new Set(),
+  ): BasesEvalContext {
+    return {
+      file: this.fileInfo(note),
+      formula: (name) => {
+        const expression = schema.formulas?.[name];
+        if (typeof expression !== "string") return null;
+        if (pending.has(name)) {
+          throw new BasesExpressionError(`Formule circulaire: formula.${name}`);
+        }
+        pending.add(name);
+        try {
+          return evaluateBasesExpression(
+            expression,
+            this.expressionContext(note, schema, notes, pending),
+          );
+        } finally {
+          pending.delete(name);
+        }
+      },
+      resolveFile: (target) => {
+        const wanted = normalizeVaultPath(target).replace(/\.md$/i, "");
+        const dest = notes.find((candidate) =>
+          linkTargetMatchesPath(wanted, candidate.path),
+        );
+        return dest ? this.fileInfo(dest) : undefined;
+      },
+    };
+  }
+
+  private evaluateStatement(
+    note: VaultNote,
+    statement: string,
+    schema: BaseSchemaResponse,
+    notes: VaultNote[],
+  ): FilterResult {
+    const raw = statement.trim();
+    if (!raw) return { ok: true, warnings: [] };
+    try {
+      const value = evaluateBasesExpression(
+        raw,
+        this.expressionContext(note, schema, notes),
+      );
+      return { ok: isTruthy(value), warnings: [] };
+    } catch (error) {
+      const reason =
+        error instanceof BasesExpressionError ? error.message : String(error);
+      return { ok: false, warnings: [`Filtre invalide: ${raw} (${reason})`] };
+    }
+  }
+
+  /** `and` / `or` / `not` trees as written in `.base` files; leaves are expressions. */
+  private evaluateFilter(
+    note: VaultNote,
+    filter: unknown,
+    schema: BaseSchemaResponse,
+    notes: VaultNote[],
+  ): FilterResult {
+    if (!filter) return { ok: true, warnings: [] };
+    if (typeof filter === "string") {
+      return this.evaluateStatement(note, filter, schema, notes);
+    }
+
+    if (isPlainObject(filter)) {
+      if (Array.isArray(filter.and)) {
+        const warnings: string[] = [];
+        for (const part of filter.and) {
+          const result = this.evaluateFilter(note, part, schema, notes);
+          warnings.push(...result.warnings);
+          if (!result.ok) return { ok: false, warnings };
+        }
+        return { ok: true, warnings };
+      }
+      if (Array.isArray(filter.or)) {
+        const warnings: string[] = [];
+        let any = false;
+        for (const part of filter.or) {
+          const result = this.evaluateFilter(note, part, schema, notes);
+          warnings.push(...result.warnings);
+          if (result.ok) any = true;
+        }
+        return { ok: any, warnings };
+      }
+      if (filter.not) {
+        // `not: [a, b]`: none of the conditions.
+        const negated = Array.isArray(filter.not)
+          ? { or: filter.not }
+          : filter.not;
+        const result = this.evaluateFilter(note, negated, schema, notes);
+        return { ok: !result.ok, warnings: result.warnings };
+      }
+    }
+
+    return { ok: true, warnings: ["Filter non supporté (shape inconnu)."] };
+  }
+
+  private evaluateFormula(
+    note: VaultNote,
+    key: string,
+    schema: BaseSchemaResponse,
+    notes: VaultNote[],
+  ): unknown {
+    const expression = schema.formulas?.[key];
+    if (typeof expression !== "string" || !expression.trim()) return undefined;
+    try {
+      return toJSONValue(
+        evaluateBasesExpression(
+          expression,
+          this.expressionContext(note, schema, notes),
+        ),
+      );
+    } catch {
+      return undefined;
+    }
+  }
+
+  /** Row value of a property, with the plugin's conventions (`file.name` is the basename, times are ms). */
+  private propertyValue(
+    note: VaultNote,
+    ref: string,
+    schema: BaseSchemaResponse,
+    notes: VaultNote[],
+  ): unknown {
+    const key = ref.trim();
+    if (key.startsWith("file.")) {
+      switch (key.slice("file.".length)) {
+        case "path":
+          return note.path;
+        case "name":
+          return basename(note.path);
+        case "ext":
+          return path.extname(note.path).slice(1);
+        case "size":
+          return note.size;
+        case "ctime":
+          return note.ctime;
+        case "mtime":
+          return note.mtime;
+        case "folder":
+          return dirname(note.path);
+        default:
+          return undefined;
+      }
+    }
+    if (key.startsWith("formula.")) {
+      return this.evaluateFormula(
+        note,
+        key.slice("formula.".length),
+        schema,
+        notes,
+      );
+    }
+    const frontmatter = this.parse(note).frontmatter;
+    return frontmatter[
+      key.startsWith("note.") ? key.slice("note.".length) : key
+    ];
+  }
+
+  /** Sort keys are expressions, so dates and numbers compare by value. */
+  private sortValue(
+    note: VaultNote,
+    prop: string,
+    schema: BaseSchemaResponse,
+    notes: VaultNote[],
+  ): unknown {
+    try {
+      return evaluateBasesExpression(
+        prop,
+        this.expressionContext(note, schema, notes),
+      );
+    } catch {
+      return this.propertyValue(note, prop, schema, notes);
+    }
+  }
+
+  private buildRowProps(
+    note: VaultNote,
+    schema: BaseSchemaResponse,
+    notes: VaultNote[],
+  ): Record<string, unknown> {
+    const props: Record<string, unknown> = {};
+    for (const property of schema.properties) {
+      props[property.key] = this.propertyValue(
+        note,
+        property.kind === "formula" ? `formula.${property.key}` : property.key,
+        schema,
+        notes,
+      );
+    }
+    return props;
+  }
+
+  private buildComputed(
+    note: VaultNote,
+    schema: BaseSchemaResponse,
+    notes: VaultNote[],
+  ): Record<string, unknown> {
+    const computed: Record<string, unknown> = {};
+    for (const key of Object.keys(schema.formulas ?? {})) {
+      computed[key] = this.evaluateFormula(note, key, schema, notes);
+    }
+    return computed;
+  }
+
+  // --- Vault access ---
+
+  private async readBaseConfig(
+    baseId: string,
+    context: RequestContext,
+  ): Promise<BaseConfigResponse> {
+    const id = ensureBaseExt(baseId);
+    const yaml = await this.readVaultFile(id, context);
+    if (yaml === undefined) {
+      throw new McpError(BaseErrorCode.NOT_FOUND, `Base introuvable: ${id}`, {
+        baseId: id,
+      });
+    }
+    let json: unknown;
+    try {
+      json = load(yaml, { schema: CORE_SCHEMA });
+    } catch (error) {
+      throw new McpError(
+        BaseErrorCode.VALIDATION_ERROR,
+        `YAML invalide dans ${id}: ${error instanceof Error ? error.message : String(error)}`,
+        { baseId: id },
+      );
+    }
+    return { id, yaml, json: isPlainObject(json) ? json : {} };
+  }
+
+  /** Markdown notes, from the vault cache when it is ready, otherwise from disk. */
+  private async listNotes(context: RequestContext): Promise<VaultNote[]> {
+    const cache = this.options.vaultCacheService;
+    if (cache?.isReady()) {
+      return [...cache.getCache()].map(([key, entry]) => ({
+        path: normalizeVaultPath(key),
+        mtime: entry.mtime,
+        // The cache does not keep creation times.
+        ctime: entry.mtime,
+        size: entry.size,
+        content: entry.content,
+      }));
+    }
+
+    const root = this.options.vaultRoot;
+    if (!root) {
+      throw new McpError(
+        BaseErrorCode.SERVICE_UNAVAILABLE,
+        cache
+          ? "The vault cache is still being built; set OBSIDIAN_VAULT to query bases from disk meanwhile"
+          : "Querying bases without the Bases Bridge plugin needs the vault cache (OBSIDIAN_ENABLE_CACHE=true) or OBSIDIAN_VAULT",
+        context,
+      );
+    }
+    const files = await this.listVaultFiles(".md", context);
+    const notes = await Promise.all(
+      files.map((filePath) => this.readDiskNote(root, filePath)),
+    );
+    return notes.filter((note): note is VaultNote => !!note);
+  }
+
+  private async readNote(
+    filePath: string,
+    context: RequestContext,
+  ): Promise<VaultNote | undefined> {
+    if (this.options.vaultRoot) {
+      return this.readDiskNote(this.options.vaultRoot, filePath);
+    }
+    const cache = this.options.vaultCacheService;
+    const entry = cache?.getEntry(filePath);
+    if (entry) {
+      return {
+        path: filePath,
+        mtime: entry.mtime,
+        ctime: entry.mtime,
+        size: entry.size,
+        content: entry.content,
+      };
+    }
+    const content = await this.readVaultFile(filePath, context);
+    if (content === undefined) return undefined;
+    const stat = await this.requireRest().getFileMetadata(filePath, context);
+    return {
+      path: filePath,
+      mtime: stat?.mtime ?? 0,
+      ctime: stat?.ctime ?? 0,
+      size: stat?.size ?? Buffer.byteLength(content),
+      content,
+    };
+  }
+
+  private async readDiskNote(
+    root: string,
+    filePath: string,
+  ): Promise<VaultNote | undefined> {
+    const absolutePath = path.join(root, vaultRelativePath(filePath));
+    try {
+      const [stat, content] = await Promise.all([
+        fs.stat(absolutePath),
+        fs.readFile(absolutePath, "utf-8"),
+      ]);
+      return {
+        path: filePath,
+        mtime: Math.floor(stat.mtimeMs),
+        ctime: Math.floor(stat.birthtimeMs || stat.ctimeMs),
+        size: stat.size,
+        content,
+      };
+    } catch {
+      return undefined;
+    }
+  }
+
+  /** Vault-relative paths of the files with `extension`, hidden folders excluded. */
+  private async listVaultFiles(
+    extension: string,
+    context: RequestContext,
+  ): Promise<string[]> {
+    const files: string[] = [];
+    const root = this.options.vaultRoot;
+
+    if (root) {
+      const walk = async (relativeDir: string): Promise<void> => {
+        const entries = await fs.readdir(path.join(root, relativeDir), {
+          withFileTypes: true,
+        });
+        for (const entry of entries) {
+          // Skips .obsidian, .smart-env, .trash and other hidden folders.
+          if (entry.name.startsWith(".")) continue;
+          const relativePath = relativeDir
+            ? `${relativeDir}/${entry.name}`
+            : entry.name;
+          if (entry.isDirectory()) {
+            await walk(relativePath);
+          } else if (entry.isFile() && entry.name.endsWith(extension)) {
+            files.push(relativePath);
+          }
+        }
+      };
+      await walk("");
+      return files;
+    }
+
+    const rest = this.requireRest();
+    const walk = async (relativeDir: string): Promise<void> => {
+      const entries = await rest.listFiles(relativeDir, context);
+      for (const entry of entries) {
+        if (entry.startsWith(".")) continue;
+        const relativePath = relativeDir ? `${relativeDir}/${entry}` : entry;
+        if (entry.endsWith("/")) {
+          await walk(relativePath.replace(/\/+$/, ""));
+        } else if (entry.endsWith(extension)) {
+          files.push(relativePath);
+        }
+      }
+    };
+    await walk("");
+    return files;
+  }
+
+  /** File content, or `undefined` when the file does not exist. */
+  private async readVaultFile(
+    filePath: string,
+    context: RequestContext,
+  ): Promise<string | undefined> {
+    const relativePath = vaultRelativePath(filePath);
+    const root = this.options.vaultRoot;
+    if (root) {
+      try {
+        return await fs.readFile(path.join(root, relativePath), "utf-8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT")
+          return undefined;
+        throw error;
+      }
+    }
+    try {
+      return (await this.requireRest().getFileContent(
+        relativePath,
+        "markdown",
+        context,
+      )) as string;
+    } catch (error) {
+      if (error instanceof McpError && error.code === BaseErrorCode.NOT_FOUND) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /** Writes a vault file, creating its folders, and returns its new mtime. */
+  private async writeVaultFile(
+    filePath: string,
+    content: string,
+    context: RequestContext,
+  ): Promise<number> {
+    const relativePath = vaultRelativePath(filePath);
+    const root = this.options.vaultRoot;
+    if (root) {
+      const absolutePath = path.join(root, relativePath);
+      await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+      await fs.writeFile(absolutePath, content, "utf-8");
+      return Math.floor((await fs.stat(absolutePath)).mtimeMs);
+    }
+    const rest = this.requireRest();
+    await rest.updateFileContent(relativePath, content, context);
+    logger.debug(`Local Bases engine wrote ${relativePath}`, context);
+    return (
+      (await rest.getFileMetadata(relativePath, context))?.mtime ?? Date.now()
+    );
+  }
+
+  private requireRest(): ObsidianRestApiService {
+    if (!this.options.obsidianService) {
+      throw new McpError(
+        BaseErrorCode.CONFIGURATION_ERROR,
+        "The local Bases engine needs OBSIDIAN_VAULT or the Obsidian REST API",
+      );
+    }
+    return this.options.obsidianService;
+  }
+}
@@ -0,0 +1,1401 @@
+/**
+ * Langage d'expressions des Bases : tokenizer, parseur de Pratt et évaluateur.
+ * Partagé par le moteur local du serveur et le mode fallback du plugin Bases Bridge (qui
+ * le copie dans `src/shared/` à la compilation) : aucune dépendance à Node ni à l'API
+ * Obsidian, l'hôte fournit la note courante via `BasesEvalContext`.
+ */
+
+export class BasesExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BasesExpressionError";
+  }
+}
+
+/** -------- Hôte -------- */
+
+/** Ce que l'évaluateur sait d'un fichier du coffre. */
+export interface BasesFileInfo {
+  path: string;
+  size: number;
+  ctime: number;
+  mtime: number;
+  /** Tags sans `#` (frontmatter et inline). */
+  tags(): string[];
+  /** Cibles des liens sortants, telles qu'écrites. */
+  links(): string[];
+  /** Frontmatter. */
+  properties(): Record<string, unknown>;
+}
+
+export interface BasesEvalContext {
+  file: BasesFileInfo;
+  /** Valeur de `formula.<name>` pour le fichier courant. */
+  formula?(name: string): unknown;
+  /** Résout un chemin ou une cible de lien (`file()`, `link.asFile()`). */
+  resolveFile?(target: string): BasesFileInfo | undefined;
+  /** Horloge de `now()` / `today()` ; `Date.now()` par défaut. */
+  now?: number;
+}
+
+/** -------- Valeurs -------- */
+
+export class BasesLink {
+  constructor(
+    readonly path: string,
+    readonly display?: string,
+  ) {}
+}
+
+/** Durée calendaire : les mois et les jours suivent le calendrier local, le reste est en ms. */
+export class BasesDuration {
+  constructor(
+    readonly months: number,
+    readonly days: number,
+    readonly ms: number,
+  ) {}
+}
+
+class BasesFile {
+  constructor(readonly info: BasesFileInfo) {}
+}
+
+/** Valeur de l'identifiant `formula` : `formula.x` est résolu par l'hôte. */
+const FORMULA_SCOPE = Object.freeze({});
+
+/** -------- Tokenizer -------- */
+
+type Token =
+  | { type: "num"; value: number; pos: number }
+  | { type: "str"; value: string; pos: number }
+  | { type: "ident"; value: string; pos: number }
+  | { type: "op"; value: string; pos: number }
+  | { type: "eof"; value: ""; pos: number };
+
+const OPERATORS = [
+  "==",
+  "!=",
+  ">=",
+  "<=",
+  "&&",
+  "||",
+  "=",
+  ">",
+  "<",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "!",
+  "(",
+  ")",
+  "[",
+  "]",
+  "{",
+  "}",
+  ",",
+  ".",
+  ":",
+];
+const IDENT_START = /[\p{L}_$]/u;
+const IDENT_PART = /[\p{L}\p{N}_$]/u;
+
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (/\d/.test(ch) || (ch === "." && /\d/.test(source[i + 1] ?? ""))) {
+      const match = source.slice(i).match(/^\d*\.?\d+(?:[eE][+-]?\d+)?/)!;
+      tokens.push({ type: "num", value: Number(match[0]), pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      let value = "";
+      let j = i + 1;
+      for (; j < source.length && source[j] !== ch; j++) {
+        if (source[j] === "\\" && j + 1 < source.length) {
+          const escaped = source[++j];
+          value += escaped === "n" ? "\n" : escaped === "t" ? "\t" : escaped;
+        } else {
+          value += source[j];
+        }
+      }
+      if (j >= source.length) {
+        throw new BasesExpressionError(`Chaîne non terminée (position ${i})`);
+      }
+      tokens.push({ type: "str", value, pos: i });
+      i = j + 1;
+      continue;
+    }
+
+    if (IDENT_START.test(ch)) {
+      let j = i + 1;
+      while (j < source.length && IDENT_PART.test(source[j])) j++;
+      tokens.push({ type: "ident", value: source.slice(i, j), pos: i });
+      i = j;
+      continue;
+    }
+
+    const op = OPERATORS.find((candidate) => source.startsWith(candidate, i));
+    if (!op) {
+      throw new BasesExpressionError(
+        `Caractère inattendu « ${ch} » (position ${i})`,
+      );
+    }
+    tokens.push({ type: "op", value: op, pos: i });
+    i += op.length;
+  }
+
+  tokens.push({ type: "eof", value: "", pos: source.length });
+  return tokens;
+}
+
+/** -------- Parseur (Pratt) -------- */
+
+export type BasesNode =
+  | { type: "literal"; value: unknown }
+  | { type: "ident"; name: string }
+  | { type: "list"; items: BasesNode[] }
+  | { type: "object"; entries: [string, BasesNode][] }
+  | { type: "unary"; op: "!" | "-"; arg: BasesNode }
+  | { type: "binary"; op: string; left: BasesNode; right: BasesNode }
+  | { type: "member"; object: BasesNode; property: string }
+  | { type: "index"; object: BasesNode; index: BasesNode }
+  | { type: "call"; callee: BasesNode; args: BasesNode[] };
+
+/** Puissance de liaison des opérateurs binaires (tous associatifs à gauche). */
+const BINARY_POWER: Record<string, number> = {
+  "||": 1,
+  "&&": 2,
+  "==": 3,
+  "!=": 3,
+  "<": 4,
+  ">": 4,
+  "<=": 4,
+  ">=": 4,
+  "+": 5,
+  "-": 5,
+  "*": 6,
+  "/": 6,
+  "%": 6,
+};
+const PREFIX_POWER = 7;
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): BasesNode {
+    const node = this.expression(0);
+    const rest = this.peek();
+    if (rest.type !== "eof") {
+      throw this.unexpected(rest);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private next(): Token {
+    return this.tokens[this.pos++];
+  }
+
+  private isOp(value: string): boolean {
+    const token = this.peek();
+    return token.type === "op" && token.value === value;
+  }
+
+  private expect(value: string): void {
+    const token = this.next();
+    if (token.type !== "op" || token.value !== value) {
+      throw this.unexpected(token, `« ${value} » attendu`);
+    }
+  }
+
+  private unexpected(token: Token, hint?: string): BasesExpressionError {
+    const what =
+      token.type === "eof"
+        ? "expression incomplète"
+        : `« ${token.value} » inattendu`;
+    return new BasesExpressionError(
+      `${hint ? `${hint}, ` : ""}${what} (position ${token.pos})`,
+    );
+  }
+
+  /** `and` / `or` et `=` sont acceptés comme alias de `&&`, `||` et `==`. */
+  private binaryOperator(token: Token): string | undefined {
+    if (token.type === "ident") {
+      if (token.value === "and") return "&&";
+      if (token.value === "or") return "||";
+      return undefined;
+    }
+    if (token.type !== "op") return undefined;
+    if (token.value === "=") return "==";
+    return token.value in BINARY_POWER ? token.value : undefined;
+  }
+
+  private expression(minPower: number): BasesNode {
+    let left = this.prefix();
+
+    for (;;) {
+      const token = this.peek();
+      if (token.type === "op" && token.value === ".") {
+        this.next();
+        const property = this.next();
+        if (property.type !== "ident") {
+          throw this.unexpected(property, "nom de propriété attendu");
+        }
+        left = { type: "member", object: left, property: property.value };
+        continue;
+      }
+      if (token.type === "op" && token.value === "(") {
+        this.next();
+        left = { type: "call", callee: left, args: this.sequence(")") };
+        continue;
+      }
+      if (token.type === "op" && token.value === "[") {
+        this.next();
+        const index = this.expression(0);
+        this.expect("]");
+        left = { type: "index", object: left, index };
+        continue;
+      }
+
+      const op = this.binaryOperator(token);
+      if (!op || BINARY_POWER[op] <= minPower) break;
+      this.next();
+      const right = this.expression(BINARY_POWER[op]);
+      left = { type: "binary", op, left, right };
+    }
+
+    return left;
+  }
+
+  private prefix(): BasesNode {
+    const token = this.next();
+    switch (token.type) {
+      case "num":
+      case "str":
+        return { type: "literal", value: token.value };
+      case "ident":
+        if (token.value === "true") return { type: "literal", value: true };
+        if (token.value === "false") return { type: "literal", value: false };
+        if (token.value === "null") return { type: "literal", value: null };
+        if (token.value === "not") {
+          return { type: "unary", op: "!", arg: this.expression(PREFIX_POWER) };
+        }
+        return { type: "ident", name: token.value };
+      case "op":
+        if (token.value === "!" || token.value === "-") {
+          return {
+            type: "unary",
+            op: token.value,
+            arg: this.expression(PREFIX_POWER),
+          };
+        }
+        if (token.value === "(") {
+          const inner = this.expression(0);
+          this.expect(")");
+          return inner;
+        }
+        if (token.value === "[") {
+          return { type: "list", items: this.sequence("]") };
+        }
+        if (token.value === "{") {
+          return this.objectLiteral();
+        }
+        break;
+    }
+    throw this.unexpected(token);
+  }
+
+  /** Expressions séparées par des virgules jusqu'à `close` (virgule finale tolérée). */
+  private sequence(close: string): BasesNode[] {
+    const items: BasesNode[] = [];
+    while (!this.isOp(close)) {
+      items.push(this.expression(0));
+      if (!this.isOp(",")) break;
+      this.next();
+    }
+    this.expect(close);
+    return items;
+  }
+
+  private objectLiteral(): BasesNode {
+    const entries: [string, BasesNode][] = [];
+    while (!this.isOp("}")) {
+      const key = this.next();
+      if (key.type !== "ident" && key.type !== "str") {
+        throw this.unexpected(key, "clé attendue");
+      }
+      this.expect(":");
+      entries.push([key.value, this.expression(0)]);
+      if (!this.isOp(",")) break;
+      this.next();
+    }
+    this.expect("}");
+    return { type: "object", entries };
+  }
+}
+
+const PARSE_CACHE = new Map<string, BasesNode>();
+const PARSE_CACHE_LIMIT = 500;
+
+/** Parse une expression (mise en cache : les mêmes filtres sont évalués pour chaque fichier). */
+export function parseBasesExpression(source: string): BasesNode {
+  const cached = PARSE_CACHE.get(source);
+  if (cached) return cached;
+  const node = new Parser(tokenize(source)).parse();
+  if (PARSE_CACHE.size >= PARSE_CACHE_LIMIT) {
+    PARSE_CACHE.delete(PARSE_CACHE.keys().next().value as string);
+  }
+  PARSE_CACHE.set(source, node);
+  return node;
+}
+
+/** -------- Dates et durées -------- */
+
+const pad = (value: number, width = 2) => String(value).padStart(width, "0");
+
+const DATE_REGEX =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?)?$/;
+
+/** `YYYY-MM-DD[ HH:mm[:ss]]` en heure locale ; sinon tout format ISO avec fuseau. */
+export function parseDate(value: string): Date | undefined {
+  const trimmed = value.trim();
+  const match = trimmed.match(DATE_REGEX);
+  if (match) {
+    const [, y, mo, d, h, mi, s, ms] = match;
+    const date = new Date(
+      Number(y),
+      Number(mo) - 1,
+      Number(d),
+      Number(h ?? 0),
+      Number(mi ?? 0),
+      Number(s ?? 0),
+      Number((ms ?? "0").padEnd(3, "0")),
+    );
+    return Number.isNaN(date.getTime()) ? undefined : date;
+  }
+  if (!/^\d{4}-\d{2}-\d{2}T.+(?:Z|[+-]\d{2}:?\d{2})$/.test(trimmed)) {
+    return undefined;
+  }
+  const date = new Date(trimmed);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+const DURATION_UNITS: Record<string, [keyof BasesDuration, number]> = {
+  y: ["months", 12],
+  year: ["months", 12],
+  years: ["months", 12],
+  M: ["months", 1],
+  month: ["months", 1],
+  months: ["months", 1],
+  w: ["days", 7],
+  week: ["days", 7],
+  weeks: ["days", 7],
+  d: ["days", 1],
+  day: ["days", 1],
+  days: ["days", 1],
+  h: ["ms", 3_600_000],
+  hour: ["ms", 3_600_000],
+  hours: ["ms", 3_600_000],
+  m: ["ms", 60_000],
+  min: ["ms", 60_000],
+  minute: ["ms", 60_000],
+  minutes: ["ms", 60_000],
+  s: ["ms", 1000],
+  sec: ["ms", 1000],
+  second: ["ms", 1000],
+  seconds: ["ms", 1000],
+  ms: ["ms", 1],
+};
+
+/** `"1d"`, `"2 weeks"`, `"-3h"`, `"1y 2M"` ; `M` = mois, `m` = minutes. */
+export function parseDuration(value: string): BasesDuration | undefined {
+  const source = value.trim();
+  if (!source) return undefined;
+  const parts = { months: 0, days: 0, ms: 0 };
+  const pattern = /(-?\d+(?:\.\d+)?)\s*([a-zA-Z]+)\s*/y;
+  while (pattern.lastIndex < source.length) {
+    const match = pattern.exec(source);
+    if (!match) return undefined;
+    const unit =
+      DURATION_UNITS[match[2] === "M" ? "M" : match[2].toLowerCase()];
+    if (!unit) return undefined;
+    parts[unit[0]] += Number(match[1]) * unit[1];
+  }
+  return new BasesDuration(
+    Math.round(parts.months),
+    Math.round(parts.days),
+    parts.ms,
+  );
+}
+
+function addDuration(date: Date, duration: BasesDuration, sign: 1 | -1): Date {
+  const result = new Date(date.getTime());
+  if (duration.months) {
+    // Le jour est ramené au dernier du mois : 31 janvier + 1 mois = 28 (ou 29) février.
+    const day = result.getDate();
+    result.setDate(1);
+    result.setMonth(result.getMonth() + sign * duration.months);
+    const lastDay = new Date(
+      result.getFullYear(),
+      result.getMonth() + 1,
+      0,
+    ).getDate();
+    result.setDate(Math.min(day, lastDay));
+  }
+  if (duration.days) result.setDate(result.getDate() + sign * duration.days);
+  result.setTime(result.getTime() + sign * duration.ms);
+  return result;
+}
+
+const MONTHS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+/** Sous-ensemble des jetons de format Moment (`YYYY-MM-DD HH:mm`, `[texte]`...). */
+export function formatDate(date: Date, format: string): string {
+  return format.replace(
+    /\[([^\]]*)\]|YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|hh|h|mm|m|ss|s|SSS|A|a/g,
+    (token, literal) => {
+      if (literal !== undefined) return literal;
+      const hours = date.getHours();
+      switch (token) {
+        case "YYYY":
+          return String(date.getFullYear());
+        case "YY":
+          return pad(date.getFullYear() % 100);
+        case "MMMM":
+          return MONTHS[date.getMonth()];
+        case "MMM":
+          return MONTHS[date.getMonth()].slice(0, 3);
+        case "MM":
+          return pad(date.getMonth() + 1);
+        case "M":
+          return String(date.getMonth() + 1);
+        case "DD":
+          return pad(date.getDate());
+        case "D":
+          return String(date.getDate());
+        case "dddd":
+          return WEEKDAYS[date.getDay()];
+        case "ddd":
+          return WEEKDAYS[date.getDay()].slice(0, 3);
+        case "HH":
+          return pad(hours);
+        case "H":
+          return String(hours);
+        case "hh":
+          return pad(hours % 12 || 12);
+        case "h":
+          return String(hours % 12 || 12);
+        case "mm":
+          return pad(date.getMinutes());
+        case "m":
+          return String(date.getMinutes());
+        case "ss":
+          return pad(date.getSeconds());
+        case "s":
+          return String(date.getSeconds());
+        case "SSS":
+          return pad(date.getMilliseconds(), 3);
+        case "A":
+          return hours < 12 ? "AM" : "PM";
+        default:
+          return hours < 12 ? "am" : "pm";
+      }
+    },
+  );
+}
+
+const hasTime = (date: Date) =>
+  date.getHours() !== 0 ||
+  date.getMinutes() !== 0 ||
+  date.getSeconds() !== 0 ||
+  date.getMilliseconds() !== 0;
+
+function relativeTime(date: Date, now: number): string {
+  const diff = date.getTime() - now;
+  const seconds = Math.abs(diff) / 1000;
+  const steps: [number, string][] = [
+    [60, "second"],
+    [60, "minute"],
+    [24, "hour"],
+    [30, "day"],
+    [12, "month"],
+    [Infinity, "year"],
+  ];
+  let amount = seconds;
+  for (const [size, unit] of steps) {
+    if (amount < size) {
+      const rounded = Math.max(1, Math.round(amount));
+      const label = `${rounded} ${unit}${rounded === 1 ? "" : "s"}`;
+      return diff >= 0 ? `in ${label}` : `${label} ago`;
+    }
+    amount /= size;
+  }
+  return "";
+}
+
+/** -------- Conversions et comparaisons -------- */
+
+/** Cible de lien comparable : sans `[[ ]]`, alias, ancre ni extension `.md`. */
+export function normalizeLinkish(value: string): string {
+  let v = String(value ?? "").trim();
+  const wiki = v.match(/^!?\[\[(.*)\]\]$/);
+  if (wiki) v = wiki[1];
+  v = v.split("|")[0] ?? v;
+  v = v.split("#")[0] ?? v;
+  v = v.replace(/\.md$/i, "");
+  return v.trim();
+}
+
+/** Un lien court (`Note`) désigne tout fichier de ce nom ; un chemin se compare par suffixe. */
+function linksMatch(a: string, b: string): boolean {
+  const left = normalizeLinkish(a).toLowerCase();
+  const right = normalizeLinkish(b).toLowerCase();
+  if (!left || !right) return false;
+  return (
+    left === right || left.endsWith(`/${right}`) || right.endsWith(`/${left}`)
+  );
+}
+
+const linkTarget = (value: unknown): string =>
+  value instanceof BasesLink
+    ? value.path
+    : value instanceof BasesFile
+      ? value.info.path
+      : String(value ?? "");
+
+const isNumericLike = (value: unknown): boolean =>
+  typeof value === "number"
+    ? Number.isFinite(value)
+    : typeof value === "string" &&
+      value.trim() !== "" &&
+      Number.isFinite(Number(value));
+
+const toNumber = (value: unknown): number => {
+  if (typeof value === "number") return value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === "string" && value.trim() !== "") return Number(value);
+  return NaN;
+};
+
+function toDate(value: unknown): Date | undefined {
+  if (value instanceof Date) return value;
+  if (typeof value === "number" && Number.isFinite(value))
+    return new Date(value);
+  if (typeof value === "string") return parseDate(value);
+  return undefined;
+}
+
+function toDuration(value: unknown): BasesDuration | undefined {
+  if (value instanceof BasesDuration) return value;
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return new BasesDuration(0, 0, value);
+  }
+  if (typeof value === "string") return parseDuration(value);
+  return undefined;
+}
+
+export function typeOf(value: unknown): string {
+  if (value === null || value === undefined) return "null";
+  if (Array.isArray(value)) return "list";
+  if (value instanceof Date) return "date";
+  if (value instanceof BasesDuration) return "duration";
+  if (value instanceof BasesLink) return "link";
+  if (value instanceof BasesFile) return "file";
+  return typeof value === "object" ? "object" : typeof value;
+}
+
+export function isTruthy(value: unknown): boolean {
+  if (value === null || value === undefined) return false;
+  if (typeof value === "boolean") return value;
+  if (typeof value === "number") return value !== 0 && !Number.isNaN(value);
+  if (typeof value === "string") return value.trim().length > 0;
+  if (Array.isArray(value)) return value.length > 0;
+  if (value instanceof Date) return !Number.isNaN(value.getTime());
+  if (value instanceof BasesDuration) {
+    return value.months !== 0 || value.days !== 0 || value.ms !== 0;
+  }
+  if (value instanceof BasesLink || value instanceof BasesFile) return true;
+  if (value === FORMULA_SCOPE) return true;
+  return Object.keys(value as object).length > 0;
+}
+
+export function isEmptyValue(value: unknown): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value === "string" || Array.isArray(value))
+    return value.length === 0;
+  if (
+    typeof value === "object" &&
+    value.constructor === Object &&
+    Object.keys(value).length === 0
+  ) {
+    return true;
+  }
+  return false;
+}
+
+/** Texte affiché d'une valeur (concaténation, `toString()`, `join()`). */
+export function displayString(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) {
+    return formatDate(
+      value,
+      hasTime(value) ? "YYYY-MM-DD HH:mm" : "YYYY-MM-DD",
+    );
+  }
+  if (value instanceof BasesLink) return value.display ?? value.path;
+  if (value instanceof BasesFile) return value.info.path;
+  if (value instanceof BasesDuration) {
+    const parts: string[] = [];
+    if (value.months) parts.push(`${value.months}M`);
+    if (value.days) parts.push(`${value.days}d`);
+    if (value.ms || !parts.length) parts.push(`${value.ms}ms`);
+    return parts.join(" ");
+  }
+  if (Array.isArray(value)) return value.map(displayString).join(", ");
+  if (typeof value === "object") return JSON.stringify(toJSONValue(value));
+  return String(value);
+}
+
+/** Valeur sérialisable d'un résultat (dates en ISO local, liens en `[[...]]`). */
+export function toJSONValue(value: unknown): unknown {
+  if (value instanceof Date) {
+    return formatDate(
+      value,
+      hasTime(value) ? "YYYY-MM-DD[T]HH:mm:ss" : "YYYY-MM-DD",
+    );
+  }
+  if (value instanceof BasesLink) {
+    return value.display
+      ? `[[${value.path}|${value.display}]]`
+      : `[[${value.path}]]`;
+  }
+  if (value instanceof BasesFile) return value.info.path;
+  if (value instanceof BasesDuration) return displayString(value);
+  if (value === FORMULA_SCOPE) return undefined;
+  if (Array.isArray(value)) return value.map(toJSONValue);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, toJSONValue(entry)]),
+    );
+  }
+  return value;
+}
+
+/** Ordre de deux valeurs, ou `undefined` si elles ne sont pas comparables. */
+export function compareValues(a: unknown, b: unknown): number | undefined {
+  if (a === null || a === undefined || b === null || b === undefined) {
+    return undefined;
+  }
+  if (a instanceof Date || b instanceof Date) {
+    const left = toDate(a);
+    const right = toDate(b);
+    return left && right ? left.getTime() - right.getTime() : undefined;
+  }
+  if (isNumericLike(a) && isNumericLike(b)) return toNumber(a) - toNumber(b);
+  const left = displayString(a);
+  const right = displayString(b);
+  return left === right ? 0 : left < right ? -1 : 1;
+}
+
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  const aMissing = a === null || a === undefined;
+  const bMissing = b === null || b === undefined;
+  if (aMissing || bMissing) return aMissing && bMissing;
+  if (
+    a instanceof BasesLink ||
+    b instanceof BasesLink ||
+    a instanceof BasesFile ||
+    b instanceof BasesFile
+  ) {
+    return linksMatch(linkTarget(a), linkTarget(b));
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, index) => valuesEqual(item, b[index]))
+    );
+  }
+  if (typeof a === "boolean" || typeof b === "boolean") {
+    return String(a) === String(b);
+  }
+  const order = compareValues(a, b);
+  return order === undefined ? false : order === 0;
+}
+
+/** -------- Évaluateur -------- */
+
+type Scope = Record<string, unknown>;
+type Method<T> = (
+  evaluator: Evaluator,
+  target: T,
+  args: BasesNode[],
+  scope: Scope,
+) => unknown;
+
+const startOfDay = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+class Evaluator {
+  private fileValue?: BasesFile;
+
+  constructor(readonly ctx: BasesEvalContext) {}
+
+  get now(): number {
+    return this.ctx.now ?? Date.now();
+  }
+
+  evaluate(node: BasesNode, scope: Scope): unknown {
+    switch (node.type) {
+      case "literal":
+        return node.value;
+      case "list":
+        return node.items.map((item) => this.evaluate(item, scope));
+      case "object":
+        return Object.fromEntries(
+          node.entries.map(([key, value]) => [
+            key,
+            this.evaluate(value, scope),
+          ]),
+        );
+      case "ident":
+        return this.identifier(node.name, scope);
+      case "unary": {
+        const value = this.evaluate(node.arg, scope);
+        if (node.op === "!") return !isTruthy(value);
+        const number = toNumber(value);
+        return Number.isNaN(number) ? null : -number;
+      }
+      case "binary":
+        return this.binary(node.op, node.left, node.right, scope);
+      case "member":
+        return this.member(this.evaluate(node.object, scope), node.property);
+      case "index": {
+        const target = this.evaluate(node.object, scope);
+        const key = this.evaluate(node.index, scope);
+        if (Array.isArray(target) || typeof target === "string") {
+          const index = toNumber(key);
+          return target[index < 0 ? target.length + index : index] ?? null;
+        }
+        return this.member(target, displayString(key));
+      }
+      case "call":
+        if (node.callee.type === "ident") {
+          return this.callFunction(node.callee.name, node.args, scope);
+        }
+        if (node.callee.type === "member") {
+          const target = this.evaluate(node.callee.object, scope);
+          return this.callMethod(
+            target,
+            node.callee.property,
+            node.args,
+            scope,
+          );
+        }
+        throw new BasesExpressionError("Appel de fonction invalide");
+    }
+  }
+
+  args(nodes: BasesNode[], scope: Scope): unknown[] {
+    return nodes.map((node) => this.evaluate(node, scope));
+  }
+
+  wrapFile(info: BasesFileInfo | undefined): BasesFile | null {
+    return info ? new BasesFile(info) : null;
+  }
+
+  private identifier(name: string, scope: Scope): unknown {
+    if (Object.prototype.hasOwnProperty.call(scope, name)) return scope[name];
+    switch (name) {
+      case "file":
+        this.fileValue ??= new BasesFile(this.ctx.file);
+        return this.fileValue;
+      case "note":
+        return this.ctx.file.properties();
+      case "formula":
+        return FORMULA_SCOPE;
+      default:
+        // Un nom nu désigne une propriété de la note.
+        return this.ctx.file.properties()[name];
+    }
+  }
+
+  private binary(
+    op: string,
+    leftNode: BasesNode,
+    rightNode: BasesNode,
+    scope: Scope,
+  ): unknown {
+    if (op === "&&") {
+      return (
+        isTruthy(this.evaluate(leftNode, scope)) &&
+        isTruthy(this.evaluate(rightNode, scope))
+      );
+    }
+    if (op === "||") {
+      return (
+        isTruthy(this.evaluate(leftNode, scope)) ||
+        isTruthy(this.evaluate(rightNode, scope))
+      );
+    }
+
+    const left = this.evaluate(leftNode, scope);
+    const right = this.evaluate(rightNode, scope);
+    switch (op) {
+      case "==":
+        return valuesEqual(left, right);
+      case "!=":
+        return !valuesEqual(left, right);
+      case "<":
+      case ">":
+      case "<=":
+      case ">=": {
+        const order = compareValues(left, right);
+        if (order === undefined) return false;
+        return op === "<"
+          ? order < 0
+          : op === ">"
+            ? order > 0
+            : op === "<="
+              ? order <= 0
+              : order >= 0;
+      }
+      case "+":
+        return add(left, right);
+      case "-":
+        return subtract(left, right);
+      default: {
+        const a = toNumber(left);
+        const b = toNumber(right);
+        if (Number.isNaN(a) || Number.isNaN(b)) return null;
+        if (op === "*") return a * b;
+        if (b === 0) return null;
+        return op === "/" ? a / b : a % b;
+      }
+    }
+  }
+
+  private member(target: unknown, property: string): unknown {
+    if (target === null || target === undefined) return null;
+    if (target === FORMULA_SCOPE) return this.ctx.formula?.(property) ?? null;
+    if (target instanceof BasesFile) return fileField(target.info, property);
+    if (target instanceof Date) return dateField(target, property);
+    if (
+      (typeof target === "string" || Array.isArray(target)) &&
+      property === "length"
+    ) {
+      return target.length;
+    }
+    if (
+      typeof target === "object" &&
+      !Array.isArray(target) &&
+      !(target instanceof BasesLink) &&
+      !(target instanceof BasesDuration)
+    ) {
+      return (target as Record<string, unknown>)[property] ?? null;
+    }
+    return null;
+  }
+
+  private callFunction(
+    name: string,
+    argNodes: BasesNode[],
+    scope: Scope,
+  ): unknown {
+    if (name === "if") {
+      if (argNodes.length < 2) {
+        throw new BasesExpressionError("if() attend au moins 2 arguments");
+      }
+      return isTruthy(this.evaluate(argNodes[0], scope))
+        ? this.evaluate(argNodes[1], scope)
+        : argNodes[2]
+          ? this.evaluate(argNodes[2], scope)
+          : null;
+    }
+
+    const fn = FUNCTIONS[name];
+    if (!fn) throw new BasesExpressionError(`Fonction inconnue: ${name}()`);
+    return fn(this, this.args(argNodes, scope));
+  }
+
+  private callMethod(
+    target: unknown,
+    name: string,
+    argNodes: BasesNode[],
+    scope: Scope,
+  ): unknown {
+    const generic = ANY_METHODS[name];
+    if (generic) return generic(this, target, argNodes, scope);
+    // Appel sur une propriété absente : null plutôt qu'une erreur, comme dans Obsidian.
+    if (target === null || target === undefined) return null;
+
+    const method = boundMethod(target, name);
+    if (!method) {
+      throw new BasesExpressionError(
+        `Méthode inconnue: ${typeOf(target)}.${name}()`,
+      );
+    }
+    return method(this, argNodes, scope);
+  }
+}
+
+function add(left: unknown, right: unknown): unknown {
+  const leftDate = left instanceof Date ? left : undefined;
+  const rightDate = right instanceof Date ? right : undefined;
+  if (leftDate || rightDate) {
+    const date = (leftDate ?? rightDate)!;
+    const duration = toDuration(leftDate ? right : left);
+    return duration ? addDuration(date, duration, 1) : null;
+  }
+  if (left instanceof BasesDuration && right instanceof BasesDuration) {
+    return new BasesDuration(
+      left.months + right.months,
+      left.days + right.days,
+      left.ms + right.ms,
+    );
+  }
+  // Date écrite en texte (frontmatter non typé) + durée : calcul de date, pas concaténation.
+  if (typeof left === "string" && typeof right === "string") {
+    const date = parseDate(left);
+    const duration = date ? parseDuration(right) : undefined;
+    if (date && duration) return addDuration(date, duration, 1);
+  }
+  if (Array.isArray(left) && Array.isArray(right)) return [...left, ...right];
+  if (typeof left === "string" || typeof right === "string") {
+    return displayString(left) + displayString(right);
+  }
+  const a = toNumber(left);
+  const b = toNumber(right);
+  return Number.isNaN(a) || Number.isNaN(b) ? null : a + b;
+}
+
+function subtract(left: unknown, right: unknown): unknown {
+  const leftDate =
+    left instanceof Date
+      ? left
+      : typeof left === "string"
+        ? parseDate(left)
+        : undefined;
+  if (leftDate && (left instanceof Date || !isNumericLike(left))) {
+    const rightDate =
+      right instanceof Date
+        ? right
+        : typeof right === "string"
+          ? parseDate(right)
+          : undefined;
+    if (rightDate) return leftDate.getTime() - rightDate.getTime();
+    const duration = toDuration(right);
+    if (duration) return addDuration(leftDate, duration, -1);
+    return null;
+  }
+  if (left instanceof BasesDuration && right instanceof BasesDuration) {
+    return new BasesDuration(
+      left.months - right.months,
+      left.days - right.days,
+      left.ms - right.ms,
+    );
+  }
+  const a = toNumber(left);
+  const b = toNumber(right);
+  return Number.isNaN(a) || Number.isNaN(b) ? null : a - b;
+}
+
+function fileField(info: BasesFileInfo, property: string): unknown {
+  const path = info.path;
+  const slash = path.lastIndexOf("/");
+  const name = path.slice(slash + 1);
+  const dot = name.lastIndexOf(".");
+  switch (property) {
+    case "path":
+      return path;
+    case "name":
+      return name;
+    case "basename":
+      return dot > 0 ? name.slice(0, dot) : name;
+    case "ext":
+      return dot > 0 ? name.slice(dot + 1) : "";
+    case "folder":
+      return slash === -1 ? "" : path.slice(0, slash);
+    case "size":
+      return info.size;
+    case "ctime":
+      return new Date(info.ctime);
+    case "mtime":
+      return new Date(info.mtime);
+    case "tags":
+      return info.tags();
+    case "links":
+      return info.links().map((link) => new BasesLink(normalizeLinkish(link)));
+    case "properties":
+      return info.properties();
+    default:
+      return null;
+  }
+}
+
+function dateField(date: Date, property: string): unknown {
+  switch (property) {
+    case "year":
+      return date.getFullYear();
+    case "month":
+      return date.getMonth() + 1;
+    case "day":
+      return date.getDate();
+    case "hour":
+      return date.getHours();
+    case "minute":
+      return date.getMinutes();
+    case "second":
+      return date.getSeconds();
+    case "millisecond":
+      return date.getMilliseconds();
+    default:
+      return null;
+  }
+}
+
+const numbers = (values: unknown[]): number[] =>
+  values
+    .flat(Infinity)
+    .map(toNumber)
+    .filter((value) => !Number.isNaN(value));
+
+const FUNCTIONS: Record<
+  string,
+  (evaluator: Evaluator, args: unknown[]) => unknown
+> = {
+  now: (evaluator) => new Date(evaluator.now),
+  today: (evaluator) => startOfDay(new Date(evaluator.now)),
+  date: (_, [value]) => toDate(value) ?? null,
+  duration: (_, [value]) => toDuration(value) ?? null,
+  number: (_, [value]) => {
+    const number = toNumber(value);
+    return Number.isNaN(number) ? null : number;
+  },
+  list: (_, [value]) =>
+    Array.isArray(value)
+      ? value
+      : value === null || value === undefined
+        ? []
+        : [value],
+  link: (_, [target, display]) =>
+    new BasesLink(
+      normalizeLinkish(linkTarget(target)),
+      display === undefined || display === null
+        ? undefined
+        : displayString(display),
+    ),
+  file: (evaluator, [target]) =>
+    evaluator.wrapFile(evaluator.ctx.resolveFile?.(linkTarget(target))),
+  max: (_, args) => {
+    const values = numbers(args);
+    return values.length ? Math.max(...values) : null;
+  },
+  min: (_, args) => {
+    const values = numbers(args);
+    return values.length ? Math.min(...values) : null;
+  },
+  // Fonctions d'affichage : la valeur brute suffit hors de l'interface.
+  icon: (_, [value]) => value ?? null,
+  image: (_, [value]) => value ?? null,
+  escapeHTML: (_, [value]) =>
+    displayString(value)
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;"),
+};
+
+/** Méthode dont les arguments sont évalués avant l'appel. */
+const eager =
+  <T>(
+    fn: (target: T, args: unknown[], evaluator: Evaluator) => unknown,
+  ): Method<T> =>
+  (evaluator, target, args, scope) =>
+    fn(target, evaluator.args(args, scope), evaluator);
+
+const ANY_METHODS: Record<string, Method<unknown>> = {
+  isTruthy: eager((target) => isTruthy(target)),
+  isEmpty: eager((target) => isEmptyValue(target)),
+  isType: eager((target, [type]) => typeOf(target) === displayString(type)),
+  toString: eager((target) => displayString(target)),
+};
+
+const containsAll = (has: (value: unknown) => boolean, values: unknown[]) =>
+  values.every(has);
+const containsAny = (has: (value: unknown) => boolean, values: unknown[]) =>
+  values.some(has);
+
+const STRING_METHODS: Record<string, Method<string>> = {
+  contains: eager((target: string, [value]) =>
+    target.includes(displayString(value)),
+  ),
+  containsAll: eager((target: string, values) =>
+    containsAll((value) => target.includes(displayString(value)), values),
+  ),
+  containsAny: eager((target: string, values) =>
+    containsAny((value) => target.includes(displayString(value)), values),
+  ),
+  startsWith: eager((target: string, [value]) =>
+    target.startsWith(displayString(value)),
+  ),
+  endsWith: eager((target: string, [value]) =>
+    target.endsWith(displayString(value)),
+  ),
+  lower: eager((target: string) => target.toLowerCase()),
+  upper: eager((target: string) => target.toUpperCase()),
+  title: eager((target: string) =>
+    target.replace(
+      /\p{L}[\p{L}\p{N}']*/gu,
+      (word) => word[0].toUpperCase() + word.slice(1).toLowerCase(),
+    ),
+  ),
+  trim: eager((target: string) => target.trim()),
+  replace: eager((target: string, [pattern, replacement]) =>
+    target.split(displayString(pattern)).join(displayString(replacement)),
+  ),
+  repeat: eager((target: string, [count]) =>
+    target.repeat(Math.max(0, toNumber(count) || 0)),
+  ),
+  reverse: eager((target: string) => [...target].reverse().join("")),
+  slice: eager((target: string, [start, end]) =>
+    target.slice(
+      toNumber(start) || 0,
+      end === undefined ? undefined : toNumber(end),
+    ),
+  ),
+  split: eager((target: string, [separator, limit]) =>
+    target.split(
+      displayString(separator),
+      limit === undefined ? undefined : toNumber(limit),
+    ),
+  ),
+};
+
+const NUMBER_METHODS: Record<string, Method<number>> = {
+  abs: eager((target: number) => Math.abs(target)),
+  ceil: eager((target: number) => Math.ceil(target)),
+  floor: eager((target: number) => Math.floor(target)),
+  round: eager((target: number, [digits]) => {
+    const factor = 10 ** (toNumber(digits) || 0);
+    return Math.round(target * factor) / factor;
+  }),
+  toFixed: eager((target: number, [digits]) =>
+    target.toFixed(toNumber(digits) || 0),
+  ),
+};
+
+const DATE_METHODS: Record<string, Method<Date>> = {
+  date: eager((target: Date) => startOfDay(target)),
+  time: eager((target: Date) => formatDate(target, "HH:mm:ss")),
+  format: eager((target: Date, [format]) =>
+    formatDate(
+      target,
+      format === undefined ? "YYYY-MM-DD" : displayString(format),
+    ),
+  ),
+  relative: eager((target: Date, _, evaluator) =>
+    relativeTime(target, evaluator.now),
+  ),
+};
+
+/** `value`, `index` (et `acc` pour reduce) sont visibles dans l'expression passée. */
+const withItems = (
+  evaluator: Evaluator,
+  list: unknown[],
+  scope: Scope,
+  body: BasesNode | undefined,
+  name: string,
+) => {
+  if (!body) throw new BasesExpressionError(`${name}() attend une expression`);
+  return list.map((value, index) => ({
+    value,
+    result: evaluator.evaluate(body, { ...scope, value, index }),
+  }));
+};
+
+const LIST_METHODS: Record<string, Method<unknown[]>> = {
+  contains: eager((target: unknown[], [value]) =>
+    target.some((item) => valuesEqual(item, value)),
+  ),
+  containsAll: eager((target: unknown[], values) =>
+    containsAll(
+      (value) => target.some((item) => valuesEqual(item, value)),
+      values,
+    ),
+  ),
+  containsAny: eager((target: unknown[], values) =>
+    containsAny(
+      (value) => target.some((item) => valuesEqual(item, value)),
+      values,
+    ),
+  ),
+  join: eager((target: unknown[], [separator]) =>
+    target
+      .map(displayString)
+      .join(separator === undefined ? ", " : displayString(separator)),
+  ),
+  reverse: eager((target: unknown[]) => [...target].reverse()),
+  sort: eager((target: unknown[]) =>
+    [...target].sort((a, b) => compareValues(a, b) ?? 0),
+  ),
+  unique: eager((target: unknown[]) =>
+    target.filter(
+      (item, index) =>
+        target.findIndex((other) => valuesEqual(other, item)) === index,
+    ),
+  ),
+  flat: eager((target: unknown[]) => target.flat(Infinity)),
+  slice: eager((target: unknown[], [start, end]) =>
+    target.slice(
+      toNumber(start) || 0,
+      end === undefined ? undefined : toNumber(end),
+    ),
+  ),
+  filter: (evaluator, target: unknown[], [body], scope) =>
+    withItems(evaluator, target, scope, body, "filter")
+      .filter(({ result }) => isTruthy(result))
+      .map(({ value }) => value),
+  map: (evaluator, target: unknown[], [body], scope) =>
+    withItems(evaluator, target, scope, body, "map").map(
+      ({ result }) => result,
+    ),
+  reduce: (evaluator, target: unknown[], [body, initial], scope) => {
+    if (!body) throw new BasesExpressionError("reduce() attend une expression");
+    let acc = initial ? evaluator.evaluate(initial, scope) : null;
+    target.forEach((value, index) => {
+      acc = evaluator.evaluate(body, { ...scope, acc, value, index });
+    });
+    return acc;
+  },
+};
+
+const FILE_METHODS: Record<string, Method<BasesFile>> = {
+  asLink: eager(
+    (target: BasesFile, [display]) =>
+      new BasesLink(
+        normalizeLinkish(target.info.path),
+        display === undefined ? undefined : displayString(display),
+      ),
+  ),
+  hasTag: eager((target: BasesFile, tags) => {
+    const own = target.info.tags().map((tag) => tag.toLowerCase());
+    return tags.some((tag) => {
+      const wanted = displayString(tag).replace(/^#/, "").toLowerCase();
+      return own.some(
+        (candidate) =>
+          candidate === wanted || candidate.startsWith(`${wanted}/`),
+      );
+    });
+  }),
+  hasLink: eager((target: BasesFile, [link]) =>
+    target.info
+      .links()
+      .some((candidate) => linksMatch(candidate, linkTarget(link))),
+  ),
+  hasProperty: eager((target: BasesFile, [name]) =>
+    Object.prototype.hasOwnProperty.call(
+      target.info.properties(),
+      displayString(name),
+    ),
+  ),
+  inFolder: eager((target: BasesFile, [folder]) => {
+    const wanted = displayString(folder)
+      .replace(/\\/g, "/")
+      .replace(/^\/+|\/+$/g, "");
+    return !wanted || target.info.path.startsWith(`${wanted}/`);
+  }),
+};
+
+const LINK_METHODS: Record<string, Method<BasesLink>> = {
+  asFile: eager((target: BasesLink, _, evaluator) =>
+    evaluator.wrapFile(evaluator.ctx.resolveFile?.(target.path)),
+  ),
+  linksTo: eager((target: BasesLink, [other]) =>
+    linksMatch(target.path, linkTarget(other)),
+  ),
+};
+
+const OBJECT_METHODS: Record<string, Method<Record<string, unknown>>> = {
+  keys: eager((target: Record<string, unknown>) => Object.keys(target)),
+  values: eager((target: Record<string, unknown>) => Object.values(target)),
+};
+
+const isObjectValue = (value: unknown): value is Record<string, unknown> =>
+  typeOf(value) === "object";
+
+/** Méthode `name` du type de `target`, liée à la valeur une fois son type vérifié. */
+function boundMethod(
+  target: unknown,
+  name: string,
+):
+  | ((evaluator: Evaluator, args: BasesNode[], scope: Scope) => unknown)
+  | undefined {
+  const bind = <T>(methods: Record<string, Method<T>>, value: T) => {
+    const method = methods[name];
+    return method
+      ? (evaluator: Evaluator, args: BasesNode[], scope: Scope) =>
+          method(evaluator, value, args, scope)
+      : undefined;
+  };
+  if (typeof target === "string") return bind(STRING_METHODS, target);
+  if (typeof target === "number") return bind(NUMBER_METHODS, target);
+  if (target instanceof Date) return bind(DATE_METHODS, target);
+  if (Array.isArray(target)) return bind<unknown[]>(LIST_METHODS, target);
+  if (target instanceof BasesFile) return bind(FILE_METHODS, target);
+  if (target instanceof BasesLink) return bind(LINK_METHODS, target);
+  if (isObjectValue(target)) return bind(OBJECT_METHODS, target);
+  return undefined;
+}
+
+/**
+ * Évalue une expression pour un fichier.
+ * @throws BasesExpressionError si l'expression est invalide ou appelle une fonction inconnue.
+ */
+export function evaluateBasesExpression(
+  source: string,
+  ctx: BasesEvalContext,
+): unknown {
+  return new Evaluator(ctx).evaluate(parseBasesExpression(source), {});
+}
@@ -0,0 +1,6 @@
+/**
+ * Barrel file for the Bases services.
+ */
+export * from "./service.js";
+export { extractBaseSchema, LocalBasesEngine } from "./engine.js";
+export type { LocalBasesEngineOptions } from "./engine.js";
@@ -0,0 +1,257 @@
+/**
+ * Création de lignes dans une Base : ce que les filtres imposent à une nouvelle note
+ * (dossier, tags, propriétés) et rendu des modèles. Partagé, comme `expression.ts`, par le
+ * moteur local du serveur et le plugin Bases Bridge.
+ */
+
+import {
+  BasesNode,
+  formatDate,
+  normalizeLinkish,
+  parseBasesExpression,
+} from "./expression.js";
+
+/** Valeurs qu'une note doit porter pour satisfaire les filtres d'une base. */
+export interface BasesInsertDefaults {
+  folder?: string;
+  frontmatter: Record<string, unknown>;
+  /** Valeurs à ajouter aux propriétés de type liste (`tags`, `x.contains(...)`). */
+  lists: Record<string, unknown[]>;
+  /** Conditions dont aucune valeur ne se déduit (`or`, `not`, comparaisons d'ordre…). */
+  skipped: string[];
+}
+
+const isAndFilter = (filter: unknown): filter is { and: unknown[] } =>
+  typeof filter === "object" &&
+  filter !== null &&
+  "and" in filter &&
+  Array.isArray(filter.and);
+
+/**
+ * Lit les filtres (`and` / `or` / `not` ou expressions) et en déduit les valeurs imposées.
+ * Seules les branches `and` sont suivies ; le reste est listé dans `skipped`.
+ */
+export function insertDefaults(...filters: unknown[]): BasesInsertDefaults {
+  const defaults: BasesInsertDefaults = {
+    frontmatter: {},
+    lists: {},
+    skipped: [],
+  };
+  const visit = (filter: unknown) => {
+    if (!filter) return;
+    if (typeof filter === "string") {
+      const statement = filter.trim();
+      if (!statement) return;
+      let node: BasesNode;
+      try {
+        node = parseBasesExpression(statement);
+      } catch {
+        defaults.skipped.push(statement);
+        return;
+      }
+      if (!collect(node, defaults)) defaults.skipped.push(statement);
+      return;
+    }
+    if (Array.isArray(filter)) {
+      filter.forEach(visit);
+      return;
+    }
+    if (isAndFilter(filter)) {
+      filter.and.forEach(visit);
+      return;
+    }
+    defaults.skipped.push(JSON.stringify(filter));
+  };
+  filters.forEach(visit);
+  return defaults;
+}
+
+/**
+ * Chemin de la note à créer (ou du modèle) : `.md` ajouté, nom seul placé dans le dossier de
+ * la base. Lève une erreur quand le chemin sort du coffre (`../x`, `a/../../x`).
+ */
+export function insertPath(file: string, folder?: string): string {
+  const clean = file.trim().replace(/\\/g, "/").replace(/^\/+/, "");
+  const withExt = /\.md$/i.test(clean) ? clean : `${clean}.md`;
+  const joined =
+    folder && !withExt.includes("/") ? `${folder}/${withExt}` : withExt;
+  const segments: string[] = [];
+  for (const segment of joined.split("/")) {
+    if (!segment || segment === ".") continue;
+    if (segment !== "..") segments.push(segment);
+    else if (!segments.pop()) {
+      throw new Error(`Chemin hors du coffre: ${file}`);
+    }
+  }
+  return segments.join("/");
+}
+
+/** Frontmatter final : modèle, puis valeurs imposées, puis `set`, listes complétées. */
+export function insertFrontmatter(
+  defaults: BasesInsertDefaults,
+  template: Record<string, unknown>,
+  set: Record<string, unknown>,
+): Record<string, unknown> {
+  const frontmatter: Record<string, unknown> = {
+    ...template,
+    ...defaults.frontmatter,
+    ...set,
+  };
+  for (const [key, values] of Object.entries(defaults.lists)) {
+    const current = frontmatter[key];
+    const list =
+      current === null || current === undefined || current === ""
+        ? []
+        : Array.isArray(current)
+          ? current
+          : [current];
+    const missing = values.filter(
+      (value) => !list.some((entry) => String(entry) === String(value)),
+    );
+    frontmatter[key] = [...list, ...missing];
+  }
+  return frontmatter;
+}
+
+/** Variables des modèles Obsidian : `{{title}}`, `{{date[:format]}}`, `{{time[:format]}}`. */
+export function renderTemplate(
+  content: string,
+  title: string,
+  now: Date = new Date(),
+): string {
+  return content.replace(
+    /\{\{\s*(title|date|time)\s*(?::([^}]*))?\}\}/gi,
+    (_, name: string, format: string | undefined) => {
+      const key = name.toLowerCase();
+      if (key === "title") return title;
+      const fallback = key === "date" ? "YYYY-MM-DD" : "HH:mm";
+      return formatDate(now, format?.trim() || fallback);
+    },
+  );
+}
+
+/** Applique une condition à `defaults` ; `false` si elle n'impose aucune valeur connue. */
+function collect(node: BasesNode, defaults: BasesInsertDefaults): boolean {
+  if (node.type === "literal" && node.value === true) return true;
+  if (node.type === "binary" && node.op === "&&") {
+    const left = collect(node.left, defaults);
+    const right = collect(node.right, defaults);
+    return left && right;
+  }
+
+  if (node.type === "binary" && node.op === "==") {
+    const [ref, value] =
+      literalValue(node.right) !== undefined
+        ? [node.left, literalValue(node.right)]
+        : [node.right, literalValue(node.left)];
+    if (value === undefined) return false;
+    if (isFileRef(ref, "folder") && typeof value === "string") {
+      defaults.folder = value.replace(/^\/+|\/+$/g, "");
+      return true;
+    }
+    if (isFileRef(ref, "ext")) return value === "md";
+    const prop = noteProperty(ref);
+    if (!prop) return false;
+    defaults.frontmatter[prop] = value;
+    return true;
+  }
+
+  if (node.type !== "call" || node.callee.type !== "member") return false;
+  const method = node.callee.property;
+  const args = node.args.map(literalValue);
+  if (!args.length || args.some((arg) => arg === undefined)) return false;
+
+  if (isIdent(node.callee.object, "file")) {
+    switch (method) {
+      case "inFolder":
+        if (typeof args[0] !== "string") return false;
+        defaults.folder = args[0].replace(/^\/+|\/+$/g, "");
+        return true;
+      case "hasTag":
+        // `hasTag(a, b)` accepte l'un ou l'autre : le premier suffit.
+        addToList(defaults, "tags", String(args[0]).replace(/^#/, ""));
+        return true;
+      case "hasProperty":
+        if (!(String(args[0]) in defaults.frontmatter)) {
+          defaults.frontmatter[String(args[0])] = null;
+        }
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  if (method === "contains" || method === "containsAll") {
+    const prop = isFileRef(node.callee.object, "tags")
+      ? "tags"
+      : noteProperty(node.callee.object);
+    if (!prop) return false;
+    for (const arg of args) {
+      addToList(
+        defaults,
+        prop,
+        prop === "tags" ? String(arg).replace(/^#/, "") : arg,
+      );
+    }
+    return true;
+  }
+  return false;
+}
+
+function addToList(
+  defaults: BasesInsertDefaults,
+  key: string,
+  value: unknown,
+): void {
+  const list = (defaults.lists[key] ??= []);
+  if (!list.includes(value)) list.push(value);
+}
+
+/** Valeur d'un littéral (ou de `link("x")`), `undefined` pour toute autre expression. */
+function literalValue(node: BasesNode): unknown {
+  if (node.type === "literal") {
+    return node.value === null ? undefined : node.value;
+  }
+  if (
+    node.type === "unary" &&
+    node.op === "-" &&
+    node.arg.type === "literal" &&
+    typeof node.arg.value === "number"
+  ) {
+    return -node.arg.value;
+  }
+  if (
+    node.type === "call" &&
+    isIdent(node.callee, "link") &&
+    node.args[0]?.type === "literal" &&
+    typeof node.args[0].value === "string"
+  ) {
+    return `[[${normalizeLinkish(node.args[0].value)}]]`;
+  }
+  return undefined;
+}
+
+function isIdent(node: BasesNode, name: string): boolean {
+  return node.type === "ident" && node.name === name;
+}
+
+function isFileRef(node: BasesNode, property: string): boolean {
+  return (
+    node.type === "member" &&
+    node.property === property &&
+    isIdent(node.object, "file")
+  );
+}
+
+/** `status` ou `note.status` ; `null` pour `file.*`, `formula.*` et le reste. */
+function noteProperty(node: BasesNode): string | null {
+  if (node.type === "ident") {
+    return ["file", "formula", "note", "this"].includes(node.name)
+      ? null
+      : node.name;
+  }
+  if (node.type === "member" && isIdent(node.object, "note")) {
+    return node.property;
+  }
+  return null;
+}
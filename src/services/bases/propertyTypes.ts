@@ -0,0 +1,351 @@
+/**
+ * Types des propriétés de notes : lecture de `.obsidian/types.json`, inférence depuis des
+ * valeurs échantillonnées et conversion des valeurs écrites par `bases_upsert_rows`.
+ * Partagé, comme `expression.ts`, par le moteur local du serveur et le plugin Bases Bridge.
+ */
+
+import { formatDate, parseDate } from "./expression.js";
+
+export const BASES_PROPERTY_TYPES = [
+  "text",
+  "number",
+  "date",
+  "datetime",
+  "checkbox",
+  "list",
+  "link",
+] as const;
+
+export type BasesPropertyType = (typeof BASES_PROPERTY_TYPES)[number];
+
+/** D'où vient le type : `types.json` d'Obsidian, la déclaration de la base ou les notes. */
+export type BasesPropertyTypeSource = "types.json" | "base" | "sampled";
+
+export interface BasesPropertyTypeInfo {
+  type: BasesPropertyType;
+  source: BasesPropertyTypeSource;
+  /** Nombre de notes échantillonnées où la propriété est renseignée. */
+  sampled: number;
+}
+
+/** Propriété d'un schéma de base (`BaseSchemaProperty`). */
+export interface BasesSchemaProperty {
+  key: string;
+  kind: "note" | "file" | "formula" | "unknown";
+  displayName?: string;
+  valueType?: string;
+  typeSource?: BasesPropertyTypeSource;
+}
+
+/** `off` écrit tel quel, `coerce` convertit les valeurs sans ambiguïté, `strict` les refuse. */
+export type BasesValidationMode = "coerce" | "strict" | "off";
+
+export interface BasesFieldError {
+  key: string;
+  expected: BasesPropertyType;
+  message: string;
+}
+
+/** Noms de types d'Obsidian (`types.json`, déclarations de base) vers les nôtres. */
+const OBSIDIAN_TYPES: Record<string, BasesPropertyType> = {
+  text: "text",
+  number: "number",
+  date: "date",
+  datetime: "datetime",
+  checkbox: "checkbox",
+  boolean: "checkbox",
+  multitext: "list",
+  list: "list",
+  tags: "list",
+  aliases: "list",
+  link: "link",
+};
+
+const DATE_ONLY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const LINK_REGEX = /^!?\[\[[^\]]+\]\]$/;
+const NUMBER_REGEX = /^[+-]?(\d+(\.\d*)?|\.\d+)(e[+-]?\d+)?$/i;
+const DATETIME_FORMAT = "YYYY-MM-DD[T]HH:mm";
+
+export function obsidianPropertyType(
+  name: unknown,
+): BasesPropertyType | undefined {
+  return typeof name === "string"
+    ? OBSIDIAN_TYPES[name.trim().toLowerCase()]
+    : undefined;
+}
+
+/** Contenu de `.obsidian/types.json` (`{ "types": { "due": "date" } }`) ; `{}` si illisible. */
+export function parseTypesJson(
+  content: string | undefined,
+): Record<string, BasesPropertyType> {
+  if (!content) return {};
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    return {};
+  }
+  const types = (data as { types?: unknown } | null)?.types;
+  if (!types || typeof types !== "object") return {};
+  const result: Record<string, BasesPropertyType> = {};
+  for (const [key, name] of Object.entries(types)) {
+    const type = obsidianPropertyType(name);
+    if (type) result[key] = type;
+  }
+  return result;
+}
+
+/** Type d'une valeur de frontmatter, `undefined` pour une valeur vide ou un objet. */
+export function inferValueType(value: unknown): BasesPropertyType | undefined {
+  if (value === null || value === undefined || value === "") return undefined;
+  if (typeof value === "boolean") return "checkbox";
+  if (typeof value === "number") return "number";
+  if (Array.isArray(value)) return "list";
+  if (typeof value !== "string") return undefined;
+  const trimmed = value.trim();
+  if (LINK_REGEX.test(trimmed)) return "link";
+  if (DATE_ONLY_REGEX.test(trimmed))
+    return parseCalendarDate(trimmed) ? "date" : "text";
+  if (
+    /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/.test(trimmed) &&
+    parseCalendarDate(trimmed)
+  ) {
+    return "datetime";
+  }
+  return "text";
+}
+
+/**
+ * Type de chaque propriété : `types.json`, sinon la déclaration de la base, sinon le type
+ * le plus fréquent parmi les valeurs échantillonnées (`text` en cas d'égalité).
+ */
+export function resolvePropertyTypes(
+  typesJson: Record<string, BasesPropertyType>,
+  declared: Record<string, unknown>,
+  samples: Record<string, unknown>[],
+): Record<string, BasesPropertyTypeInfo> {
+  const counts: Record<string, Partial<Record<BasesPropertyType, number>>> = {};
+  for (const frontmatter of samples) {
+    for (const [key, value] of Object.entries(frontmatter)) {
+      const type = inferValueType(value);
+      if (!type) continue;
+      const byType = (counts[key] ??= {});
+      byType[type] = (byType[type] ?? 0) + 1;
+    }
+  }
+
+  const result: Record<string, BasesPropertyTypeInfo> = {};
+  for (const [key, byType] of Object.entries(counts)) {
+    const ranked = (
+      Object.entries(byType) as [BasesPropertyType, number][]
+    ).sort((a, b) => b[1] - a[1]);
+    const tie = ranked.length > 1 && ranked[0][1] === ranked[1][1];
+    result[key] = {
+      type: tie ? "text" : ranked[0][0],
+      source: "sampled",
+      sampled: ranked.reduce((total, [, count]) => total + count, 0),
+    };
+  }
+  for (const [key, name] of Object.entries(declared)) {
+    const type = obsidianPropertyType(name);
+    if (type) {
+      result[key] = {
+        type,
+        source: "base",
+        sampled: result[key]?.sampled ?? 0,
+      };
+    }
+  }
+  for (const [key, type] of Object.entries(typesJson)) {
+    result[key] = {
+      type,
+      source: "types.json",
+      sampled: result[key]?.sampled ?? 0,
+    };
+  }
+  return result;
+}
+
+/**
+ * Type des propriétés `note` d'un schéma ; les propriétés renseignées dans les notes de la
+ * base mais absentes de sa déclaration sont ajoutées.
+ */
+export function typeSchemaProperties(
+  properties: BasesSchemaProperty[],
+  types: Record<string, BasesPropertyTypeInfo>,
+): BasesSchemaProperty[] {
+  const seen = new Set<string>();
+  const typed = properties.map((property) => {
+    if (property.kind !== "note") return property;
+    const name = property.key.replace(/^note\./, "");
+    seen.add(name);
+    const info = types[name];
+    return info
+      ? { ...property, valueType: info.type, typeSource: info.source }
+      : property;
+  });
+  for (const [key, info] of Object.entries(types)) {
+    if (seen.has(key) || !info.sampled) continue;
+    typed.push({
+      key,
+      kind: "note",
+      valueType: info.type,
+      typeSource: info.source,
+    });
+  }
+  return typed;
+}
+
+/**
+ * Vérifie (et en mode `coerce` convertit) les valeurs de `set` selon `types`.
+ * Les clés sans type connu et les valeurs `null` passent telles quelles.
+ */
+export function validateProperties(
+  set: Record<string, unknown>,
+  types: Record<string, BasesPropertyTypeInfo>,
+  mode: BasesValidationMode,
+): {
+  values: Record<string, unknown>;
+  errors: BasesFieldError[];
+  warnings: string[];
+} {
+  const values: Record<string, unknown> = { ...set };
+  const errors: BasesFieldError[] = [];
+  const warnings: string[] = [];
+  if (mode === "off") return { values, errors, warnings };
+
+  for (const [key, value] of Object.entries(set)) {
+    const expected = types[key]?.type;
+    if (!expected || value === null || value === undefined) continue;
+    const result = coerceValue(value, expected);
+    if ("error" in result) {
+      errors.push({ key, expected, message: result.error });
+    } else if (result.value !== value) {
+      if (mode === "strict") {
+        errors.push({
+          key,
+          expected,
+          message: `Attendu ${expected}, reçu ${JSON.stringify(value)} (ex. ${JSON.stringify(result.value)}).`,
+        });
+      } else {
+        values[key] = result.value;
+        warnings.push(
+          `Valeur convertie: ${key} ${JSON.stringify(value)} → ${JSON.stringify(result.value)} (${expected})`,
+        );
+      }
+    }
+  }
+  return { values, errors, warnings };
+}
+
+/** Valeur au format du type ; renvoie la même référence quand elle est déjà conforme. */
+function coerceValue(
+  value: unknown,
+  type: BasesPropertyType,
+): { value: unknown } | { error: string } {
+  const invalid = (detail = "") => ({
+    error: `Attendu ${type}, reçu ${JSON.stringify(value)}${detail}.`,
+  });
+  switch (type) {
+    case "checkbox": {
+      if (typeof value === "boolean") return { value };
+      const text = String(value).trim().toLowerCase();
+      if (["true", "yes", "oui", "1"].includes(text)) return { value: true };
+      if (["false", "no", "non", "0"].includes(text)) return { value: false };
+      return invalid();
+    }
+    case "number": {
+      if (typeof value === "number" && Number.isFinite(value)) return { value };
+      // Nombre écrit en entier : `1,234` ou `1 234` (séparateurs ambigus) sont refusés.
+      if (typeof value === "string" && NUMBER_REGEX.test(value.trim())) {
+        const parsed = Number(value.trim());
+        if (Number.isFinite(parsed)) return { value: parsed };
+      }
+      return invalid();
+    }
+    case "date":
+    case "datetime": {
+      if (typeof value === "string" && inferValueType(value) === type) {
+        return { value };
+      }
+      const date = toDate(value);
+      if (date === "ambiguous") return invalid(" (format de date ambigu)");
+      if (!date) return invalid();
+      const formatted = formatDate(
+        date,
+        type === "date" ? "YYYY-MM-DD" : DATETIME_FORMAT,
+      );
+      return { value: formatted === value ? value : formatted };
+    }
+    case "list":
+      if (Array.isArray(value)) return { value };
+      if (typeof value === "object") return invalid();
+      return { value: [value] };
+    case "link": {
+      if (typeof value !== "string" || !value.trim()) return invalid();
+      const trimmed = value.trim();
+      return LINK_REGEX.test(trimmed)
+        ? { value: trimmed === value ? value : trimmed }
+        : { value: `[[${trimmed.replace(/\.md$/i, "")}]]` };
+    }
+    case "text":
+      if (typeof value === "string") return { value };
+      if (typeof value === "number" || typeof value === "boolean") {
+        return { value: String(value) };
+      }
+      return invalid();
+    default:
+      return { value };
+  }
+}
+
+/**
+ * `parseDate` sans report des jours qui n'existent pas : `2026-02-30` est refusé au lieu
+ * d'être lu comme le 2 mars. Les dates avec fuseau horaire sont vérifiées par `parseDate`.
+ */
+function parseCalendarDate(text: string): Date | undefined {
+  const date = parseDate(text);
+  const day = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!date || !day || /(?:Z|[+-]\d{2}:?\d{2})$/.test(text)) return date;
+  return date.getFullYear() === Number(day[1]) &&
+    date.getMonth() === Number(day[2]) - 1 &&
+    date.getDate() === Number(day[3])
+    ? date
+    : undefined;
+}
+
+/**
+ * Date d'une valeur : ISO (`parseCalendarDate`), timestamp en ms, `JJ/MM/AAAA` ou
+ * `MM/JJ/AAAA` quand l'ordre est évident, ou texte avec un nom de mois (`19 Oct 2026`).
+ */
+function toDate(value: unknown): Date | "ambiguous" | undefined {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? undefined : value;
+  }
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? new Date(value) : undefined;
+  }
+  if (typeof value !== "string") return undefined;
+  const trimmed = value.trim();
+  const iso = parseCalendarDate(
+    trimmed.replace(/^(\d{4})[/.](\d{2})[/.](\d{2})/, "$1-$2-$3"),
+  );
+  if (iso) return iso;
+
+  const numeric = trimmed.match(
+    /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?:[ T](\d{1,2}):(\d{2}))?$/,
+  );
+  if (numeric) {
+    const [, first, second, year, hours, minutes] = numeric.map(Number);
+    if (first <= 12 && second <= 12 && first !== second) return "ambiguous";
+    const [day, month] = first > 12 ? [first, second] : [second, first];
+    const date = new Date(year, month - 1, day, hours || 0, minutes || 0);
+    return date.getMonth() === month - 1 ? date : undefined;
+  }
+
+  if (/[a-z]{3}/i.test(trimmed)) {
+    const time = Date.parse(trimmed);
+    return Number.isNaN(time) ? undefined : new Date(time);
+  }
+  return undefined;
+}
@@ -0,0 +1,195 @@
+/**
+ * @module BasesService
+ * @description Entry point of the `bases_*` tools. Requests go to the Bases Bridge plugin
+ * through the Local REST API; when the plugin's routes are missing (404), they are served
+ * by the {@link LocalBasesEngine} instead. `OBSIDIAN_BASES_ENGINE` can pin either side.
+ */
+
+import { config } from "../../config/index.js";
+import { BaseErrorCode, McpError } from "../../types-global/errors.js";
+import { logger, RequestContext } from "../../utils/index.js";
+import type { ObsidianRestApiService } from "../obsidianRestAPI/service.js";
+import {
+  BaseConfigResponse,
+  BaseConfigUpsertRequest,
+  BaseConfigUpsertResponse,
+  BaseCreateRequest,
+  BaseCreateResponse,
+  BaseQueryRequest,
+  BaseQueryResponse,
+  BaseSchemaResponse,
+  BasesListResponse,
+  BaseUpsertRequest,
+  BaseUpsertResponse,
+} from "../obsidianRestAPI/types.js";
+import type { VaultCacheService } from "../obsidianRestAPI/vaultCache/index.js";
+import { LocalBasesEngine } from "./engine.js";
+
+/** Once the plugin is found missing, it is looked for again after this delay. */
+const BRIDGE_RECHECK_MS = 5 * 60 * 1000;
+
+export type BasesEngineMode = "auto" | "bridge" | "local";
+
+export class BasesService {
+  private readonly localEngine: LocalBasesEngine;
+  private bridgeMissingAt: number | null = null;
+
+  constructor(
+    private readonly obsidianService: ObsidianRestApiService,
+    vaultCacheService: VaultCacheService | undefined,
+    private readonly mode: BasesEngineMode = config.obsidianBasesEngine,
+  ) {
+    this.localEngine = new LocalBasesEngine({
+      obsidianService,
+      vaultCacheService,
+      vaultRoot: config.obsidianVaultPath,
+    });
+  }
+
+  async listBases(context: RequestContext): Promise<BasesListResponse> {
+    return this.route(
+      "listBases",
+      () => this.obsidianService.listBases(context),
+      () => this.localEngine.listBases(context),
+      context,
+    );
+  }
+
+  async getBaseSchema(
+    baseId: string,
+    context: RequestContext,
+  ): Promise<BaseSchemaResponse> {
+    return this.route(
+      "getBaseSchema",
+      () => this.obsidianService.getBaseSchema(baseId, context),
+      () => this.localEngine.getBaseSchema(baseId, context),
+      context,
+    );
+  }
+
+  async queryBase(
+    baseId: string,
+    payload: BaseQueryRequest,
+    context: RequestContext,
+  ): Promise<BaseQueryResponse> {
+    return this.route(
+      "queryBase",
+      () => this.obsidianService.queryBase(baseId, payload, context),
+      () => this.localEngine.queryBase(baseId, payload, context),
+      context,
+    );
+  }
+
+  async upsertBaseRows(
+    baseId: string,
+    payload: BaseUpsertRequest,
+    context: RequestContext,
+  ): Promise<BaseUpsertResponse> {
+    return this.route(
+      "upsertBaseRows",
+      () => this.obsidianService.upsertBaseRows(baseId, payload, context),
+      () => this.localEngine.upsertBaseRows(baseId, payload, context),
+      context,
+    );
+  }
+
+  async createBase(
+    payload: BaseCreateRequest,
+    context: RequestContext,
+  ): Promise<BaseCreateResponse> {
+    return this.route(
+      "createBase",
+      () => this.obsidianService.createBase(payload, context),
+      () => this.localEngine.createBase(payload, context),
+      context,
+    );
+  }
+
+  async getBaseConfig(
+    baseId: string,
+    context: RequestContext,
+  ): Promise<BaseConfigResponse> {
+    return this.route(
+      "getBaseConfig",
+      () => this.obsidianService.getBaseConfig(baseId, context),
+      () => this.localEngine.getBaseConfig(baseId, context),
+      context,
+    );
+  }
+
+  async upsertBaseConfig(
+    baseId: string,
+    payload: BaseConfigUpsertRequest,
+    context: RequestContext,
+  ): Promise<BaseConfigUpsertResponse> {
+    return this.route(
+      "upsertBaseConfig",
+      () => this.obsidianService.upsertBaseConfig(baseId, payload, context),
+      () => this.localEngine.upsertBaseConfig(baseId, payload, context),
+      context,
+    );
+  }
+
+  private async route<T>(
+    operation: string,
+    bridge: () => Promise<T>,
+    local: () => Promise<T>,
+    context: RequestContext,
+  ): Promise<T> {
+    if (this.mode === "local") return local();
+    if (
+      this.mode === "auto" &&
+      this.bridgeMissingAt !== null &&
+      Date.now() - this.bridgeMissingAt < BRIDGE_RECHECK_MS
+    ) {
+      return local();
+    }
+
+    try {
+      const result = await bridge();
+      this.bridgeMissingAt = null;
+      return result;
+    } catch (error) {
+      if (this.mode !== "auto") throw error;
+      const fallback = await this.fallbackReason(error, operation, context);
+      if (!fallback) throw error;
+      logger.info(
+        `Bases Bridge unavailable (${fallback}); ${operation} served by the local Bases engine`,
+        context,
+      );
+      return local();
+    }
+  }
+
+  /** Why a failed bridge call should be retried locally, or `null` to surface the error. */
+  private async fallbackReason(
+    error: unknown,
+    operation: string,
+    context: RequestContext,
+  ): Promise<string | null> {
+    if (!(error instanceof McpError)) return null;
+
+    // Obsidian is not running: the vault can still be read from disk.
+    if (error.code === BaseErrorCode.SERVICE_UNAVAILABLE) {
+      return config.obsidianVaultPath ? "Obsidian unreachable" : null;
+    }
+    if (error.code !== BaseErrorCode.NOT_FOUND) return null;
+
+    // A 404 on a base route can mean a missing base; the list route tells them apart.
+    if (operation !== "listBases") {
+      try {
+        await this.obsidianService.listBases(context);
+        return null;
+      } catch (probeError) {
+        if (
+          !(probeError instanceof McpError) ||
+          probeError.code !== BaseErrorCode.NOT_FOUND
+        ) {
+          return null;
+        }
+      }
+    }
+    this.bridgeMissingAt = Date.now();
+    return "plugin not installed";
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * Regroupement et résumés (`group_by`, `aggregates`) des requêtes sur les Bases.
+ * Partagé, comme `expression.ts`, par le moteur local du serveur et le plugin Bases Bridge :
+ * l'hôte fournit la valeur d'une propriété pour chaque ligne, ce module fait le reste.
+ */
+
+import {
+  compareValues,
+  displayString,
+  isEmptyValue,
+  parseDate,
+  toJSONValue,
+} from "./expression.js";
+
+export const BASES_AGGREGATE_FNS = [
+  "count",
+  "sum",
+  "avg",
+  "min",
+  "max",
+  "earliest",
+  "latest",
+  "unique",
+  "empty",
+  "filled",
+] as const;
+
+export type BasesAggregateFn = (typeof BASES_AGGREGATE_FNS)[number];
+
+/** Un résumé demandé : `count` compte les lignes, les autres portent sur `prop`. */
+export interface BasesAggregateSpec {
+  fn: BasesAggregateFn;
+  prop?: string;
+  /** Clé du résultat ; par défaut `fn(prop)`, ou `count`. */
+  as?: string;
+}
+
+export interface BasesGroupBy {
+  prop: string;
+  dir: "asc" | "desc";
+}
+
+export interface BasesGroup<T> {
+  /** Valeur JSON commune au groupe (`null` pour les lignes sans valeur). */
+  key: unknown;
+  label: string;
+  items: T[];
+}
+
+/** Résumés d'une vue Obsidian (`summaries: { prop: Average }`). */
+const VIEW_SUMMARY_FNS: Record<string, BasesAggregateFn> = {
+  count: "count",
+  sum: "sum",
+  average: "avg",
+  avg: "avg",
+  min: "min",
+  max: "max",
+  earliest: "earliest",
+  latest: "latest",
+  unique: "unique",
+  empty: "empty",
+  filled: "filled",
+};
+
+export function aggregateKey(spec: BasesAggregateSpec): string {
+  if (spec.as) return spec.as;
+  return spec.prop ? `${spec.fn}(${spec.prop})` : spec.fn;
+}
+
+/** `"status"` / `"-status"` (ordre décroissant) ou `{ property, direction }` d'une vue. */
+export function parseGroupBy(raw: unknown): BasesGroupBy | undefined {
+  if (typeof raw === "string") {
+    const entry = raw.trim();
+    const prop = entry.replace(/^-/, "").trim();
+    return prop
+      ? { prop, dir: entry.startsWith("-") ? "desc" : "asc" }
+      : undefined;
+  }
+  if (raw && typeof raw === "object" && !Array.isArray(raw)) {
+    const spec = raw as Record<string, unknown>;
+    const prop = String(spec.property ?? spec.prop ?? "").trim();
+    if (!prop) return undefined;
+    const dir = String(spec.direction ?? spec.dir ?? "asc").toLowerCase();
+    return { prop, dir: dir === "desc" ? "desc" : "asc" };
+  }
+  return undefined;
+}
+
+/** Valide les résumés d'une requête ; les entrées invalides deviennent des warnings. */
+export function normalizeAggregates(raw: unknown): {
+  aggregates: BasesAggregateSpec[];
+  warnings: string[];
+} {
+  const aggregates: BasesAggregateSpec[] = [];
+  const warnings: string[] = [];
+  for (const entry of Array.isArray(raw) ? raw : []) {
+    const spec =
+      typeof entry === "string"
+        ? { fn: entry }
+        : entry && typeof entry === "object"
+          ? (entry as Record<string, unknown>)
+          : {};
+    const fn = String(spec.fn ?? "").trim() as BasesAggregateFn;
+    const prop = String(spec.prop ?? "").trim() || undefined;
+    const as = String(spec.as ?? "").trim() || undefined;
+    if (!BASES_AGGREGATE_FNS.includes(fn)) {
+      warnings.push(`Résumé inconnu: ${String(spec.fn ?? entry)}`);
+      continue;
+    }
+    if (fn !== "count" && !prop) {
+      warnings.push(`Résumé ${fn} sans propriété ('prop').`);
+      continue;
+    }
+    aggregates.push({ fn, prop, as });
+  }
+  return { aggregates, warnings };
+}
+
+/** Traduit les `summaries` d'une vue ; les résumés non pris en charge deviennent des warnings. */
+export function viewAggregates(summaries: unknown): {
+  aggregates: BasesAggregateSpec[];
+  warnings: string[];
+} {
+  const aggregates: BasesAggregateSpec[] = [];
+  const warnings: string[] = [];
+  if (!summaries || typeof summaries !== "object" || Array.isArray(summaries)) {
+    return { aggregates, warnings };
+  }
+  for (const [prop, name] of Object.entries(summaries)) {
+    const fn = VIEW_SUMMARY_FNS[String(name).trim().toLowerCase()];
+    if (fn) aggregates.push({ fn, prop, as: prop });
+    else warnings.push(`Résumé de vue non pris en charge: ${prop} (${name})`);
+  }
+  return { aggregates, warnings };
+}
+
+/**
+ * Répartit `items` (déjà triés) en groupes selon `keyOf`, dans l'ordre des clés ;
+ * les lignes sans valeur forment un dernier groupe de clé `null`.
+ */
+export function groupItems<T>(
+  items: T[],
+  keyOf: (item: T) => unknown,
+  dir: "asc" | "desc" = "asc",
+): BasesGroup<T>[] {
+  const groups = new Map<string, BasesGroup<T> & { value: unknown }>();
+  for (const item of items) {
+    const value = keyOf(item);
+    const key = isEmptyValue(value) ? null : (toJSONValue(value) ?? null);
+    const id = JSON.stringify(key);
+    let group = groups.get(id);
+    if (!group) {
+      group = { key, label: displayString(value), items: [], value };
+      groups.set(id, group);
+    }
+    group.items.push(item);
+  }
+
+  return [...groups.values()]
+    .sort((a, b) => {
+      if (a.key === null || b.key === null) {
+        return a.key === b.key ? 0 : a.key === null ? 1 : -1;
+      }
+      const cmp =
+        compareValues(a.value, b.value) ?? a.label.localeCompare(b.label);
+      return dir === "asc" ? Math.sign(cmp) : -Math.sign(cmp);
+    })
+    .map(({ key, label, items: members }) => ({
+      key,
+      label,
+      items: members,
+    }));
+}
+
+/** Calcule les résumés de `items` ; `valueOf` lit une propriété d'une ligne. */
+export function summarize<T>(
+  items: T[],
+  aggregates: BasesAggregateSpec[],
+  valueOf: (item: T, prop: string) => unknown,
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const spec of aggregates) {
+    const values =
+      spec.fn === "count" || !spec.prop
+        ? []
+        : items.map((item) => valueOf(item, spec.prop!));
+    result[aggregateKey(spec)] =
+      spec.fn === "count" ? items.length : aggregate(spec.fn, values);
+  }
+  return result;
+}
+
+function aggregate(fn: BasesAggregateFn, values: unknown[]): unknown {
+  const filled = values.filter((value) => !isEmptyValue(value));
+  switch (fn) {
+    case "empty":
+      return values.length - filled.length;
+    case "filled":
+      return filled.length;
+    case "unique":
+      return new Set(filled.map((value) => JSON.stringify(toJSONValue(value))))
+        .size;
+    case "sum":
+    case "avg":
+    case "min":
+    case "max": {
+      const numbers = filled
+        .map(toFiniteNumber)
+        .filter((value): value is number => value !== undefined);
+      if (fn === "sum") return numbers.reduce((acc, value) => acc + value, 0);
+      if (!numbers.length) return null;
+      if (fn === "avg") {
+        return numbers.reduce((acc, value) => acc + value, 0) / numbers.length;
+      }
+      return fn === "min" ? Math.min(...numbers) : Math.max(...numbers);
+    }
+    case "earliest":
+    case "latest": {
+      // La valeur d'origine est renvoyée (chaîne de date, timestamp en ms, …).
+      let best: { value: unknown; time: number } | undefined;
+      for (const value of filled) {
+        const time = toTime(value);
+        if (time === undefined) continue;
+        if (
+          !best ||
+          (fn === "earliest" ? time < best.time : time > best.time)
+        ) {
+          best = { value, time };
+        }
+      }
+      return best ? toJSONValue(best.value) : null;
+    }
+    default:
+      return null;
+  }
+}
+
+function toFiniteNumber(value: unknown): number | undefined {
+  if (typeof value === "number")
+    return Number.isFinite(value) ? value : undefined;
+  if (typeof value === "string" && value.trim()) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+}
+
+function toTime(value: unknown): number | undefined {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? undefined : value.getTime();
+  }
+  if (typeof value === "number")
+    return Number.isFinite(value) ? value : undefined;
+  if (typeof value === "string") return parseDate(value)?.getTime();
+  return undefined;
+}
@@ -0,0 +1,195 @@
+/**
+ * Splits markdown notes into heading-scoped chunks for embedding.
+ */
+
+export type MarkdownChunk = {
+  /** Headings enclosing the chunk, outermost first (empty before the first heading). */
+  headingPath: string[];
+  /** 1-based, inclusive line range of the chunk within the note (frontmatter included in the count). */
+  lineStart: number;
+  lineEnd: number;
+  text: string;
+};
+
+/** Roughly 512 tokens, the input limit of most local embedding models. */
+export const MAX_CHUNK_CHARS = 2000;
+
+const FRONTMATTER_REGEX = /^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/;
+const HEADING_REGEX = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_REGEX = /^\s*(```|~~~)/;
+
+type Line = { number: number; text: string };
+
+const joinLines = (lines: Line[]) =>
+  lines
+    .map((line) => line.text)
+    .join("\n")
+    .trim();
+
+/** Packs lines into pieces of at most `maxChars`, preferring paragraph boundaries. */
+function splitSection(lines: Line[], maxChars: number): Line[][] {
+  const pieces: Line[][] = [];
+  let current: Line[] = [];
+  let size = 0;
+
+  const flush = () => {
+    if (current.some((line) => line.text.trim())) pieces.push(current);
+    current = [];
+    size = 0;
+  };
+
+  // Paragraphs are runs of lines separated by blank lines.
+  const paragraphs: Line[][] = [[]];
+  for (const line of lines) {
+    if (!line.text.trim()) {
+      if (paragraphs[paragraphs.length - 1].length) paragraphs.push([]);
+      continue;
+    }
+    paragraphs[paragraphs.length - 1].push(line);
+  }
+
+  for (const paragraph of paragraphs) {
+    const paragraphSize = paragraph.reduce(
+      (total, line) => total + line.text.length + 1,
+      0,
+    );
+    if (size + paragraphSize > maxChars && current.length) flush();
+    if (paragraphSize <= maxChars) {
+      current.push(...paragraph);
+      size += paragraphSize;
+      continue;
+    }
+    // A single oversized paragraph: fall back to line boundaries.
+    for (const line of paragraph) {
+      if (size + line.text.length + 1 > maxChars && current.length) flush();
+      current.push(line);
+      size += line.text.length + 1;
+    }
+  }
+  flush();
+  return pieces;
+}
+
+/**
+ * Chunks a note by heading sections, splitting sections longer than `maxChars`.
+ * Frontmatter is skipped, headings inside fenced code blocks are ignored, and
+ * sections without any text besides their heading produce no chunk.
+ */
+export function chunkMarkdown(
+  content: string,
+  maxChars: number = MAX_CHUNK_CHARS,
+): MarkdownChunk[] {
+  const frontmatter = content.match(FRONTMATTER_REGEX)?.[0] ?? "";
+  const firstLine = frontmatter ? frontmatter.split(/\r?\n/).length : 1;
+  const lines = content
+    .slice(frontmatter.length)
+    .split(/\r?\n/)
+    .map((text, index) => ({ number: firstLine + index, text }));
+
+  const chunks: MarkdownChunk[] = [];
+  const headingStack: { level: number; title: string }[] = [];
+  let section: Line[] = [];
+  let sectionPath: string[] = [];
+  let inFence = false;
+
+  const flushSection = () => {
+    const hasBody = section.some(
+      (line) => line.text.trim() && !HEADING_REGEX.test(line.text),
+    );
+    if (hasBody) {
+      for (const piece of splitSection(section, maxChars)) {
+        chunks.push({
+          headingPath: sectionPath,
+          lineStart: piece[0].number,
+          lineEnd: piece[piece.length - 1].number,
+          text: joinLines(piece),
+        });
+      }
+    }
+    section = [];
+  };
+
+  for (const line of lines) {
+    if (FENCE_REGEX.test(line.text)) inFence = !inFence;
+    const heading = inFence ? null : line.text.match(HEADING_REGEX);
+    if (heading) {
+      flushSection();
+      const level = heading[1].length;
+      while (
+        headingStack.length &&
+        headingStack[headingStack.length - 1].level >= level
+      ) {
+        headingStack.pop();
+      }
+      headingStack.push({ level, title: heading[2] });
+      sectionPath = headingStack.map((entry) => entry.title);
+    }
+    section.push(line);
+  }
+  flushSection();
+
+  return chunks;
+}
+
+/**
+ * Finds the line span of the section under `headingPath` (outermost heading first):
+ * from the heading line to the line before the next heading of the same or a higher
+ * level. Falls back to the first heading named like the last path segment when the
+ * full path does not match (e.g. keys built from a slightly different outline).
+ */
+export function locateHeadingSection(
+  content: string,
+  headingPath: string[],
+): { lineStart: number; lineEnd: number } | undefined {
+  if (!headingPath.length) return undefined;
+  const lines = content.split(/\r?\n/);
+  const normalize = (title: string) => title.trim().toLowerCase();
+  const wanted = headingPath.map(normalize);
+  const stack: { level: number; title: string }[] = [];
+  let inFence = false;
+  let exact: { line: number; level: number } | undefined;
+  let loose: { line: number; level: number } | undefined;
+
+  const headings: { line: number; level: number }[] = [];
+  lines.forEach((text, index) => {
+    if (FENCE_REGEX.test(text)) inFence = !inFence;
+    const heading = inFence ? null : text.match(HEADING_REGEX);
+    if (!heading) return;
+    const level = heading[1].length;
+    while (stack.length && stack[stack.length - 1].level >= level) stack.pop();
+    stack.push({ level, title: normalize(heading[2]) });
+    headings.push({ line: index + 1, level });
+    if (
+      !exact &&
+      stack.length === wanted.length &&
+      stack.every((entry, position) => entry.title === wanted[position])
+    ) {
+      exact = { line: index + 1, level };
+    }
+    if (!loose && stack[stack.length - 1].title === wanted[wanted.length - 1]) {
+      loose = { line: index + 1, level };
+    }
+  });
+
+  const found = exact ?? loose;
+  if (!found) return undefined;
+  const next = headings.find(
+    (heading) => heading.line > found.line && heading.level <= found.level,
+  );
+  return {
+    lineStart: found.line,
+    lineEnd: next ? next.line - 1 : lines.length,
+  };
+}
+
+/** Heading titles of a note in document order, skipping frontmatter and code fences. */
+export function extractHeadings(content: string): string[] {
+  const headings: string[] = [];
+  let inFence = false;
+  for (const text of content.replace(FRONTMATTER_REGEX, "").split(/\r?\n/)) {
+    if (FENCE_REGEX.test(text)) inFence = !inFence;
+    const heading = inFence ? null : text.match(HEADING_REGEX);
+    if (heading) headings.push(heading[2].trim());
+  }
+  return headings;
+}
@@ -0,0 +1,5 @@
+/**
+ * Barrel file for the self-hosted embedding index.
+ */
+export * from "./chunker.js";
+export * from "./service.js";
@@ -0,0 +1,406 @@
+/**
+ * Self-hosted embedding index for `SMART_SEARCH_MODE=files`: chunks the vault's markdown
+ * notes, embeds them with the configured query embedder and keeps vectors plus content
+ * hashes on disk, so only notes whose content changed are re-embedded.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  getQueryEmbedder,
+  type QueryEmbedderOptions,
+  type QueryEmbedderSelection,
+} from "../../adapters/embed/index.js";
+import {
+  extractNoteTags,
+  logger,
+  mapWithConcurrency,
+  requestContextService,
+} from "../../utils/index.js";
+import {
+  hashContent,
+  type VaultCacheService,
+} from "../obsidianRestAPI/vaultCache/index.js";
+import type { SmartVec } from "../smartEnv.js";
+import { chunkMarkdown } from "./chunker.js";
+import {
+  getIndexPath,
+  INDEX_VERSION,
+  loadIndex,
+  saveIndex,
+  type EmbeddingIndexData,
+  type IndexedNote,
+} from "./store.js";
+
+/** Notes embedded in parallel; local embedders serialize internally anyway. */
+const EMBED_CONCURRENCY = 4;
+/** Progress is saved every this many embedded notes, so an interrupted build resumes. */
+const SAVE_EVERY_NOTES = 50;
+
+export type FileEmbeddingIndexOptions = {
+  /** Directory holding the index files. */
+  indexDir: string;
+  /** Vault root on disk; used when no vault cache is available. */
+  vaultRoot?: string;
+  /** Preferred note source: content and hashes are already in memory. */
+  vaultCacheService?: VaultCacheService;
+  /** How long a completed sync is trusted before the vault is rescanned. */
+  resyncIntervalMs: number;
+  embedder: QueryEmbedderOptions;
+};
+
+/** A chunk vector, usable wherever `.smart-env` vectors are. */
+export type IndexedChunkItem = SmartVec & {
+  kind: "block";
+  headingPath: string[];
+  lineStart: number;
+  lineEnd: number;
+};
+
+export type FileEmbeddingIndexSnapshot = {
+  provider: string;
+  model: string;
+  dim: number;
+  /** Increases whenever the indexed vectors change. */
+  revision: number;
+  items: IndexedChunkItem[];
+  embed: (text: string) => Promise<number[]>;
+};
+
+type NoteSource = {
+  path: string;
+  mtime: number;
+  size: number;
+  /** Known up front for cached notes; computed after reading for files on disk. */
+  hash?: string;
+  read: () => Promise<string>;
+};
+
+const toEmbeddingText = (
+  title: string,
+  headingPath: string[],
+  text: string,
+): string => `${[title, ...headingPath].join(" > ")}\n\n${text}`;
+
+export class FileEmbeddingIndex {
+  private data: EmbeddingIndexData | null = null;
+  private selection: QueryEmbedderSelection | null = null;
+  private syncing: Promise<void> | null = null;
+  private lastSyncAt = 0;
+  private isDirty = true;
+  private revision = 0;
+  private items: { revision: number; items: IndexedChunkItem[] } | null = null;
+  /** Index writes run one after another, in the order they were requested. */
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private readonly options: FileEmbeddingIndexOptions) {
+    options.vaultCacheService?.onChange(() => {
+      this.isDirty = true;
+      this.syncInBackground();
+    });
+  }
+
+  /** Starts a sync without waiting for it; failures are logged and retried on the next sync. */
+  public syncInBackground(): void {
+    this.sync().catch((error) => {
+      logger.warning(
+        `Embedding index sync failed: ${error instanceof Error ? error.message : String(error)}`,
+        requestContextService.createRequestContext({
+          operation: "FileEmbeddingIndexBackgroundSync",
+        }),
+      );
+    });
+  }
+
+  /**
+   * Returns the indexed chunk vectors and the embedder that produced them, syncing the
+   * index first. While a sync is already running over a non-empty index, the current
+   * vectors are returned without waiting, so searches stay responsive during rebuilds.
+   */
+  public async getSnapshot(): Promise<FileEmbeddingIndexSnapshot> {
+    if (!this.data || Object.keys(this.data.notes).length === 0) {
+      await this.sync();
+    } else {
+      this.syncInBackground();
+    }
+
+    const data = this.data;
+    const selection = this.selection;
+    if (!data || !selection) {
+      throw new Error("Embedding index is not available");
+    }
+
+    if (this.items?.revision !== this.revision) {
+      this.items = { revision: this.revision, items: this.flatten(data) };
+    }
+
+    return {
+      provider: data.provider,
+      model: data.model,
+      dim: data.dim,
+      revision: this.revision,
+      items: this.items.items,
+      embed: selection.embed,
+    };
+  }
+
+  private flatten(data: EmbeddingIndexData): IndexedChunkItem[] {
+    const items: IndexedChunkItem[] = [];
+    for (const [notePath, note] of Object.entries(data.notes)) {
+      for (const chunk of note.chunks) {
+        items.push({
+          // Long sections yield several chunks, so the start line keeps ids unique.
+          id: `${[notePath, ...chunk.headingPath].join("#")}:${chunk.lineStart}`,
+          notePath,
+          title: note.title,
+          tags: note.tags,
+          model: data.model,
+          vec: chunk.vec,
+          kind: "block",
+          headingPath: chunk.headingPath,
+          lineStart: chunk.lineStart,
+          lineEnd: chunk.lineEnd,
+        });
+      }
+    }
+
+    return items;
+  }
+
+  /** Reads a note's current content from the vault cache or the vault on disk. */
+  public async readNote(notePath: string): Promise<string | undefined> {
+    const cache = this.options.vaultCacheService;
+    const cached = cache?.getEntry(notePath);
+    if (cached) return cached.content;
+    if (!this.options.vaultRoot) return undefined;
+    try {
+      return await fs.readFile(
+        path.join(this.options.vaultRoot, notePath),
+        "utf-8",
+      );
+    } catch {
+      return undefined;
+    }
+  }
+
+  /** Brings the index up to date with the vault (single-flight). */
+  public sync(): Promise<void> {
+    if (this.syncing) return this.syncing;
+    if (
+      !this.isDirty &&
+      Date.now() - this.lastSyncAt < this.options.resyncIntervalMs
+    ) {
+      return Promise.resolve();
+    }
+    this.syncing = this.runSync()
+      .catch((error) => {
+        this.isDirty = true;
+        throw error;
+      })
+      .finally(() => {
+        this.syncing = null;
+      });
+    return this.syncing;
+  }
+
+  private async getSelection(): Promise<QueryEmbedderSelection> {
+    if (!this.selection) {
+      this.selection = await getQueryEmbedder(this.options.embedder);
+    }
+    return this.selection;
+  }
+
+  private async runSync(): Promise<void> {
+    const context = requestContextService.createRequestContext({
+      operation: "FileEmbeddingIndexSync",
+    });
+    const startedAt = Date.now();
+    this.isDirty = false;
+
+    const selection = await this.getSelection();
+    const indexPath = getIndexPath(
+      this.options.indexDir,
+      selection.provider,
+      selection.model,
+    );
+    if (!this.data) {
+      this.data = (await loadIndex(indexPath)) ?? {
+        version: INDEX_VERSION,
+        provider: selection.provider,
+        model: selection.model,
+        dim: 0,
+        notes: {},
+      };
+    }
+    const data = this.data;
+
+    const sources = await this.listSources();
+    let removed = 0;
+    for (const notePath of Object.keys(data.notes)) {
+      if (!sources.has(notePath)) {
+        delete data.notes[notePath];
+        removed++;
+      }
+    }
+
+    const candidates = [...sources.values()].filter((source) => {
+      const indexed = data.notes[source.path];
+      if (!indexed) return true;
+      if (source.hash) return source.hash !== indexed.hash;
+      return source.mtime !== indexed.mtime || source.size !== indexed.size;
+    });
+
+    let embedded = 0;
+    let sinceSave = 0;
+    try {
+      await mapWithConcurrency(
+        candidates,
+        EMBED_CONCURRENCY,
+        async (source) => {
+          let content: string;
+          try {
+            content = await source.read();
+          } catch (error) {
+            logger.warning(
+              `Skipping ${source.path} in the embedding index: ${error instanceof Error ? error.message : String(error)}`,
+              context,
+            );
+            return;
+          }
+          const hash = source.hash ?? hashContent(content);
+          const indexed = data.notes[source.path];
+          if (indexed?.hash === hash) {
+            // Touched but unchanged (e.g. a sync tool rewrote the file).
+            indexed.mtime = source.mtime;
+            indexed.size = source.size;
+            return;
+          }
+
+          data.notes[source.path] = await this.embedNote(
+            source,
+            content,
+            hash,
+            selection,
+          );
+          embedded++;
+          if (++sinceSave >= SAVE_EVERY_NOTES) {
+            sinceSave = 0;
+            await this.save(indexPath, data);
+          }
+        },
+      );
+    } finally {
+      if (embedded > 0 || removed > 0 || candidates.length > 0) {
+        await this.save(indexPath, data);
+      }
+    }
+
+    if (embedded > 0 || removed > 0) this.revision++;
+    this.lastSyncAt = Date.now();
+    logger.info(
+      `Embedding index synced in ${((Date.now() - startedAt) / 1000).toFixed(2)}s: ${embedded} note(s) embedded, ${removed} removed, ${Object.keys(data.notes).length} indexed (${selection.provider}:${selection.model}).`,
+      context,
+    );
+  }
+
+  private save(indexPath: string, data: EmbeddingIndexData): Promise<void> {
+    const next = this.saving.then(() => saveIndex(indexPath, data));
+    this.saving = next.catch(() => undefined);
+    return next;
+  }
+
+  private async embedNote(
+    source: NoteSource,
+    content: string,
+    hash: string,
+    selection: QueryEmbedderSelection,
+  ): Promise<IndexedNote> {
+    const data = this.data!;
+    const title = path.posix.basename(source.path).replace(/\.md$/i, "");
+    const chunks: IndexedNote["chunks"] = [];
+
+    for (const chunk of chunkMarkdown(content)) {
+      const vec = await selection.embed(
+        toEmbeddingText(title, chunk.headingPath, chunk.text),
+      );
+      if (!vec.length) continue;
+      if (!data.dim) data.dim = vec.length;
+      if (vec.length !== data.dim) {
+        throw new Error(
+          `Embedder returned ${vec.length} dimensions for ${source.path}, expected ${data.dim}`,
+        );
+      }
+      chunks.push({
+        headingPath: chunk.headingPath,
+        lineStart: chunk.lineStart,
+        lineEnd: chunk.lineEnd,
+        vec,
+      });
+    }
+
+    return {
+      hash,
+      mtime: source.mtime,
+      size: source.size,
+      title,
+      tags: extractNoteTags(content),
+      chunks,
+    };
+  }
+
+  /** Markdown notes keyed by vault-relative path (no leading slash). */
+  private async listSources(): Promise<Map<string, NoteSource>> {
+    const sources = new Map<string, NoteSource>();
+    const cache = this.options.vaultCacheService;
+
+    if (cache?.isReady()) {
+      for (const [key, entry] of cache.getCache()) {
+        const notePath = key.replace(/^\/+/, "");
+        sources.set(notePath, {
+          path: notePath,
+          mtime: entry.mtime,
+          size: entry.size,
+          hash: entry.hash,
+          read: async () => entry.content,
+        });
+      }
+      return sources;
+    }
+
+    const root = this.options.vaultRoot;
+    if (!root) {
+      throw new Error(
+        cache
+          ? "The vault cache is still being built; set OBSIDIAN_VAULT to index from disk meanwhile"
+          : "SMART_SEARCH_MODE=files needs the vault cache (OBSIDIAN_ENABLE_CACHE=true) or OBSIDIAN_VAULT",
+      );
+    }
+
+    const walk = async (relativeDir: string): Promise<void> => {
+      const entries = await fs.readdir(path.join(root, relativeDir), {
+        withFileTypes: true,
+      });
+      for (const entry of entries) {
+        // Skips .obsidian, .smart-env, .trash and other hidden folders.
+        if (entry.name.startsWith(".")) continue;
+        const relativePath = relativeDir
+          ? `${relativeDir}/${entry.name}`
+          : entry.name;
+        if (entry.isDirectory()) {
+          await walk(relativePath);
+        } else if (entry.isFile() && entry.name.toLowerCase().endsWith(".md")) {
+          const absolutePath = path.join(root, relativePath);
+          const stat = await fs.stat(absolutePath);
+          sources.set(relativePath, {
+            path: relativePath,
+            mtime: stat.mtimeMs,
+            size: stat.size,
+            read: () => fs.readFile(absolutePath, "utf-8"),
+          });
+        }
+      }
+    };
+    await walk("");
+    return sources;
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * On-disk persistence of the self-hosted embedding index (`SMART_SEARCH_MODE=files`).
+ */
+
+import { createHash, randomUUID } from "node:crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+/** Bump when the file layout changes; older index files are then rebuilt. */
+export const INDEX_VERSION = 1;
+
+export type IndexedChunk = {
+  headingPath: string[];
+  lineStart: number;
+  lineEnd: number;
+  vec: number[];
+};
+
+export type IndexedNote = {
+  /** SHA-256 of the note content the chunks were embedded from. */
+  hash: string;
+  mtime: number;
+  size: number;
+  title: string;
+  tags: string[];
+  chunks: IndexedChunk[];
+};
+
+export type EmbeddingIndexData = {
+  version: number;
+  provider: string;
+  model: string;
+  dim: number;
+  notes: Record<string, IndexedNote>;
+};
+
+/** One index file per embedding model, so switching models never mixes vector spaces. */
+export const getIndexPath = (
+  indexDir: string,
+  provider: string,
+  model: string,
+): string => {
+  const slug = `${provider}-${model}`
+    .replace(/[^A-Za-z0-9._-]+/g, "_")
+    .slice(0, 80);
+  const digest = createHash("sha1")
+    .update(`${provider}::${model}`)
+    .digest("hex")
+    .slice(0, 8);
+  return path.join(indexDir, `embeddings-${slug}-${digest}.json`);
+};
+
+/** Reads an index file; returns null when it is missing, unreadable or outdated. */
+export async function loadIndex(
+  indexPath: string,
+): Promise<EmbeddingIndexData | null> {
+  try {
+    const data = JSON.parse(
+      await fs.readFile(indexPath, "utf-8"),
+    ) as EmbeddingIndexData;
+    if (
+      data?.version !== INDEX_VERSION ||
+      !data.notes ||
+      typeof data.notes !== "object"
+    ) {
+      return null;
+    }
+    return data;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Writes an index file atomically (temporary file, then rename). Each call uses its own
+ * temporary file, but callers should still not run two saves of one index at once.
+ */
+export async function saveIndex(
+  indexPath: string,
+  data: EmbeddingIndexData,
+): Promise<void> {
+  await fs.mkdir(path.dirname(indexPath), { recursive: true });
+  const tempPath = `${indexPath}.${process.pid}.${randomUUID()}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(data), "utf-8");
+  await fs.rename(tempPath, indexPath);
+}
@@ -0,0 +1,150 @@
+/**
+ * In-memory BM25 index over note contents, kept in sync with a content-hashed source
+ * (the vault cache) so only added or changed notes are re-tokenized.
+ */
+
+import { tokenize } from "./tokenizer.js";
+
+export type Bm25Document = {
+  content: string;
+  /** Any value that changes with the content, e.g. its SHA-256. */
+  hash: string;
+};
+
+export type Bm25Hit = {
+  path: string;
+  score: number;
+  /** Query terms found in the note, most significant first. */
+  matchedTerms: string[];
+};
+
+type IndexedDocument = {
+  hash: string;
+  length: number;
+  terms: Map<string, number>;
+};
+
+/** Term-frequency saturation and length normalization (usual Lucene defaults). */
+const K1 = 1.2;
+const B = 0.75;
+
+export class Bm25Index {
+  private readonly documents = new Map<string, IndexedDocument>();
+  /** term → note path → term frequency. */
+  private readonly postings = new Map<string, Map<string, number>>();
+  private totalLength = 0;
+
+  public get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Brings the index in line with `source`: notes whose hash changed are re-indexed,
+   * notes missing from `source` are dropped.
+   */
+  public sync(source: Iterable<[string, Bm25Document]>): {
+    indexed: number;
+    removed: number;
+  } {
+    const seen = new Set<string>();
+    let indexed = 0;
+    for (const [path, document] of source) {
+      seen.add(path);
+      if (this.documents.get(path)?.hash === document.hash) continue;
+      this.remove(path);
+      this.add(path, document);
+      indexed++;
+    }
+
+    let removed = 0;
+    for (const path of [...this.documents.keys()]) {
+      if (!seen.has(path)) {
+        this.remove(path);
+        removed++;
+      }
+    }
+    return { indexed, removed };
+  }
+
+  /**
+   * Top `limit` notes for `query`, best first.
+   * @param accept - Restricts the candidate notes (e.g. to a folder).
+   */
+  public search(
+    query: string,
+    limit: number,
+    accept?: (path: string) => boolean,
+  ): Bm25Hit[] {
+    const count = this.documents.size;
+    if (!count) return [];
+    const averageLength = this.totalLength / count;
+    const scores = new Map<string, { score: number; terms: string[] }>();
+
+    for (const term of new Set(tokenize(query))) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+      const idf = Math.log(
+        1 + (count - posting.size + 0.5) / (posting.size + 0.5),
+      );
+      for (const [path, frequency] of posting) {
+        if (accept && !accept(path)) continue;
+        const length = (this.documents.get(path) as IndexedDocument).length;
+        const weight =
+          (idf * frequency * (K1 + 1)) /
+          (frequency + K1 * (1 - B + (B * length) / averageLength));
+        const entry = scores.get(path) ?? { score: 0, terms: [] };
+        entry.score += weight;
+        entry.terms.push(term);
+        scores.set(path, entry);
+      }
+    }
+
+    return [...scores]
+      .map(([path, { score, terms }]) => ({
+        path,
+        score,
+        matchedTerms: terms.sort(
+          (a, b) =>
+            (this.postings.get(a)?.size ?? 0) -
+            (this.postings.get(b)?.size ?? 0),
+        ),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  private add(path: string, document: Bm25Document): void {
+    // The file name is indexed with the body so notes can be found by title.
+    const tokens = tokenize(
+      `${path.split("/").pop() ?? ""}\n${document.content}`,
+    );
+    const terms = new Map<string, number>();
+    for (const token of tokens) terms.set(token, (terms.get(token) ?? 0) + 1);
+    for (const [term, frequency] of terms) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(path, frequency);
+    }
+    this.documents.set(path, {
+      hash: document.hash,
+      length: tokens.length,
+      terms,
+    });
+    this.totalLength += tokens.length;
+  }
+
+  private remove(path: string): void {
+    const document = this.documents.get(path);
+    if (!document) return;
+    for (const term of document.terms.keys()) {
+      const posting = this.postings.get(term);
+      posting?.delete(path);
+      if (posting?.size === 0) this.postings.delete(term);
+    }
+    this.totalLength -= document.length;
+    this.documents.delete(path);
+  }
+}
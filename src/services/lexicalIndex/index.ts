@@ -0,0 +1,5 @@
+/**
+ * Barrel file for the lexical (BM25) index.
+ */
+export * from "./bm25.js";
+export * from "./tokenizer.js";
@@ -0,0 +1,37 @@
+/**
+ * Tokenizer for the lexical (BM25) index. Identifiers are kept whole as well as split
+ * into their parts, so `PROJ-1234`, `parseSmartKey` and `snake_case` match both exactly
+ * and by word.
+ */
+
+/** Runs of letters/digits, optionally joined by `-`, `_`, `.`, `/` or `:`. */
+const COMPOUND_REGEX = /[\p{L}\p{N}]+(?:[-_./:][\p{L}\p{N}]+)*/gu;
+const PART_REGEX = /[\p{L}\p{N}]+/gu;
+const CAMEL_BOUNDARY =
+  /(?<=[\p{Ll}\p{N}])(?=\p{Lu})|(?<=\p{Lu})(?=\p{Lu}\p{Ll})/u;
+
+/** Tokens longer than this are hashes or base64 noise rather than words. */
+const MAX_TOKEN_LENGTH = 64;
+
+/**
+ * Splits text into lowercase tokens. Each compound token is emitted once, followed by
+ * its parts (camelCase humps included) when they differ from it.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const [compound] of text.matchAll(COMPOUND_REGEX)) {
+    if (compound.length > MAX_TOKEN_LENGTH) continue;
+    const whole = compound.toLowerCase();
+    tokens.push(whole);
+    const parts = new Set<string>();
+    for (const [part] of compound.matchAll(PART_REGEX)) {
+      parts.add(part.toLowerCase());
+      for (const hump of part.split(CAMEL_BOUNDARY)) {
+        parts.add(hump.toLowerCase());
+      }
+    }
+    parts.delete(whole);
+    tokens.push(...parts);
+  }
+  return tokens;
+}
@@ -17,3 +17,7 @@ export * as periodicNoteMethods from "./methods/periodicNoteMethods.js";
 export * as searchMethods from "./methods/searchMethods.js";
 export * as vaultMethods from "./methods/vaultMethods.js";
 export { VaultCacheService } from "./vaultCache/index.js";
+export type {
+  VaultCacheChangeListener,
+  VaultCacheDiff,
+} from "./vaultCache/index.js";
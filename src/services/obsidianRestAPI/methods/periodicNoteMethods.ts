@@ -5,7 +5,12 @@
  */
 
 import { RequestContext } from "../../../utils/index.js";
-import { NoteJson, Period, RequestFunction } from "../types.js";
+import {
+  NoteJson,
+  Period,
+  PeriodicNoteDate,
+  RequestFunction,
+} from "../types.js";
 
 /**
  * Gets the content of a periodic note (daily, weekly, etc.).
@@ -107,3 +112,99 @@ export async function deletePeriodicNote(
     "deletePeriodicNote",
   );
 }
+
+/**
+ * Builds the URL of the periodic note covering a specific date.
+ * @param period - The period type.
+ * @param date - The calendar date the note should cover.
+ * @returns The REST API path for that note.
+ */
+function periodicNoteDateUrl(period: Period, date: PeriodicNoteDate): string {
+  return `/periodic/${period}/${date.year}/${date.month}/${date.day}/`;
+}
+
+/**
+ * Gets the periodic note covering a specific date.
+ * @param _request - The internal request function from the service instance.
+ * @param period - The period type.
+ * @param date - The calendar date the note should cover.
+ * @param format - 'markdown' or 'json'.
+ * @param context - Request context.
+ * @returns The note content or NoteJson.
+ */
+export async function getPeriodicNoteForDate(
+  _request: RequestFunction,
+  period: Period,
+  date: PeriodicNoteDate,
+  format: "markdown" | "json" = "markdown",
+  context: RequestContext,
+): Promise<string | NoteJson> {
+  const acceptHeader =
+    format === "json" ? "application/vnd.olrapi.note+json" : "text/markdown";
+  return _request<string | NoteJson>(
+    {
+      method: "GET",
+      url: periodicNoteDateUrl(period, date),
+      headers: { Accept: acceptHeader },
+    },
+    context,
+    "getPeriodicNoteForDate",
+  );
+}
+
+/**
+ * Updates (overwrites) the periodic note covering a specific date. Creates if needed.
+ * @param _request - The internal request function from the service instance.
+ * @param period - The period type.
+ * @param date - The calendar date the note should cover.
+ * @param content - The new content.
+ * @param context - Request context.
+ * @returns {Promise<void>} Resolves on success (204 No Content).
+ */
+export async function updatePeriodicNoteForDate(
+  _request: RequestFunction,
+  period: Period,
+  date: PeriodicNoteDate,
+  content: string,
+  context: RequestContext,
+): Promise<void> {
+  await _request<void>(
+    {
+      method: "PUT",
+      url: periodicNoteDateUrl(period, date),
+      headers: { "Content-Type": "text/markdown" },
+      data: content,
+    },
+    context,
+    "updatePeriodicNoteForDate",
+  );
+}
+
+/**
+ * Appends content to the periodic note covering a specific date. Creates if needed,
+ * applying the Periodic Notes plugin's configured template.
+ * @param _request - The internal request function from the service instance.
+ * @param period - The period type.
+ * @param date - The calendar date the note should cover.
+ * @param content - The content to append.
+ * @param context - Request context.
+ * @returns {Promise<void>} Resolves on success (204 No Content).
+ */
+export async function appendPeriodicNoteForDate(
+  _request: RequestFunction,
+  period: Period,
+  date: PeriodicNoteDate,
+  content: string,
+  context: RequestContext,
+): Promise<void> {
+  await _request<void>(
+    {
+      method: "POST",
+      url: periodicNoteDateUrl(period, date),
+      headers: { "Content-Type": "text/markdown" },
+      data: content,
+    },
+    context,
+    "appendPeriodicNoteForDate",
+  );
+}
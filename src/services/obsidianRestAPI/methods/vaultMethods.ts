@@ -41,6 +41,31 @@ export async function getFileContent(
   );
 }
 
+/**
+ * Gets the raw bytes of a file in the vault (attachments such as images or PDFs).
+ * @param _request - The internal request function from the service instance.
+ * @param filePath - Vault-relative path to the file.
+ * @param context - Request context.
+ * @returns The file content as a Buffer.
+ */
+export async function getFileBinary(
+  _request: RequestFunction,
+  filePath: string,
+  context: RequestContext,
+): Promise<Buffer> {
+  const encodedPath = encodeVaultPath(filePath);
+  const data = await _request<ArrayBuffer>(
+    {
+      method: "GET",
+      url: `/vault${encodedPath}`,
+      responseType: "arraybuffer",
+    },
+    context,
+    "getFileBinary",
+  );
+  return Buffer.from(data);
+}
+
 /**
  * Updates (overwrites) the content of a file or creates it if it doesn't exist.
  * @param _request - The internal request function from the service instance.
@@ -42,6 +42,7 @@ import {
   ObsidianCommand,
   PatchOptions,
   Period,
+  PeriodicNoteDate,
   SimpleSearchResult,
 } from "./types.js"; // Import types from the new file
 
@@ -246,6 +247,23 @@ export class ObsidianRestApiService {
     );
   }
 
+  /**
+   * Gets the raw bytes of a file in the vault (attachments such as images or PDFs).
+   * @param filePath - Vault-relative path to the file.
+   * @param context - Request context.
+   * @returns The file content as a Buffer.
+   */
+  async getFileBinary(
+    filePath: string,
+    context: RequestContext,
+  ): Promise<Buffer> {
+    return vaultMethods.getFileBinary(
+      this._request.bind(this),
+      filePath,
+      context,
+    );
+  }
+
   /**
    * Updates (overwrites) the content of a file or creates it if it doesn't exist.
    * @param filePath - Vault-relative path to the file.
@@ -661,6 +679,75 @@ export class ObsidianRestApiService {
     );
   }
 
+  /**
+   * Gets the periodic note covering a specific date.
+   * @param period - The period type.
+   * @param date - The calendar date the note should cover.
+   * @param format - 'markdown' or 'json'.
+   * @param context - Request context.
+   * @returns The note content or NoteJson.
+   */
+  async getPeriodicNoteForDate(
+    period: Period,
+    date: PeriodicNoteDate,
+    format: "markdown" | "json" = "markdown",
+    context: RequestContext,
+  ): Promise<string | NoteJson> {
+    return periodicNoteMethods.getPeriodicNoteForDate(
+      this._request.bind(this),
+      period,
+      date,
+      format,
+      context,
+    );
+  }
+
+  /**
+   * Updates (overwrites) the periodic note covering a specific date. Creates if needed.
+   * @param period - The period type.
+   * @param date - The calendar date the note should cover.
+   * @param content - The new content.
+   * @param context - Request context.
+   * @returns {Promise<void>} Resolves on success (204 No Content).
+   */
+  async updatePeriodicNoteForDate(
+    period: Period,
+    date: PeriodicNoteDate,
+    content: string,
+    context: RequestContext,
+  ): Promise<void> {
+    return periodicNoteMethods.updatePeriodicNoteForDate(
+      this._request.bind(this),
+      period,
+      date,
+      content,
+      context,
+    );
+  }
+
+  /**
+   * Appends content to the periodic note covering a specific date. Creates if needed.
+   * @param period - The period type.
+   * @param date - The calendar date the note should cover.
+   * @param content - The content to append.
+   * @param context - Request context.
+   * @returns {Promise<void>} Resolves on success (204 No Content).
+   */
+  async appendPeriodicNoteForDate(
+    period: Period,
+    date: PeriodicNoteDate,
+    content: string,
+    context: RequestContext,
+  ): Promise<void> {
+    return periodicNoteMethods.appendPeriodicNoteForDate(
+      this._request.bind(this),
+      period,
+      date,
+      content,
+      context,
+    );
+  }
+
   // --- Patch Methods ---
 
   /**
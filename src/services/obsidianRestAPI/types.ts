@@ -145,7 +145,12 @@ export interface BaseSchemaProperty {
   key: string;
   kind: "note" | "file" | "formula" | "unknown";
   displayName?: string;
+  /**
+   * For note properties: `text`, `number`, `date`, `datetime`, `checkbox`, `list` or `link`.
+   */
   valueType?: string;
+  /** Where `valueType` comes from: Obsidian's `types.json`, the base, or sampled notes. */
+  typeSource?: "types.json" | "base" | "sampled";
 }
 
 /**
@@ -158,6 +163,9 @@ export interface BaseSchemaView {
   order?: string[];
   filters?: Record<string, unknown> | string[] | undefined;
   description?: string;
+  groupBy?: { prop: string; dir: "asc" | "desc" };
+  /** Column summaries of the view, e.g. `{ "note.budget": "Sum" }`. */
+  summaries?: Record<string, string>;
 }
 
 /**
@@ -186,6 +194,42 @@ export interface BaseQueryRequest {
   limit?: number;
   page?: number;
   evaluate?: boolean;
+  /** Property to group rows by; a leading `-` sorts the groups in descending order. */
+  group_by?: string;
+  aggregates?: BaseQueryAggregate[];
+}
+
+/**
+ * Summary computed over the matching rows (and over each group when grouping).
+ * `count` counts rows; the other functions read `prop`.
+ */
+export interface BaseQueryAggregate {
+  fn:
+    | "count"
+    | "sum"
+    | "avg"
+    | "min"
+    | "max"
+    | "earliest"
+    | "latest"
+    | "unique"
+    | "empty"
+    | "filled";
+  prop?: string;
+  /** Key of the result; defaults to `fn(prop)`. */
+  as?: string;
+}
+
+/**
+ * Group of rows sharing the same `group_by` value.
+ */
+export interface BaseQueryGroup {
+  key: unknown;
+  label: string;
+  count: number;
+  aggregates?: Record<string, unknown>;
+  /** Rows of the current page that belong to the group. */
+  rows: BaseQueryRow[];
 }
 
 /**
@@ -208,17 +252,38 @@ export interface BaseQueryResponse {
   page: number;
   rows: BaseQueryRow[];
   evaluate?: boolean;
-  source?: "engine" | "fallback";
+  /**
+   * `engine`: values cached from Obsidian's Bases view; `fallback`: evaluated by the plugin;
+   * `local`: evaluated by the MCP server because the plugin is not installed.
+   */
+  source?: "engine" | "fallback" | "local";
+  warnings?: string[];
+  /**
+   * Set when rows are grouped: pages then follow the group order, `rows` is empty and each
+   * page's rows are listed under their group.
+   */
+  group_by?: string;
+  groups?: BaseQueryGroup[];
+  /** Summaries over all matching rows. */
+  aggregates?: Record<string, unknown>;
 }
 
 /**
  * Operation accepted by the upsert endpoint.
  */
 export interface BaseUpsertOperation {
+  /** Note path; in `insert` / `upsert` mode a bare name is created in the base's folder. */
   file: string;
   set?: Record<string, unknown>;
   unset?: string[];
   expected_mtime?: number;
+  /**
+   * `update` (default) edits an existing note; `insert` creates the note with the values
+   * required by the base's filters; `upsert` edits the note or creates it when missing.
+   */
+  mode?: "update" | "insert" | "upsert";
+  /** Template note applied to created notes (`{{title}}`, `{{date}}`, `{{time}}`). */
+  template?: string;
 }
 
 /**
@@ -227,6 +292,13 @@ export interface BaseUpsertOperation {
 export interface BaseUpsertRequest {
   operations: BaseUpsertOperation[];
   continueOnError?: boolean;
+  /** View whose filters, with the base's, apply to created notes. */
+  view?: string;
+  /**
+   * How `set` values are checked against the property types: `coerce` (default) converts
+   * unambiguous values, `strict` rejects any mismatch, `off` writes values as given.
+   */
+  validation?: "coerce" | "strict" | "off";
 }
 
 /**
@@ -239,11 +311,20 @@ export interface BaseUpsertResult {
     keys: string[];
     unset?: string[];
   };
+  /** Set when the operation created the note. */
+  created?: boolean;
   warnings?: string[];
+  /** `not_found`, `already_exists`, `mtime_conflict`, `filter_mismatch`, `write_error`… */
   error?: {
     code: string;
     message: string;
   };
+  /** Values rejected by the type check (`error.code` is then `validation_error`). */
+  field_errors?: Array<{
+    key: string;
+    expected: string;
+    message: string;
+  }>;
 }
 
 /**
@@ -271,6 +352,8 @@ export interface BaseCreateResponse {
   ok: boolean;
   id: string;
   warnings?: string[];
+  created?: boolean;
+  overwritten?: boolean;
 }
 
 /**
@@ -322,3 +405,13 @@ export interface PatchOptions {
  * Type alias for periodic note periods.
  */
 export type Period = "daily" | "weekly" | "monthly" | "quarterly" | "yearly";
+
+/**
+ * Calendar date identifying a specific periodic note (e.g., the daily note of 2025-07-04,
+ * or the weekly note containing that day). `month` is 1-based.
+ */
+export interface PeriodicNoteDate {
+  year: number;
+  month: number;
+  day: number;
+}
@@ -2,3 +2,4 @@
  * Barrel file for the VaultCacheService.
  */
 export * from "./service.js";
+export { hashContent } from "./snapshot.js";
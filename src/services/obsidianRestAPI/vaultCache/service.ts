@@ -1,6 +1,7 @@
 /**
  * @module VaultCacheService
- * @description Service for building and managing an in-memory cache of Obsidian vault content.
+ * @description Service for building and managing an in-memory cache of Obsidian vault content,
+ * persisted to an on-disk snapshot between runs.
  */
 
 import path from "node:path";
@@ -8,24 +9,51 @@ import { config } from "../../../config/index.js";
 import { BaseErrorCode, McpError } from "../../../types-global/errors.js";
 import {
   logger,
+  mapWithConcurrency,
   RequestContext,
   requestContextService,
   retryWithDelay,
 } from "../../../utils/index.js";
-import { NoteJson, ObsidianRestApiService } from "../index.js";
+import { NoteJson, NoteStat, ObsidianRestApiService } from "../index.js";
+import {
+  getSnapshotPath,
+  hashContent,
+  loadSnapshot,
+  saveSnapshot,
+  SnapshotEntry,
+} from "./snapshot.js";
+
+type CacheEntry = SnapshotEntry;
 
-interface CacheEntry {
-  content: string;
-  mtime: number; // Store modification time for date filtering
-  // Add other stats if needed, e.g., ctime, size
+/** Proactive updates are batched into one snapshot write after this delay. */
+const SNAPSHOT_SAVE_DELAY_MS = 5000;
+
+/**
+ * Files that changed during a cache update. Paths are vault-relative without a leading slash.
+ */
+export interface VaultCacheDiff {
+  added: string[];
+  updated: string[];
+  removed: string[];
 }
 
+/**
+ * Callback invoked after the cache has applied a non-empty diff.
+ */
+export type VaultCacheChangeListener = (diff: VaultCacheDiff) => void;
+
+/** Cache keys are vault paths with a leading "/", whatever form callers pass in. */
+const toCacheKey = (filePath: string) =>
+  path.posix.join("/", filePath.replace(/\\/g, "/"));
+
+const toVaultPath = (cacheKey: string) => cacheKey.replace(/^\/+/, "");
+
 /**
  * Manages an in-memory cache of the Obsidian vault's file structure and metadata.
  *
  * __Is the cache safe and secure?__
  * Yes, the cache is safe and secure for its purpose within this application. Here's why:
- * 1. __In-Memory Storage:__ The cache exists only in the server's memory. It is not written to disk or transmitted over the network, so its attack surface is limited to the server process itself.
+ * 1. __Local Storage:__ The cache lives in the server's memory and, unless `OBSIDIAN_CACHE_PERSIST` is disabled, in a snapshot file under `OBSIDIAN_CACHE_DIR`. That file holds the content of every markdown note, so keep the directory as private as the vault itself. Nothing is transmitted over the network.
  * 2. __Local Data Source:__ The data populating the cache comes directly from your own Obsidian vault via the local REST API. It is not fetching data from external, untrusted sources.
  *
  * __Warning: High Memory Usage__
@@ -37,9 +65,16 @@ export class VaultCacheService {
   private isBuilding: boolean = false;
   private obsidianService: ObsidianRestApiService;
   private refreshIntervalId: NodeJS.Timeout | null = null;
+  private changeListeners: Set<VaultCacheChangeListener> = new Set();
+  private snapshotPath: string | null;
+  private snapshotSaveTimer: NodeJS.Timeout | null = null;
+  private isSnapshotDirty: boolean = false;
 
   constructor(obsidianService: ObsidianRestApiService) {
     this.obsidianService = obsidianService;
+    this.snapshotPath = config.obsidianCachePersist
+      ? getSnapshotPath(config.obsidianCacheDir, config.obsidianBaseUrl)
+      : null;
     logger.info(
       "VaultCacheService initialized.",
       requestContextService.createRequestContext({
@@ -121,11 +156,43 @@ export class VaultCacheService {
 
   /**
    * Retrieves a specific entry from the cache.
-   * @param {string} filePath - The vault-relative path of the file.
+   * @param {string} filePath - The vault-relative path of the file, with or without a leading "/".
    * @returns {CacheEntry | undefined} The cache entry or undefined if not found.
    */
   public getEntry(filePath: string): CacheEntry | undefined {
-    return this.vaultContentCache.get(filePath);
+    return this.vaultContentCache.get(toCacheKey(filePath));
+  }
+
+  /**
+   * Registers a listener notified whenever a refresh or proactive update changes the cache.
+   * @param {VaultCacheChangeListener} listener - Called with the added/updated/removed paths.
+   * @returns {() => void} A function that removes the listener.
+   */
+  public onChange(listener: VaultCacheChangeListener): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  private emitChange(diff: VaultCacheDiff, context: RequestContext): void {
+    if (
+      diff.added.length === 0 &&
+      diff.updated.length === 0 &&
+      diff.removed.length === 0
+    ) {
+      return;
+    }
+    for (const listener of this.changeListeners) {
+      try {
+        listener(diff);
+      } catch (error) {
+        logger.error(
+          `Vault cache change listener failed: ${error instanceof Error ? error.message : String(error)}`,
+          context,
+        );
+      }
+    }
   }
 
   /**
@@ -138,6 +205,7 @@ export class VaultCacheService {
     filePath: string,
     context: RequestContext,
   ): Promise<void> {
+    const cacheKey = toCacheKey(filePath);
     const opContext = { ...context, operation: "updateCacheForFile", filePath };
     logger.debug(`Proactively updating cache for file: ${filePath}`, opContext);
     try {
@@ -161,11 +229,22 @@ export class VaultCacheService {
       );
 
       if (noteJson && noteJson.content && noteJson.stat) {
-        this.vaultContentCache.set(filePath, {
-          content: noteJson.content,
-          mtime: noteJson.stat.mtime,
-        });
+        const previous = this.vaultContentCache.get(cacheKey);
+        const entry = this.toCacheEntry(noteJson);
+        this.vaultContentCache.set(cacheKey, entry);
+        this.scheduleSnapshotSave();
         logger.info(`Proactively updated cache for: ${filePath}`, opContext);
+        if (!previous) {
+          this.emitChange(
+            { added: [toVaultPath(cacheKey)], updated: [], removed: [] },
+            opContext,
+          );
+        } else if (previous.hash !== entry.hash) {
+          this.emitChange(
+            { added: [], updated: [toVaultPath(cacheKey)], removed: [] },
+            opContext,
+          );
+        }
       } else {
         logger.warning(
           `Proactive cache update for ${filePath} received invalid data, skipping update.`,
@@ -175,12 +254,17 @@ export class VaultCacheService {
     } catch (error) {
       // If the file was deleted, a NOT_FOUND error is expected. We should remove it from the cache.
       if (error instanceof McpError && error.code === BaseErrorCode.NOT_FOUND) {
-        if (this.vaultContentCache.has(filePath)) {
-          this.vaultContentCache.delete(filePath);
+        if (this.vaultContentCache.has(cacheKey)) {
+          this.vaultContentCache.delete(cacheKey);
+          this.scheduleSnapshotSave();
           logger.info(
             `Proactively removed deleted file from cache: ${filePath}`,
             opContext,
           );
+          this.emitChange(
+            { added: [], updated: [], removed: [toVaultPath(cacheKey)] },
+            opContext,
+          );
         }
       } else {
         logger.error(
@@ -192,8 +276,65 @@ export class VaultCacheService {
   }
 
   /**
-   * Builds the in-memory cache by fetching all markdown files and their content.
-   * This is intended to be run once at startup. Subsequent updates are handled by `refreshCache`.
+   * Writes any pending changes to the snapshot immediately. Should be called during
+   * graceful shutdown so proactive updates made just before exit are not lost.
+   */
+  public async flushSnapshot(): Promise<void> {
+    if (this.snapshotSaveTimer) {
+      clearTimeout(this.snapshotSaveTimer);
+      this.snapshotSaveTimer = null;
+    }
+    if (!this.snapshotPath || !this.isSnapshotDirty) {
+      return;
+    }
+    const context = requestContextService.createRequestContext({
+      operation: "flushVaultCacheSnapshot",
+      snapshotPath: this.snapshotPath,
+    });
+    this.isSnapshotDirty = false;
+    try {
+      await saveSnapshot(
+        this.snapshotPath,
+        config.obsidianBaseUrl,
+        this.vaultContentCache,
+      );
+      logger.debug(
+        `Saved vault cache snapshot with ${this.vaultContentCache.size} files.`,
+        context,
+      );
+    } catch (error) {
+      this.isSnapshotDirty = true;
+      logger.error(
+        `Failed to save vault cache snapshot: ${error instanceof Error ? error.message : String(error)}`,
+        context,
+      );
+    }
+  }
+
+  private scheduleSnapshotSave(): void {
+    if (!this.snapshotPath) return;
+    this.isSnapshotDirty = true;
+    if (this.snapshotSaveTimer) return;
+    this.snapshotSaveTimer = setTimeout(() => {
+      this.snapshotSaveTimer = null;
+      void this.flushSnapshot();
+    }, SNAPSHOT_SAVE_DELAY_MS);
+    this.snapshotSaveTimer.unref();
+  }
+
+  private toCacheEntry(noteJson: NoteJson): CacheEntry {
+    return {
+      content: noteJson.content,
+      mtime: noteJson.stat.mtime,
+      size: noteJson.stat.size,
+      hash: hashContent(noteJson.content),
+    };
+  }
+
+  /**
+   * Builds the cache at startup. Entries are first restored from the on-disk snapshot, which
+   * makes the cache usable immediately; `refreshCache` then fetches only the notes whose
+   * mtime or size changed since the snapshot was taken. Subsequent updates are handled by `refreshCache`.
    */
   public async buildVaultCache(): Promise<void> {
     const initialBuildContext = requestContextService.createRequestContext({
@@ -211,13 +352,32 @@ export class VaultCacheService {
       return;
     }
 
-    await this.refreshCache(true); // Perform an initial, full build
+    if (this.snapshotPath) {
+      const restored = await loadSnapshot(
+        this.snapshotPath,
+        config.obsidianBaseUrl,
+        initialBuildContext,
+      );
+      if (restored.size > 0) {
+        // Snapshots written before keys were normalized may hold unprefixed paths.
+        this.vaultContentCache = new Map(
+          [...restored].map(([key, entry]) => [toCacheKey(key), entry]),
+        );
+        this.isCacheReady = true;
+        logger.info(
+          `Restored ${restored.size} files from the vault cache snapshot; validating against the vault...`,
+          { ...initialBuildContext, snapshotPath: this.snapshotPath },
+        );
+      }
+    }
+
+    await this.refreshCache(true); // Validate the snapshot, or perform a full build without one
   }
 
   /**
-   * Refreshes the cache by comparing remote file modification times with cached ones.
-   * Only fetches content for new or updated files.
-   * @param isInitialBuild - If true, forces a full build and sets the cache readiness flag.
+   * Refreshes the cache by comparing remote file modification times and sizes with cached ones.
+   * Only fetches content for new or updated files, `OBSIDIAN_CACHE_CONCURRENCY` at a time.
+   * @param isInitialBuild - If true, sets the cache readiness flag once the refresh completes.
    */
   public async refreshCache(isInitialBuild = false): Promise<void> {
     const context = requestContextService.createRequestContext({
@@ -231,27 +391,20 @@ export class VaultCacheService {
     }
 
     this.isBuilding = true;
-    if (isInitialBuild) {
-      this.isCacheReady = false;
-    }
 
     logger.info("Starting vault cache refresh process...", context);
 
     try {
       const startTime = Date.now();
-      const remoteFiles = await this.listAllMarkdownFiles("/", context);
-      const remoteFileSet = new Set(remoteFiles);
-      const cachedFileSet = new Set(this.vaultContentCache.keys());
+      const remoteStats = await this.listMarkdownFileStats(context);
 
-      let filesAdded = 0;
-      let filesUpdated = 0;
-      let filesRemoved = 0;
+      const diff: VaultCacheDiff = { added: [], updated: [], removed: [] };
 
       // 1. Remove deleted files from cache
-      for (const cachedFile of cachedFileSet) {
-        if (!remoteFileSet.has(cachedFile)) {
+      for (const cachedFile of [...this.vaultContentCache.keys()]) {
+        if (!remoteStats.has(cachedFile)) {
           this.vaultContentCache.delete(cachedFile);
-          filesRemoved++;
+          diff.removed.push(toVaultPath(cachedFile));
           logger.debug(`Removed deleted file from cache: ${cachedFile}`, {
             ...context,
             filePath: cachedFile,
@@ -259,77 +412,80 @@ export class VaultCacheService {
         }
       }
 
-      // 2. Check for new or updated files
-      for (const filePath of remoteFiles) {
-        try {
-          const fileMetadata = await this.obsidianService.getFileMetadata(
-            filePath,
-            context,
-          );
-
-          if (!fileMetadata) {
-            logger.warning(
-              `Skipping file during cache refresh due to missing or invalid metadata: ${filePath}`,
-              { ...context, filePath },
-            );
-            continue;
-          }
-
-          const remoteMtime = fileMetadata.mtime;
+      // 2. Fetch new or updated files. A size of 0 means the listing did not report one.
+      const changedFiles = [...remoteStats.entries()]
+        .filter(([filePath, stat]) => {
           const cachedEntry = this.vaultContentCache.get(filePath);
+          return (
+            !cachedEntry ||
+            cachedEntry.mtime !== stat.mtime ||
+            (stat.size > 0 &&
+              cachedEntry.size > 0 &&
+              cachedEntry.size !== stat.size)
+          );
+        })
+        .map(([filePath]) => filePath);
 
-          if (!cachedEntry || cachedEntry.mtime < remoteMtime) {
+      await mapWithConcurrency(
+        changedFiles,
+        config.obsidianCacheConcurrency,
+        async (filePath) => {
+          try {
             const noteJson = (await this.obsidianService.getFileContent(
               filePath,
               "json",
               context,
             )) as NoteJson;
-            this.vaultContentCache.set(filePath, {
-              content: noteJson.content,
-              mtime: noteJson.stat.mtime,
-            });
+            const cachedEntry = this.vaultContentCache.get(filePath);
+            const entry = this.toCacheEntry(noteJson);
+            this.vaultContentCache.set(filePath, entry);
 
             if (!cachedEntry) {
-              filesAdded++;
+              diff.added.push(toVaultPath(filePath));
               logger.debug(`Added new file to cache: ${filePath}`, {
                 ...context,
                 filePath,
               });
-            } else {
-              filesUpdated++;
+            } else if (cachedEntry.hash !== entry.hash) {
+              diff.updated.push(toVaultPath(filePath));
               logger.debug(`Updated modified file in cache: ${filePath}`, {
                 ...context,
                 filePath,
               });
             }
+          } catch (error) {
+            logger.error(
+              `Failed to process file during cache refresh: ${filePath}. Skipping. Error: ${error instanceof Error ? error.message : String(error)}`,
+              { ...context, filePath },
+            );
           }
-        } catch (error) {
-          logger.error(
-            `Failed to process file during cache refresh: ${filePath}. Skipping. Error: ${error instanceof Error ? error.message : String(error)}`,
-            { ...context, filePath },
-          );
-        }
-      }
+        },
+      );
 
       const duration = (Date.now() - startTime) / 1000;
       if (isInitialBuild) {
         this.isCacheReady = true;
         logger.info(
-          `Initial vault cache build completed in ${duration.toFixed(2)}s. Cached ${this.vaultContentCache.size} files.`,
+          `Initial vault cache build completed in ${duration.toFixed(2)}s. Fetched ${changedFiles.length} of ${remoteStats.size} files. Cached ${this.vaultContentCache.size} files.`,
           context,
         );
       } else {
         logger.info(
-          `Vault cache refresh completed in ${duration.toFixed(2)}s. Added: ${filesAdded}, Updated: ${filesUpdated}, Removed: ${filesRemoved}. Total cached: ${this.vaultContentCache.size}.`,
+          `Vault cache refresh completed in ${duration.toFixed(2)}s. Added: ${diff.added.length}, Updated: ${diff.updated.length}, Removed: ${diff.removed.length}. Total cached: ${this.vaultContentCache.size}.`,
           context,
         );
       }
+      if (changedFiles.length > 0 || diff.removed.length > 0) {
+        this.scheduleSnapshotSave();
+        await this.flushSnapshot();
+      }
+      this.emitChange(diff, context);
     } catch (error) {
       logger.error(
         `Critical error during vault cache refresh. Cache may be incomplete. Error: ${error instanceof Error ? error.message : String(error)}`,
         context,
       );
-      if (isInitialBuild) {
+      if (isInitialBuild && this.vaultContentCache.size === 0) {
         this.isCacheReady = false;
       }
     } finally {
@@ -337,6 +493,70 @@ export class VaultCacheService {
     }
   }
 
+  /**
+   * Lists every markdown file with its mtime and size, keyed like the cache ("/" + vault path).
+   * A single JsonLogic search returning each note's `stat` replaces one request per file;
+   * if the search endpoint fails, falls back to a recursive listing plus concurrent HEAD requests.
+   * @param context - Request context.
+   * @returns Map of file path to its stat.
+   */
+  private async listMarkdownFileStats(
+    context: RequestContext,
+  ): Promise<Map<string, Pick<NoteStat, "mtime" | "size">>> {
+    const stats = new Map<string, Pick<NoteStat, "mtime" | "size">>();
+    try {
+      const results = await this.obsidianService.searchComplex(
+        { var: "stat" },
+        "application/vnd.olrapi.jsonlogic+json",
+        context,
+      );
+      if (!Array.isArray(results)) {
+        throw new Error("unexpected search payload");
+      }
+      for (const result of results) {
+        const stat = result.result as Partial<NoteStat> | null;
+        if (typeof stat?.mtime !== "number") {
+          throw new Error(`missing stat for ${result.filename}`);
+        }
+        stats.set(path.posix.join("/", result.filename), {
+          mtime: stat.mtime,
+          size: typeof stat.size === "number" ? stat.size : 0,
+        });
+      }
+      return stats;
+    } catch (error) {
+      logger.warning(
+        `Listing note stats via search failed (${error instanceof Error ? error.message : String(error)}); falling back to per-file metadata requests.`,
+        context,
+      );
+      stats.clear();
+    }
+
+    const remoteFiles = await this.listAllMarkdownFiles("/", context);
+    await mapWithConcurrency(
+      remoteFiles,
+      config.obsidianCacheConcurrency,
+      async (filePath) => {
+        const fileMetadata = await this.obsidianService.getFileMetadata(
+          filePath,
+          context,
+        );
+        if (!fileMetadata) {
+          logger.warning(
+            `Skipping file during cache refresh due to missing or invalid metadata: ${filePath}`,
+            { ...context, filePath },
+          );
+          return;
+        }
+        stats.set(filePath, {
+          mtime: fileMetadata.mtime,
+          size: fileMetadata.size,
+        });
+      },
+    );
+    return stats;
+  }
+
   /**
    * Helper to recursively list all markdown files. Similar to the one in search logic.
    * @param dirPath - Starting directory path.
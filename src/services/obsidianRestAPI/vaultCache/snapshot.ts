@@ -0,0 +1,138 @@
+/**
+ * @module VaultCacheSnapshot
+ * @description Reads and writes the on-disk snapshot of the vault cache, so a restart
+ * only has to fetch the notes that changed while the server was down.
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { logger, RequestContext } from "../../../utils/index.js";
+
+/** Bump when the snapshot layout changes; older snapshots are then ignored. */
+const SNAPSHOT_VERSION = 1;
+
+/**
+ * A cached note as persisted in the snapshot.
+ */
+export interface SnapshotEntry {
+  content: string;
+  mtime: number;
+  /** File size in bytes as reported by Obsidian. */
+  size: number;
+  /** SHA-256 of `content`, used to detect corrupted entries and no-op updates. */
+  hash: string;
+}
+
+interface SnapshotFile {
+  version: number;
+  baseUrl: string;
+  savedAt: string;
+  entries: Record<string, SnapshotEntry>;
+}
+
+/** Hex SHA-256 of a note's content. */
+export const hashContent = (content: string): string =>
+  createHash("sha256").update(content).digest("hex");
+
+/**
+ * Snapshot file for a given vault. The REST API base URL identifies the vault, so
+ * several servers pointed at different vaults can share one cache directory.
+ */
+export const getSnapshotPath = (cacheDir: string, baseUrl: string): string =>
+  path.join(
+    cacheDir,
+    `vault-cache-${createHash("sha1").update(baseUrl).digest("hex").slice(0, 12)}.json`,
+  );
+
+/**
+ * Loads a snapshot. A missing, unreadable or outdated snapshot yields an empty map, and
+ * entries whose content no longer matches their hash are dropped so they get refetched.
+ *
+ * @param {string} snapshotPath - The snapshot file.
+ * @param {string} baseUrl - The REST API base URL the snapshot must have been taken from.
+ * @param {RequestContext} context - The request context for logging.
+ * @returns {Promise<Map<string, SnapshotEntry>>} The restored entries, keyed like the cache.
+ */
+export async function loadSnapshot(
+  snapshotPath: string,
+  baseUrl: string,
+  context: RequestContext,
+): Promise<Map<string, SnapshotEntry>> {
+  const entries = new Map<string, SnapshotEntry>();
+  let snapshot: SnapshotFile;
+  try {
+    snapshot = JSON.parse(await readFile(snapshotPath, "utf-8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      logger.warning(
+        `Ignoring unreadable vault cache snapshot ${snapshotPath}: ${error instanceof Error ? error.message : String(error)}`,
+        context,
+      );
+    }
+    return entries;
+  }
+
+  if (
+    snapshot?.version !== SNAPSHOT_VERSION ||
+    snapshot.baseUrl !== baseUrl ||
+    !snapshot.entries ||
+    typeof snapshot.entries !== "object"
+  ) {
+    logger.info(
+      `Ignoring vault cache snapshot ${snapshotPath}: written by another version or for another vault.`,
+      context,
+    );
+    return entries;
+  }
+
+  let corrupted = 0;
+  for (const [key, entry] of Object.entries(snapshot.entries)) {
+    if (
+      typeof entry?.content !== "string" ||
+      typeof entry.mtime !== "number" ||
+      entry.hash !== hashContent(entry.content)
+    ) {
+      corrupted++;
+      continue;
+    }
+    entries.set(key, {
+      content: entry.content,
+      mtime: entry.mtime,
+      size: typeof entry.size === "number" ? entry.size : 0,
+      hash: entry.hash,
+    });
+  }
+  if (corrupted > 0) {
+    logger.warning(
+      `Dropped ${corrupted} corrupted entr${corrupted === 1 ? "y" : "ies"} from the vault cache snapshot.`,
+      context,
+    );
+  }
+  return entries;
+}
+
+/**
+ * Writes a snapshot atomically (temporary file, then rename) so a crash mid-write
+ * never leaves a truncated snapshot behind.
+ *
+ * @param {string} snapshotPath - The snapshot file.
+ * @param {string} baseUrl - The REST API base URL the entries come from.
+ * @param {ReadonlyMap<string, SnapshotEntry>} entries - The cache entries to persist.
+ */
+export async function saveSnapshot(
+  snapshotPath: string,
+  baseUrl: string,
+  entries: ReadonlyMap<string, SnapshotEntry>,
+): Promise<void> {
+  const snapshot: SnapshotFile = {
+    version: SNAPSHOT_VERSION,
+    baseUrl,
+    savedAt: new Date().toISOString(),
+    entries: Object.fromEntries(entries),
+  };
+  await mkdir(path.dirname(snapshotPath), { recursive: true });
+  const tempPath = `${snapshotPath}.${process.pid}.tmp`;
+  await writeFile(tempPath, JSON.stringify(snapshot), "utf-8");
+  await rename(tempPath, snapshotPath);
+}
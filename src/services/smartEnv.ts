@@ -9,15 +9,66 @@ export type SmartVec = {
   tags?: string[];
   model?: string;
   vec: number[];
+  /** "block" for embeddings of a note section (`path#Heading#Sub` keys), "note" otherwise. */
+  kind?: "note" | "block";
+  /** Headings leading to the block, outermost first. */
+  headingPath?: string[];
+  /** 1-based, inclusive line span of the block within the note, when known. */
+  lineStart?: number;
+  lineEnd?: number;
 };
 
 // ---- Scan config ----
-const SUBDIRS = ["", "multi", "vectors", "cache"];
+/** Subdirectories of `.smart-env` scanned for embedding files ("" is the root). */
+export const SMART_ENV_SUBDIRS = ["", "multi", "vectors", "cache"];
 const EXTS = [".ajson", ".json", ".jsonl", ".ndjson"];
 
+export const isSmartEnvFile = (fileName: string): boolean =>
+  EXTS.some((extension) => fileName.toLowerCase().endsWith(extension));
+
 const isNumArr = (v: unknown): v is number[] =>
   Array.isArray(v) && v.every((x) => typeof x === "number");
 
+/** Collection prefixes Smart Connections puts in front of `.ajson` keys. */
+const KEY_PREFIX = /^smart_(?:sources|blocks):/;
+/** Unnamed sub-blocks (paragraphs under a heading) appear as `#{1}`, `#{2}`... */
+const SUB_BLOCK_SEGMENT = /^\{\d+\}$/;
+
+/**
+ * Splits a Smart Connections key (`Folder/Note.md#Heading#Sub`) into the note path
+ * and the heading path; keys without a `#` after the note name are note-level.
+ */
+export function parseSmartKey(key: string): {
+  notePath: string;
+  headingPath: string[];
+  isBlock: boolean;
+} {
+  const withoutPrefix = key.replace(KEY_PREFIX, "");
+  const hashIndex = withoutPrefix.indexOf("#");
+  if (hashIndex < 0) {
+    return { notePath: withoutPrefix, headingPath: [], isBlock: false };
+  }
+  return {
+    notePath: withoutPrefix.slice(0, hashIndex),
+    headingPath: withoutPrefix
+      .slice(hashIndex + 1)
+      .split("#")
+      .map((segment) => segment.trim())
+      .filter((segment) => segment && !SUB_BLOCK_SEGMENT.test(segment)),
+    isBlock: true,
+  };
+}
+
+const toLineSpan = (
+  value: unknown,
+): { lineStart: number; lineEnd: number } | undefined =>
+  Array.isArray(value) &&
+  value.length >= 2 &&
+  Number.isInteger(value[0]) &&
+  Number.isInteger(value[1])
+    ? { lineStart: value[0], lineEnd: value[1] }
+    : undefined;
+
 // ---- Loose parsing helpers ----
 const stripBOM = (s: string) => s.replace(/^\uFEFF/, "");
 
@@ -202,12 +253,22 @@ function mapDocToSmartVec(doc: unknown, fallbackId: string): SmartVec | null {
       }
     }
   }
+  const keyHint = (candidate as { __smartEnvKey?: unknown }).__smartEnvKey;
+  const smartKey =
+    typeof candidate.key === "string"
+      ? candidate.key
+      : typeof keyHint === "string"
+        ? keyHint
+        : undefined;
+  const parsedKey = smartKey ? parseSmartKey(smartKey) : undefined;
+
   const notePath =
     candidate.path ??
     candidate.notePath ??
     candidate.filePath ??
     candidate.file ??
-    candidate.fullPath;
+    candidate.fullPath ??
+    (parsedKey?.isBlock ? parsedKey.notePath : undefined);
 
   if (!vec || typeof notePath !== "string") return null;
 
@@ -238,8 +299,14 @@ function mapDocToSmartVec(doc: unknown, fallbackId: string): SmartVec | null {
     model = derivedModel;
   }
 
-  const keyHint = (candidate as { __smartEnvKey?: unknown }).__smartEnvKey;
   const sourceKey = typeof keyHint === "string" ? keyHint : fallbackId;
+  const block = parsedKey?.isBlock
+    ? {
+        kind: "block" as const,
+        headingPath: parsedKey.headingPath,
+        ...toLineSpan(candidate.lines),
+      }
+    : { kind: "note" as const };
 
   return {
     id:
@@ -251,45 +318,58 @@ function mapDocToSmartVec(doc: unknown, fallbackId: string): SmartVec | null {
     tags,
     model,
     vec,
+    ...block,
   };
 }
 
-export async function loadSmartEnv(baseDir: string): Promise<SmartVec[]> {
-  const collected: SmartVec[] = [];
+/** Embedding files of a `.smart-env` directory, in scan order (absolute paths). */
+export async function listSmartEnvFiles(baseDir: string): Promise<string[]> {
+  const files: string[] = [];
 
-  for (const subdir of SUBDIRS) {
+  for (const subdir of SMART_ENV_SUBDIRS) {
     const directory = subdir ? path.join(baseDir, subdir) : baseDir;
-    let files: string[] = [];
-
     try {
       const entries = await fs.readdir(directory);
-      files = entries.filter((entry) =>
-        EXTS.some((extension) => entry.toLowerCase().endsWith(extension)),
+      files.push(
+        ...entries
+          .filter(isSmartEnvFile)
+          .map((entry) => path.join(directory, entry)),
       );
     } catch {
       continue;
     }
+  }
 
-    for (const file of files) {
-      const fullPath = path.join(directory, file);
+  return files;
+}
 
-      try {
-        const raw = await fs.readFile(fullPath, "utf-8");
-        const records = await parseLooseJSONLike(raw);
+/** Parses one embedding file; unreadable or malformed files yield no vectors. */
+export async function loadSmartEnvFile(fullPath: string): Promise<SmartVec[]> {
+  const collected: SmartVec[] = [];
 
-        if (!records) continue;
+  try {
+    const raw = await fs.readFile(fullPath, "utf-8");
+    const records = await parseLooseJSONLike(raw);
 
-        for (const record of records) {
-          const item = mapDocToSmartVec(
-            record,
-            file.replace(/\.(a)?json(l)?$/i, ""),
-          );
-          if (item) collected.push(item);
-        }
-      } catch {
-        // ignore malformed file
-      }
+    if (!records) return collected;
+
+    const fallbackId = path.basename(fullPath).replace(/\.(a)?json(l)?$/i, "");
+    for (const record of records) {
+      const item = mapDocToSmartVec(record, fallbackId);
+      if (item) collected.push(item);
     }
+  } catch {
+    // ignore malformed file
+  }
+
+  return collected;
+}
+
+export async function loadSmartEnv(baseDir: string): Promise<SmartVec[]> {
+  const collected: SmartVec[] = [];
+
+  for (const file of await listSmartEnvFiles(baseDir)) {
+    for (const item of await loadSmartEnvFile(file)) collected.push(item);
   }
 
   if (!collected.length) {
@@ -0,0 +1,125 @@
+import { promises as fs, watch, type FSWatcher } from "fs";
+import path from "path";
+import {
+  isSmartEnvFile,
+  listSmartEnvFiles,
+  loadSmartEnvFile,
+  SMART_ENV_SUBDIRS,
+  type SmartVec,
+} from "./smartEnv.js";
+
+export type SmartEnvChanges = {
+  /** Vectors of each new or modified embedding file, keyed by absolute path. */
+  changed: Map<string, SmartVec[]>;
+  /** Embedding files that no longer exist. */
+  removed: string[];
+};
+
+type FileStamp = { mtimeMs: number; size: number };
+
+/**
+ * Tracks the embedding files of a `.smart-env` directory so that only files that changed
+ * are re-parsed. Each scanned subdirectory is watched with `fs.watch`, which marks files
+ * dirty. Where watching is unavailable (some network or WSL-mounted drives), every file
+ * is re-stat'ed at most once per `pollIntervalMs` instead. Either way, a file is only
+ * re-parsed when its mtime or size changed.
+ */
+export class SmartEnvWatcher {
+  private readonly watchers = new Map<string, FSWatcher>();
+  private readonly stamps = new Map<string, FileStamp>();
+  private readonly dirty = new Set<string>();
+  private rescanNeeded = true;
+  private polling = false;
+  private lastRescanAt = 0;
+
+  constructor(
+    public readonly baseDir: string,
+    private readonly pollIntervalMs: number,
+  ) {}
+
+  /**
+   * Changes since the previous call; the first call reports every file as changed.
+   * Events arriving meanwhile are kept for the next call.
+   */
+  public async takeChanges(): Promise<SmartEnvChanges> {
+    const now = Date.now();
+    const changes: SmartEnvChanges = { changed: new Map(), removed: [] };
+    let files: string[];
+
+    if (
+      this.rescanNeeded ||
+      (this.polling && now - this.lastRescanAt >= this.pollIntervalMs)
+    ) {
+      this.rescanNeeded = false;
+      this.lastRescanAt = now;
+      this.dirty.clear();
+      this.attachWatchers();
+      files = await listSmartEnvFiles(this.baseDir);
+      const present = new Set(files);
+      for (const file of [...this.stamps.keys()]) {
+        if (!present.has(file)) files.push(file);
+      }
+    } else {
+      files = [...this.dirty];
+      this.dirty.clear();
+    }
+
+    // Only files whose stamp differs from the one last seen are parsed again.
+    for (const file of files) {
+      let stamp: FileStamp;
+      try {
+        const { mtimeMs, size } = await fs.stat(file);
+        stamp = { mtimeMs, size };
+      } catch {
+        if (this.stamps.delete(file)) changes.removed.push(file);
+        continue;
+      }
+      const previous = this.stamps.get(file);
+      if (previous?.mtimeMs === stamp.mtimeMs && previous.size === stamp.size) {
+        continue;
+      }
+      this.stamps.set(file, stamp);
+      changes.changed.set(file, await loadSmartEnvFile(file));
+    }
+
+    return changes;
+  }
+
+  public close(): void {
+    for (const watcher of this.watchers.values()) watcher.close();
+    this.watchers.clear();
+  }
+
+  private attachWatchers(): void {
+    let polling = false;
+    for (const subdir of SMART_ENV_SUBDIRS) {
+      const directory = subdir ? path.join(this.baseDir, subdir) : this.baseDir;
+      if (this.watchers.has(directory)) continue;
+      try {
+        const watcher = watch(directory, { persistent: false }, (_, name) =>
+          this.onEvent(directory, name),
+        );
+        watcher.on("error", () => {
+          watcher.close();
+          this.watchers.delete(directory);
+          this.rescanNeeded = true;
+        });
+        this.watchers.set(directory, watcher);
+      } catch (error) {
+        // A missing subdirectory is picked up when the root watcher sees it created.
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") polling = true;
+      }
+    }
+    this.polling = polling;
+  }
+
+  private onEvent(directory: string, name: string | null): void {
+    if (!name) {
+      this.rescanNeeded = true;
+    } else if (isSmartEnvFile(name)) {
+      this.dirty.add(path.join(directory, name));
+    } else if (directory === this.baseDir && SMART_ENV_SUBDIRS.includes(name)) {
+      this.rescanNeeded = true;
+    }
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Minimal array-backed binary heap, used by the HNSW graph search.
+ */
+export class BinaryHeap<T> {
+  private readonly items: T[] = [];
+
+  /** @param before - Returns true when `a` must be popped before `b`. */
+  constructor(private readonly before: (a: T, b: T) => boolean) {}
+
+  public get size(): number {
+    return this.items.length;
+  }
+
+  public peek(): T | undefined {
+    return this.items[0];
+  }
+
+  public push(item: T): void {
+    const items = this.items;
+    items.push(item);
+    let index = items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (!this.before(items[index], items[parent])) break;
+      [items[index], items[parent]] = [items[parent], items[index]];
+      index = parent;
+    }
+  }
+
+  public pop(): T | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length === 0 || last === undefined) return top;
+    items[0] = last;
+    let index = 0;
+    for (;;) {
+      const left = 2 * index + 1;
+      const right = left + 1;
+      let next = index;
+      if (left < items.length && this.before(items[left], items[next])) {
+        next = left;
+      }
+      if (right < items.length && this.before(items[right], items[next])) {
+        next = right;
+      }
+      if (next === index) break;
+      [items[index], items[next]] = [items[next], items[index]];
+      index = next;
+    }
+    return top;
+  }
+
+  /** Drains the heap into an array, in pop order. */
+  public drain(): T[] {
+    const drained: T[] = [];
+    while (this.items.length) drained.push(this.pop() as T);
+    return drained;
+  }
+}
@@ -0,0 +1,298 @@
+/**
+ * Packed vector storage and an HNSW (Hierarchical Navigable Small World) graph over it.
+ * Vectors are L2-normalized on insertion, so cosine similarity is a plain dot product.
+ */
+
+import { BinaryHeap } from "./binaryHeap.js";
+
+/** Growable `Float32Array` holding `dim`-sized, unit-length vectors back to back. */
+export class PackedVectors {
+  private data: Float32Array;
+  private length = 0;
+
+  constructor(
+    public readonly dim: number,
+    initial?: Float32Array,
+  ) {
+    this.data = initial ?? new Float32Array(dim * 1024);
+    this.length = initial ? initial.length / dim : 0;
+  }
+
+  public get count(): number {
+    return this.length;
+  }
+
+  /** Normalizes `vec` to unit length (a zero vector stays zero). */
+  public static normalize(vec: ArrayLike<number>): Float32Array {
+    const out = Float32Array.from(vec);
+    let norm = 0;
+    for (let index = 0; index < out.length; index++) {
+      norm += out[index] * out[index];
+    }
+    norm = Math.sqrt(norm);
+    if (norm > 0) {
+      for (let index = 0; index < out.length; index++) out[index] /= norm;
+    }
+    return out;
+  }
+
+  /** Appends an already normalized vector and returns its slot. */
+  public add(vec: Float32Array): number {
+    if (vec.length !== this.dim) {
+      throw new Error(
+        `Vector has ${vec.length} dimensions, expected ${this.dim}`,
+      );
+    }
+    if ((this.length + 1) * this.dim > this.data.length) {
+      const grown = new Float32Array(
+        Math.max(this.data.length * 2, this.dim * 1024),
+      );
+      grown.set(this.data);
+      this.data = grown;
+    }
+    this.data.set(vec, this.length * this.dim);
+    return this.length++;
+  }
+
+  public get(slot: number): Float32Array {
+    return this.data.subarray(slot * this.dim, (slot + 1) * this.dim);
+  }
+
+  public dot(slot: number, query: Float32Array): number {
+    const data = this.data;
+    const offset = slot * this.dim;
+    let sum = 0;
+    for (let index = 0; index < this.dim; index++) {
+      sum += data[offset + index] * query[index];
+    }
+    return sum;
+  }
+
+  /** The used part of the buffer, for persistence. */
+  public toArray(): Float32Array {
+    return this.data.subarray(0, this.length * this.dim);
+  }
+}
+
+export type HnswParams = {
+  /** Links per node on upper layers; layer 0 keeps twice as many. */
+  M: number;
+  efConstruction: number;
+};
+
+export type HnswState = {
+  levels: number[];
+  neighbors: number[][][];
+  entryPoint: number;
+  maxLevel: number;
+};
+
+type Scored = { node: number; sim: number };
+
+const higherFirst = (a: Scored, b: Scored) => a.sim > b.sim;
+const lowerFirst = (a: Scored, b: Scored) => a.sim < b.sim;
+
+/**
+ * HNSW graph over the slots of a {@link PackedVectors} store. Nodes are inserted one
+ * at a time, so the graph can be grown incrementally as new vectors arrive.
+ */
+export class HnswGraph {
+  private levels: number[] = [];
+  private neighbors: number[][][] = [];
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private visited = new Uint32Array(0);
+  private visitEpoch = 0;
+  private readonly levelMultiplier: number;
+
+  constructor(
+    private readonly vectors: PackedVectors,
+    private readonly params: HnswParams,
+    state?: HnswState,
+  ) {
+    this.levelMultiplier = 1 / Math.log(params.M);
+    if (state) {
+      this.levels = state.levels;
+      this.neighbors = state.neighbors;
+      this.entryPoint = state.entryPoint;
+      this.maxLevel = state.maxLevel;
+    }
+  }
+
+  /** Number of slots linked into the graph (slots are inserted in order). */
+  public get size(): number {
+    return this.levels.length;
+  }
+
+  public getState(): HnswState {
+    return {
+      levels: this.levels,
+      neighbors: this.neighbors,
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+    };
+  }
+
+  /** Links the next slot of the store (`slot` must equal {@link size}). */
+  public insert(slot: number): void {
+    if (slot !== this.levels.length) {
+      throw new Error(`HNSW slots must be inserted in order (got ${slot})`);
+    }
+    const level = Math.floor(
+      -Math.log(1 - Math.random()) * this.levelMultiplier,
+    );
+    this.levels.push(level);
+    this.neighbors.push(Array.from({ length: level + 1 }, () => []));
+
+    if (this.entryPoint < 0) {
+      this.entryPoint = slot;
+      this.maxLevel = level;
+      return;
+    }
+
+    const query = this.vectors.get(slot);
+    let entry: Scored = {
+      node: this.entryPoint,
+      sim: this.vectors.dot(this.entryPoint, query),
+    };
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      entry = this.greedy(query, entry, layer);
+    }
+
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(
+        query,
+        [entry],
+        this.params.efConstruction,
+        layer,
+      );
+      const maxLinks = layer === 0 ? this.params.M * 2 : this.params.M;
+      const selected = this.selectNeighbors(candidates, this.params.M);
+      this.neighbors[slot][layer] = selected.map((candidate) => candidate.node);
+      for (const { node } of selected) {
+        const links = this.neighbors[node][layer];
+        links.push(slot);
+        if (links.length > maxLinks) this.prune(node, layer, maxLinks);
+      }
+      entry = candidates[0];
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = slot;
+    }
+  }
+
+  /**
+   * Approximate top-`ef` slots by similarity to a normalized query, best first.
+   * @param accept - Excludes slots from the results (they are still traversed).
+   */
+  public search(
+    query: Float32Array,
+    ef: number,
+    accept: (slot: number) => boolean,
+  ): Scored[] {
+    if (this.entryPoint < 0) return [];
+    let entry: Scored = {
+      node: this.entryPoint,
+      sim: this.vectors.dot(this.entryPoint, query),
+    };
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      entry = this.greedy(query, entry, layer);
+    }
+    return this.searchLayer(query, [entry], ef, 0).filter((candidate) =>
+      accept(candidate.node),
+    );
+  }
+
+  private greedy(query: Float32Array, entry: Scored, layer: number): Scored {
+    let best = entry;
+    let improved = true;
+    while (improved) {
+      improved = false;
+      for (const neighbor of this.neighbors[best.node][layer]) {
+        const sim = this.vectors.dot(neighbor, query);
+        if (sim > best.sim) {
+          best = { node: neighbor, sim };
+          improved = true;
+        }
+      }
+    }
+    return best;
+  }
+
+  private searchLayer(
+    query: Float32Array,
+    entries: Scored[],
+    ef: number,
+    layer: number,
+  ): Scored[] {
+    if (this.visited.length < this.levels.length) {
+      this.visited = new Uint32Array(Math.max(1024, this.levels.length * 2));
+      this.visitEpoch = 0;
+    }
+    const epoch = ++this.visitEpoch;
+    const candidates = new BinaryHeap<Scored>(higherFirst);
+    const results = new BinaryHeap<Scored>(lowerFirst);
+    for (const entry of entries) {
+      this.visited[entry.node] = epoch;
+      candidates.push(entry);
+      results.push(entry);
+    }
+
+    while (candidates.size) {
+      const current = candidates.pop() as Scored;
+      const worst = results.peek() as Scored;
+      if (results.size >= ef && current.sim < worst.sim) break;
+      for (const neighbor of this.neighbors[current.node][layer]) {
+        if (this.visited[neighbor] === epoch) continue;
+        this.visited[neighbor] = epoch;
+        const sim = this.vectors.dot(neighbor, query);
+        if (results.size < ef || sim > (results.peek() as Scored).sim) {
+          const scored = { node: neighbor, sim };
+          candidates.push(scored);
+          results.push(scored);
+          if (results.size > ef) results.pop();
+        }
+      }
+    }
+
+    return results.drain().reverse();
+  }
+
+  /**
+   * Neighbor selection heuristic from the HNSW paper: keeps a candidate only if it is
+   * closer to the new node than to any neighbor already kept, which preserves links
+   * across clusters. `candidates` must be sorted best first.
+   */
+  private selectNeighbors(candidates: Scored[], max: number): Scored[] {
+    const selected: Scored[] = [];
+    for (const candidate of candidates) {
+      if (selected.length >= max) break;
+      const candidateVector = this.vectors.get(candidate.node);
+      const diverse = selected.every(
+        (kept) => this.vectors.dot(kept.node, candidateVector) < candidate.sim,
+      );
+      if (diverse) selected.push(candidate);
+    }
+    // Top up with the best remaining candidates so sparse regions stay connected.
+    for (const candidate of candidates) {
+      if (selected.length >= max) break;
+      if (!selected.includes(candidate)) selected.push(candidate);
+    }
+    return selected;
+  }
+
+  private prune(node: number, layer: number, maxLinks: number): void {
+    const nodeVector = this.vectors.get(node);
+    const scored = this.neighbors[node][layer]
+      .map((neighbor) => ({
+        node: neighbor,
+        sim: this.vectors.dot(neighbor, nodeVector),
+      }))
+      .sort((a, b) => b.sim - a.sim);
+    this.neighbors[node][layer] = this.selectNeighbors(scored, maxLinks).map(
+      (candidate) => candidate.node,
+    );
+  }
+}
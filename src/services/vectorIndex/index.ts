@@ -0,0 +1,4 @@
+/**
+ * Barrel file for the nearest-neighbour vector index.
+ */
+export * from "./vectorIndex.js";
@@ -0,0 +1,504 @@
+/**
+ * Nearest-neighbour index over embedding vectors: packed, pre-normalized storage plus an
+ * HNSW graph that is grown incrementally in the background and persisted to disk.
+ * Exact brute-force search remains available, and is used until the graph is ready.
+ */
+
+import { createHash } from "node:crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { config } from "../../config/index.js";
+import { logger, requestContextService } from "../../utils/index.js";
+import { BinaryHeap } from "./binaryHeap.js";
+import { HnswGraph, PackedVectors, type HnswParams } from "./hnsw.js";
+
+/** Bump when the persisted layout changes; older files are then rebuilt. */
+const PERSIST_VERSION = 1;
+/** Below this many vectors, an exact scan is fast enough and no graph is built. */
+export const ANN_MIN_ITEMS = 5000;
+/** Compaction (and a graph rebuild) happens once this share of slots is deleted. */
+const MAX_DELETED_RATIO = 0.25;
+/** Nodes linked per event-loop turn while building, to keep the server responsive. */
+const BUILD_BATCH = 50;
+const EF_SEARCH = 100;
+const HNSW_PARAMS: HnswParams = { M: 16, efConstruction: 100 };
+
+export type VectorSearchMode = "auto" | "hnsw" | "exact";
+
+export type VectorIndexItem<M> = {
+  /** Stable identity used to match items across reloads. */
+  key: string;
+  meta: M;
+  vec: ArrayLike<number>;
+};
+
+export type VectorSearchHit<M> = { meta: M; score: number };
+
+export type VectorSearchResult<M> = {
+  hits: VectorSearchHit<M>[];
+  method: "hnsw" | "exact";
+};
+
+export type VectorIndexOptions = {
+  /** Persisted files are `<persistPath>.json` and `<persistPath>.bin`; omit to keep the index in memory. */
+  persistPath?: string;
+  mode: VectorSearchMode;
+};
+
+type PersistedHeader = {
+  version: number;
+  dim: number;
+  M: number;
+  count: number;
+  keys: string[];
+  fingerprints: number[];
+  deleted: number[];
+  levels: number[];
+  entryPoint: number;
+  maxLevel: number;
+};
+
+/** FNV-1a over the float bits; detects vectors that changed under an unchanged key. */
+const fingerprint = (vec: Float32Array): number => {
+  const words = new Uint32Array(vec.buffer, vec.byteOffset, vec.length);
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < words.length; index++) {
+    hash = Math.imul(hash ^ words[index], 0x01000193) >>> 0;
+  }
+  return hash;
+};
+
+export class VectorIndex<M> {
+  private vectors: PackedVectors;
+  private graph: HnswGraph;
+  private keys: string[] = [];
+  private fingerprints: number[] = [];
+  private metas: (M | undefined)[] = [];
+  private deleted = new Set<number>();
+  private slotByKey = new Map<string, number>();
+  private building: Promise<void> | null = null;
+
+  private constructor(
+    public readonly dim: number,
+    private readonly options: VectorIndexOptions,
+  ) {
+    this.vectors = new PackedVectors(dim);
+    this.graph = new HnswGraph(this.vectors, HNSW_PARAMS);
+  }
+
+  /** Opens an index, restoring the persisted vectors and graph when they match `dim`. */
+  public static async open<M>(
+    dim: number,
+    options: VectorIndexOptions,
+  ): Promise<VectorIndex<M>> {
+    const index = new VectorIndex<M>(dim, options);
+    if (options.persistPath && options.mode !== "exact") {
+      await index.restore(options.persistPath);
+    }
+    return index;
+  }
+
+  /** Number of live (non-deleted) vectors. */
+  public get size(): number {
+    return this.vectors.count - this.deleted.size;
+  }
+
+  /**
+   * Replaces the index contents with `items`. Unchanged vectors keep their slot and graph
+   * links (only their metadata is refreshed); new or changed vectors are appended and
+   * linked in the background; vanished ones are tombstoned until the next compaction.
+   * Items whose dimension differs from the index are skipped.
+   */
+  public sync(items: Iterable<VectorIndexItem<M>>): {
+    added: number;
+    removed: number;
+  } {
+    const seen = new Set<number>();
+    let added = 0;
+    let removed = 0;
+
+    for (const item of items) {
+      if (item.vec.length !== this.dim) continue;
+      const existing = this.slotByKey.get(item.key);
+      if (existing !== undefined && seen.has(existing)) continue; // duplicate key
+
+      const { slot, isNew } = this.put(item);
+      seen.add(slot);
+      if (isNew) added++;
+    }
+
+    for (let slot = 0; slot < this.vectors.count; slot++) {
+      if (seen.has(slot) || this.deleted.has(slot)) continue;
+      this.deleted.add(slot);
+      if (this.slotByKey.get(this.keys[slot]) === slot) {
+        this.slotByKey.delete(this.keys[slot]);
+      }
+      this.metas[slot] = undefined;
+      removed++;
+    }
+
+    if (this.deleted.size > this.vectors.count * MAX_DELETED_RATIO) {
+      this.compact();
+    }
+    this.buildInBackground();
+    return { added, removed };
+  }
+
+  /**
+   * Applies a partial change: `upserts` are added or updated as in `sync`, `removedKeys`
+   * are tombstoned, and every other item is left untouched.
+   */
+  public patch(
+    upserts: Iterable<VectorIndexItem<M>>,
+    removedKeys: Iterable<string>,
+  ): { added: number; removed: number } {
+    let added = 0;
+    let removed = 0;
+
+    for (const key of removedKeys) {
+      const slot = this.slotByKey.get(key);
+      if (slot === undefined) continue;
+      this.deleted.add(slot);
+      this.slotByKey.delete(key);
+      this.metas[slot] = undefined;
+      removed++;
+    }
+    for (const item of upserts) {
+      if (item.vec.length !== this.dim) continue;
+      if (this.put(item).isNew) added++;
+    }
+
+    if (this.deleted.size > this.vectors.count * MAX_DELETED_RATIO) {
+      this.compact();
+    }
+    this.buildInBackground();
+    return { added, removed };
+  }
+
+  /**
+   * Top-`k` items by cosine similarity. Uses the HNSW graph when it is built (vectors not
+   * yet linked are scanned exactly and merged in), and falls back to an exact scan when
+   * `exact` is set, the index is small, or a selective `filter` leaves the graph walk short.
+   */
+  public search(
+    query: ArrayLike<number>,
+    k: number,
+    options: { filter?: (meta: M) => boolean; exact?: boolean } = {},
+  ): VectorSearchResult<M> {
+    if (query.length !== this.dim) {
+      throw new Error(
+        `Query has ${query.length} dimensions, expected ${this.dim}`,
+      );
+    }
+    const normalized = PackedVectors.normalize(query);
+    const accept = (slot: number): boolean => {
+      const meta = this.metas[slot];
+      return (
+        meta !== undefined &&
+        !this.deleted.has(slot) &&
+        (!options.filter || options.filter(meta))
+      );
+    };
+
+    const useGraph =
+      !options.exact &&
+      this.options.mode !== "exact" &&
+      this.graph.size > 0 &&
+      (this.options.mode === "hnsw" || this.graph.size >= ANN_MIN_ITEMS);
+
+    if (useGraph) {
+      const candidates = this.graph.search(
+        normalized,
+        Math.max(EF_SEARCH, k * 2),
+        accept,
+      );
+      const unlinked = this.scan(normalized, k, accept, this.graph.size);
+      const merged = [...candidates, ...unlinked]
+        .sort((a, b) => b.sim - a.sim)
+        .slice(0, k);
+      if (merged.length >= Math.min(k, this.size) || !options.filter) {
+        return { hits: this.toHits(merged), method: "hnsw" };
+      }
+    }
+
+    return {
+      hits: this.toHits(this.scan(normalized, k, accept, 0)),
+      method: "exact",
+    };
+  }
+
+  /**
+   * Mean and standard deviation of the query's cosine similarity over an evenly spaced
+   * sample of live vectors: the background level a hit's score can be compared against.
+   */
+  public similarityStats(
+    query: ArrayLike<number>,
+    sampleSize = 256,
+  ): { mean: number; std: number } {
+    const normalized = PackedVectors.normalize(query);
+    const step = Math.max(1, Math.floor(this.vectors.count / sampleSize));
+    let count = 0;
+    let sum = 0;
+    let sumOfSquares = 0;
+    for (let slot = 0; slot < this.vectors.count; slot += step) {
+      if (this.metas[slot] === undefined || this.deleted.has(slot)) continue;
+      const sim = this.vectors.dot(slot, normalized);
+      count++;
+      sum += sim;
+      sumOfSquares += sim * sim;
+    }
+    if (!count) return { mean: 0, std: 1 };
+    const mean = sum / count;
+    const variance = Math.max(sumOfSquares / count - mean * mean, 0);
+    return { mean, std: Math.sqrt(variance) || 1 };
+  }
+
+  /** Live items matching `filter`, with their stored (unit-length) vectors. */
+  public collect(
+    filter: (meta: M) => boolean,
+  ): { meta: M; vec: Float32Array }[] {
+    const matches: { meta: M; vec: Float32Array }[] = [];
+    for (let slot = 0; slot < this.vectors.count; slot++) {
+      const meta = this.metas[slot];
+      if (meta === undefined || this.deleted.has(slot) || !filter(meta)) {
+        continue;
+      }
+      matches.push({ meta, vec: this.vectors.get(slot) });
+    }
+    return matches;
+  }
+
+  /**
+   * Stores one item under its key: an unchanged vector keeps its slot and only the
+   * metadata is refreshed; otherwise the old slot is tombstoned and a new one appended.
+   */
+  private put(item: VectorIndexItem<M>): { slot: number; isNew: boolean } {
+    const existing = this.slotByKey.get(item.key);
+    const vec = PackedVectors.normalize(item.vec);
+    const print = fingerprint(vec);
+    if (existing !== undefined && this.fingerprints[existing] === print) {
+      this.metas[existing] = item.meta;
+      return { slot: existing, isNew: false };
+    }
+    if (existing !== undefined) this.deleted.add(existing);
+
+    const slot = this.vectors.add(vec);
+    this.keys.push(item.key);
+    this.fingerprints.push(print);
+    this.metas.push(item.meta);
+    this.slotByKey.set(item.key, slot);
+    return { slot, isNew: true };
+  }
+
+  private toHits(scored: { node: number; sim: number }[]) {
+    return scored.map(({ node, sim }) => ({
+      meta: this.metas[node] as M,
+      score: sim,
+    }));
+  }
+
+  /** Exact top-`k` over slots `from`..end with a bounded min-heap. */
+  private scan(
+    query: Float32Array,
+    k: number,
+    accept: (slot: number) => boolean,
+    from: number,
+  ): { node: number; sim: number }[] {
+    const top = new BinaryHeap<{ node: number; sim: number }>(
+      (a, b) => a.sim < b.sim,
+    );
+    for (let slot = from; slot < this.vectors.count; slot++) {
+      if (!accept(slot)) continue;
+      const sim = this.vectors.dot(slot, query);
+      if (top.size < k) {
+        top.push({ node: slot, sim });
+      } else if (sim > (top.peek() as { sim: number }).sim) {
+        top.pop();
+        top.push({ node: slot, sim });
+      }
+    }
+    return top.drain().reverse();
+  }
+
+  /** Drops tombstoned slots; the graph is rebuilt from scratch in the background. */
+  private compact(): void {
+    const vectors = new PackedVectors(this.dim);
+    const keys: string[] = [];
+    const fingerprints: number[] = [];
+    const metas: (M | undefined)[] = [];
+    this.slotByKey.clear();
+    for (let slot = 0; slot < this.vectors.count; slot++) {
+      if (this.deleted.has(slot)) continue;
+      const newSlot = vectors.add(this.vectors.get(slot));
+      keys.push(this.keys[slot]);
+      fingerprints.push(this.fingerprints[slot]);
+      metas.push(this.metas[slot]);
+      this.slotByKey.set(this.keys[slot], newSlot);
+    }
+    this.vectors = vectors;
+    this.keys = keys;
+    this.fingerprints = fingerprints;
+    this.metas = metas;
+    this.deleted.clear();
+    this.graph = new HnswGraph(vectors, HNSW_PARAMS);
+  }
+
+  private buildInBackground(): void {
+    if (this.building || this.options.mode === "exact") return;
+    if (this.options.mode === "auto" && this.vectors.count < ANN_MIN_ITEMS) {
+      return;
+    }
+    if (this.graph.size >= this.vectors.count) return;
+
+    const context = requestContextService.createRequestContext({
+      operation: "VectorIndexBuild",
+      persistPath: this.options.persistPath,
+    });
+    const startedAt = Date.now();
+    const initialSize = this.graph.size;
+
+    this.building = (async () => {
+      // Re-read `this.graph` every batch: a compaction may replace it meanwhile.
+      while (this.graph.size < this.vectors.count) {
+        const graph = this.graph;
+        const end = Math.min(graph.size + BUILD_BATCH, this.vectors.count);
+        for (let slot = graph.size; slot < end; slot++) graph.insert(slot);
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+      logger.info(
+        `HNSW index linked ${this.graph.size - initialSize} vector(s) in ${((Date.now() - startedAt) / 1000).toFixed(1)}s (${this.size} live).`,
+        context,
+      );
+      await this.persist();
+    })()
+      .catch((error) => {
+        logger.error(
+          `Building the HNSW index failed: ${error instanceof Error ? error.message : String(error)}`,
+          context,
+        );
+      })
+      .finally(() => {
+        this.building = null;
+      });
+  }
+
+  private async persist(): Promise<void> {
+    const persistPath = this.options.persistPath;
+    if (!persistPath || this.graph.size !== this.vectors.count) return;
+
+    const state = this.graph.getState();
+    const graphInts: number[] = [];
+    for (let slot = 0; slot < state.levels.length; slot++) {
+      for (let layer = 0; layer <= state.levels[slot]; layer++) {
+        const links = state.neighbors[slot][layer];
+        graphInts.push(links.length, ...links);
+      }
+    }
+
+    const header: PersistedHeader = {
+      version: PERSIST_VERSION,
+      dim: this.dim,
+      M: HNSW_PARAMS.M,
+      count: this.vectors.count,
+      keys: this.keys,
+      fingerprints: this.fingerprints,
+      deleted: [...this.deleted],
+      levels: state.levels,
+      entryPoint: state.entryPoint,
+      maxLevel: state.maxLevel,
+    };
+    const vectors = this.vectors.toArray();
+    const body = Buffer.concat([
+      Buffer.from(vectors.buffer, vectors.byteOffset, vectors.byteLength),
+      Buffer.from(Int32Array.from(graphInts).buffer),
+    ]);
+
+    await fs.mkdir(path.dirname(persistPath), { recursive: true });
+    // The header is written last: a header always describes a complete body.
+    await fs.writeFile(`${persistPath}.bin.tmp`, body);
+    await fs.rename(`${persistPath}.bin.tmp`, `${persistPath}.bin`);
+    await fs.writeFile(`${persistPath}.json.tmp`, JSON.stringify(header));
+    await fs.rename(`${persistPath}.json.tmp`, `${persistPath}.json`);
+  }
+
+  private async restore(persistPath: string): Promise<void> {
+    let header: PersistedHeader;
+    let body: Buffer;
+    try {
+      header = JSON.parse(await fs.readFile(`${persistPath}.json`, "utf-8"));
+      body = await fs.readFile(`${persistPath}.bin`);
+    } catch {
+      return;
+    }
+    const vectorBytes = header.count * header.dim * 4;
+    if (
+      header.version !== PERSIST_VERSION ||
+      header.dim !== this.dim ||
+      header.M !== HNSW_PARAMS.M ||
+      body.length < vectorBytes
+    ) {
+      return;
+    }
+
+    // Copy into fresh, aligned typed arrays (Buffer slices may be unaligned).
+    const vectors = new Float32Array(header.count * header.dim);
+    new Uint8Array(vectors.buffer).set(body.subarray(0, vectorBytes));
+    const graphInts = new Int32Array((body.length - vectorBytes) / 4);
+    new Uint8Array(graphInts.buffer).set(body.subarray(vectorBytes));
+
+    const neighbors: number[][][] = [];
+    let cursor = 0;
+    for (let slot = 0; slot < header.count; slot++) {
+      const layers: number[][] = [];
+      for (let layer = 0; layer <= header.levels[slot]; layer++) {
+        const length = graphInts[cursor++];
+        layers.push(Array.from(graphInts.subarray(cursor, cursor + length)));
+        cursor += length;
+      }
+      neighbors.push(layers);
+    }
+
+    this.vectors = new PackedVectors(this.dim, vectors);
+    this.graph = new HnswGraph(this.vectors, HNSW_PARAMS, {
+      levels: header.levels,
+      neighbors,
+      entryPoint: header.entryPoint,
+      maxLevel: header.maxLevel,
+    });
+    this.keys = header.keys;
+    this.fingerprints = header.fingerprints;
+    this.metas = new Array(header.count).fill(undefined);
+    this.deleted = new Set(header.deleted);
+    this.slotByKey = new Map();
+    header.keys.forEach((key, slot) => {
+      if (!this.deleted.has(slot)) this.slotByKey.set(key, slot);
+    });
+  }
+}
+
+const openIndexes = new Map<string, Promise<VectorIndex<unknown>>>();
+
+/**
+ * Returns the process-wide index for a named corpus (e.g. one `.smart-env` directory),
+ * persisted under `OBSIDIAN_CACHE_DIR/ann`. A new dimension gets a separate index.
+ */
+export function openVectorIndex<M>(
+  name: string,
+  dim: number,
+): Promise<VectorIndex<M>> {
+  const id = `${name}::${dim}`;
+  let opened = openIndexes.get(id);
+  if (!opened) {
+    const digest = createHash("sha1").update(name).digest("hex").slice(0, 12);
+    opened = VectorIndex.open<unknown>(dim, {
+      mode: config.smartSearchIndex,
+      persistPath: path.join(
+        config.obsidianCacheDir,
+        "ann",
+        `ann-${digest}-${dim}`,
+      ),
+    });
+    openIndexes.set(id, opened);
+  }
+  return opened as Promise<VectorIndex<M>>;
+}
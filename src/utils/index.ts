@@ -4,6 +4,7 @@ export * from "./parsing/index.js";
 export * from "./security/index.js";
 export * from "./metrics/index.js";
 export * from "./obsidian/index.js"; // Added export for obsidian utils
+export * from "./search/index.js";
 
 // It's good practice to have index.ts files in each subdirectory
 // that export the contents of that directory.
@@ -168,3 +168,41 @@ export async function retryWithDelay<T>(
     },
   );
 }
+
+/**
+ * Maps `items` through an asynchronous function with at most `concurrency` calls in
+ * flight, preserving input order in the result. After a rejection from `mapper` no new
+ * calls start, and the whole operation rejects with that first error once in-flight calls
+ * settle; mappers that should not abort the batch must handle their own errors.
+ *
+ * @template T The input item type.
+ * @template R The mapped result type.
+ * @param {readonly T[]} items - The items to process.
+ * @param {number} concurrency - Maximum number of concurrent `mapper` calls (at least 1).
+ * @param {(item: T, index: number) => Promise<R>} mapper - The asynchronous mapping function.
+ * @returns {Promise<R[]>} The mapped results, in the same order as `items`.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  mapper: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+  let failure: { error: unknown } | undefined;
+  const worker = async () => {
+    while (!failure && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await mapper(items[index], index);
+      } catch (error) {
+        // Keeps the first error; the other workers stop picking up new items.
+        failure ??= { error };
+      }
+    }
+  };
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.allSettled(Array.from({ length: workerCount }, worker));
+  if (failure) throw failure.error;
+  return results;
+}
@@ -3,3 +3,7 @@
  */
 export * from "./obsidianStatUtils.js";
 export * from "./obsidianApiUtils.js";
+export * from "./obsidianCommandPolicy.js";
+export * from "./periodicNoteDates.js";
+export * from "./obsidianTagUtils.js";
+export * from "./obsidianLinkUtils.js";
@@ -0,0 +1,83 @@
+/**
+ * @fileoverview Allowlist/denylist evaluation for Obsidian command execution.
+ * @module src/utils/obsidian/obsidianCommandPolicy
+ */
+
+/**
+ * Outcome of evaluating a command id against the configured policy.
+ */
+export interface CommandPolicyDecision {
+  allowed: boolean;
+  /** Human-readable explanation, suitable for returning to the client. */
+  reason: string;
+}
+
+/**
+ * Converts a command pattern to a RegExp. `*` matches any sequence of characters,
+ * so `templater-obsidian:*` covers every Templater command.
+ */
+function patternToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .split("*")
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Checks whether `commandId` matches any of the given patterns.
+ * @param commandId - The Obsidian command id (e.g., "editor:toggle-bold").
+ * @param patterns - Exact ids or `*` wildcard patterns.
+ * @returns The first matching pattern, or `undefined`.
+ */
+export function findMatchingCommandPattern(
+  commandId: string,
+  patterns: readonly string[] | undefined,
+): string | undefined {
+  return patterns?.find((pattern) => patternToRegExp(pattern).test(commandId));
+}
+
+/**
+ * Decides whether a command may be executed. The denylist always wins; otherwise
+ * the command must match the allowlist. An empty allowlist denies everything, so
+ * execution stays opt-in.
+ *
+ * @param commandId - The Obsidian command id.
+ * @param allowlist - Allowed ids/patterns (use `*` to allow all).
+ * @param denylist - Forbidden ids/patterns.
+ * @returns The policy decision.
+ */
+export function evaluateCommandPolicy(
+  commandId: string,
+  allowlist: readonly string[] | undefined,
+  denylist: readonly string[] | undefined,
+): CommandPolicyDecision {
+  const denied = findMatchingCommandPattern(commandId, denylist);
+  if (denied) {
+    return {
+      allowed: false,
+      reason: `Command '${commandId}' is blocked by OBSIDIAN_COMMAND_DENYLIST pattern '${denied}'.`,
+    };
+  }
+
+  if (!allowlist || allowlist.length === 0) {
+    return {
+      allowed: false,
+      reason:
+        "Command execution is disabled: OBSIDIAN_COMMAND_ALLOWLIST is empty. Add command ids or patterns (e.g., 'templater-obsidian:*', or '*' for all).",
+    };
+  }
+
+  const allowed = findMatchingCommandPattern(commandId, allowlist);
+  if (!allowed) {
+    return {
+      allowed: false,
+      reason: `Command '${commandId}' is not in OBSIDIAN_COMMAND_ALLOWLIST.`,
+    };
+  }
+
+  return {
+    allowed: true,
+    reason: `Command '${commandId}' is allowed by pattern '${allowed}'.`,
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * @fileoverview Extracts outgoing note links from raw note content, for use where only
+ * the markdown is available (e.g., the vault cache or a note read from disk).
+ * @module src/utils/obsidian/obsidianLinkUtils
+ */
+
+// [[Target]], [[Target|Alias]], [[Target#Heading]], ![[Embed]]
+const WIKILINK_REGEX =
+  /!?\[\[([^\]|#^\n]*)(?:[#^][^\]|\n]*)?(?:\|[^\]\n]*)?\]\]/g;
+// [Label](Target.md), [Label](<Target with spaces.md>)
+const MARKDOWN_LINK_REGEX = /\[[^\]\n]*\]\((?:<([^>\n]+)>|([^)\s]+))\)/g;
+
+/**
+ * Returns the unique link targets of a note (wikilinks and relative markdown links), as
+ * written: without heading/block anchors or aliases, URL-decoded, and without a `.md`
+ * extension. External URLs and links inside code blocks and code spans are ignored.
+ * @param content - The raw markdown content of the note.
+ * @returns Link targets in order of first appearance.
+ */
+export function extractNoteLinks(content: string): string[] {
+  const body = content
+    .replace(/^(```|~~~)[\s\S]*?^\1/gm, "")
+    .replace(/`[^`\n]*`/g, "");
+  const targets = new Set<string>();
+
+  for (const match of body.matchAll(WIKILINK_REGEX)) {
+    targets.add(match[1].trim());
+  }
+  for (const match of body.matchAll(MARKDOWN_LINK_REGEX)) {
+    const raw = (match[1] ?? match[2]).split("#")[0];
+    if (!raw || /^[a-z][a-z0-9+.-]*:/i.test(raw)) continue;
+    try {
+      targets.add(decodeURIComponent(raw).trim());
+    } catch {
+      targets.add(raw.trim());
+    }
+  }
+
+  return [...targets]
+    .map((target) => target.replace(/^\.?\//, "").replace(/\.md$/i, ""))
+    .filter(Boolean);
+}
+
+/**
+ * Whether a link target written in a note points at `notePath`, using Obsidian's rules
+ * loosely: a bare name matches any note with that file name, a path matches by suffix.
+ * Comparison is case-insensitive.
+ */
+export function linkTargetMatchesPath(
+  target: string,
+  notePath: string,
+): boolean {
+  const wanted = target.toLowerCase();
+  const candidate = notePath
+    .replace(/^\/+/, "")
+    .replace(/\.md$/i, "")
+    .toLowerCase();
+  return candidate === wanted || candidate.endsWith(`/${wanted}`);
+}
@@ -0,0 +1,74 @@
+/**
+ * @fileoverview Extracts Obsidian tags from raw note content, for use where only the
+ * markdown is available (e.g., the vault cache) rather than the REST API's NoteJson.
+ * @module src/utils/obsidian/obsidianTagUtils
+ */
+
+import { load } from "js-yaml";
+
+const FRONTMATTER_REGEX = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/;
+// Obsidian tags: letters, digits, `_`, `-` and `/` (nesting); at least one non-digit.
+const INLINE_TAG_REGEX =
+  /(?:^|[\s(])#([\p{L}\p{N}_\-/]*[\p{L}_\-/][\p{L}\p{N}_\-/]*)/gu;
+
+function frontmatterTags(content: string): string[] {
+  const match = content.match(FRONTMATTER_REGEX);
+  if (!match) return [];
+  let data: unknown;
+  try {
+    data = load(match[1]);
+  } catch {
+    return [];
+  }
+  if (!data || typeof data !== "object") return [];
+  const raw =
+    (data as Record<string, unknown>).tags ??
+    (data as Record<string, unknown>).tag;
+  const values = Array.isArray(raw)
+    ? raw
+    : typeof raw === "string"
+      ? raw.split(/[,\s]+/)
+      : [];
+  return values
+    .filter(
+      (value): value is string | number =>
+        value !== null && value !== undefined,
+    )
+    .map((value) => String(value).trim().replace(/^#/, ""))
+    .filter(Boolean);
+}
+
+/**
+ * Returns the unique tags of a note (frontmatter `tags`/`tag` plus inline `#tags`),
+ * without the leading `#`. Inline tags inside code blocks and code spans are ignored.
+ * @param content - The raw markdown content of the note.
+ * @returns Tags in order of first appearance.
+ */
+export function extractNoteTags(content: string): string[] {
+  const tags = new Set(frontmatterTags(content));
+
+  const body = content
+    .replace(FRONTMATTER_REGEX, "")
+    .replace(/^(```|~~~)[\s\S]*?^\1/gm, "")
+    .replace(/`[^`\n]*`/g, "");
+  for (const match of body.matchAll(INLINE_TAG_REGEX)) {
+    tags.add(match[1].replace(/\/+$/, ""));
+  }
+
+  return [...tags].filter(Boolean);
+}
+
+/**
+ * Counts how many notes carry each tag.
+ * @param contents - Raw markdown of each note.
+ * @returns Tag → number of notes using it.
+ */
+export function countNoteTags(contents: Iterable<string>): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const content of contents) {
+    for (const tag of extractNoteTags(content)) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
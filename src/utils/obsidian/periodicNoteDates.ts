@@ -0,0 +1,188 @@
+/**
+ * @fileoverview Date helpers for periodic notes: resolving natural-language or
+ * explicit period expressions ("last Friday", "Q3 2025", "2025-W27"), computing
+ * period bounds, and formatting dates with moment.js-style tokens.
+ * @module src/utils/obsidian/periodicNoteDates
+ */
+
+import { BaseErrorCode, McpError } from "../../types-global/errors.js";
+import { RequestContext } from "../internal/index.js";
+import { dateParser } from "../parsing/index.js";
+
+/** Periods supported by the Periodic Notes plugin. */
+export type PeriodicNotePeriod =
+  | "daily"
+  | "weekly"
+  | "monthly"
+  | "quarterly"
+  | "yearly";
+
+const MONTH_NAMES = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+const DAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+const pad = (value: number, width = 2) => String(value).padStart(width, "0");
+
+/** Formats a date as YYYY-MM-DD in local time. */
+export const toIsoDay = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/** Monday of the ISO week containing `date`. */
+export function startOfIsoWeek(date: Date): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const offset = (start.getDay() + 6) % 7;
+  start.setDate(start.getDate() - offset);
+  return start;
+}
+
+/** ISO-8601 week number and week-based year of `date`. */
+export function isoWeek(date: Date): { week: number; year: number } {
+  const thursday = startOfIsoWeek(date);
+  thursday.setDate(thursday.getDate() + 3);
+  const firstThursday = startOfIsoWeek(new Date(thursday.getFullYear(), 0, 4));
+  firstThursday.setDate(firstThursday.getDate() + 3);
+  const week =
+    1 +
+    Math.round(
+      (thursday.getTime() - firstThursday.getTime()) / (7 * 24 * 3600 * 1000),
+    );
+  return { week, year: thursday.getFullYear() };
+}
+
+/**
+ * Resolves a date expression to a local calendar day (midnight); empty input means today.
+ * Quarter, ISO week and bare-year forms are handled here because chrono-node does not
+ * understand them; everything else goes through the shared natural-language `dateParser`.
+ */
+export async function resolvePeriodicDate(
+  text: string | undefined,
+  context: RequestContext,
+): Promise<Date> {
+  const input = text?.trim();
+  const now = new Date();
+  if (!input) return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+  const quarterFirst = input.match(/^Q([1-4])(?:[\s-]+(\d{4}))?$/i);
+  const quarterLast = input.match(/^(\d{4})[\s-]*Q([1-4])$/i);
+  if (quarterFirst || quarterLast) {
+    const quarter = Number(quarterFirst ? quarterFirst[1] : quarterLast![2]);
+    const year = Number(
+      quarterFirst ? (quarterFirst[2] ?? now.getFullYear()) : quarterLast![1],
+    );
+    return new Date(year, (quarter - 1) * 3, 1);
+  }
+
+  const weekMatch = input.match(/^(\d{4})-?W(\d{1,2})$/i);
+  if (weekMatch) {
+    const week = Number(weekMatch[2]);
+    if (week < 1 || week > 53) {
+      throw new McpError(
+        BaseErrorCode.VALIDATION_ERROR,
+        `Invalid ISO week '${input}'.`,
+        context,
+      );
+    }
+    const monday = startOfIsoWeek(new Date(Number(weekMatch[1]), 0, 4));
+    monday.setDate(monday.getDate() + (week - 1) * 7);
+    return monday;
+  }
+
+  if (/^\d{4}$/.test(input)) {
+    return new Date(Number(input), 0, 1);
+  }
+
+  const parsed = await dateParser.parseToDate(input, context);
+  if (!parsed) {
+    throw new McpError(
+      BaseErrorCode.VALIDATION_ERROR,
+      `Could not understand the date '${input}'. Try e.g. 'yesterday', 'last Friday', '2025-07-04', 'Q3 2025' or '2025-W27'.`,
+      context,
+    );
+  }
+  return new Date(parsed.getFullYear(), parsed.getMonth(), parsed.getDate());
+}
+
+/** First and last day of the period containing `date`. */
+export function periodBounds(
+  period: PeriodicNotePeriod,
+  date: Date,
+): { start: Date; end: Date } {
+  const year = date.getFullYear();
+  const month = date.getMonth();
+  switch (period) {
+    case "daily":
+      return { start: date, end: date };
+    case "weekly": {
+      const start = startOfIsoWeek(date);
+      const end = new Date(start);
+      end.setDate(start.getDate() + 6);
+      return { start, end };
+    }
+    case "monthly":
+      return {
+        start: new Date(year, month, 1),
+        end: new Date(year, month + 1, 0),
+      };
+    case "quarterly": {
+      const firstMonth = Math.floor(month / 3) * 3;
+      return {
+        start: new Date(year, firstMonth, 1),
+        end: new Date(year, firstMonth + 3, 0),
+      };
+    }
+    case "yearly":
+      return { start: new Date(year, 0, 1), end: new Date(year, 11, 31) };
+  }
+}
+
+/**
+ * Formats a date with the moment.js tokens commonly used in Obsidian templates
+ * (YYYY, YY, Q, MMMM, MMM, MM, M, DD, D, dddd, ddd, GGGG, WW, W, HH, mm).
+ * Text inside square brackets is emitted literally, as in moment.
+ */
+export function formatMomentDate(date: Date, format: string): string {
+  const week = isoWeek(date);
+  const tokens: Record<string, () => string> = {
+    YYYY: () => String(date.getFullYear()),
+    YY: () => pad(date.getFullYear() % 100),
+    GGGG: () => String(week.year),
+    Q: () => String(Math.floor(date.getMonth() / 3) + 1),
+    MMMM: () => MONTH_NAMES[date.getMonth()],
+    MMM: () => MONTH_NAMES[date.getMonth()].slice(0, 3),
+    MM: () => pad(date.getMonth() + 1),
+    M: () => String(date.getMonth() + 1),
+    DD: () => pad(date.getDate()),
+    D: () => String(date.getDate()),
+    dddd: () => DAY_NAMES[date.getDay()],
+    ddd: () => DAY_NAMES[date.getDay()].slice(0, 3),
+    WW: () => pad(week.week),
+    W: () => String(week.week),
+    HH: () => pad(date.getHours()),
+    mm: () => pad(date.getMinutes()),
+  };
+  return format.replace(
+    /\[([^\]]*)\]|YYYY|YY|GGGG|Q|MMMM|MMM|MM|M|DD|D|dddd|ddd|WW|W|HH|mm/g,
+    (match, literal: string | undefined) =>
+      literal !== undefined ? literal : tokens[match](),
+  );
+}
@@ -0,0 +1,106 @@
+/**
+ * @fileoverview Lightweight fuzzy matching used to rank short identifiers
+ * (command ids, note paths, tags) against a user-typed query.
+ * @module src/utils/search/fuzzyMatch
+ */
+
+/**
+ * Result of a successful fuzzy match.
+ */
+export interface FuzzyMatchResult {
+  /** Higher is better. Exact and prefix matches always outrank scattered subsequence matches. */
+  score: number;
+  /** Indices in the candidate string that matched the query characters. */
+  indices: number[];
+}
+
+const WORD_BOUNDARY = /[\s:/_\-.#]/;
+
+/**
+ * Scores `candidate` against `query` as a case-insensitive subsequence match.
+ * Consecutive characters and characters at word boundaries (after space, `:`, `/`,
+ * `-`, `_`, `.` or `#`) earn bonuses; gaps are penalised.
+ *
+ * @param query - The text typed by the user. An empty query matches everything with score 0.
+ * @param candidate - The string to test.
+ * @returns The match result, or `null` if `query` is not a subsequence of `candidate`.
+ */
+export function fuzzyMatch(
+  query: string,
+  candidate: string,
+): FuzzyMatchResult | null {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return { score: 0, indices: [] };
+
+  const haystack = candidate.toLowerCase();
+
+  const substringIndex = haystack.indexOf(needle);
+  if (substringIndex !== -1) {
+    const indices = Array.from(
+      { length: needle.length },
+      (_, offset) => substringIndex + offset,
+    );
+    const atBoundary =
+      substringIndex === 0 || WORD_BOUNDARY.test(haystack[substringIndex - 1]);
+    let score = 100 + needle.length * 4;
+    if (haystack === needle) score += 100;
+    else if (substringIndex === 0) score += 50;
+    else if (atBoundary) score += 25;
+    // Prefer shorter candidates for identical matches.
+    score -= Math.min(haystack.length - needle.length, 40) * 0.5;
+    return { score, indices };
+  }
+
+  const indices: number[] = [];
+  let score = 0;
+  let searchFrom = 0;
+  let previousIndex = -2;
+
+  for (const char of needle) {
+    const index = haystack.indexOf(char, searchFrom);
+    if (index === -1) return null;
+
+    score += 1;
+    if (index === previousIndex + 1) score += 3;
+    if (index === 0 || WORD_BOUNDARY.test(haystack[index - 1])) score += 2;
+    if (previousIndex >= 0)
+      score -= Math.min(index - previousIndex - 1, 5) * 0.25;
+
+    indices.push(index);
+    previousIndex = index;
+    searchFrom = index + 1;
+  }
+
+  return { score, indices };
+}
+
+/**
+ * Filters and ranks `items` by the best fuzzy score across the strings returned by `keys`.
+ *
+ * @param query - The user query. When empty, items are returned in their original order.
+ * @param items - The items to rank.
+ * @param keys - Extracts the searchable strings of an item (e.g. id and display name).
+ * @returns Matching items with their score, best first.
+ */
+export function fuzzyFilter<T>(
+  query: string,
+  items: readonly T[],
+  keys: (item: T) => Array<string | undefined>,
+): Array<{ item: T; score: number }> {
+  const ranked: Array<{ item: T; score: number; order: number }> = [];
+
+  items.forEach((item, order) => {
+    let best: number | null = null;
+    for (const key of keys(item)) {
+      if (!key) continue;
+      const match = fuzzyMatch(query, key);
+      if (match && (best === null || match.score > best)) {
+        best = match.score;
+      }
+    }
+    if (best !== null) ranked.push({ item, score: best, order });
+  });
+
+  ranked.sort((a, b) => b.score - a.score || a.order - b.order);
+  return ranked.map(({ item, score }) => ({ item, score }));
+}
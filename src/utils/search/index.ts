@@ -0,0 +1,4 @@
+/**
+ * Barrel file for search and ranking utilities.
+ */
+export * from "./fuzzyMatch.js";